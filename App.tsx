@@ -10,6 +10,8 @@ import {
   SourceSerif4_700Bold,
 } from '@expo-google-fonts/source-serif-4';
 import { useFonts } from 'expo-font';
+import { activateProfile, loadProfileRegistry } from './src/services/profileService';
+import { setProfileRegistry } from './src/stores/slices/profileSlice';
 
 
 // ✅ SAFE POLYFILL STRATEGY
@@ -24,7 +26,6 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { Provider as ReduxProvider } from 'react-redux';
 import { ThemeProvider } from './src/components/common/ThemeProvider';
 import { RootNavigator } from './src/navigation/RootNavigator';
-import { getPreferenceStorageProvider } from './src/services/preferenceStorageProvider';
 import { getVaultStorageProvider } from './src/services/vaultStorageProvider';
 import { store } from './src/stores';
 import {
@@ -34,10 +35,9 @@ import {
 import {
   logout
 } from './src/stores/slices/authSlice';
-import { setIsExportImportInProgress, setIsImagePickingInProgress, updateSettings } from './src/stores/slices/settingsSlice';
+import { loadProfileSettings, setIsExportImportInProgress, setIsImagePickingInProgress } from './src/stores/slices/settingsSlice';
 
 
-const PreferenceStorageProvider = getPreferenceStorageProvider()
 const VaultStorageProvider = getVaultStorageProvider()
 
 
@@ -47,6 +47,8 @@ function AppContent() {
   
   // Redux state and dispatch - NO CONTEXT DEPENDENCY
   const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const isDecoySession = useAppSelector((state) => state.auth.isDecoySession);
   const settings = useAppSelector((state) => state.settings);
   const dispatch = useAppDispatch();
  const [storageReady, setStorageReady] = useState(false); // 🔑 NEW
@@ -54,17 +56,21 @@ function AppContent() {
   useEffect(() => {
     const initStorage = async () => {
       try {
-        await VaultStorageProvider.initializeStorage();
+        // Open the last used profile's vault and preferences
+        const registry = await loadProfileRegistry();
+        const { registry: activeRegistry, settings: savedSettings } = await activateProfile(
+          registry,
+          registry.activeProfileId
+        );
+        dispatch(setProfileRegistry(activeRegistry));
         console.log('✅ Storage initialized - App ready');
-        
-        // Load preferences from separate storage
-        const savedSettings = await PreferenceStorageProvider.getSettings();
+
         if (savedSettings) {
           console.log('✅ Loaded preferences:', savedSettings);
-          dispatch(updateSettings(savedSettings));
         } else {
           console.log('ℹ️ No saved preferences, using defaults');
         }
+        dispatch(loadProfileSettings(savedSettings));
         
         setStorageReady(true);
       } catch (error) {
@@ -76,6 +82,27 @@ function AppContent() {
     initStorage();
   }, []);
 
+  // 🔑 Run storage migrations that need the Data Key once the vault is unlocked
+  // (vault-wide maintenance is left to the real key, never a decoy session)
+  useEffect(() => {
+    if (!encryptionKey || isDecoySession) return;
+    VaultStorageProvider.migrateWithDataKey(encryptionKey).catch((error) => {
+      console.error('❌ Storage migration failed:', error);
+    });
+  }, [encryptionKey, isDecoySession]);
+
+  // 🗑️ Purge journals that have been in the trash longer than the retention period
+  useEffect(() => {
+    if (!encryptionKey || isDecoySession) return;
+    VaultStorageProvider.purgeTrash(settings.trashRetentionDays, encryptionKey)
+      .then((count) => {
+        if (count > 0) console.log(`🗑️ Purged ${count} journal(s) from trash`);
+      })
+      .catch((error) => {
+        console.error('❌ Trash purge failed:', error);
+      });
+  }, [encryptionKey, isDecoySession, settings.trashRetentionDays]);
+
  useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       console.log(`AppState changed from ${appState.current} to ${nextAppState}`);
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { Button, Dialog, HelperText, Portal, Text, TextInput } from "react-native-paper";
+
+interface DecoyPasswordDialogProps {
+  visible: boolean;
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (password: string) => void;
+}
+
+export const DecoyPasswordDialog: React.FC<DecoyPasswordDialogProps> = ({
+  visible,
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Reset state when dialog opens/closes
+  useEffect(() => {
+    if (visible) {
+      setPassword("");
+      setConfirm("");
+      setIsVisible(false);
+    }
+  }, [visible]);
+
+  const isTooShort = password.length > 0 && password.length < 8;
+  const hasMismatch = password !== confirm && confirm.length > 0;
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>Decoy Password</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
+            Unlocking with this password opens a separate, empty journal instead
+            of yours. Write a few harmless entries there so it looks lived in.
+          </Text>
+
+          <TextInput
+            label="Decoy Password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry={!isVisible}
+            right={
+              <TextInput.Icon
+                icon={isVisible ? "eye-off" : "eye"}
+                onPress={() => setIsVisible(!isVisible)}
+              />
+            }
+            error={isTooShort}
+            style={{ marginBottom: 12 }}
+          />
+
+          <TextInput
+            label="Confirm Decoy Password"
+            value={confirm}
+            onChangeText={setConfirm}
+            secureTextEntry={!isVisible}
+            error={hasMismatch}
+          />
+
+          {isTooShort && (
+            <HelperText type="error">Use at least 8 characters</HelperText>
+          )}
+          {hasMismatch && (
+            <HelperText type="error">Passwords do not match</HelperText>
+          )}
+        </Dialog.Content>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onSubmit(password)}
+            disabled={password.length < 8 || password !== confirm || isSaving}
+            loading={isSaving}
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
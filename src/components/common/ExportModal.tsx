@@ -1,25 +1,26 @@
-import { Journal } from '@/src/types';
-import { format as formatDate, parseISO } from 'date-fns';
+import { ExportFormat } from '@/src/services/exportService';
 import React, { useState } from 'react';
 import { Modal, Pressable, StyleSheet, View } from 'react-native';
 import { Button, Text, useTheme } from 'react-native-paper';
 import { ExportPasswordDialog } from './ExportPasswordDialog';
 
-export type ExportFormat = 'json' | 'pdf' | 'text' | 'encrypted';
+export type { ExportFormat };
 
 interface ExportModalProps {
   visible: boolean;
-  journalsList: Journal[];
-  selectedDate: string;
+  entryCount: number;
+  description: string; // What the current view shows, from describeExportSelection
   onExport: (format: ExportFormat, password?: string) => void;
+  onRefine: () => void; // Open the export builder with the current view
   onClose: () => void;
 }
 
 export const ExportModal: React.FC<ExportModalProps> = ({
   visible,
-  journalsList,
-  selectedDate,
+  entryCount,
+  description,
   onExport,
+  onRefine,
   onClose,
 }) => {
   const theme = useTheme();
@@ -43,9 +44,6 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     onExport('encrypted', password);
   };
 
-  const entryCount = journalsList.length;
-  const dateLabel = selectedDate ? formatDate(parseISO(selectedDate), 'MMMM dd, yyyy') : 'Selected Date';
-
   return (
     <>
       {/* 1. SELECTION MODAL */}
@@ -55,7 +53,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
             
             <Text variant="titleLarge" style={styles.title}>Export Memories</Text>
             <Text variant="bodyMedium" style={[styles.message, { color: theme.colors.onSurfaceVariant }]}>
-              {`Export ${entryCount} journal${entryCount === 1 ? '' : 's'} for \n${dateLabel}?`}
+              {`Export ${entryCount} journal${entryCount === 1 ? '' : 's'}?\n${description}`}
             </Text>
             
           
@@ -99,7 +97,16 @@ export const ExportModal: React.FC<ExportModalProps> = ({
               </Button>
             </View>
             
-            <Button mode="text" onPress={handleClose} style={{ marginTop: 8 }}>
+            <Button
+              mode="text"
+              icon="filter-variant"
+              onPress={() => { onClose(); onRefine(); }}
+              style={{ marginTop: 8 }}
+            >
+              Refine Selection
+            </Button>
+
+            <Button mode="text" onPress={handleClose}>
               Cancel
             </Button>
 
@@ -4,12 +4,18 @@ import { Button, Dialog, HelperText, Portal, Text, TextInput } from "react-nativ
 
 interface ExportPasswordDialogProps {
   visible: boolean;
+  title?: string;
+  message?: string;
+  submitLabel?: string;
   onDismiss: () => void;
   onSubmit: (password: string) => void;
 }
 
 export const ExportPasswordDialog: React.FC<ExportPasswordDialogProps> = ({
   visible,
+  title = "Encrypt Backup",
+  message = "Set a password for this export. You will need it to import the file later.",
+  submitLabel = "Export",
   onDismiss,
   onSubmit,
 }) => {
@@ -44,10 +50,10 @@ export const ExportPasswordDialog: React.FC<ExportPasswordDialogProps> = ({
   return (
     <Portal>
       <Dialog visible={visible} onDismiss={onDismiss}>
-        <Dialog.Title>Encrypt Backup</Dialog.Title>
+        <Dialog.Title>{title}</Dialog.Title>
         <Dialog.Content>
           <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
-            Set a password for this export. You will need it to import the file later.
+            {message}
           </Text>
 
           <TextInput
@@ -83,7 +89,7 @@ export const ExportPasswordDialog: React.FC<ExportPasswordDialogProps> = ({
             onPress={handleSubmit} 
             disabled={!password || hasMismatch}
           >
-            Export
+            {submitLabel}
           </Button>
         </Dialog.Actions>
       </Dialog>
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { ScrollView } from "react-native";
+import { Button, Dialog, Portal, Text, TextInput } from "react-native-paper";
+
+interface KeyRotationDialogProps {
+  visible: boolean;
+  questions: string[];
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (password: string, answers: string[]) => void;
+}
+
+/**
+ * Asks for the password and security answers needed to re-wrap a new Data Key
+ */
+export const KeyRotationDialog: React.FC<KeyRotationDialogProps> = ({
+  visible,
+  questions,
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [password, setPassword] = useState("");
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Reset state when dialog opens/closes
+  useEffect(() => {
+    if (visible) {
+      setPassword("");
+      setAnswers(questions.map(() => ""));
+      setIsVisible(false);
+    }
+  }, [visible, questions]);
+
+  const setAnswer = (index: number, value: string) => {
+    setAnswers((current) => current.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  const isComplete =
+    password.length > 0 &&
+    answers.length === questions.length &&
+    answers.every((answer) => answer.trim().length > 0);
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>Rotate Encryption Key</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={{ paddingVertical: 12 }}>
+            <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
+              All journals are re-encrypted with a new key. You will get a new
+              recovery key, and biometric unlock has to be turned on again.
+            </Text>
+
+            <TextInput
+              label="Current Password"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry={!isVisible}
+              right={
+                <TextInput.Icon
+                  icon={isVisible ? "eye-off" : "eye"}
+                  onPress={() => setIsVisible(!isVisible)}
+                />
+              }
+              style={{ marginBottom: 12 }}
+            />
+
+            {questions.map((question, index) => (
+              <TextInput
+                key={question}
+                label={question}
+                value={answers[index] ?? ""}
+                onChangeText={(value) => setAnswer(index, value)}
+                autoCapitalize="none"
+                style={{ marginBottom: 12 }}
+              />
+            ))}
+          </ScrollView>
+        </Dialog.ScrollArea>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onSubmit(password, answers)}
+            disabled={!isComplete || isSaving}
+            loading={isSaving}
+          >
+            Rotate
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
@@ -0,0 +1,38 @@
+import React from "react";
+import { Dialog, Portal, ProgressBar, Text } from "react-native-paper";
+import { KeyRotationProgress } from "@/src/types";
+
+interface KeyRotationProgressDialogProps {
+  progress: KeyRotationProgress | null;
+}
+
+/**
+ * Non-dismissable progress while journals move to a new Data Key
+ */
+export const KeyRotationProgressDialog: React.FC<KeyRotationProgressDialogProps> = ({
+  progress,
+}) => {
+  const isFinishing = progress?.phase === "finishing";
+  const fraction =
+    progress && progress.total > 0 ? Math.min(progress.processed / progress.total, 1) : 0;
+
+  return (
+    <Portal>
+      <Dialog visible={progress !== null} dismissable={false}>
+        <Dialog.Title>Re-encrypting Journals</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
+            {isFinishing
+              ? "Updating history and search index..."
+              : `${progress?.processed ?? 0} of ${progress?.total ?? 0} entries`}
+          </Text>
+          <ProgressBar progress={isFinishing ? 1 : fraction} indeterminate={isFinishing} />
+          <Text variant="bodySmall" style={{ marginTop: 12 }}>
+            You can keep the app open or lock it - unfinished work continues at the next
+            unlock.
+          </Text>
+        </Dialog.Content>
+      </Dialog>
+    </Portal>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from "react";
+import { Button, Dialog, Portal, Text, TextInput } from "react-native-paper";
+
+interface PasswordPromptDialogProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  submitLabel: string;
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (password: string) => void;
+}
+
+/**
+ * Asks for the current password before a sensitive action
+ */
+export const PasswordPromptDialog: React.FC<PasswordPromptDialogProps> = ({
+  visible,
+  title,
+  message,
+  submitLabel,
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [password, setPassword] = useState("");
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Reset state when dialog opens/closes
+  useEffect(() => {
+    if (visible) {
+      setPassword("");
+      setIsVisible(false);
+    }
+  }, [visible]);
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          {message && (
+            <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
+              {message}
+            </Text>
+          )}
+          <TextInput
+            label="Current Password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry={!isVisible}
+            right={
+              <TextInput.Icon
+                icon={isVisible ? "eye-off" : "eye"}
+                onPress={() => setIsVisible(!isVisible)}
+              />
+            }
+          />
+        </Dialog.Content>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onSubmit(password)}
+            disabled={password.length === 0 || isSaving}
+            loading={isSaving}
+          >
+            {submitLabel}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
@@ -0,0 +1,57 @@
+import APP_CONFIG from "@/src/config/appConfig";
+import React, { useEffect, useState } from "react";
+import { Button, Dialog, Portal, TextInput } from "react-native-paper";
+
+interface ProfileNameDialogProps {
+  visible: boolean;
+  title: string;
+  initialName?: string;
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (name: string) => void;
+}
+
+export const ProfileNameDialog: React.FC<ProfileNameDialogProps> = ({
+  visible,
+  title,
+  initialName = "",
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [name, setName] = useState(initialName);
+
+  // Reset state when dialog opens
+  useEffect(() => {
+    if (visible) setName(initialName);
+  }, [visible, initialName]);
+
+  const canSave = name.trim().length > 0 && !isSaving;
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Profile Name"
+            value={name}
+            onChangeText={setName}
+            maxLength={APP_CONFIG.MAX_PROFILE_NAME_LENGTH}
+            autoFocus
+            onSubmitEditing={() => canSave && onSubmit(name)}
+          />
+        </Dialog.Content>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onPress={() => onSubmit(name)} disabled={!canSave} loading={isSaving}>
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
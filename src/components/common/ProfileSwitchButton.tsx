@@ -0,0 +1,29 @@
+import { useProfiles } from "@/src/hooks/useProfiles";
+import React from "react";
+import { Button } from "react-native-paper";
+
+interface ProfileSwitchButtonProps {
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows whose vault the unlock screen is for and opens the profile picker
+ */
+export const ProfileSwitchButton: React.FC<ProfileSwitchButtonProps> = ({ onPress, disabled }) => {
+  const { activeProfile } = useProfiles();
+
+  if (!activeProfile) return null;
+
+  return (
+    <Button
+      mode="text"
+      icon="account-switch-outline"
+      onPress={onPress}
+      disabled={disabled}
+      style={{ alignSelf: "center", marginTop: 8 }}
+    >
+      {activeProfile.name}
+    </Button>
+  );
+};
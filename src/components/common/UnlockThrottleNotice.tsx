@@ -0,0 +1,38 @@
+import React from "react";
+import { HelperText } from "react-native-paper";
+import { formatLockoutRemaining } from "@/src/services/lockoutService";
+
+interface UnlockThrottleNoticeProps {
+  isLocked: boolean;
+  remainingMs: number;
+  failedAttempts: number;
+  attemptsBeforeWipe: number | null;
+}
+
+/**
+ * Countdown and wipe warning shown under unlock buttons
+ */
+export const UnlockThrottleNotice: React.FC<UnlockThrottleNoticeProps> = ({
+  isLocked,
+  remainingMs,
+  failedAttempts,
+  attemptsBeforeWipe,
+}) => {
+  if (failedAttempts === 0 && !isLocked) return null;
+
+  return (
+    <>
+      {isLocked && (
+        <HelperText type="error" style={{ textAlign: "center" }}>
+          Too many failed attempts. Try again in {formatLockoutRemaining(remainingMs)}
+        </HelperText>
+      )}
+      {attemptsBeforeWipe !== null && (
+        <HelperText type="error" style={{ textAlign: "center" }}>
+          ⚠️ {attemptsBeforeWipe} more failed attempt{attemptsBeforeWipe === 1 ? "" : "s"} will
+          erase this vault
+        </HelperText>
+      )}
+    </>
+  );
+};
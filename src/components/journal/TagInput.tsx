@@ -0,0 +1,141 @@
+// src/components/journal/TagInput.tsx
+/**
+ * Tag Input Component
+ * Lets the user attach free-form tags to a journal entry.
+ * Tags are committed on space, comma or submit, and shown as removable chips.
+ */
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Chip, Text, TextInput, useTheme } from 'react-native-paper';
+import { formatTag, normalizeTags, parseTagInput } from '../../utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChangeTags: (tags: string[]) => void;
+  suggestions?: string[];
+  label?: string;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  onChangeTags,
+  suggestions = [],
+  label = 'Tags',
+}) => {
+  const theme = useTheme();
+  const [draft, setDraft] = useState('');
+
+  const commitDraft = (text: string) => {
+    const parsed = parseTagInput(text);
+    if (parsed.length > 0) {
+      onChangeTags(normalizeTags([...tags, ...parsed]));
+    }
+    setDraft('');
+  };
+
+  const handleChangeText = (text: string) => {
+    // Commit as soon as a separator is typed
+    if (/[,\s]$/.test(text)) {
+      commitDraft(text);
+    } else {
+      setDraft(text);
+    }
+  };
+
+  const handleRemove = (tag: string) => {
+    onChangeTags(tags.filter((t) => t !== tag));
+  };
+
+  const draftPrefix = draft.trim().replace(/^#+/, '').toLowerCase();
+  const visibleSuggestions = suggestions
+    .filter((s) => !tags.includes(s) && (!draftPrefix || s.startsWith(draftPrefix)))
+    .slice(0, 6);
+
+  return (
+    <View style={styles.container}>
+      <Text variant="titleSmall" style={[styles.label, { color: theme.colors.onSurface }]}>
+        {label}
+      </Text>
+
+      {tags.length > 0 && (
+        <View style={styles.chipRow}>
+          {tags.map((tag) => (
+            <Chip
+              key={tag}
+              compact
+              onClose={() => handleRemove(tag)}
+              style={styles.chip}
+              textStyle={styles.chipText}
+            >
+              {formatTag(tag)}
+            </Chip>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        placeholder="Add a tag..."
+        value={draft}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => commitDraft(draft)}
+        onBlur={() => commitDraft(draft)}
+        mode="flat"
+        dense
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        underlineColor="transparent"
+        activeUnderlineColor={theme.colors.primary}
+        style={styles.input}
+        left={<TextInput.Icon icon="tag-outline" size={18} />}
+      />
+
+      {visibleSuggestions.length > 0 && (
+        <View style={styles.chipRow}>
+          {visibleSuggestions.map((tag) => (
+            <Chip
+              key={tag}
+              compact
+              mode="outlined"
+              icon="plus"
+              onPress={() => {
+                onChangeTags(normalizeTags([...tags, tag]));
+                setDraft('');
+              }}
+              style={styles.chip}
+              textStyle={styles.chipText}
+            >
+              {tag}
+            </Chip>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    borderRadius: 14,
+  },
+  chipText: {
+    fontSize: 12,
+  },
+  input: {
+    backgroundColor: 'transparent',
+    paddingHorizontal: 0,
+  },
+});
@@ -0,0 +1,109 @@
+import APP_CONFIG from "@/src/config/appConfig";
+import { NotebookFields } from "@/src/services/notebookService";
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { Button, Dialog, IconButton, Portal, Text, TextInput, useTheme } from "react-native-paper";
+
+interface NotebookDialogProps {
+  visible: boolean;
+  title: string;
+  initial?: NotebookFields;
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (fields: NotebookFields) => void;
+}
+
+export const NotebookDialog: React.FC<NotebookDialogProps> = ({
+  visible,
+  title,
+  initial,
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const theme = useTheme();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(APP_CONFIG.NOTEBOOK_COLORS[0]);
+  const [icon, setIcon] = useState(APP_CONFIG.NOTEBOOK_ICONS[0]);
+
+  // Reset state when dialog opens
+  useEffect(() => {
+    if (visible) {
+      setName(initial?.name ?? "");
+      setColor(initial?.color ?? APP_CONFIG.NOTEBOOK_COLORS[0]);
+      setIcon(initial?.icon ?? APP_CONFIG.NOTEBOOK_ICONS[0]);
+    }
+  }, [visible, initial]);
+
+  const canSave = name.trim().length > 0 && !isSaving;
+  const submit = () => canSave && onSubmit({ name, color, icon });
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Notebook Name"
+            value={name}
+            onChangeText={setName}
+            maxLength={APP_CONFIG.MAX_NOTEBOOK_NAME_LENGTH}
+            autoFocus
+            onSubmitEditing={submit}
+          />
+
+          <Text variant="labelLarge" style={styles.label}>
+            Colour
+          </Text>
+          <View style={styles.row}>
+            {APP_CONFIG.NOTEBOOK_COLORS.map((option) => (
+              <IconButton
+                key={option}
+                icon={option === color ? "check-circle" : "circle"}
+                iconColor={option}
+                size={28}
+                onPress={() => setColor(option)}
+                accessibilityLabel={`Colour ${option}`}
+              />
+            ))}
+          </View>
+
+          <Text variant="labelLarge" style={styles.label}>
+            Icon
+          </Text>
+          <View style={styles.row}>
+            {APP_CONFIG.NOTEBOOK_ICONS.map((option) => (
+              <IconButton
+                key={option}
+                icon={option}
+                mode={option === icon ? "contained" : undefined}
+                iconColor={option === icon ? color : theme.colors.onSurfaceVariant}
+                onPress={() => setIcon(option)}
+                accessibilityLabel={`Icon ${option}`}
+              />
+            ))}
+          </View>
+        </Dialog.Content>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onPress={submit} disabled={!canSave} loading={isSaving}>
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+});
@@ -0,0 +1,127 @@
+import APP_CONFIG from "@/src/config/appConfig";
+import React, { useEffect, useState } from "react";
+import { Button, Dialog, HelperText, Portal, Text, TextInput } from "react-native-paper";
+
+interface NotebookPassphraseDialogProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  askCurrent: boolean; // Current passphrase (unlock, change, remove)
+  askNew: boolean; // New passphrase + confirmation (set, change)
+  isSaving: boolean;
+  onDismiss: () => void;
+  onSubmit: (current: string, next: string) => void;
+}
+
+export const NotebookPassphraseDialog: React.FC<NotebookPassphraseDialogProps> = ({
+  visible,
+  title,
+  message,
+  askCurrent,
+  askNew,
+  isSaving,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Reset state when dialog opens/closes
+  useEffect(() => {
+    if (visible) {
+      setCurrent("");
+      setNext("");
+      setConfirm("");
+      setIsVisible(false);
+    }
+  }, [visible]);
+
+  const minLength = APP_CONFIG.MIN_NOTEBOOK_PASSPHRASE_LENGTH;
+  const isTooShort = askNew && next.length > 0 && next.length < minLength;
+  const hasMismatch = askNew && next !== confirm && confirm.length > 0;
+  const canSubmit =
+    !isSaving &&
+    (!askCurrent || current.length > 0) &&
+    (!askNew || (next.length >= minLength && next === confirm));
+
+  const submit = () => canSubmit && onSubmit(current, next);
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          {message && (
+            <Text variant="bodyMedium" style={{ marginBottom: 12 }}>
+              {message}
+            </Text>
+          )}
+
+          {askCurrent && (
+            <TextInput
+              label={askNew ? "Current Passphrase" : "Passphrase"}
+              value={current}
+              onChangeText={setCurrent}
+              secureTextEntry={!isVisible}
+              autoFocus
+              onSubmitEditing={askNew ? undefined : submit}
+              right={
+                <TextInput.Icon
+                  icon={isVisible ? "eye-off" : "eye"}
+                  onPress={() => setIsVisible(!isVisible)}
+                />
+              }
+              style={{ marginBottom: 12 }}
+            />
+          )}
+
+          {askNew && (
+            <>
+              <TextInput
+                label="New Passphrase"
+                value={next}
+                onChangeText={setNext}
+                secureTextEntry={!isVisible}
+                autoFocus={!askCurrent}
+                right={
+                  askCurrent ? undefined : (
+                    <TextInput.Icon
+                      icon={isVisible ? "eye-off" : "eye"}
+                      onPress={() => setIsVisible(!isVisible)}
+                    />
+                  )
+                }
+                error={isTooShort}
+                style={{ marginBottom: 12 }}
+              />
+
+              <TextInput
+                label="Confirm Passphrase"
+                value={confirm}
+                onChangeText={setConfirm}
+                secureTextEntry={!isVisible}
+                error={hasMismatch}
+              />
+
+              {isTooShort && (
+                <HelperText type="error">Use at least {minLength} characters</HelperText>
+              )}
+              {hasMismatch && <HelperText type="error">Passphrases do not match</HelperText>}
+            </>
+          )}
+        </Dialog.Content>
+
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onPress={submit} disabled={!canSubmit} loading={isSaving}>
+            {askNew ? "Save" : "Continue"}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
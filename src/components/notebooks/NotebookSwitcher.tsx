@@ -0,0 +1,113 @@
+import { useNotebooks } from "@/src/hooks/useNotebooks";
+import { Notebook } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+import React, { useEffect, useState } from "react";
+import { ScrollView, StyleSheet } from "react-native";
+import { Chip, useTheme } from "react-native-paper";
+import { NotebookPassphraseDialog } from "./NotebookPassphraseDialog";
+
+interface NotebookSwitcherProps {
+  onManage: () => void;
+}
+
+/**
+ * Chip row for picking the notebook shown on the journal screens
+ * Protected notebooks ask for their passphrase the first time they are opened.
+ */
+export const NotebookSwitcher: React.FC<NotebookSwitcherProps> = ({ onManage }) => {
+  const theme = useTheme();
+  const { notebooks, activeNotebook, isUnlocked, refresh, selectNotebook, unlock } =
+    useNotebooks();
+
+  const [unlocking, setUnlocking] = useState<Notebook | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    refresh().catch((error) => console.error("Error loading notebooks:", error));
+  }, [refresh]);
+
+  const handlePress = (notebook: Notebook) => {
+    if (!isUnlocked(notebook)) {
+      setUnlocking(notebook);
+      return;
+    }
+    selectNotebook(notebook.id);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!unlocking) return;
+    setIsBusy(true);
+    try {
+      await unlock(unlocking, passphrase);
+      selectNotebook(unlocking.id);
+      setUnlocking(null);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Could not unlock notebook");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+      >
+        <Chip
+          icon="book-multiple-outline"
+          selected={activeNotebook === null}
+          showSelectedOverlay
+          onPress={() => selectNotebook(null)}
+          style={styles.chip}
+        >
+          All
+        </Chip>
+
+        {notebooks.map((notebook) => (
+          <Chip
+            key={notebook.id}
+            icon={isUnlocked(notebook) ? notebook.icon : "lock-outline"}
+            selected={activeNotebook?.id === notebook.id}
+            showSelectedOverlay
+            onPress={() => handlePress(notebook)}
+            style={[styles.chip, { borderColor: notebook.color, borderWidth: 1 }]}
+            selectedColor={notebook.color}
+          >
+            {notebook.name}
+          </Chip>
+        ))}
+
+        <Chip
+          icon="cog-outline"
+          onPress={onManage}
+          style={[styles.chip, { backgroundColor: theme.colors.elevation.level1 }]}
+          accessibilityLabel="Manage notebooks"
+        >
+          {notebooks.length === 0 ? "Notebooks" : "Manage"}
+        </Chip>
+      </ScrollView>
+
+      <NotebookPassphraseDialog
+        visible={unlocking !== null}
+        title={`Unlock ${unlocking?.name ?? "Notebook"}`}
+        askCurrent
+        askNew={false}
+        isSaving={isBusy}
+        onDismiss={() => setUnlocking(null)}
+        onSubmit={(current) => handleUnlock(current)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    borderRadius: 16,
+  },
+});
@@ -446,6 +446,230 @@ export const PDF_EXPORT_STYLESHEET  = `
         font-weight: 600;
         color: #2e7d32;
       }
+
+      .entry-tags {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        margin-bottom: 12px;
+      }
+
+      .tag-chip {
+        background: #e3f2fd;
+        color: #1565c0;
+        padding: 4px 10px;
+        border-radius: 12px;
+        font-size: 11px;
+        font-weight: 600;
+      }
+    }
+  </style>
+`
+/**
+ * Page sizes in points (72 per inch), as expo-print takes them
+ */
+export const PDF_PAPER_SIZES = {
+  a4: { label: 'A4', width: 595, height: 842, css: 'A4' },
+  a5: { label: 'A5', width: 420, height: 595, css: 'A5' },
+  letter: { label: 'Letter', width: 612, height: 792, css: 'letter' },
+} as const;
+
+/**
+ * Additions for the layout options, keyed by the classes on <body>:
+ *   template-<template>, font-<size>, images-<placement>
+ * The entry-per-page template is the base stylesheet as it is.
+ */
+export const PDF_TEMPLATE_STYLESHEET = `
+ <style>
+    /* Font sizes (medium is the base stylesheet) */
+    .font-small .entry-content { font-size: 11px; }
+    .font-small .entry-title { font-size: 15px; }
+    .font-large .entry-content { font-size: 16px; line-height: 1.7; }
+    .font-large .entry-title { font-size: 22px; }
+
+    /* Image placement */
+    .images-full-width .images-grid,
+    .images-full-width .images-grid.single {
+      grid-template-columns: 1fr;
+    }
+
+    .images-full-width .entry-image {
+      max-height: 520px;
+    }
+
+    /* Book: cover, table of contents, entries set like chapters */
+    .template-book {
+      font-family: Georgia, 'Times New Roman', serif;
+    }
+
+    .template-book .cover {
+      text-align: center;
+      padding-top: 35%;
+      page-break-after: always;
+      break-after: page;
+    }
+
+    .template-book .cover h1 {
+      font-size: 36px;
+      font-weight: 400;
+      letter-spacing: 1px;
+      margin-bottom: 12px;
+    }
+
+    .template-book .cover p {
+      font-size: 13px;
+      color: #5f6368;
+      margin-top: 6px;
+    }
+
+    .template-book .toc {
+      page-break-after: always;
+      break-after: page;
+    }
+
+    .template-book .toc h2 {
+      font-size: 22px;
+      font-weight: 400;
+      margin-bottom: 16px;
+    }
+
+    .template-book .toc-month {
+      font-size: 12px;
+      font-weight: 700;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: #5f6368;
+      margin: 14px 0 6px;
+    }
+
+    .template-book .toc-entry {
+      display: flex;
+      gap: 12px;
+      font-size: 12px;
+      padding: 3px 0;
+      border-bottom: 1px dotted #dadce0;
+    }
+
+    .template-book .toc-entry a {
+      color: #1f1f1f;
+      text-decoration: none;
+    }
+
+    .template-book .toc-date {
+      width: 90px;
+      flex-shrink: 0;
+      color: #5f6368;
+    }
+
+    .template-book .journal-entry {
+      border: none;
+      box-shadow: none;
+      padding: 0;
+    }
+
+    .template-book .entry-header {
+      border-bottom: none;
+      justify-content: center;
+      text-align: center;
+    }
+
+    .template-book .entry-index {
+      display: none;
+    }
+
+    .template-book .entry-title {
+      text-align: center;
+      font-weight: 400;
+    }
+
+    .template-book .entry-mood,
+    .template-book .entry-tags {
+      justify-content: center;
+    }
+
+    .template-book .entry-content {
+      font-family: Georgia, 'Times New Roman', serif;
+      text-align: justify;
+    }
+
+    .template-book .entry-footer {
+      display: none;
+    }
+
+    /* Daily log: one dated row per entry, no page breaks */
+    .template-daily-log .entries-container {
+      gap: 0;
+    }
+
+    .template-daily-log .log-entry {
+      display: flex;
+      gap: 14px;
+      padding: 8px 0;
+      border-bottom: 1px solid #e8e8e8;
+      page-break-inside: avoid;
+      break-inside: avoid-page;
+    }
+
+    .template-daily-log .log-date {
+      width: 78px;
+      flex-shrink: 0;
+      font-size: 11px;
+      font-weight: 600;
+      color: #1a73e8;
+    }
+
+    .template-daily-log .log-time {
+      display: block;
+      font-weight: 400;
+      color: #9aa0a6;
+    }
+
+    .template-daily-log .log-body {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .template-daily-log .log-title {
+      font-size: 13px;
+      font-weight: 700;
+      margin-bottom: 2px;
+    }
+
+    .template-daily-log .log-meta {
+      font-size: 10px;
+      color: #5f6368;
+      margin-bottom: 4px;
+    }
+
+    .template-daily-log .entry-content {
+      font-size: 12px;
+      margin-bottom: 4px;
+    }
+
+    .template-daily-log.font-small .entry-content { font-size: 10px; }
+    .template-daily-log.font-large .entry-content { font-size: 14px; }
+
+    .template-daily-log .images-section {
+      margin-top: 4px;
+      padding-top: 0;
+      border-top: none;
+    }
+
+    .template-daily-log .images-grid {
+      grid-template-columns: repeat(4, 1fr);
+      gap: 6px;
+    }
+
+    .template-daily-log .entry-image {
+      max-height: 90px;
+    }
+
+    .template-daily-log.images-full-width .images-grid {
+      grid-template-columns: 1fr;
+    }
+
+    .template-daily-log.images-full-width .entry-image {
+      max-height: 320px;
     }
   </style>
-`
\ No newline at end of file
+`
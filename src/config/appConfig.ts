@@ -19,10 +19,79 @@ const APP_NAME_PACKAGE = 'enchronofy'; // lowercase, no separators for package n
 
 const IS_DEVELOPMENT:boolean = false ;
 const KDF_ITERATIONS =  IS_DEVELOPMENT? 10 : 100999 ;// NIST recommended: 100,000+
+// Argon2id cost parameters (OWASP baseline: m=19 MiB, t=2, p=1)
+const ARGON2_MEMORY_KIB = IS_DEVELOPMENT ? 1024 : 19456;
+const ARGON2_ITERATIONS = IS_DEVELOPMENT ? 1 : 2;
+const ARGON2_PARALLELISM = 1;
+// Hermes runs the pure-JS Argon2id several times slower than a browser, so
+// native wraps use less memory (m=12 MiB); each wrap records its own costs
+const ARGON2_NATIVE_MEMORY_KIB = IS_DEVELOPMENT ? 1024 : 12288;
+const ARGON2_NATIVE_ITERATIONS = IS_DEVELOPMENT ? 1 : 2;
+// Range accepted for Argon2id costs read from a file, before anything is derived
+const ARGON2_MIN_MEMORY_KIB = 1024;
+const ARGON2_MAX_MEMORY_KIB = 64 * 1024;
+const ARGON2_MAX_ITERATIONS = 8;
+const ARGON2_MAX_PARALLELISM = 4;
 const SALT_SIZE = 32; // 256 bits
 const DK_SIZE = 32; // 256 bits for AES-256
 const IV_SIZE = 12; // 96 bits for GCM
 const STORAGE_KEY_PREFIX = `pro_corelogik_journal_app`;
+const JOURNAL_PAGE_SIZE = 30; // Journals decrypted per list page
+const MAX_REVISIONS_PER_JOURNAL = 25; // Older revisions are pruned on save
+const REVISION_RETENTION_DAYS = 180;
+const KEY_ROTATION_BATCH_SIZE = 25; // Journals re-sealed between progress checkpoints
+
+// Automatic backups run at unlock; failed attempts are retried after the delay
+const BACKUP_RETRY_DELAY_MS = 60 * 60 * 1000;
+const BACKUP_REMINDER_GRACE_DAYS = 2; // Remind when a backup is this overdue
+
+// Incremental backups: a new full archive after this many deltas
+const BACKUP_ARCHIVE_VERSION = 2;
+const BACKUP_DELTAS_PER_CHAIN = 6;
+const BACKUP_BLOB_CHUNK_SIZE = 64 * 1024; // base64 characters per image chunk
+
+// Streamed encrypted exports: sealed and written a chunk at a time
+const BACKUP_STREAM_VERSION = 1;
+const BACKUP_STREAM_CHUNK_SIZE = 512 * 1024; // Plaintext characters per sealed chunk (at least one journal)
+const BACKUP_STREAM_READ_SIZE = 256 * 1024; // Bytes read from disk at a time on import
+
+// Import log: imports remembered in the vault (only the last can be undone)
+const IMPORT_LOG_LIMIT = 20;
+
+// End-to-end encrypted sync
+const SYNC_FORMAT_VERSION = 2; // 2: entries carry their id and a sequence number
+const MIN_SYNC_PASSPHRASE_LENGTH = 8;
+const SYNC_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// Device-to-device transfer over the local network (QR pairing)
+const TRANSFER_PROTOCOL_VERSION = 1;
+const TRANSFER_BATCH_SIZE = 10; // Journals per sealed message (images make them large)
+const TRANSFER_INVITE_TTL_MS = 10 * 60 * 1000; // The QR code stops working after this
+const TRANSFER_IDLE_TIMEOUT_MS = 60 * 1000; // Gives up when the other device goes quiet
+
+// Unlock throttling: attempts beyond the free ones wait BASE * 2^n, capped at MAX
+const LOCKOUT_FREE_ATTEMPTS = 3;
+const LOCKOUT_BASE_DELAY_MS = 30 * 1000;
+const LOCKOUT_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Notebook appearance choices
+const NOTEBOOK_COLORS = ['#5C6BC0', '#26A69A', '#EF5350', '#FFA726', '#AB47BC', '#8D6E63', '#78909C'];
+const NOTEBOOK_ICONS = [
+  'notebook-outline',
+  'briefcase-outline',
+  'weather-night',
+  'heart-outline',
+  'sprout-outline',
+  'airplane',
+  'lightbulb-outline',
+];
+const MAX_NOTEBOOK_NAME_LENGTH = 32;
+const MIN_NOTEBOOK_PASSPHRASE_LENGTH = 4;
+
+// Profiles: the default profile keeps the original (un-suffixed) storage names
+const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = 'Default';
+const MAX_PROFILE_NAME_LENGTH = 32;
 
 const LOCK_TIMEOUT_OPTIONS = [
   { label: '1 Minute', value: 60000 },
@@ -32,6 +101,38 @@ const LOCK_TIMEOUT_OPTIONS = [
   { label: '1 Hour', value: 3600000 },
 ];
 
+// Days a trashed journal is kept before it is purged
+const TRASH_RETENTION_OPTIONS = [
+  { label: '7 Days', value: 7 },
+  { label: '14 Days', value: 14 },
+  { label: '30 Days', value: 30 },
+  { label: '60 Days', value: 60 },
+  { label: '90 Days', value: 90 },
+];
+
+// Days between automatic backups (0 = off)
+const BACKUP_INTERVAL_OPTIONS = [
+  { label: 'Off', value: 0 },
+  { label: 'Daily', value: 1 },
+  { label: 'Weekly', value: 7 },
+];
+
+// Automatic backup files kept in the backup folder; older ones are deleted
+const BACKUP_KEEP_OPTIONS = [
+  { label: '3 Backups', value: 3 },
+  { label: '5 Backups', value: 5 },
+  { label: '10 Backups', value: 10 },
+  { label: '30 Backups', value: 30 },
+];
+
+// Failed unlock attempts before the vault is wiped (0 = never)
+const WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS = [
+  { label: 'Never', value: 0 },
+  { label: '10 Attempts', value: 10 },
+  { label: '15 Attempts', value: 15 },
+  { label: '20 Attempts', value: 20 },
+];
+
 export const APP_CONFIG = {
 
   IS_DEVELOPMENT,
@@ -48,19 +149,73 @@ export const APP_CONFIG = {
   // we want to make db name independent of app name
   SQLITE_VAULT_DB_NAME: `pro.corelogik.journal_app.db`, 
 
+  // Device-level profile registry (shared by all profiles)
+  SQLITE_PROFILES_DB_NAME: `pro.corelogik.profiles.db`,
+
   APP_TAGLINE:`Your Vault for Feelings, thoughts, Emotions and Memories`,
 
   // Storage key prefix - used for AsyncStorage and other storage mechanisms
   STORAGE_KEY_PREFIX, // e.g., "@d_journal_hub"
 
   KDF_ITERATIONS ,
+  ARGON2_MEMORY_KIB,
+  ARGON2_ITERATIONS,
+  ARGON2_PARALLELISM,
+  ARGON2_NATIVE_MEMORY_KIB,
+  ARGON2_NATIVE_ITERATIONS,
+  ARGON2_MIN_MEMORY_KIB,
+  ARGON2_MAX_MEMORY_KIB,
+  ARGON2_MAX_ITERATIONS,
+  ARGON2_MAX_PARALLELISM,
   SALT_SIZE ,
   DK_SIZE ,
   IV_SIZE ,
 
   LOCK_TIMEOUT_OPTIONS, 
+  TRASH_RETENTION_OPTIONS,
+  WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS,
+  BACKUP_INTERVAL_OPTIONS,
+  BACKUP_KEEP_OPTIONS,
+  NOTEBOOK_COLORS,
+  NOTEBOOK_ICONS,
+  MAX_NOTEBOOK_NAME_LENGTH,
+  MIN_NOTEBOOK_PASSPHRASE_LENGTH,
+
+  JOURNAL_PAGE_SIZE,
+  MAX_REVISIONS_PER_JOURNAL,
+  REVISION_RETENTION_DAYS,
+  KEY_ROTATION_BATCH_SIZE,
+  BACKUP_RETRY_DELAY_MS,
+  BACKUP_REMINDER_GRACE_DAYS,
+  BACKUP_ARCHIVE_VERSION,
+  BACKUP_DELTAS_PER_CHAIN,
+  BACKUP_BLOB_CHUNK_SIZE,
+  BACKUP_STREAM_VERSION,
+  BACKUP_STREAM_CHUNK_SIZE,
+  BACKUP_STREAM_READ_SIZE,
+  IMPORT_LOG_LIMIT,
+  SYNC_FORMAT_VERSION,
+  MIN_SYNC_PASSPHRASE_LENGTH,
+  SYNC_REQUEST_TIMEOUT_MS,
+  TRANSFER_PROTOCOL_VERSION,
+  TRANSFER_BATCH_SIZE,
+  TRANSFER_INVITE_TTL_MS,
+  TRANSFER_IDLE_TIMEOUT_MS,
+
+  LOCKOUT_FREE_ATTEMPTS,
+  LOCKOUT_BASE_DELAY_MS,
+  LOCKOUT_MAX_DELAY_MS,
+
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_NAME,
+  MAX_PROFILE_NAME_LENGTH,
+
+  // Device-level keys - NOT namespaced per profile
+  DEVICE_STORAGE_KEYS: {
+    PROFILE_REGISTRY: `@${STORAGE_KEY_PREFIX}_profiles`,
+  },
 
-  // Storage keys - all derived from the prefix
+  // Storage keys - all derived from the prefix (namespaced per profile, see utils/profileStorage)
   STORAGE_KEYS: {
     VAULT: `@${STORAGE_KEY_PREFIX}_vault`,
     PREFERENCE_DB_KEY:`@${STORAGE_KEY_PREFIX}_preferences`,
@@ -75,6 +230,21 @@ export const APP_CONFIG = {
     FIRST_LAUNCH: `@${STORAGE_KEY_PREFIX}_first_launch`,
     VERIFICATION_TOKEN: `@${STORAGE_KEY_PREFIX}_verification_token`,
     MIGRATION_COMPLETE_V1: `${STORAGE_KEY_PREFIX}_migration_complete_v1`,
+    MIGRATION_METADATA_ENCRYPTED_V2: `${STORAGE_KEY_PREFIX}_migration_metadata_encrypted_v2`,
+    SEARCH_INDEX: `@${STORAGE_KEY_PREFIX}_search_index`,
+    JOURNAL_REVISIONS: `@${STORAGE_KEY_PREFIX}_journal_revisions`,
+    TRASH: `@${STORAGE_KEY_PREFIX}_trash`,
+    SCHEMA_VERSION: `@${STORAGE_KEY_PREFIX}_schema_version`,
+    LOCKOUT_STATE: `@${STORAGE_KEY_PREFIX}_lockout_state`,
+    PROFILE_ID: `@${STORAGE_KEY_PREFIX}_profile_id`,
+    NOTEBOOKS: `@${STORAGE_KEY_PREFIX}_notebooks`,
+    KEY_ROTATION: `@${STORAGE_KEY_PREFIX}_key_rotation`,
+    QUARANTINE: `@${STORAGE_KEY_PREFIX}_quarantine`,
+    BACKUP_STATE: `@${STORAGE_KEY_PREFIX}_backup_state`,
+    SYNC_STATE: `@${STORAGE_KEY_PREFIX}_sync_state`,
+    IMPORT_LOG: `@${STORAGE_KEY_PREFIX}_import_log`,
+    // OS secure storage key (SecureStore only allows [A-Za-z0-9._-])
+    BIOMETRIC_KEY: `${STORAGE_KEY_PREFIX}_biometric_key`,
   },
 };
 
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { runDueBackup } from '../services/backupService';
+import { useAppDispatch, useAppSelector } from '../stores/hooks';
+import { setIsExportImportInProgress } from '../stores/slices/settingsSlice';
+
+/**
+ * Runs a due automatic backup after unlocking and whenever the app comes back
+ * to the foreground. Skipped in a decoy session - the backup password is
+ * sealed with the real Data Key. Auto-lock is held off while it writes.
+ */
+export const useAutoBackup = () => {
+  const dispatch = useAppDispatch();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  const isDecoySession = useAppSelector((state) => state.auth.isDecoySession);
+  const intervalDays = useAppSelector((state) => state.settings.backupIntervalDays);
+  const keepCount = useAppSelector((state) => state.settings.backupKeepCount);
+  const isRunning = useRef(false);
+
+  useEffect(() => {
+    if (!dk || isDecoySession || intervalDays <= 0) return;
+
+    const run = async () => {
+      if (isRunning.current) return;
+      isRunning.current = true;
+      let hasStarted = false;
+      try {
+        await runDueBackup(dk, intervalDays, keepCount, () => {
+          hasStarted = true;
+          dispatch(setIsExportImportInProgress(true));
+        });
+      } catch {
+        // Recorded in the backup state and shown in Settings
+      } finally {
+        isRunning.current = false;
+        if (hasStarted) dispatch(setIsExportImportInProgress(false));
+      }
+    };
+
+    run();
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') run();
+    });
+    return () => subscription.remove();
+  }, [dk, isDecoySession, intervalDays, keepCount, dispatch]);
+};
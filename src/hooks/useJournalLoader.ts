@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { getVaultStorageProvider } from '../services/vaultStorageProvider';
+import { useAppDispatch, useAppSelector, useJournalKey } from '../stores/hooks';
+import {
+  appendJournalPage,
+  setJournalIndex,
+  setJournalPage,
+} from '../stores/slices/journalsSlice';
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+/**
+ * Loads journals into Redux page by page instead of decrypting the whole vault.
+ *
+ * - reload: first page (no images) plus the vault-wide id/date/tags index
+ *   (both limited to the selected notebook, if any)
+ * - loadMore: next page after the ones already loaded (no-op when done)
+ *
+ * Errors are thrown to the caller so each screen can report them its own way.
+ */
+export const useJournalLoader = () => {
+  const dispatch = useAppDispatch();
+  const encryptionKey = useJournalKey();
+  const notebookId = useAppSelector((state) => state.notebooks.activeNotebookId) ?? undefined;
+  const nextCursor = useAppSelector((state) => state.journals.nextCursor);
+
+  const reload = useCallback(async () => {
+    if (!encryptionKey) return;
+
+    const entries = await VaultStorageProvider.listJournalIndex(encryptionKey);
+    const page = await VaultStorageProvider.listJournalSummaries(encryptionKey, { notebookId });
+    dispatch(
+      setJournalIndex(
+        notebookId === undefined ? entries : entries.filter((e) => e.notebookId === notebookId)
+      )
+    );
+    dispatch(setJournalPage(page));
+  }, [dispatch, encryptionKey, notebookId]);
+
+  const loadMore = useCallback(async () => {
+    if (!encryptionKey || !nextCursor) return;
+
+    const page = await VaultStorageProvider.listJournalSummaries(encryptionKey, {
+      cursor: nextCursor,
+      notebookId,
+    });
+    dispatch(appendJournalPage(page));
+  }, [dispatch, encryptionKey, notebookId, nextCursor]);
+
+  return { reload, loadMore, hasMore: nextCursor !== null };
+};
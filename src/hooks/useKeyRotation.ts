@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react';
+import { resumeKeyRotation } from '../services/keyRotationService';
+import { loadNotebooks } from '../services/notebookService';
+import { useAppDispatch, useAppSelector } from '../stores/hooks';
+import { setNotebooks } from '../stores/slices/notebookSlice';
+import { setIsExportImportInProgress } from '../stores/slices/settingsSlice';
+import { KeyRotationProgress } from '../types';
+import { useJournalLoader } from './useJournalLoader';
+
+/**
+ * Finishes an interrupted (or just started) Data Key rotation
+ *
+ * Runs whenever the session key changes, so a rotation started from Settings
+ * continues right away and one cut short by a crash or lock continues after the
+ * next unlock. Auto-lock is held off while journals are re-sealed.
+ *
+ * @returns the current progress, or null when nothing is being re-sealed
+ */
+export const useKeyRotation = () => {
+  const dispatch = useAppDispatch();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  const { reload } = useJournalLoader();
+
+  const [progress, setProgress] = useState<KeyRotationProgress | null>(null);
+  const isRunning = useRef(false);
+
+  useEffect(() => {
+    if (!dk || isRunning.current) return;
+    isRunning.current = true;
+    let hasStarted = false;
+
+    resumeKeyRotation(dk, (next) => {
+      if (!hasStarted) dispatch(setIsExportImportInProgress(true));
+      hasStarted = true;
+      setProgress(next);
+    })
+      .then(async (rotated) => {
+        if (!rotated) return;
+        dispatch(setNotebooks(await loadNotebooks(dk)));
+        await reload();
+      })
+      .catch((error) => console.error('❌ Key rotation failed:', error))
+      .finally(() => {
+        isRunning.current = false;
+        setProgress(null);
+        if (hasStarted) dispatch(setIsExportImportInProgress(false));
+      });
+    // reload changes with the notebook selection; only a new key needs a run
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dk, dispatch]);
+
+  return progress;
+};
@@ -0,0 +1,142 @@
+import { useCallback } from 'react';
+import {
+  changeNotebookPassphrase,
+  createNotebook,
+  deleteNotebook,
+  loadNotebooks,
+  NotebookFields,
+  protectNotebook,
+  unlockNotebook,
+  unprotectNotebook,
+  updateNotebook,
+} from '../services/notebookService';
+import { useAppDispatch, useAppSelector } from '../stores/hooks';
+import {
+  removeNotebook,
+  setActiveNotebook,
+  setNotebookKey,
+  setNotebooks,
+  upsertNotebook,
+} from '../stores/slices/notebookSlice';
+import { Notebook } from '../types';
+
+/**
+ * Notebooks of the unlocked vault + actions that keep storage and Redux in step
+ * Errors (e.g. a wrong passphrase) are thrown for the screen to show.
+ */
+export const useNotebooks = () => {
+  const dispatch = useAppDispatch();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  const { notebooks, activeNotebookId, notebookKeys } = useAppSelector((state) => state.notebooks);
+
+  const requireKey = useCallback((): string => {
+    if (!dk) throw new Error('Vault is locked');
+    return dk;
+  }, [dk]);
+
+  const refresh = useCallback(async () => {
+    if (!dk) return;
+    dispatch(setNotebooks(await loadNotebooks(dk)));
+  }, [dispatch, dk]);
+
+  const isUnlocked = useCallback(
+    (notebook: Notebook) => !notebook.protection || notebookKeys[notebook.id] !== undefined,
+    [notebookKeys]
+  );
+
+  /**
+   * Show one notebook (null = all); a protected one must be unlocked first
+   */
+  const selectNotebook = useCallback(
+    (notebookId: string | null) => {
+      const notebook = notebooks.find((n) => n.id === notebookId);
+      if (notebook && !isUnlocked(notebook)) {
+        throw new Error('Unlock this notebook first');
+      }
+      dispatch(setActiveNotebook(notebookId));
+    },
+    [dispatch, notebooks, isUnlocked]
+  );
+
+  const unlock = useCallback(
+    async (notebook: Notebook, passphrase: string) => {
+      const key = await unlockNotebook(notebook, passphrase);
+      dispatch(setNotebookKey({ id: notebook.id, key }));
+    },
+    [dispatch]
+  );
+
+  const lock = useCallback(
+    (notebookId: string) => {
+      if (activeNotebookId === notebookId) dispatch(setActiveNotebook(null));
+      dispatch(setNotebookKey({ id: notebookId, key: null }));
+    },
+    [dispatch, activeNotebookId]
+  );
+
+  const addNotebook = useCallback(
+    async (fields: NotebookFields) => {
+      dispatch(upsertNotebook(await createNotebook(notebooks, fields, requireKey())));
+    },
+    [dispatch, notebooks, requireKey]
+  );
+
+  const editNotebook = useCallback(
+    async (notebook: Notebook, fields: NotebookFields) => {
+      dispatch(upsertNotebook(await updateNotebook(notebooks, notebook, fields, requireKey())));
+    },
+    [dispatch, notebooks, requireKey]
+  );
+
+  const setPassphrase = useCallback(
+    async (notebook: Notebook, passphrase: string) => {
+      const result = await protectNotebook(notebook, passphrase, requireKey());
+      dispatch(upsertNotebook(result.notebook));
+      dispatch(setNotebookKey({ id: notebook.id, key: result.notebookKey }));
+    },
+    [dispatch, requireKey]
+  );
+
+  const changePassphrase = useCallback(
+    async (notebook: Notebook, currentPassphrase: string, newPassphrase: string) => {
+      dispatch(
+        upsertNotebook(
+          await changeNotebookPassphrase(notebook, currentPassphrase, newPassphrase, requireKey())
+        )
+      );
+    },
+    [dispatch, requireKey]
+  );
+
+  const removePassphrase = useCallback(
+    async (notebook: Notebook, passphrase: string) => {
+      dispatch(upsertNotebook(await unprotectNotebook(notebook, passphrase, requireKey())));
+      dispatch(setNotebookKey({ id: notebook.id, key: null }));
+    },
+    [dispatch, requireKey]
+  );
+
+  const removeNotebookAndKeepJournals = useCallback(
+    async (notebook: Notebook, passphrase?: string) => {
+      await deleteNotebook(notebook, requireKey(), passphrase);
+      dispatch(removeNotebook(notebook.id));
+    },
+    [dispatch, requireKey]
+  );
+
+  return {
+    notebooks,
+    activeNotebook: notebooks.find((n) => n.id === activeNotebookId) ?? null,
+    isUnlocked,
+    refresh,
+    selectNotebook,
+    unlock,
+    lock,
+    addNotebook,
+    editNotebook,
+    setPassphrase,
+    changePassphrase,
+    removePassphrase,
+    removeNotebook: removeNotebookAndKeepJournals,
+  };
+};
@@ -0,0 +1,73 @@
+import { useCallback } from 'react';
+import {
+  activateProfile,
+  createProfile,
+  deleteActiveProfile,
+  getActiveProfile,
+  renameProfile,
+} from '../services/profileService';
+import { useAppDispatch, useAppSelector } from '../stores/hooks';
+import { logout } from '../stores/slices/authSlice';
+import { setProfileRegistry } from '../stores/slices/profileSlice';
+import { loadProfileSettings } from '../stores/slices/settingsSlice';
+import { AppSettings, ProfileRegistry } from '../types';
+
+/**
+ * Profile registry + actions that keep the stores and Redux in step
+ * Errors (e.g. an invalid name) are thrown for the screen to show.
+ */
+export const useProfiles = () => {
+  const dispatch = useAppDispatch();
+  const registry = useAppSelector((state) => state.profiles);
+
+  const applyActivation = useCallback(
+    (next: { registry: ProfileRegistry; settings: AppSettings | null }) => {
+      dispatch(setProfileRegistry(next.registry));
+      dispatch(loadProfileSettings(next.settings));
+    },
+    [dispatch]
+  );
+
+  const selectProfile = useCallback(
+    async (profileId: string) => {
+      applyActivation(await activateProfile(registry, profileId));
+    },
+    [registry, applyActivation]
+  );
+
+  /**
+   * Create a profile and switch to it
+   */
+  const addProfile = useCallback(
+    async (name: string) => {
+      const created = await createProfile(registry, name);
+      applyActivation(await activateProfile(created.registry, created.profile.id));
+    },
+    [registry, applyActivation]
+  );
+
+  const changeProfileName = useCallback(
+    async (profileId: string, name: string) => {
+      dispatch(setProfileRegistry(await renameProfile(registry, profileId, name)));
+    },
+    [dispatch, registry]
+  );
+
+  /**
+   * Delete the unlocked profile and lock the app
+   */
+  const removeActiveProfile = useCallback(async () => {
+    const next = await deleteActiveProfile(registry);
+    dispatch(logout());
+    applyActivation(next);
+  }, [dispatch, registry, applyActivation]);
+
+  return {
+    profiles: registry.profiles,
+    activeProfile: getActiveProfile(registry),
+    selectProfile,
+    addProfile,
+    changeProfileName,
+    removeActiveProfile,
+  };
+};
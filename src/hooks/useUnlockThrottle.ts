@@ -0,0 +1,100 @@
+import { useFocusEffect } from '@react-navigation/native';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getLockoutRemainingMs,
+  loadLockoutState,
+  recordFailedUnlock,
+  resetFailedUnlocks,
+} from '../services/lockoutService';
+import { useAppDispatch, useAppSelector } from '../stores/hooks';
+import { LockoutState } from '../types';
+import { handleDestroy } from '../utils/destroyDbAlert';
+
+/**
+ * Failed-attempt throttling for unlock screens
+ *
+ * Loads the persisted lockout state whenever the screen gains focus and ticks a
+ * countdown while attempts are blocked. When the "wipe after N failed attempts"
+ * setting is on, the failure that reaches N destroys the vault.
+ */
+export const useUnlockThrottle = () => {
+  const dispatch = useAppDispatch();
+  const wipeAfterFailedAttempts = useAppSelector(
+    (state) => state.settings.wipeAfterFailedAttempts
+  );
+
+  const [lockout, setLockout] = useState<LockoutState>({ failedAttempts: 0, lockedUntil: null });
+  const [remainingMs, setRemainingMs] = useState(0);
+
+  useFocusEffect(
+    useCallback(() => {
+      let isActive = true;
+      loadLockoutState()
+        .then((state) => {
+          if (isActive) setLockout(state);
+        })
+        .catch((error) => console.error('Failed to load lockout state:', error));
+      return () => {
+        isActive = false;
+      };
+    }, [])
+  );
+
+  // Countdown until the lock expires
+  useEffect(() => {
+    setRemainingMs(getLockoutRemainingMs(lockout));
+    if (!lockout.lockedUntil) return;
+
+    const timer = setInterval(() => {
+      const remaining = getLockoutRemainingMs(lockout);
+      setRemainingMs(remaining);
+      if (remaining === 0) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [lockout]);
+
+  /**
+   * Record a failed attempt
+   * @returns true when the attempt triggered the vault wipe
+   */
+  const registerFailure = useCallback(async (): Promise<boolean> => {
+    try {
+      const next = await recordFailedUnlock();
+
+      if (wipeAfterFailedAttempts > 0 && next.failedAttempts >= wipeAfterFailedAttempts) {
+        console.log('🧨 Too many failed unlock attempts - wiping vault');
+        await handleDestroy(dispatch, { confirm: false });
+        setLockout({ failedAttempts: 0, lockedUntil: null });
+        return true;
+      }
+
+      setLockout(next);
+    } catch (error) {
+      console.error('Failed to record failed unlock:', error);
+    }
+    return false;
+  }, [dispatch, wipeAfterFailedAttempts]);
+
+  const registerSuccess = useCallback(async () => {
+    try {
+      await resetFailedUnlocks();
+      setLockout({ failedAttempts: 0, lockedUntil: null });
+    } catch (error) {
+      console.error('Failed to reset failed unlocks:', error);
+    }
+  }, []);
+
+  return {
+    isLocked: remainingMs > 0,
+    remainingMs,
+    failedAttempts: lockout.failedAttempts,
+    // null when wiping is off
+    attemptsBeforeWipe:
+      wipeAfterFailedAttempts > 0
+        ? Math.max(0, wipeAfterFailedAttempts - lockout.failedAttempts)
+        : null,
+    registerFailure,
+    registerSuccess,
+  };
+};
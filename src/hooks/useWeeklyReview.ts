@@ -0,0 +1,69 @@
+import { addDays, startOfDay } from 'date-fns';
+import { useEffect, useMemo, useState } from 'react';
+import { getVaultStorageProvider } from '../services/vaultStorageProvider';
+import {
+  buildWeeklyReviewSummary,
+  getPreviousWeekRange,
+  WeeklyReviewJournal,
+  WeeklyReviewSummary,
+} from '../services/weeklyReviewService';
+import { useAppSelector, useJournalKey } from '../stores/hooks';
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+const MAX_WEEK_ENTRIES = 500;
+const MAX_REVIEW_IMAGES = 4;
+
+/**
+ * Last week's review, built from that week's journals only.
+ * Reloads whenever the journal index changes (save / delete / import).
+ *
+ * @param withImages - also decrypt images for the photo strip (only the few entries needed)
+ */
+export const useWeeklyReview = (withImages = false): WeeklyReviewSummary => {
+  const encryptionKey = useJournalKey();
+  const notebookId = useAppSelector((state) => state.notebooks.activeNotebookId) ?? undefined;
+  const entries = useAppSelector((state) => state.journals.entries);
+  const [weekJournals, setWeekJournals] = useState<WeeklyReviewJournal[]>([]);
+
+  useEffect(() => {
+    if (!encryptionKey) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { start, end } = getPreviousWeekRange();
+        const page = await VaultStorageProvider.listJournalSummaries(encryptionKey, {
+          from: startOfDay(start).toISOString(),
+          to: addDays(startOfDay(end), 1).toISOString(),
+          limit: MAX_WEEK_ENTRIES,
+          notebookId,
+        });
+
+        const journals: WeeklyReviewJournal[] = [...page.items];
+        if (withImages) {
+          let imageCount = 0;
+          for (let i = 0; i < page.items.length && imageCount < MAX_REVIEW_IMAGES; i++) {
+            if (page.items[i].imageCount === 0) continue;
+            const full = await VaultStorageProvider.getJournal(page.items[i].id, encryptionKey);
+            if (full) {
+              journals[i] = full;
+              imageCount += full.images?.length ?? 0;
+            }
+          }
+        }
+
+        if (!cancelled) setWeekJournals(journals);
+      } catch (error) {
+        console.error('Error loading weekly review journals:', error);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptionKey, notebookId, entries, withImages]);
+
+  return useMemo(() => buildWeeklyReviewSummary(weekJournals), [weekJournals]);
+};
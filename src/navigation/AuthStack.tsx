@@ -2,8 +2,10 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import React, { useEffect, useState } from 'react';
 import ForgotPasswordScreen from '../screens/Auth/ForgotPasswordScreen';
 import LoginScreen from '../screens/Auth/LoginScreen';
+import ProfilePickerScreen from '../screens/Auth/ProfilePickerScreen';
 import SignupScreen from '../screens/Auth/SignupScreen';
 import { getVaultStorageProvider } from '../services/vaultStorageProvider';
+import { useAppSelector } from '../stores/hooks';
 
 const Stack = createNativeStackNavigator();
 const VaultStorageProvider = getVaultStorageProvider()
@@ -11,6 +13,8 @@ const VaultStorageProvider = getVaultStorageProvider()
 export const AuthStack: React.FC = () => {
 
   const [isFirstTime, setIsFirstTime] = useState(false);
+  // Shared devices start by asking who is unlocking
+  const hasSeveralProfiles = useAppSelector((state) => state.profiles.profiles.length > 1);
   
  useEffect(() => {
     const initializeLoginState = async () => {
@@ -28,11 +32,12 @@ export const AuthStack: React.FC = () => {
 
   return (
     <Stack.Navigator    
-    initialRouteName="Signup"
+    initialRouteName={hasSeveralProfiles ? "ProfilePicker" : "Signup"}
       screenOptions={{
         headerShown: false,
       }}
     >
+      <Stack.Screen name="ProfilePicker" component={ProfilePickerScreen} />
       <Stack.Screen name="Signup" component={SignupScreen} /> 
       <Stack.Screen name="Login" component={LoginScreen} />
       <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
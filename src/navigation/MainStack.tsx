@@ -3,15 +3,24 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import React from "react";
 import { View } from "react-native"; // Don't forget this import
 import { IconButton, useTheme } from "react-native-paper";
+import { KeyRotationProgressDialog } from "../components/common/KeyRotationProgressDialog";
 import APP_CONFIG from "../config/appConfig";
+import { useAutoBackup } from "../hooks/useAutoBackup";
+import { useKeyRotation } from "../hooks/useKeyRotation";
 import { useScreenProtection } from "../hooks/useScreenProtection";
 import ExportScreen from "../screens/Export/ExportScreen";
 import HomeScreen from "../screens/Home/HomeScreen";
 import ImportScreen from "../screens/ImportScreen";
+import IntegrityScreen from "../screens/Integrity/IntegrityScreen";
 import JournalDetailScreen from "../screens/Journal/JournalDetailScreen";
 import JournalEditorScreen from "../screens/Journal/JournalEditorScreen";
+import JournalHistoryScreen from "../screens/Journal/JournalHistoryScreen";
 import JournalListScreen from "../screens/Journal/JournalListScreen";
+import NotebooksScreen from "../screens/Notebooks/NotebooksScreen";
 import SettingsScreen from "../screens/Settings/SettingsScreen";
+import SyncScreen from "../screens/Sync/SyncScreen";
+import TransferScreen from "../screens/Transfer/TransferScreen";
+import TrashScreen from "../screens/Trash/TrashScreen";
 import WeeklyReviewScreen from "../screens/WeeklyReview/WeeklyReviewScreen";
 import { useAppDispatch } from "../stores/hooks";
 import { logout } from "../stores/slices/authSlice";
@@ -25,6 +34,12 @@ export const MainStack: React.FC = () => {
   // (and this component is rendered), the screen is secure.
   useScreenProtection(); 
 
+  // Finishes a Data Key rotation started in Settings or cut short by a lock
+  const keyRotationProgress = useKeyRotation();
+
+  // Writes a scheduled backup when one is due
+  useAutoBackup();
+
   const theme = useTheme();
   const dispatch = useAppDispatch();
 
@@ -52,73 +67,106 @@ export const MainStack: React.FC = () => {
   });
 
   return (
-    <Stack.Navigator
-      initialRouteName="Home"
-      screenOptions={{
-        headerShown: true,
-      }}
-    >
-      <Stack.Screen
-        name="Home"
-        component={HomeScreen}
-        options={({ navigation }) =>
-          getHeaderOptions(navigation, APP_CONFIG.displayName)
-        }
-      />
+    <>
+      <KeyRotationProgressDialog progress={keyRotationProgress} />
+      <Stack.Navigator
+        initialRouteName="Home"
+        screenOptions={{
+          headerShown: true,
+        }}
+      >
+        <Stack.Screen
+          name="Home"
+          component={HomeScreen}
+          options={({ navigation }) =>
+            getHeaderOptions(navigation, APP_CONFIG.displayName)
+          }
+        />
 
-      <Stack.Screen
-        name="WeeklyReview"
-        component={WeeklyReviewScreen}
-        options={(navigation) => getHeaderOptions(navigation, 'Weekly Review')}
-      />
+        <Stack.Screen
+          name="WeeklyReview"
+          component={WeeklyReviewScreen}
+          options={(navigation) => getHeaderOptions(navigation, 'Weekly Review')}
+        />
 
-      <Stack.Screen
-        name="JournalList"
-        component={JournalListScreen}
-        options={({ navigation }) =>
-          getHeaderOptions(navigation, "📖 My Journals")
-        }
-      />
-      <Stack.Screen
-        name="JournalEditor"
-        component={JournalEditorScreen}
-        options={({ navigation }) =>
-          getHeaderOptions(navigation, "✍️ New Journal")
-        }
-      />
-      <Stack.Screen
-        name="JournalDetail"
-        component={JournalDetailScreen}
-        options={({ navigation }) => getHeaderOptions(navigation, "📄 Journal")}
-      />
-      <Stack.Screen
-        name="Export"
-        component={ExportScreen}
-        options={({ navigation }) => getHeaderOptions(navigation, "📤 Export")}
-      />
+        <Stack.Screen
+          name="JournalList"
+          component={JournalListScreen}
+          options={({ navigation }) =>
+            getHeaderOptions(navigation, "📖 My Journals")
+          }
+        />
+        <Stack.Screen
+          name="JournalEditor"
+          component={JournalEditorScreen}
+          options={({ navigation }) =>
+            getHeaderOptions(navigation, "✍️ New Journal")
+          }
+        />
+        <Stack.Screen
+          name="JournalDetail"
+          component={JournalDetailScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "📄 Journal")}
+        />
+        <Stack.Screen
+          name="JournalHistory"
+          component={JournalHistoryScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "🕘 History")}
+        />
+        <Stack.Screen
+          name="Trash"
+          component={TrashScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "🗑️ Trash")}
+        />
+        <Stack.Screen
+          name="Notebooks"
+          component={NotebooksScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "📚 Notebooks")}
+        />
+        <Stack.Screen
+          name="Integrity"
+          component={IntegrityScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "🩺 Vault Integrity")}
+        />
+        <Stack.Screen
+          name="Sync"
+          component={SyncScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "🔄 Sync")}
+        />
+        <Stack.Screen
+          name="Transfer"
+          component={TransferScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "📲 Transfer")}
+        />
+        <Stack.Screen
+          name="Export"
+          component={ExportScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "📤 Export")}
+        />
 
-      <Stack.Screen
-        name="Import"
-        component={ImportScreen}
-        options={({ navigation }) => getHeaderOptions(navigation, "🗃️ Import")}
-      />
-      <Stack.Screen
-        name="Settings"
-        component={SettingsScreen}
-        // Settings screen doesn't need a settings button, so we can use a simpler header or just the lock
-        options={{
-          title: "⚙️ Settings",
-          headerStyle: { backgroundColor: theme.colors.surface },
-          headerTintColor: theme.colors.onSurface,
-          headerRight: () => (
-            <IconButton
-              icon="lock-outline"
-              onPress={() => dispatch(logout())}
-              iconColor={theme.colors.primary}
-            />
-          ),
-        }}
-      />
-    </Stack.Navigator>
+        <Stack.Screen
+          name="Import"
+          component={ImportScreen}
+          options={({ navigation }) => getHeaderOptions(navigation, "🗃️ Import")}
+        />
+        <Stack.Screen
+          name="Settings"
+          component={SettingsScreen}
+          // Settings screen doesn't need a settings button, so we can use a simpler header or just the lock
+          options={{
+            title: "⚙️ Settings",
+            headerStyle: { backgroundColor: theme.colors.surface },
+            headerTintColor: theme.colors.onSurface,
+            headerRight: () => (
+              <IconButton
+                icon="lock-outline"
+                onPress={() => dispatch(logout())}
+                iconColor={theme.colors.primary}
+              />
+            ),
+          }}
+        />
+      </Stack.Navigator>
+    </>
   );
 };
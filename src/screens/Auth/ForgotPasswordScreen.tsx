@@ -1,3 +1,6 @@
+import { UnlockThrottleNotice } from "@/src/components/common/UnlockThrottleNotice";
+import { useUnlockThrottle } from "@/src/hooks/useUnlockThrottle";
+import { clearBiometricKey } from "@/src/services/biometricService";
 import { getCryptoProvider } from "@/src/services/cryptoServiceProvider";
 import { resolveImmediately } from "@/src/utils/immediatePromiseResolver";
 import React, { useEffect, useState } from "react";
@@ -57,6 +60,9 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [vault, setVaultState] = useState<any>(null);
 
+  // Shares the failed-attempt counter with the login screen
+  const throttle = useUnlockThrottle();
+
   const passwordsMatch =
     newPassword === confirmPassword && newPassword.length > 0;
   const isPasswordValid = newPassword.length >= 8;
@@ -83,6 +89,17 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
     }
   };
 
+  /**
+   * The failed attempt reached the wipe threshold - the vault is gone
+   */
+  const handleVaultWiped = () => {
+    Alert.alert(
+      "Vault Erased",
+      "Too many failed attempts. All data on this device has been erased.",
+    );
+    navigation.reset({ index: 0, routes: [{ name: "Signup" }] });
+  };
+
   /**
    * Verify security answers and unlock vault
    */
@@ -102,6 +119,11 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
       return;
     }
 
+    if (throttle.isLocked) {
+      Alert.alert("Please wait", "Too many failed attempts. Wait for the countdown to finish.");
+      return;
+    }
+
     setIsLoading(true);
   // resolves ui update for loading state not visible
      await new Promise(resolve => resolveImmediately(resolve));
@@ -115,6 +137,7 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
 
       // Attempt to unlock vault with security answers
         await CryptoManager.unlockWithAnswers(vault, qaPairs);
+      await throttle.registerSuccess();
 
       // Success! Move to password reset step
       Alert.alert(
@@ -124,6 +147,10 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
       setStep("newPassword");
     } catch (error) {
       console.error("Answer verification error:", error);
+      if (await throttle.registerFailure()) {
+        handleVaultWiped();
+        return;
+      }
       Alert.alert(
         "Incorrect Answers",
         "One or more answers are incorrect. Please try again.",
@@ -144,6 +171,11 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
       return;
     }
 
+    if (throttle.isLocked) {
+      Alert.alert("Please wait", "Too many failed attempts. Wait for the countdown to finish.");
+      return;
+    }
+
     setIsLoading(true);
 
       // resolves ui update for loading state not visible
@@ -152,6 +184,7 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
     try {
       // Attempt to verify recovery key by trying to recover
       await CryptoManager.recoverAndReset(vault, recoveryKey, newPassword || "temp");
+      await throttle.registerSuccess();
 
       // Recovery key is valid
       Alert.alert(
@@ -161,6 +194,10 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
       setStep("newPassword");
     } catch (error) {
       console.error("Recovery key verification error:", error);
+      if (await throttle.registerFailure()) {
+        handleVaultWiped();
+        return;
+      }
       Alert.alert(
         "Invalid Recovery Key",
         "The recovery key you entered is incorrect. Please check and try again.",
@@ -226,6 +263,8 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
 
       // Save updated vault
       await  VaultStorageProvider.saveVault(newVault);
+      // The new vault has no biometric wrap - drop its keystore entry too
+      await clearBiometricKey();
 
       // If recovery key was reset, save and display it
       if (newRecoveryKeyResult) {
@@ -366,12 +405,14 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
               mode="contained"
               onPress={handleVerifyAnswers}
               style={styles.button}
-              disabled={isLoading}
+              disabled={isLoading || throttle.isLocked}
               loading={isLoading}
             >
               {isLoading ? "Verifying securely..." : "Verify Answers"}
             </Button>
 
+            <UnlockThrottleNotice {...throttle} />
+
             <Button
               mode="text"
               onPress={() => setStep("method")}
@@ -406,12 +447,14 @@ const ForgotPasswordScreen: React.FC<{ navigation: any }> = ({
               mode="contained"
               onPress={handleVerifyRecoveryKey}
               style={styles.button}
-              disabled={isLoading || !recoveryKey.trim()}
+              disabled={isLoading || !recoveryKey.trim() || throttle.isLocked}
               loading={isLoading}
             >
               {isLoading ? "Verifying securely..." : "Verify Recovery Key"}
             </Button>
 
+            <UnlockThrottleNotice {...throttle} />
+
             <Button
               mode="text"
               onPress={() => setStep("method")}
@@ -1,4 +1,14 @@
+import { ProfileSwitchButton } from "@/src/components/common/ProfileSwitchButton";
+import { UnlockThrottleNotice } from "@/src/components/common/UnlockThrottleNotice";
 import APP_CONFIG from "@/src/config/appConfig";
+import { useUnlockThrottle } from "@/src/hooks/useUnlockThrottle";
+import {
+  disableBiometricUnlock,
+  getBiometricLabel,
+  hasBiometricUnlock,
+  isBiometricAvailable,
+  unlockWithBiometrics,
+} from "@/src/services/biometricService";
 import { getCryptoProvider } from "@/src/services/cryptoServiceProvider";
 import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
 import { resolveImmediately } from "@/src/utils/immediatePromiseResolver";
@@ -14,9 +24,11 @@ import {
   useTheme
 } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
+import type { Vault } from "../../types/crypto";
 import { useAppDispatch } from "../../stores/hooks";
 import {
   setAuthenticated,
+  setDecoySession,
   setEncryptionKey,
 } from "../../stores/slices/authSlice";
 import { Alert } from "../../utils/alert";
@@ -34,6 +46,48 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [isFirstTime, setIsFirstTime] = useState(false);
   const [vaultReady, setVaultReady] = useState(false);
   const [cachedVault, setCachedVault] = useState<any>(null);
+  const [biometricReady, setBiometricReady] = useState(false);
+  const [biometricLabel, setBiometricLabel] = useState("Biometrics");
+
+  const throttle = useUnlockThrottle();
+  const { registerSuccess } = throttle;
+
+  const handleBiometricLogin = useCallback(
+    async (vault: Vault) => {
+      setIsLoading(true);
+      try {
+        const outcome = await unlockWithBiometrics(vault);
+
+        if (outcome.status === "unlocked") {
+          console.log("✅ DK unlocked with biometrics");
+          await registerSuccess();
+          dispatch(setAuthenticated(true));
+          dispatch(setEncryptionKey(outcome.dk));
+          return;
+        }
+
+        if (outcome.status === "invalidated") {
+          // Stop offering a wrap whose key the OS no longer releases
+          setBiometricReady(false);
+          try {
+            const updatedVault = await disableBiometricUnlock(vault);
+            await VaultStorageProvider.saveVault(updatedVault);
+            setCachedVault(updatedVault);
+          } catch (cleanupError) {
+            console.error("Failed to remove biometric wrap:", cleanupError);
+          }
+          Alert.alert(
+            "Biometric Unlock Turned Off",
+            "Your biometrics changed since biometric unlock was enabled. Unlock with your password and turn it on again in Settings.",
+          );
+        }
+        // Cancelled: the password field stays available
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [dispatch, registerSuccess],
+  );
 
   useFocusEffect(
     useCallback(() => {
@@ -52,6 +106,16 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           setIsFirstTime(firstTime);
           setCachedVault(vaultData); // if you added caching
           setVaultReady(!!vaultData);
+
+          // Offer (and start) biometric unlock when it is enrolled
+          const canUseBiometrics =
+            hasBiometricUnlock(vaultData) && (await isBiometricAvailable());
+          if (!isActive) return;
+          setBiometricReady(canUseBiometrics);
+          if (canUseBiometrics) {
+            setBiometricLabel(await getBiometricLabel());
+            if (isActive) handleBiometricLogin(vaultData as Vault);
+          }
         } catch (error) {
           console.error("Login init failed:", error);
 
@@ -59,6 +123,7 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 
           setCachedVault(null);
           setVaultReady(false);
+          setBiometricReady(false);
         }
       };
 
@@ -68,7 +133,7 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       return () => {
         isActive = false;
       };
-    }, []),
+    }, [handleBiometricLogin]),
   );
 
   const handleLogin = async () => {
@@ -86,6 +151,11 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       return;
     }
 
+    if (throttle.isLocked) {
+      Alert.alert("Please wait", "Too many failed attempts. Wait for the countdown to finish.");
+      return;
+    }
+
     setIsLoading(true);
      // Yield control to let React paint the loading state FIRST
     await new Promise(resolve => resolveImmediately(resolve));
@@ -106,14 +176,35 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         typeof unlockResult === "string" ? unlockResult : unlockResult.dk;
 
       console.log("✅ DK unlocked successfully");
+      await throttle.registerSuccess();
+
+      // Persist the Argon2id re-wrap / added decoy slot of an older vault
+      if (unlockResult.vaultUpgraded) {
+        try {
+          await VaultStorageProvider.saveVault(unlockResult.vault);
+          setCachedVault(unlockResult.vault);
+          console.log("🔐 Vault key derivation upgraded to Argon2id");
+        } catch (upgradeError) {
+          console.error("Failed to save upgraded vault:", upgradeError);
+        }
+      }
 
       // Update Redux
+      dispatch(setDecoySession(!!unlockResult.isDecoy));
       dispatch(setAuthenticated(true));
       dispatch(setEncryptionKey(dk)); // ✅ Now passing a string
 
       console.log("🎉 Login complete");
     } catch (error) {
       console.error("❌ Login error:", error);
+      if (await throttle.registerFailure()) {
+        Alert.alert(
+          "Vault Erased",
+          "Too many failed attempts. All data on this device has been erased.",
+        );
+        navigation.reset({ index: 0, routes: [{ name: "Signup" }] });
+        return;
+      }
       Alert.alert(
         "Wrong Password",
         "The password is incorrect. Try again or use password recovery.",
@@ -149,6 +240,10 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
             >
               {APP_CONFIG.APP_TAGLINE}
             </Text>
+            <ProfileSwitchButton
+              onPress={() => navigation.navigate("ProfilePicker")}
+              disabled={isLoading}
+            />
           </View>
           <View style={{
               alignItems:'center',
@@ -186,7 +281,7 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
               <Button
                 mode="contained"
                 onPress={handleLogin}
-                disabled={isLoading || !vaultReady || !password.trim()}
+                disabled={isLoading || !vaultReady || !password.trim() || throttle.isLocked}
                 loading={isLoading}
                 style={styles.primaryButton}
                 contentStyle={styles.primaryButtonContent}
@@ -194,6 +289,20 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                 {isLoading ? "Unlocking..." : "Unlock"}
               </Button>
 
+              <UnlockThrottleNotice {...throttle} />
+
+              {biometricReady && (
+                <Button
+                  mode="outlined"
+                  onPress={() => handleBiometricLogin(cachedVault)}
+                  disabled={isLoading}
+                  icon={biometricLabel.startsWith("Face") ? "face-recognition" : "fingerprint"}
+                  style={styles.biometricButton}
+                >
+                  Unlock with {biometricLabel}
+                </Button>
+              )}
+
             
 
               <Button
@@ -283,6 +392,10 @@ const styles = StyleSheet.create({
   primaryButtonContent: {
     paddingVertical: 8,
   },
+  biometricButton: {
+    marginTop: 12,
+    borderRadius: 12,
+  },
   divider: {
    borderWidth:1,
    borderRadius:10,   
@@ -0,0 +1,179 @@
+import { ProfileNameDialog } from "@/src/components/common/ProfileNameDialog";
+import APP_CONFIG from "@/src/config/appConfig";
+import { useProfiles } from "@/src/hooks/useProfiles";
+import { Profile } from "@/src/types";
+import React, { useState } from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+import { Button, Card, IconButton, List, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Alert } from "../../utils/alert";
+
+/**
+ * Who is journaling? Shown before unlocking when the device has several profiles.
+ * Picking a profile opens its own vault; the unlock screens take it from there.
+ */
+const ProfilePickerScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const theme = useTheme();
+  const { profiles, activeProfile, selectProfile, addProfile, changeProfileName } = useProfiles();
+
+  const [isBusy, setIsBusy] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [renaming, setRenaming] = useState<Profile | null>(null);
+
+  // Signup forwards to Login when the profile already has a vault
+  const continueToUnlock = () => {
+    navigation.reset({ index: 0, routes: [{ name: "Signup" }] });
+  };
+
+  const handleSelect = async (profile: Profile) => {
+    setIsBusy(true);
+    try {
+      await selectProfile(profile.id);
+      continueToUnlock();
+    } catch (error) {
+      console.error("❌ Failed to open profile:", error);
+      Alert.alert("Error", "Could not open this profile");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (name: string) => {
+    setIsBusy(true);
+    try {
+      await addProfile(name);
+      setShowCreateDialog(false);
+      continueToUnlock();
+    } catch (error) {
+      console.error("❌ Failed to create profile:", error);
+      Alert.alert("Error", error instanceof Error ? error.message : "Could not create profile");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (name: string) => {
+    if (!renaming) return;
+    setIsBusy(true);
+    try {
+      await changeProfileName(renaming.id, name);
+      setRenaming(null);
+    } catch (error) {
+      console.error("❌ Failed to rename profile:", error);
+      Alert.alert("Error", error instanceof Error ? error.message : "Could not rename profile");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Text variant="headlineMedium" style={[styles.title, { color: theme.colors.primary }]}>
+            {APP_CONFIG.displayName}
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Who is writing today?
+          </Text>
+        </View>
+
+        <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+          <Card.Content>
+            {profiles.map((profile) => (
+              <List.Item
+                key={profile.id}
+                title={profile.name}
+                description={profile.id === activeProfile?.id ? "Last used" : undefined}
+                left={(props) => <List.Icon {...props} icon="account-circle-outline" />}
+                right={() => (
+                  <IconButton
+                    icon="pencil-outline"
+                    onPress={() => setRenaming(profile)}
+                    disabled={isBusy}
+                    accessibilityLabel={`Rename ${profile.name}`}
+                  />
+                )}
+                onPress={() => handleSelect(profile)}
+                disabled={isBusy}
+              />
+            ))}
+
+            <Button
+              mode="elevated"
+              icon="account-plus-outline"
+              onPress={() => setShowCreateDialog(true)}
+              disabled={isBusy}
+              style={styles.addButton}
+            >
+              Add Profile
+            </Button>
+          </Card.Content>
+        </Card>
+
+        <Text style={[styles.aboutText, { color: theme.colors.secondary }]}>
+          Every profile has its own password and encrypted journals.
+        </Text>
+      </ScrollView>
+
+      <ProfileNameDialog
+        visible={showCreateDialog}
+        title="New Profile"
+        isSaving={isBusy}
+        onDismiss={() => setShowCreateDialog(false)}
+        onSubmit={handleCreate}
+      />
+
+      <ProfileNameDialog
+        visible={renaming !== null}
+        title="Rename Profile"
+        initialName={renaming?.name}
+        isSaving={isBusy}
+        onDismiss={() => setRenaming(null)}
+        onSubmit={handleRename}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: {
+    flexGrow: 1,
+    padding: 20,
+    justifyContent: "center",
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  title: {
+    textAlign: "center",
+    fontWeight: "700",
+  },
+  subtitle: {
+    marginTop: 6,
+    textAlign: "center",
+  },
+  card: {
+    borderRadius: 16,
+    width: "100%",
+    maxWidth: 440,
+    alignSelf: "center",
+  },
+  addButton: {
+    marginTop: 12,
+    borderRadius: 12,
+  },
+  aboutText: {
+    marginTop: 24,
+    fontSize: 11,
+    textAlign: "center",
+    opacity: 0.8,
+  },
+});
+
+export default ProfilePickerScreen;
@@ -26,6 +26,7 @@ import {
   setEncryptionKey,
 } from "../../stores/slices/authSlice";
 
+import { ProfileSwitchButton } from "@/src/components/common/ProfileSwitchButton";
 import APP_CONFIG from "@/src/config/appConfig";
 import { getCryptoProvider } from "@/src/services/cryptoServiceProvider";
 import { requestNotificationPermissions } from "@/src/services/notificationService";
@@ -236,6 +237,10 @@ const SignupScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
             >
               {APP_CONFIG.APP_TAGLINE}
             </Text>
+            <ProfileSwitchButton
+              onPress={() => navigation.navigate("ProfilePicker")}
+              disabled={controlDisabled}
+            />
           </View>
           <View style={{
             alignItems: 'center',
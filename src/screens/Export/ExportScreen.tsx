@@ -1,68 +1,180 @@
 import { setIsExportImportInProgress } from "@/src/stores/slices/settingsSlice";
-import React, { useState } from "react";
+import { isValid, parseISO } from "date-fns";
+import React, { useEffect, useMemo, useState } from "react";
 import { Platform, ScrollView, StyleSheet, View } from "react-native";
 import {
   Button,
   Card,
-  Checkbox,
   Chip,
+  HelperText,
   ProgressBar,
+  Switch,
   Text,
   TextInput,
   useTheme,
 } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { ExportPasswordDialog } from "../../components/common/ExportPasswordDialog";
+import { MOOD_OPTIONS } from "../../components/journal/MoodSelector";
+import { PDF_PAPER_SIZES } from "../../config/PDF_EXPORT_STYLESHEET";
 // ✅ Import the shared generator function
-import { generateExportFile, shareFile } from "../../services/exportService";
+import {
+  DEFAULT_PDF_EXPORT_OPTIONS,
+  describeExportSelection,
+  ExportFormat,
+  generateSelectionExport,
+  previewSelectionPdf,
+  resolveExportSelection,
+  shareFile,
+} from "../../services/exportService";
+import { getVaultStorageProvider } from "../../services/vaultStorageProvider";
 import { useAppDispatch, useAppSelector } from "../../stores/hooks";
+import type {
+  ExportSelection,
+  JournalIndexEntry,
+  PdfExportOptions,
+  PdfFontSize,
+  PdfImagePlacement,
+  PdfTemplate,
+} from "../../types";
 import { Alert } from "../../utils/alert";
 import { resolveImmediately } from "../../utils/immediatePromiseResolver";
+import { collectTags, formatTag } from "../../utils/tags";
 
-// Helper type to match the service
-type ExportFormat = 'json' | 'pdf' | 'text' | 'encrypted';
+const VaultStorageProvider = getVaultStorageProvider();
 
-const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
-  const theme = useTheme();
-  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
-  const journals = useAppSelector((state) => state.journals.journals);
-  const dispatch = useAppDispatch();
+// Wait for typing to settle before counting (the search and mood filters decrypt)
+const COUNT_DEBOUNCE_MS = 300;
 
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [selectedAll, setSelectedAll] = useState(true);
-  
-  // Export State
-  const [isExporting, setIsExporting] = useState(false);
-  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+// yyyy-MM-dd that is a real day (empty = no limit)
+const isDayValid = (day: string) =>
+  day === "" || (/^\d{4}-\d{2}-\d{2}$/.test(day) && isValid(parseISO(day)));
 
-  // --- Filtering Logic (Same as before) ---
-  const getFilteredJournals = () => {
-    if (selectedAll || (!startDate && !endDate)) {
-      return journals;
-    }
+const PDF_TEMPLATES: { value: PdfTemplate; label: string; icon: string }[] = [
+  { value: 'entry-per-page', label: 'Entry per page', icon: 'file-document-outline' },
+  { value: 'book', label: 'Book', icon: 'book-open-page-variant-outline' },
+  { value: 'daily-log', label: 'Daily log', icon: 'format-list-bulleted' },
+];
 
-    return journals.filter((journal) => {
-      const journalDate = new Date(journal.date);
+const PDF_FONT_SIZES: { value: PdfFontSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+];
 
-        const dispatch = useAppDispatch(); // ✅ ADD DISPATCH
+const PDF_IMAGE_PLACEMENTS: { value: PdfImagePlacement; label: string }[] = [
+  { value: 'grid', label: 'Grid' },
+  { value: 'full-width', label: 'Full width' },
+  { value: 'none', label: 'No images' },
+];
 
-      const start = startDate ? new Date(startDate) : null;
-      const end = endDate ? new Date(endDate) : null;
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
 
-      if (start && end) {
-        return journalDate >= start && journalDate <= end;
-      } else if (start) {
-        return journalDate >= start;
-      } else if (end) {
-        return journalDate <= end;
-      }
-      return true;
-    });
+const ExportScreen: React.FC<{ navigation: any; route: any }> = ({ navigation, route }) => {
+  const theme = useTheme();
+  const dataKey = useAppSelector((state) => state.auth.encryptionKey);
+  const { notebooks, notebookKeys, activeNotebookId } = useAppSelector(
+    (state) => state.notebooks,
+  );
+  const dispatch = useAppDispatch();
+
+  // Filters handed over by the journal list's "Refine Selection"
+  const initial = route.params?.selection as ExportSelection | undefined;
+
+  // Notebook to export (null = every notebook the Data Key opens)
+  const [scopeId, setScopeId] = useState<string | null>(
+    initial ? (initial.notebookId ?? null) : activeNotebookId,
+  );
+  const scopeNotebook = notebooks.find((n) => n.id === scopeId);
+  // A protected notebook is sealed with its own key, available once unlocked
+  const encryptionKey = scopeNotebook?.protection
+    ? (notebookKeys[scopeNotebook.id] ?? null)
+    : dataKey;
+
+  // id/date of every journal in scope - full journals are only decrypted when exporting
+  const [entries, setEntries] = useState<JournalIndexEntry[]>([]);
+
+  useEffect(() => {
+    if (!encryptionKey) {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+    VaultStorageProvider.listJournalIndex(encryptionKey)
+      .then((all) => {
+        if (cancelled) return;
+        setEntries(scopeId === null ? all : all.filter((e) => e.notebookId === scopeId));
+      })
+      .catch((error) => console.error('Error loading export scope:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptionKey, scopeId]);
+
+  const [startDate, setStartDate] = useState(initial?.from ?? "");
+  const [endDate, setEndDate] = useState(initial?.to ?? "");
+  const [moods, setMoods] = useState<string[]>(initial?.moods ?? []);
+  const [tags, setTags] = useState<string[]>(initial?.tags ?? []);
+  const [query, setQuery] = useState(initial?.query ?? "");
+
+  const allTags = useMemo(() => collectTags(entries), [entries]);
+
+  const datesValid = isDayValid(startDate) && isDayValid(endDate);
+  const rangeValid = !startDate || !endDate || startDate <= endDate;
+
+  const selection = useMemo(
+    (): ExportSelection => ({
+      from: startDate || undefined,
+      to: endDate || undefined,
+      moods: moods.length > 0 ? moods : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      notebookId: scopeId ?? undefined,
+      query: query.trim() || undefined,
+    }),
+    [startDate, endDate, moods, tags, scopeId, query],
+  );
+  const hasFilters = !!(startDate || endDate || moods.length || tags.length || query.trim());
+
+  // Journals the selection takes (null while counting or when the dates are invalid)
+  const [filteredCount, setFilteredCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    setFilteredCount(null);
+    if (!encryptionKey || !datesValid || !rangeValid) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      resolveExportSelection(selection, encryptionKey)
+        .then((ids) => {
+          if (!cancelled) setFilteredCount(ids.length);
+        })
+        .catch((error) => console.error('Error counting export selection:', error));
+    }, COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // entries: re-count when the journals in scope change
+  }, [selection, encryptionKey, datesValid, rangeValid, entries]);
+
+  const clearFilters = () => {
+    setStartDate("");
+    setEndDate("");
+    setMoods([]);
+    setTags([]);
+    setQuery("");
   };
 
-  const filteredJournals = getFilteredJournals();
-  const filteredCount = filteredJournals.length;
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+  const setPdfOption = <K extends keyof PdfExportOptions>(key: K, value: PdfExportOptions[K]) =>
+    setPdfOptions((options) => ({ ...options, [key]: value }));
+
+  // Export State
+  const [isExporting, setIsExporting] = useState(false);
+  // Fraction of the selected journals done (null = not measurable yet)
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
 
   // --- Handlers ---
 
@@ -72,7 +184,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       return;
     }
 
-    if (filteredCount === 0) {
+    if (!filteredCount) {
       Alert.alert('No Journals', 'No journals match your criteria.');
       return;
     }
@@ -99,8 +211,15 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     await new Promise(resolve => resolveImmediately(resolve));
 
     try {
-      // ✅ REUSE: Calling the unified service function
-      const { uri, filename } = await generateExportFile(format, filteredJournals, password);
+      // ✅ REUSE: every format takes the same selection (encrypted is streamed)
+      const { uri, filename, count: exportedCount } = await generateSelectionExport(
+        format,
+        selection,
+        encryptionKey!,
+        password,
+        (done, total) => setExportProgress(total > 0 ? done / total : 1),
+        pdfOptions,
+      );
 
       // Share Logic
       if (Platform.OS !== 'web') {
@@ -111,7 +230,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         // above share file function downloads on web so show alert.
         Alert.alert(
           'Success',
-          `Exported ${filteredJournals.length} journal(s) as ${format.toUpperCase()}\n\nFile downloaded: ${filename}`
+          `Exported ${exportedCount} journal(s) as ${format.toUpperCase()}\n\nFile downloaded: ${filename}`
         );
       } 
 
@@ -120,6 +239,29 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       Alert.alert('Oops!','Export Failed', error.message || 'An unknown error occurred.');
     } finally {
       setIsExporting(false);
+      setExportProgress(null);
+      dispatch(setIsExportImportInProgress(false));
+    }
+  };
+
+  // The PDF in the system print preview, before exporting or printing it
+  const handlePreviewPdf = async () => {
+    if (!encryptionKey || !filteredCount) return;
+
+    setIsExporting(true);
+    dispatch(setIsExportImportInProgress(true));
+    await new Promise(resolve => resolveImmediately(resolve));
+
+    try {
+      await previewSelectionPdf(selection, encryptionKey, pdfOptions, (done, total) =>
+        setExportProgress(total > 0 ? done / total : 1),
+      );
+    } catch (error: any) {
+      console.error('PDF preview error:', error);
+      Alert.alert('Preview Failed', error.message || 'An unknown error occurred.');
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
       dispatch(setIsExportImportInProgress(false));
     }
   };
@@ -160,35 +302,119 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         <Card style={styles.card}>
           <Card.Content>
             <Text variant="titleMedium" style={styles.sectionTitle}>Select Entries</Text>
-            <View style={styles.checkboxRow}>
-              <Checkbox status={selectedAll ? 'checked' : 'unchecked'} onPress={() => setSelectedAll(!selectedAll)} />
-              <Text onPress={() => setSelectedAll(!selectedAll)}>Export All ({journals.length})</Text>
+            {notebooks.length > 0 && (
+              <View style={styles.scopeRow}>
+                <Chip
+                  icon="book-multiple-outline"
+                  selected={scopeId === null}
+                  onPress={() => setScopeId(null)}
+                >
+                  All notebooks
+                </Chip>
+                {notebooks.map((notebook) => {
+                  const isLocked = !!notebook.protection && !notebookKeys[notebook.id];
+                  return (
+                    <Chip
+                      key={notebook.id}
+                      icon={isLocked ? "lock-outline" : notebook.icon}
+                      selected={scopeId === notebook.id}
+                      selectedColor={notebook.color}
+                      onPress={() => setScopeId(notebook.id)}
+                      disabled={isLocked}
+                    >
+                      {notebook.name}
+                    </Chip>
+                  );
+                })}
+              </View>
+            )}
+            {scopeId === null && notebooks.some((n) => n.protection) && (
+              <Text variant="bodySmall" style={[styles.formatDesc, { marginBottom: 8 }]}>
+                Notebooks with a passphrase are exported on their own.
+              </Text>
+            )}
+            <Text variant="labelLarge" style={styles.filterLabel}>Dates</Text>
+            <View style={styles.dateRow}>
+              <TextInput
+                label="From (YYYY-MM-DD)"
+                value={startDate}
+                onChangeText={(text) => setStartDate(text.trim())}
+                mode="outlined"
+                style={styles.dateInput}
+                placeholder="2025-01-01"
+                error={!isDayValid(startDate)}
+              />
+              <TextInput
+                label="To (YYYY-MM-DD)"
+                value={endDate}
+                onChangeText={(text) => setEndDate(text.trim())}
+                mode="outlined"
+                style={styles.dateInput}
+                placeholder="2025-12-31"
+                error={!isDayValid(endDate)}
+              />
+            </View>
+            <HelperText type="error" visible={!datesValid || !rangeValid}>
+              {datesValid ? 'The start date is after the end date' : 'Dates must be real days written as YYYY-MM-DD'}
+            </HelperText>
+
+            <Text variant="labelLarge" style={styles.filterLabel}>Moods</Text>
+            <View style={styles.scopeRow}>
+              {MOOD_OPTIONS.map((mood) => (
+                <Chip
+                  key={mood.value}
+                  selected={moods.includes(mood.value)}
+                  onPress={() => setMoods(toggle(moods, mood.value))}
+                  compact
+                >
+                  {`${mood.emoji} ${mood.label}`}
+                </Chip>
+              ))}
             </View>
 
-            {!selectedAll && (
-              <View style={styles.dateContainer}>
-                 <TextInput
-                  label="Start Date (YYYY-MM-DD)"
-                  value={startDate}
-                  onChangeText={setStartDate}
-                  mode="outlined"
-                  style={styles.dateInput}
-                  placeholder="2025-01-01"
-                />
-                <TextInput
-                  label="End Date (YYYY-MM-DD)"
-                  value={endDate}
-                  onChangeText={setEndDate}
-                  mode="outlined"
-                  style={styles.dateInput}
-                  placeholder="2025-12-31"
-                />              </View>
+            {allTags.length > 0 && (
+              <>
+                <Text variant="labelLarge" style={styles.filterLabel}>Tags (any of)</Text>
+                <View style={styles.scopeRow}>
+                  {allTags.map((tag) => (
+                    <Chip
+                      key={tag}
+                      selected={tags.includes(tag)}
+                      onPress={() => setTags(toggle(tags, tag))}
+                      compact
+                    >
+                      {formatTag(tag)}
+                    </Chip>
+                  ))}
+                </View>
+              </>
             )}
 
+            <Text variant="labelLarge" style={styles.filterLabel}>Search</Text>
+            <TextInput
+              label="Words in the entry"
+              value={query}
+              onChangeText={setQuery}
+              mode="outlined"
+              left={<TextInput.Icon icon="magnify" />}
+              style={styles.searchInput}
+            />
+
+            <Text variant="bodySmall" style={styles.formatDesc}>
+              {describeExportSelection(selection, notebooks)}
+            </Text>
+
             <View style={styles.statsContainer}>
               <Chip icon="file-document-outline" style={{backgroundColor: theme.colors.elevation.level2}}>
-                Selected: {filteredCount}
+                {filteredCount === null
+                  ? 'Counting...'
+                  : `Selected: ${filteredCount} of ${entries.length}`}
               </Chip>
+              {hasFilters && (
+                <Button mode="text" icon="filter-remove-outline" onPress={clearFilters} compact>
+                  Clear Filters
+                </Button>
+              )}
             </View>
           </Card.Content>
         </Card>
@@ -205,7 +431,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
               onPress={() => handleExportClick("encrypted")}
               style={styles.mainButton}
               contentStyle={{ height: 48 }}
-              disabled={isExporting || filteredCount === 0}
+              disabled={isExporting || !filteredCount}
             >
               Encrypted Backup
             </Button>
@@ -219,7 +445,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                 icon="code-json" 
                 onPress={() => handleExportClick("json")} 
                 style={styles.flexBtn}
-                disabled={isExporting || filteredCount === 0}
+                disabled={isExporting || !filteredCount}
               >
                 JSON
               </Button>
@@ -229,7 +455,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                 icon="file-document-outline" 
                 onPress={() => handleExportClick("text")} 
                 style={styles.flexBtn}
-                disabled={isExporting || filteredCount === 0}
+                disabled={isExporting || !filteredCount}
               >
                Markdown Text
               </Button>
@@ -238,7 +464,7 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                 icon="file-pdf-box" 
                 onPress={() => handleExportClick("pdf")} 
                 style={styles.flexBtn}
-                disabled={isExporting || filteredCount === 0}
+                disabled={isExporting || !filteredCount}
               >
                PDF
               </Button>
@@ -246,7 +472,11 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 
             {isExporting && (
               <View style={styles.loadingContainer}>
-                <ProgressBar indeterminate color={theme.colors.primary} />
+                <ProgressBar
+                  indeterminate={exportProgress === null}
+                  progress={exportProgress ?? 0}
+                  color={theme.colors.primary}
+                />
                 <Text variant="bodySmall" style={styles.loadingText}>Processing export...</Text>
               </View>
             )}
@@ -256,6 +486,90 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           </Card.Content>
         </Card>
 
+        {/* PDF Layout Card */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>PDF Layout</Text>
+
+            <Text variant="labelLarge" style={styles.filterLabel}>Template</Text>
+            <View style={styles.scopeRow}>
+              {PDF_TEMPLATES.map((template) => (
+                <Chip
+                  key={template.value}
+                  icon={template.icon}
+                  selected={pdfOptions.template === template.value}
+                  onPress={() => setPdfOption('template', template.value)}
+                >
+                  {template.label}
+                </Chip>
+              ))}
+            </View>
+
+            <Text variant="labelLarge" style={styles.filterLabel}>Paper Size</Text>
+            <View style={styles.scopeRow}>
+              {(Object.keys(PDF_PAPER_SIZES) as (keyof typeof PDF_PAPER_SIZES)[]).map((size) => (
+                <Chip
+                  key={size}
+                  selected={pdfOptions.paperSize === size}
+                  onPress={() => setPdfOption('paperSize', size)}
+                  compact
+                >
+                  {PDF_PAPER_SIZES[size].label}
+                </Chip>
+              ))}
+            </View>
+
+            <Text variant="labelLarge" style={styles.filterLabel}>Font Size</Text>
+            <View style={styles.scopeRow}>
+              {PDF_FONT_SIZES.map((fontSize) => (
+                <Chip
+                  key={fontSize.value}
+                  selected={pdfOptions.fontSize === fontSize.value}
+                  onPress={() => setPdfOption('fontSize', fontSize.value)}
+                  compact
+                >
+                  {fontSize.label}
+                </Chip>
+              ))}
+            </View>
+
+            <Text variant="labelLarge" style={styles.filterLabel}>Images</Text>
+            <View style={styles.scopeRow}>
+              {PDF_IMAGE_PLACEMENTS.map((placement) => (
+                <Chip
+                  key={placement.value}
+                  selected={pdfOptions.imagePlacement === placement.value}
+                  onPress={() => setPdfOption('imagePlacement', placement.value)}
+                  compact
+                >
+                  {placement.label}
+                </Chip>
+              ))}
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text variant="bodyMedium">Include moods</Text>
+              <Switch
+                value={pdfOptions.includeMoods}
+                onValueChange={(value) => setPdfOption('includeMoods', value)}
+              />
+            </View>
+
+            <Button
+              mode="outlined"
+              icon="eye-outline"
+              onPress={handlePreviewPdf}
+              style={styles.mainButton}
+              disabled={isExporting || !filteredCount}
+            >
+              Preview PDF
+            </Button>
+            <Text variant="bodySmall" style={styles.formatDesc}>
+              Opens the print preview, where the PDF can also be printed. The PDF button above uses this layout.
+            </Text>
+          </Card.Content>
+        </Card>
+
         
        <Card style={styles.card}>
           <Card.Content>
@@ -297,6 +611,12 @@ const ExportScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 const styles = StyleSheet.create({
   container: { flex: 1 },
   content: { padding: 16 },
+  scopeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
   card: { marginBottom: 16 },
   title: { fontWeight: "bold", marginBottom: 4 },
     description: {
@@ -304,15 +624,15 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
   sectionTitle: { marginBottom: 16, fontWeight: "bold" },
-  checkboxRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 8, marginLeft: -8 },
-  dateContainer: { marginTop: 0, marginBottom: 12, paddingLeft: 8 },
-  dateRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 },
-  statsContainer: { flexDirection: 'row', justifyContent: 'flex-start', marginTop: 8 },
+  filterLabel: { marginBottom: 8, opacity: 0.8 },
+  switchRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 },
+  dateRow: { flexDirection: 'row', gap: 8 },
+  statsContainer: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 8 },
 
-  dateInputs: {
-    marginTop: 16,
-  },
   dateInput: {
+    flex: 1,
+  },
+  searchInput: {
     marginBottom: 12,
   },
     mainButton: { marginBottom: 4, borderRadius: 8 },
@@ -1,8 +1,9 @@
 // src/screens/Home/HomeScreen.tsx
 import { WeeklyReviewStory } from "@/src/components/home/WeeklyReviewStory";
 import { MOOD_OPTIONS } from "@/src/components/journal/MoodSelector";
-import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
-import { buildWeeklyReviewSummary } from "@/src/services/weeklyReviewService";
+import { NotebookSwitcher } from "@/src/components/notebooks/NotebookSwitcher";
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import { useWeeklyReview } from "@/src/hooks/useWeeklyReview";
 import { Alert } from "@/src/utils/alert";
 import { getRandomPrompt } from "@/src/utils/journalPrompts";
 import { getCalendarTheme } from "@/src/utils/theme";
@@ -27,48 +28,42 @@ import {
   useTheme,
 } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
-import {
-  calculateLongestStreak,
-  getMarkedDates,
-} from "../../services/streakService";
-import { useAppDispatch, useAppSelector } from "../../stores/hooks";
-import {
-  setJournals,
-  setLongestStreak,
-} from "../../stores/slices/journalsSlice";
-
-const VaultStorageProvider = getVaultStorageProvider();
+import { getMarkedDates } from "../../services/streakService";
+import { useAppSelector, useJournalKey } from "../../stores/hooks";
 
 const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const theme = useTheme();
-  const dispatch = useAppDispatch();
+  const { reload } = useJournalLoader();
 
-  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const encryptionKey = useJournalKey();
 
   const currentStreak = useAppSelector((state) => state.journals.currentStreak);
   const longestStreak = useAppSelector((state) => state.journals.longestStreak);
+  // Newest page only (for recent moods); entries covers every journal
   const journals = useAppSelector((state) => state.journals.journals);
+  const entries = useAppSelector((state) => state.journals.entries);
 
   const [todayPrompt, setTodayPrompt] = useState(getRandomPrompt());
 
   const [markedDates, setMarkedDates] = useState<any>({});
   const scaleAnim = React.useRef(new Animated.Value(1)).current;
 
+  // reload changes with the key and the selected notebook
   useEffect(() => {
     loadJournals();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [encryptionKey]);
+  }, [reload]);
 
   useFocusEffect(
     React.useCallback(() => {
       updateMarkedDates();
-    }, [journals]),
+    }, [entries]),
   );
 
   useEffect(() => {
     updateMarkedDates();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [journals]);
+  }, [entries]);
 
   useEffect(() => {
     Animated.sequence([
@@ -77,7 +72,7 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     ]).start();
   }, [currentStreak, scaleAnim]);
 
-  const weekly = useMemo(() => buildWeeklyReviewSummary(journals), [journals]);
+  const weekly = useWeeklyReview();
   const [isWeeklyNew, setIsWeeklyNew] = useState(false);
 
   // useFocusEffect(
@@ -115,19 +110,14 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     if (!encryptionKey) return;
 
     try {
-      const loadedJournals =
-        await VaultStorageProvider.listJournals(encryptionKey);
-      dispatch(setJournals(loadedJournals));
-
-      const longest = calculateLongestStreak(loadedJournals);
-      dispatch(setLongestStreak(longest));
+      await reload();
     } catch (error) {
       console.error("Error loading journals:", error);
     }
   };
 
   const updateMarkedDates = () => {
-    const marked = getMarkedDates(journals, theme.colors);
+    const marked = getMarkedDates(entries, theme.colors);
     setMarkedDates(marked);
   };
 
@@ -172,7 +162,7 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     for (let i = 0; i < 5; i++) {
       const date = subDays(new Date(), i);
       const dateStr = format(date, "yyyy-MM-dd");
-      const count = journals.filter(
+      const count = entries.filter(
         (j) => format(new Date(j.date), "yyyy-MM-dd") === dateStr,
       ).length;
 
@@ -184,9 +174,9 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       });
     }
     return days;
-  }, [journals]);
+  }, [entries]);
 
-  const hasEntries = journals.length > 0;
+  const hasEntries = entries.length > 0;
 
   const heroBg = theme.dark ? "rgba(255,255,255,0.04)" : "rgba(0,0,0,0.03)";
   const subtleBorder = theme.colors.outlineVariant;
@@ -199,6 +189,10 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       <ScrollView
         contentContainerStyle={[styles.content, { paddingBottom: 96 }]}
       >
+        <View style={{ marginBottom: 8 }}>
+          <NotebookSwitcher onManage={() => navigation.navigate("Notebooks")} />
+        </View>
+
         <View style={{ marginBottom: 4 }}>
           <WeeklyReviewStory
             summary={weekly}
@@ -245,7 +239,7 @@ const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                   }}
                 >
                   <Text variant="displaySmall" style={styles.statValue}>
-                    {journals.length}
+                    {entries.length}
                   </Text>
                   <Text style={styles.statEmojiValue}>📝</Text>
                 </Animated.View>
@@ -1,23 +1,72 @@
+import { format } from 'date-fns';
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import React, { useMemo, useState } from 'react';
-import { Platform, StyleSheet, View } from 'react-native';
-import { Button, Card, Dialog, HelperText, Portal, RadioButton, Text, TextInput, useTheme } from 'react-native-paper'; // Added Dialog, Portal, TextInput
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FlatList, Platform, StyleSheet, View } from 'react-native';
+import { Button, Card, Checkbox, Chip, Dialog, Divider, HelperText, Portal, RadioButton, Text, TextInput, useTheme } from 'react-native-paper'; // Added Dialog, Portal, TextInput
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ImportMode, parseExportedJournals } from '../services/importService';
-import { getVaultStorageProvider } from '../services/vaultStorageProvider';
+import { MOOD_OPTIONS } from '../components/journal/MoodSelector';
+import { useJournalLoader } from '../hooks/useJournalLoader';
+import { BackupStreamSource } from '../services/backupStreamService';
+import {
+  importBackupStream,
+  ImportMode,
+  ImportPlan,
+  ImportPlanEntry,
+  isBackupStreamFile,
+  listImportLog,
+  parseExportedJournals,
+  planBackupStream,
+  planImport,
+  runImport,
+  selectForMode,
+  undoLastImport,
+} from '../services/importService';
+import { loadImportFiles, parseForeignJournals } from '../services/journalImporter';
 import { useAppDispatch, useAppSelector } from '../stores/hooks';
-import { setJournals } from '../stores/slices/journalsSlice';
 import { setIsExportImportInProgress } from '../stores/slices/settingsSlice';
+import type { ImportLogEntry, Journal, JournalSummary } from '../types';
 import { Alert } from '../utils/alert';
 import { resolveImmediately } from "../utils/immediatePromiseResolver";
+import { formatTag } from '../utils/tags';
+import { diffWords, DiffPart } from '../utils/textDiff';
 
-const VaultStorageProvider = getVaultStorageProvider()
+const INVALID_LIMIT = 5; // Invalid entries listed in the review
+const LOG_LIMIT = 5; // Recent imports listed
+
+type ImportCounts = { imported: number; skipped: number; invalid: number };
+
+/**
+ * A dry run waiting for the user to choose entries - nothing is saved yet
+ */
+type ImportReview = {
+  title: string;
+  warnings: string[];
+  plan: ImportPlan;
+  journals?: Journal[]; // Parsed file, held until the import
+  stream?: { source: BackupStreamSource; password?: string }; // Read again on import
+};
+
+type StatusFilter = 'all' | ImportPlanEntry['status'];
+
+const STATUS_LABELS: Record<ImportPlanEntry['status'], string> = {
+  new: 'New',
+  duplicate: 'Unchanged',
+  conflict: 'Conflict',
+  locked: 'Cannot replace an entry with this id - left out',
+};
+
+const moodLabel = (mood?: string) => {
+  const option = MOOD_OPTIONS.find((m) => m.value === mood);
+  return option ? `${option.emoji} ${option.label}` : 'No mood';
+};
+
+const tagsLabel = (tags?: string[]) => (tags?.length ? tags.map(formatTag).join(' ') : 'None');
 
 const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
   const theme = useTheme();
   const dispatch = useAppDispatch();
   const encryptionKey = useAppSelector((s) => s.auth.encryptionKey);
+  const { reload: reloadJournals } = useJournalLoader();
 
   const [mode, setMode] = useState<ImportMode>('skip-duplicates');
   const [isImporting, setIsImporting] = useState(false);
@@ -26,32 +75,113 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
   // Password Dialog State
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [importPassword, setImportPassword] = useState("");
-  const [pendingJsonText, setPendingJsonText] = useState<string | null>(null);
+  const [pendingSources, setPendingSources] = useState<BackupStreamSource[] | null>(null);
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
 
+  // Dry run of the picked file(s), with the entries chosen for import
+  const [review, setReview] = useState<ImportReview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [importLog, setImportLog] = useState<ImportLogEntry[]>([]);
+  const [isUndoing, setIsUndoing] = useState(false);
+
   const canImport = useMemo(() => !!encryptionKey && !isImporting, [encryptionKey, isImporting]);
 
-  const readJsonFromPicker = async (): Promise<string | null> => {
-    // ... (Keep existing Web/Native logic)
+  const statusCounts = useMemo(() => {
+    const counts = { new: 0, duplicate: 0, conflict: 0, locked: 0 };
+    for (const entry of review?.plan.entries ?? []) counts[entry.status]++;
+    return counts;
+  }, [review]);
+
+  const visibleEntries = useMemo(() => {
+    const entries = review?.plan.entries ?? [];
+    return statusFilter === 'all' ? entries : entries.filter((e) => e.status === statusFilter);
+  }, [review, statusFilter]);
+
+  const expandedDiff = useMemo((): DiffPart[] => {
+    const entry = review?.plan.entries.find((e) => e.incoming.id === expandedId);
+    if (!entry?.existing) return [];
+    return diffWords(entry.existing.text, entry.incoming.text);
+  }, [review, expandedId]);
+
+  const refreshImportLog = useCallback(async () => {
+    if (!encryptionKey) return;
+    try {
+      setImportLog(await listImportLog(encryptionKey));
+    } catch (e) {
+      console.error('Failed to load import log:', e);
+    }
+  }, [encryptionKey]);
+
+  useEffect(() => {
+    refreshImportLog();
+  }, [refreshImportLog]);
+
+  // Several files only make sense for an incremental backup chain. Files are
+  // only referenced here - a streamed backup is never read whole
+  const pickImportFiles = async (): Promise<BackupStreamSource[] | null> => {
     if (Platform.OS === 'web') {
       return new Promise((resolve) => {
         const input = document.createElement('input');
-        input.type = 'file'; input.accept = 'application/json,.json';
+        input.type = 'file'; input.accept = 'application/json,.json,.jsonl,.zip,.md,.markdown'; input.multiple = true;
         input.onchange = () => {
-          const file = input.files?.[0];
-          if (!file) return resolve(null);
-          const reader = new FileReader();
-          reader.onload = () => resolve(String(reader.result ?? ''));
-          reader.onerror = () => resolve(null);
-          reader.readAsText(file);
+          const files = Array.from(input.files ?? []);
+          resolve(files.length > 0 ? files : null);
         };
         input.click();
       });
     }
 
-    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', 'text/json', 'public.json', '*/*'], copyToCacheDirectory: true, multiple: false });
-    if (result.canceled || !result.assets?.[0]?.uri) return null;
-    return FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', 'text/json', 'public.json', '*/*'], copyToCacheDirectory: true, multiple: true });
+    if (result.canceled || !result.assets?.length) return null;
+    return result.assets.map((asset) => asset.uri);
+  };
+
+  const openReview = (next: ImportReview) => {
+    setReview(next);
+    setSelectedIds(selectForMode(next.plan.entries, mode));
+    setStatusFilter('all');
+    setExpandedId(null);
+  };
+
+  // The mode picks which conflicts are ticked; ticks can then be changed one by one
+  const changeMode = (value: ImportMode) => {
+    setMode(value);
+    if (review) setSelectedIds(selectForMode(review.plan.entries, value));
+  };
+
+  const toggleEntry = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectVisible = (selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      for (const entry of visibleEntries) {
+        if (entry.status === 'locked') continue;
+        if (selected) next.add(entry.incoming.id);
+        else next.delete(entry.incoming.id);
+      }
+      return next;
+    });
+  };
+
+  const finishImport = async ({ imported, skipped, invalid }: ImportCounts) => {
+    await reloadJournals();
+    await refreshImportLog();
+    const invalidInfo = invalid > 0 ? `, Invalid: ${invalid}` : '';
+    setLastInfo(`Imported: ${imported}, Skipped: ${skipped}${invalidInfo}`);
+    Alert.alert(
+      'Import complete',
+      `Imported: ${imported}\nSkipped: ${skipped}${invalid > 0 ? `\nInvalid: ${invalid}` : ''}`
+    );
   };
 
   const handleImport = async () => {
@@ -65,16 +195,16 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
 
     try {
       dispatch(setIsExportImportInProgress(true));
-      const jsonText = await readJsonFromPicker();
-      if (!jsonText) {
+      const sources = await pickImportFiles();
+      if (!sources) {
         setIsImporting(false);
         return;
       }
 
       // Try initial import (might require password)
-      await processImport(jsonText);
+      await processImport(sources);
     } catch (e: any) {
-      if (e.message === 'PASSWORD_REQUIRED' && pendingJsonText) {
+      if (e.message === 'PASSWORD_REQUIRED' && pendingSources) {
          // UI already handled in catch block below? No, handling here.
          // Actually processImport throws, we catch here.
       } else {
@@ -87,32 +217,34 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
     }
   };
 
-  const processImport = async (jsonText: string, password?: string) => {
+  // Dry run only - entries are saved by commitReview once the user confirms
+  const processImport = async (sources: BackupStreamSource[], password?: string) => {
     try {
-      // 1. Parse & Decrypt
-      const imported = await parseExportedJournals(jsonText, password);
-
-      // 2. Save
-      const existing = await VaultStorageProvider.listJournals(encryptionKey!);
-      const existingIds = new Set(existing.map((j) => j.id));
+      if (sources.length === 1 && (await isBackupStreamFile(sources[0]))) {
+        // Streamed backup - decrypted chunk by chunk now, and again on import
+        const plan = await planBackupStream(sources[0], password, encryptionKey!);
+        openReview({ title: 'Encrypted Backup', warnings: [], plan, stream: { source: sources[0], password } });
+      } else {
+        const files = await loadImportFiles(sources);
 
-      let importedCount = 0;
-      let skipped = 0;
+        // Another app's export
+        const foreign = await parseForeignJournals(files);
+        if (foreign) {
+          const plan = await planImport({ journals: foreign.journals, invalid: [] }, encryptionKey!);
+          openReview({ title: `${foreign.format} Export`, warnings: foreign.warnings, plan, journals: foreign.journals });
+        } else {
+          // 1. Parse & Decrypt
+          const texts = await Promise.all(files.map((file) => file.text()));
+          const parsed = await parseExportedJournals(texts, password);
 
-      for (const j of imported) {
-        if (existingIds.has(j.id) && mode === 'skip-duplicates') { skipped++; continue; }
-        await VaultStorageProvider.saveJournal(j, encryptionKey!);
-        importedCount++;
+          // 2. Compare with the vault
+          const plan = await planImport(parsed, encryptionKey!);
+          openReview({ title: 'Journal Export', warnings: [], plan, journals: parsed.journals });
+        }
       }
 
-      const refreshed = await VaultStorageProvider.listJournals(encryptionKey!);
-      dispatch(setJournals(refreshed));
-
-      setLastInfo(`Imported: ${importedCount}, Skipped: ${skipped}`);
-      Alert.alert('Import complete', `Imported: ${importedCount}\nSkipped: ${skipped}`);
-      
       // Cleanup
-      setPendingJsonText(null);
+      setPendingSources(null);
       setImportPassword("");
       setIsImporting(false);
       // navigation.navigate("JournalList")
@@ -120,7 +252,7 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
 
     } catch (error: any) {
        if (error.message === 'PASSWORD_REQUIRED') {
-         setPendingJsonText(jsonText);
+         setPendingSources(sources);
          setShowPasswordDialog(true);
          // Do NOT set isImporting false yet
        } else {
@@ -131,9 +263,9 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
 
   const handlePasswordSubmit = () => {
     setShowPasswordDialog(false);
-    if (pendingJsonText) {
+    if (pendingSources) {
       // Retry import with password
-      processImport(pendingJsonText, importPassword).catch(e => {
+      processImport(pendingSources, importPassword).catch(e => {
         setIsImporting(false);
         if (e.message === 'Invalid Password') {
              Alert.alert("Oops!", "Incorrect password. Import failed.");
@@ -144,34 +276,332 @@ const ImportScreen: React.FC<{navigation: any;}> = (navigation: any) => {
     }
   };
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['bottom']}>
-      <View style={styles.content}>
+  // All ticked entries are saved as one import - a failure leaves the vault as it was
+  const commitReview = async () => {
+    if (!review || !encryptionKey) return;
+
+    setIsImporting(true);
+    dispatch(setIsExportImportInProgress(true));
+    try {
+      let staged = 0;
+      const entry = await runImport(review.title, encryptionKey, async (stage) => {
+        const stageSelected = async (journals: Journal[]) => {
+          const selected = journals.filter((j) => selectedIds.has(j.id));
+          await stage(selected);
+          staged += selected.length;
+          setLastInfo(`Preparing... ${staged} of ${selectedIds.size}`);
+        };
+        if (review.stream) {
+          await importBackupStream(review.stream.source, review.stream.password, stageSelected);
+        } else {
+          await stageSelected(review.journals ?? []);
+        }
+      });
+
+      setReview(null);
+      await finishImport({
+        imported: entry.added + entry.replaced,
+        skipped: review.plan.entries.length - selectedIds.size,
+        invalid: review.plan.invalid.length,
+      });
+    } catch (e: any) {
+      console.error('Import failed:', e);
+      setLastInfo('');
+      Alert.alert('Import failed', `${e?.message ?? 'Could not save the entries.'}\n\nNothing was imported.`);
+    } finally {
+      setIsImporting(false);
+      dispatch(setIsExportImportInProgress(false));
+    }
+  };
+
+  const handleUndo = () => {
+    const last = importLog[0];
+    if (!last?.canUndo || !encryptionKey) return;
+
+    Alert.alert(
+      'Undo last import?',
+      `The ${last.added} added entries will be deleted and the ${last.replaced} replaced entries go back to how they were. Entries you changed since the import are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Undo Import',
+          style: 'destructive',
+          onPress: async () => {
+            setIsUndoing(true);
+            dispatch(setIsExportImportInProgress(true));
+            try {
+              const { removed, restored, kept } = await undoLastImport(encryptionKey);
+              await reloadJournals();
+              await refreshImportLog();
+              setLastInfo('');
+              Alert.alert(
+                'Import undone',
+                `Removed: ${removed}\nRestored: ${restored}${kept > 0 ? `\nKept (changed since): ${kept}` : ''}`
+              );
+            } catch (e: any) {
+              console.error('Undo failed:', e);
+              Alert.alert('Undo failed', e?.message ?? 'Could not undo the import.');
+            } finally {
+              setIsUndoing(false);
+              dispatch(setIsExportImportInProgress(false));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const previewDetails = (journal: JournalSummary) => {
+    const mood = MOOD_OPTIONS.find((m) => m.value === journal.mood);
+    return [
+      mood ? `${mood.emoji} ${mood.label}` : null,
+      journal.tags?.map(formatTag).join(' '),
+      journal.imageCount ? `📷 ${journal.imageCount}` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  // Plan entries are sorted newest first
+  const entries = review?.plan.entries ?? [];
+  const previewRange = entries.length > 0
+    ? `${format(new Date(entries[entries.length - 1].incoming.date), 'MMM d, yyyy')} – ${format(new Date(entries[0].incoming.date), 'MMM d, yyyy')}`
+    : '';
+
+  const addedStyle = {
+    backgroundColor: theme.dark ? 'rgba(76,175,80,0.3)' : 'rgba(76,175,80,0.2)',
+    color: theme.dark ? '#a5d6a7' : '#1b5e20',
+  };
+  const removedStyle = {
+    backgroundColor: theme.dark ? 'rgba(244,67,54,0.3)' : 'rgba(244,67,54,0.15)',
+    color: theme.dark ? '#ef9a9a' : '#b71c1c',
+    textDecorationLine: 'line-through' as const,
+  };
+
+  const statusColor = (status: ImportPlanEntry['status']) =>
+    status === 'new' ? theme.colors.primary : status === 'conflict' ? theme.colors.error : theme.colors.onSurfaceVariant;
+
+  const renderFieldChange = (label: string, before: string, after: string) => {
+    if (before === after) return null;
+    return (
+      <Text variant="bodyMedium" style={styles.fieldChange}>
+        <Text style={styles.fieldLabel}>{label}: </Text>
+        <Text style={removedStyle}>{before}</Text>
+        {'  →  '}
+        <Text style={addedStyle}>{after}</Text>
+      </Text>
+    );
+  };
+
+  // Vault version → file version
+  const renderDiff = (existing: JournalSummary, incoming: JournalSummary) => (
+    <View style={styles.diffContainer}>
+      <Divider style={styles.divider} />
+
+      <View style={styles.legend}>
+        <Text variant="labelSmall" style={[styles.legendItem, removedStyle]}>In your vault</Text>
+        <Text variant="labelSmall" style={[styles.legendItem, addedStyle]}>In the file</Text>
+      </View>
+
+      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+        Last updated: {format(new Date(existing.updatedAt), 'MMM d, yyyy · h:mm a')} in your vault,{' '}
+        {format(new Date(incoming.updatedAt), 'MMM d, yyyy · h:mm a')} in the file
+      </Text>
+      {renderFieldChange('Date', format(new Date(existing.date), 'MMM d, yyyy'), format(new Date(incoming.date), 'MMM d, yyyy'))}
+      {renderFieldChange('Title', existing.title || 'Untitled', incoming.title || 'Untitled')}
+      {renderFieldChange('Mood', moodLabel(existing.mood), moodLabel(incoming.mood))}
+      {renderFieldChange('Tags', tagsLabel(existing.tags), tagsLabel(incoming.tags))}
+      {renderFieldChange('Photos', String(existing.imageCount), String(incoming.imageCount))}
+
+      <Text variant="bodyMedium" style={styles.diffText}>
+        {expandedDiff.map((part, index) => (
+          <Text
+            key={index}
+            style={part.type === 'added' ? addedStyle : part.type === 'removed' ? removedStyle : undefined}
+          >
+            {part.text}
+          </Text>
+        ))}
+      </Text>
+    </View>
+  );
+
+  const renderEntry = ({ item }: { item: ImportPlanEntry }) => {
+    const { incoming, existing, status } = item;
+    const isExpanded = expandedId === incoming.id;
+
+    return (
+      <Card mode="outlined" style={styles.entryCard}>
+        <Card.Content>
+          <View style={styles.entryRow}>
+            <Checkbox.Android
+              status={selectedIds.has(incoming.id) ? 'checked' : 'unchecked'}
+              onPress={() => toggleEntry(incoming.id)}
+              disabled={isImporting || status === 'locked'}
+            />
+            <View style={styles.entryBody}>
+              <Text variant="labelLarge">
+                {format(new Date(incoming.date), 'MMM d, yyyy')} · {incoming.title || 'Untitled'}
+              </Text>
+              <Text variant="bodySmall" numberOfLines={2}>{incoming.text}</Text>
+              {!!previewDetails(incoming) && (
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {previewDetails(incoming)}
+                </Text>
+              )}
+              <Text variant="labelSmall" style={{ color: statusColor(status) }}>{STATUS_LABELS[status]}</Text>
+            </View>
+          </View>
+          {existing && (
+            <Button compact onPress={() => setExpandedId(isExpanded ? null : incoming.id)} style={styles.diffButton}>
+              {isExpanded ? 'Hide differences' : 'Show differences'}
+            </Button>
+          )}
+          {existing && isExpanded && renderDiff(existing, incoming)}
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  const renderFilterChip = (value: StatusFilter, label: string, count: number) => (
+    <Chip
+      key={value}
+      compact
+      selected={statusFilter === value}
+      showSelectedOverlay
+      onPress={() => setStatusFilter(value)}
+    >
+      {label} {count}
+    </Chip>
+  );
+
+  const header = (
+    <>
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleLarge">Import from JSON</Text>
+          <HelperText type="info">Import regular JSON or Encrypted Backup files (.enc.json / .enc.jsonl).</HelperText>
+          <HelperText type="info">
+            Moving from another app? Pick a Day One export (JSON or ZIP), a Journey export, or Markdown
+            files with front matter (a ZIP of the folder brings its images along).
+          </HelperText>
+          <HelperText type="info">
+            For an incremental automatic backup, select its full backup together with every part after it.
+          </HelperText>
+          
+          <Text variant="titleMedium" style={{ marginTop: 12 }}>Duplicate handling</Text>
+          <RadioButton.Group value={mode} onValueChange={(v) => changeMode(v as ImportMode)}>
+            <RadioButton.Item label="Skip duplicates (keep existing)" value="skip-duplicates" />
+            <RadioButton.Item label="Overwrite duplicates" value="overwrite-duplicates" />
+            <RadioButton.Item label="Keep the newer version" value="keep-newer" />
+          </RadioButton.Group>
+
+          <Button mode="contained" onPress={handleImport} disabled={!canImport || !!review} loading={isImporting && !review}>
+            {isImporting && !review ? 'Processing...' : 'Pick File & Import'}
+          </Button>
+          {!!lastInfo && <HelperText type="info">{lastInfo}</HelperText>}
+        </Card.Content>
+      </Card>
+
+      {review && (
         <Card style={styles.card}>
+          <Card.Title
+            title={review.title}
+            subtitle={`${entries.length} entries${previewRange ? ` · ${previewRange}` : ''}`}
+          />
           <Card.Content>
-            <Text variant="titleLarge">Import from JSON</Text>
-            <HelperText type="info">Import regular JSON or Encrypted Backup files.</HelperText>
-            
-            <Text variant="titleMedium" style={{ marginTop: 12 }}>Duplicate handling</Text>
-            <RadioButton.Group value={mode} onValueChange={(v) => setMode(v as ImportMode)}>
-              <RadioButton.Item label="Skip duplicates (keep existing)" value="skip-duplicates" />
-              <RadioButton.Item label="Overwrite duplicates" value="overwrite-duplicates" />
-            </RadioButton.Group>
-
-            <Button mode="contained" onPress={handleImport} disabled={!canImport} loading={isImporting}>
-              {isImporting ? 'Processing...' : 'Pick File & Import'}
+            {review.warnings.map((warning) => (
+              <HelperText key={warning} type="error">{warning}</HelperText>
+            ))}
+
+            <View style={styles.filterRow}>
+              {renderFilterChip('all', 'All', entries.length)}
+              {renderFilterChip('new', 'New', statusCounts.new)}
+              {renderFilterChip('duplicate', 'Unchanged', statusCounts.duplicate)}
+              {renderFilterChip('conflict', 'Conflicts', statusCounts.conflict)}
+              {statusCounts.locked > 0 && renderFilterChip('locked', 'Left out', statusCounts.locked)}
+            </View>
+
+            {review.plan.invalid.length > 0 && (
+              <>
+                <HelperText type="error">
+                  {review.plan.invalid.length} invalid entr{review.plan.invalid.length === 1 ? 'y' : 'ies'} will be left out:
+                </HelperText>
+                {review.plan.invalid.slice(0, INVALID_LIMIT).map(({ position, reason }) => (
+                  <Text key={position} variant="bodySmall" style={styles.invalidItem}>
+                    Entry {position}: {reason}
+                  </Text>
+                ))}
+                {review.plan.invalid.length > INVALID_LIMIT && (
+                  <Text variant="bodySmall" style={styles.invalidItem}>
+                    …and {review.plan.invalid.length - INVALID_LIMIT} more
+                  </Text>
+                )}
+              </>
+            )}
+
+            <HelperText type="info">
+              Nothing is saved yet. Ticked entries are imported; an imported conflict replaces the version in your vault.
+            </HelperText>
+          </Card.Content>
+          <Card.Actions>
+            <Button compact onPress={() => selectVisible(true)} disabled={isImporting || visibleEntries.length === 0}>Select all</Button>
+            <Button compact onPress={() => selectVisible(false)} disabled={isImporting || visibleEntries.length === 0}>Select none</Button>
+          </Card.Actions>
+          <Card.Actions>
+            <Button onPress={() => setReview(null)} disabled={isImporting}>Cancel</Button>
+            <Button mode="contained" onPress={commitReview} loading={isImporting} disabled={isImporting || selectedIds.size === 0}>
+              Import {selectedIds.size} {selectedIds.size === 1 ? 'Entry' : 'Entries'}
             </Button>
-            {!!lastInfo && <HelperText type="info">{lastInfo}</HelperText>}
+          </Card.Actions>
+        </Card>
+      )}
+
+      {!review && importLog.length > 0 && (
+        <Card style={styles.card}>
+          <Card.Title title="Recent Imports" />
+          <Card.Content>
+            {importLog.slice(0, LOG_LIMIT).map((entry) => (
+              <View key={entry.id} style={styles.logItem}>
+                <Text variant="labelLarge">
+                  {format(new Date(entry.importedAt), 'MMM d, yyyy · h:mm a')} · {entry.source}
+                </Text>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {entry.added} added, {entry.replaced} replaced
+                  {entry.undoneAt ? ` · undone ${format(new Date(entry.undoneAt), 'MMM d, h:mm a')}` : ''}
+                </Text>
+              </View>
+            ))}
           </Card.Content>
+          {importLog[0].canUndo && (
+            <Card.Actions>
+              <Button icon="undo" onPress={handleUndo} loading={isUndoing} disabled={isUndoing || isImporting}>
+                Undo Last Import
+              </Button>
+            </Card.Actions>
+          )}
         </Card>
-      </View>
+      )}
+    </>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['bottom']}>
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={(item) => item.incoming.id}
+        renderItem={renderEntry}
+        extraData={[selectedIds, expandedId, isImporting]}
+        ListHeaderComponent={header}
+        contentContainerStyle={styles.content}
+      />
 
       {/* ✅ PASSWORD DIALOG */}
       <Portal>
         <Dialog visible={showPasswordDialog} onDismiss={() => {
           setShowPasswordDialog(false);
           setIsImporting(false);
-          setPendingJsonText(null);
+          setPendingSources(null);
         }}>
           <Dialog.Title>Encrypted Backup</Dialog.Title>
           <Dialog.Content>
@@ -211,6 +641,20 @@ const styles = StyleSheet.create({
   container: { flex: 1 },
   content: { padding: 16 },
   card: { marginBottom: 16 },
+  filterRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginVertical: 8 },
+  invalidItem: { marginLeft: 12 },
+  logItem: { marginBottom: 8, gap: 2 },
+  entryCard: { marginBottom: 8 },
+  entryRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 4 },
+  entryBody: { flex: 1, gap: 2 },
+  diffButton: { alignSelf: 'flex-start', marginTop: 4 },
+  diffContainer: { marginTop: 4 },
+  divider: { marginBottom: 8 },
+  legend: { flexDirection: 'row', gap: 8, marginBottom: 8 },
+  legendItem: { paddingHorizontal: 6, paddingVertical: 2, borderRadius: 4, overflow: 'hidden' },
+  fieldChange: { marginTop: 6 },
+  fieldLabel: { fontWeight: '600' },
+  diffText: { marginTop: 8, lineHeight: 22 },
 });
 
 export default ImportScreen;
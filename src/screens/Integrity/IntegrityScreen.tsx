@@ -0,0 +1,315 @@
+// src/screens/Integrity/IntegrityScreen.tsx
+
+import { useFocusEffect } from "@react-navigation/native";
+import { format } from "date-fns";
+import React, { useCallback, useState } from "react";
+import { Platform, ScrollView, StyleSheet, View } from "react-native";
+import { Button, Card, List, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { PasswordPromptDialog } from "@/src/components/common/PasswordPromptDialog";
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import { useNotebooks } from "@/src/hooks/useNotebooks";
+import { generateRawCiphertextFile, shareFile } from "@/src/services/exportService";
+import {
+  deleteQuarantinedItems,
+  loadQuarantine,
+  quarantineIssues,
+  restoreQuarantinedItems,
+  runIntegrityCheck,
+} from "@/src/services/integrityService";
+import { useAppSelector } from "@/src/stores/hooks";
+import type { IntegrityIssue, IntegrityReport, QuarantinedItem } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+
+const KIND_LABELS: Record<IntegrityIssue["kind"], string> = {
+  journal: "Journal",
+  trash: "Trashed journal",
+  revision: "Revision",
+  notebook: "Notebook",
+  store: "Stored set",
+};
+
+const IntegrityScreen: React.FC<{ navigation: any }> = () => {
+  const theme = useTheme();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  const isDecoySession = useAppSelector((state) => state.auth.isDecoySession);
+  const notebookKeys = useAppSelector((state) => state.notebooks.notebookKeys);
+  const { reload } = useJournalLoader();
+  const { refresh: refreshNotebooks } = useNotebooks();
+
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedItem[]>([]);
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshQuarantine = useCallback(async () => {
+    try {
+      setQuarantine(await loadQuarantine());
+    } catch (error) {
+      console.error("❌ Error loading quarantine:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshQuarantine();
+    }, [refreshQuarantine]),
+  );
+
+  const handleScan = async (password: string) => {
+    if (!dk) return;
+    setIsScanning(true);
+    try {
+      setReport(
+        await runIntegrityCheck(dk, password, Object.values(notebookKeys), isDecoySession),
+      );
+      setShowPasswordDialog(false);
+    } catch (error) {
+      console.error("❌ Integrity check error:", error);
+      Alert.alert("Error", error instanceof Error ? error.message : "Integrity check failed");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Runs a quarantine action with the busy flag set; journals and notebooks may
+  // have appeared or disappeared afterwards
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await refreshQuarantine();
+      await Promise.all([reload(), refreshNotebooks()]).catch(() => {});
+    } catch (error) {
+      console.error(`❌ ${fallbackMessage}:`, error);
+      Alert.alert("Error", error instanceof Error ? error.message : fallbackMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleQuarantine = (issues: IntegrityIssue[]) =>
+    run(async () => {
+      await quarantineIssues(issues);
+      const moved = new Set(issues.map((issue) => issue.id));
+      setReport((current) =>
+        current ? { ...current, issues: current.issues.filter((i) => !moved.has(i.id)) } : current,
+      );
+    }, "Could not quarantine");
+
+  const handleRestore = (item: QuarantinedItem) =>
+    run(() => restoreQuarantinedItems([item.id]), "Could not restore");
+
+  const handleDelete = (item: QuarantinedItem) => {
+    Alert.alert(
+      "Delete forever?",
+      "The damaged data will be gone for good. Export it first if you may want to examine it later.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => run(() => deleteQuarantinedItems([item.id]), "Could not delete"),
+        },
+      ],
+    );
+  };
+
+  const handleExport = async (items: IntegrityIssue[]) => {
+    setIsBusy(true);
+    try {
+      const { uri, filename } = await generateRawCiphertextFile(items);
+      if (Platform.OS !== "web") {
+        await shareFile(uri, filename);
+      }
+    } catch (error) {
+      console.error("❌ Raw export error:", error);
+      Alert.alert("Error", "Could not export the damaged items");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderProblems = (item: IntegrityIssue) => (
+    <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+      {item.problems.join("\n")}
+    </Text>
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text
+          variant="bodyMedium"
+          style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+        >
+          Checks the vault record, its password wrap and the authentication tag
+          of every stored entry. Damaged entries can be moved to quarantine so
+          the rest of your journal keeps working.
+        </Text>
+
+        <Button
+          mode="contained"
+          icon="shield-check-outline"
+          onPress={() => setShowPasswordDialog(true)}
+          loading={isScanning}
+          disabled={isScanning || isBusy}
+          style={styles.button}
+        >
+          {report ? "Check Again" : "Check Vault Integrity"}
+        </Button>
+
+        {report && (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Title
+              title={
+                report.issues.length === 0 && report.vaultProblems.length === 0
+                  ? "No damage found"
+                  : "Damage found"
+              }
+              subtitle={`Checked ${format(new Date(report.scannedAt), "MMM d, yyyy 'at' h:mm a")}`}
+            />
+            <Card.Content>
+              <Text variant="bodyMedium">
+                {report.checked} item{report.checked === 1 ? "" : "s"} verified
+              </Text>
+              {report.unverified > 0 && (
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {report.unverified} sealed with a key that is not open (e.g. a locked
+                  notebook) - unlock it to check these too
+                </Text>
+              )}
+              {report.vaultProblems.map((problem) => (
+                <List.Item
+                  key={problem}
+                  title={problem}
+                  titleNumberOfLines={3}
+                  left={(props) => (
+                    <List.Icon {...props} icon="alert-outline" color={theme.colors.error} />
+                  )}
+                />
+              ))}
+            </Card.Content>
+            {report.issues.length > 0 && (
+              <Card.Actions style={styles.actions}>
+                <Button
+                  mode="text"
+                  onPress={() => handleExport(report.issues)}
+                  disabled={isBusy}
+                >
+                  Export Raw Ciphertext
+                </Button>
+                <Button
+                  mode="contained-tonal"
+                  onPress={() => handleQuarantine(report.issues)}
+                  disabled={isBusy}
+                >
+                  Quarantine All
+                </Button>
+              </Card.Actions>
+            )}
+          </Card>
+        )}
+
+        {report?.issues.map((issue) => (
+          <Card key={issue.id} mode="outlined" style={[styles.card, { borderColor: theme.colors.error }]}>
+            <Card.Title title={issue.label} subtitle={KIND_LABELS[issue.kind]} />
+            <Card.Content>{renderProblems(issue)}</Card.Content>
+            <Card.Actions>
+              <Button mode="text" onPress={() => handleExport([issue])} disabled={isBusy}>
+                Export
+              </Button>
+              <Button mode="contained-tonal" onPress={() => handleQuarantine([issue])} disabled={isBusy}>
+                Quarantine
+              </Button>
+            </Card.Actions>
+          </Card>
+        ))}
+
+        {quarantine.length > 0 && (
+          <>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium">Quarantine</Text>
+              <Button mode="text" onPress={() => handleExport(quarantine)} disabled={isBusy}>
+                Export All
+              </Button>
+            </View>
+            {quarantine.map((item) => (
+              <Card key={item.id} mode="outlined" style={styles.card}>
+                <Card.Title
+                  title={item.label}
+                  subtitle={`${KIND_LABELS[item.kind]} · quarantined ${format(
+                    new Date(item.quarantinedAt),
+                    "MMM d, yyyy",
+                  )}`}
+                />
+                <Card.Content>{renderProblems(item)}</Card.Content>
+                <Card.Actions>
+                  <Button
+                    mode="text"
+                    textColor={theme.colors.error}
+                    onPress={() => handleDelete(item)}
+                    disabled={isBusy}
+                  >
+                    Delete
+                  </Button>
+                  <Button mode="text" onPress={() => handleRestore(item)} disabled={isBusy}>
+                    Restore
+                  </Button>
+                </Card.Actions>
+              </Card>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      <PasswordPromptDialog
+        visible={showPasswordDialog}
+        title="Check Vault Integrity"
+        message="Your password is used to check that the vault's password wrap is intact."
+        submitLabel="Check"
+        isSaving={isScanning}
+        onDismiss={() => setShowPasswordDialog(false)}
+        onSubmit={handleScan}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  button: {
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  actions: {
+    flexWrap: "wrap",
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+});
+
+export default IntegrityScreen;
@@ -19,6 +19,7 @@ import Markdown from "react-native-markdown-display";
 import {
   ActivityIndicator,
   Button,
+  Chip,
   IconButton,
   Surface,
   Text,
@@ -30,10 +31,11 @@ import { base64ToDataUri } from "@/src/services/imageService";
 
 import { MOOD_OPTIONS } from "@/src/components/journal/MoodSelector";
 import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
-import { useAppDispatch, useAppSelector } from "@/src/stores/hooks";
+import { useAppDispatch, useAppSelector, useJournalKey } from "@/src/stores/hooks";
 import { deleteJournal as deleteJournalAction } from "@/src/stores/slices/journalsSlice";
 import type { Journal } from "@/src/types";
 import { Alert } from "@/src/utils/alert";
+import { formatTag } from "@/src/utils/tags";
 
 const { width: screenWidth } = Dimensions.get("window");
 
@@ -45,7 +47,10 @@ const JournalDetailScreen: React.FC<{ navigation: any; route: any }> = ({
 }) => {
   const theme = useTheme();
   const dispatch = useAppDispatch();
-  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const encryptionKey = useJournalKey();
+  const trashRetentionDays = useAppSelector(
+    (state) => state.settings.trashRetentionDays,
+  );
 
   const { journalId, backColor } = route.params;
 
@@ -119,18 +124,18 @@ const JournalDetailScreen: React.FC<{ navigation: any; route: any }> = ({
 
   const handleDelete = () => {
     Alert.alert(
-      "Delete?",
-      "Are you sure you want to delete this memory? This cannot be undone.",
+      "Move to Trash?",
+      `This memory will be moved to the Trash and permanently deleted after ${trashRetentionDays} days.`,
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Delete",
+          text: "Move to Trash",
           style: "destructive",
           onPress: async () => {
             if (!encryptionKey) return;
             setIsDeleting(true);
             try {
-              await VaultStorageProvider.deleteJournal(
+              await VaultStorageProvider.trashJournal(
                 journalId,
                 encryptionKey,
               );
@@ -138,7 +143,7 @@ const JournalDetailScreen: React.FC<{ navigation: any; route: any }> = ({
               navigation.goBack();
             } catch (error) {
               console.error("❌ Delete error:", error);
-              Alert.alert("Oops!", "Failed to delete journal");
+              Alert.alert("Oops!", "Failed to move journal to trash");
               setIsDeleting(false);
             }
           },
@@ -246,6 +251,23 @@ const JournalDetailScreen: React.FC<{ navigation: any; route: any }> = ({
               </View>
             )}
 
+            {!!journal.tags?.length && (
+              <View style={styles.tagRow}>
+                {journal.tags.map((tag) => (
+                  <Chip
+                    key={tag}
+                    compact
+                    icon="tag-outline"
+                    onPress={() => navigation.navigate("JournalList", { tag })}
+                    style={styles.tagChip}
+                    textStyle={styles.tagChipText}
+                  >
+                    {formatTag(tag)}
+                  </Chip>
+                ))}
+              </View>
+            )}
+
             {hasTitle ? (
               <Text
                 style={[styles.title, { color: contentColor }]}
@@ -347,6 +369,15 @@ const JournalDetailScreen: React.FC<{ navigation: any; route: any }> = ({
         >
           Delete
         </Button>
+        <Button
+          mode="text"
+          onPress={() =>
+            navigation.navigate("JournalHistory", { journalId: journal.id })
+          }
+          icon="history"
+        >
+          History
+        </Button>
         <View style={styles.spacer} />
         <Button
           mode="contained"
@@ -462,6 +493,20 @@ const styles = StyleSheet.create({
     fontWeight: 300,
   },
 
+  // Tags
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 8,
+  },
+  tagChip: {
+    borderRadius: 14,
+  },
+  tagChipText: {
+    fontSize: 12,
+  },
+
   // Image Grid
   galleryGrid: {
     flexDirection: "row",
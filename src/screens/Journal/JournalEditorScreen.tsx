@@ -1,11 +1,13 @@
 import { MoodSelector } from "@/src/components/journal/MoodSelector";
+import { TagInput } from "@/src/components/journal/TagInput";
 import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
 import { setIsImagePickingInProgress } from "@/src/stores/slices/settingsSlice";
 import { getRandomPrompt, JournalPrompt } from "@/src/utils/journalPrompts";
 import { getMarkdownStyles } from "@/src/utils/markdownStyles";
+import { collectTags } from "@/src/utils/tags";
 import { useFocusEffect } from "@react-navigation/native";
 import * as ImagePicker from "expo-image-picker";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   BackHandler,
   Image,
@@ -30,7 +32,7 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { v4 as uuidv4 } from "uuid";
 import { base64ToDataUri, imageUriToBase64 } from "../../services/imageService";
-import { useAppDispatch, useAppSelector } from "../../stores/hooks";
+import { useAppDispatch, useAppSelector, useJournalKey } from "../../stores/hooks";
 import { addJournal, updateJournal } from "../../stores/slices/journalsSlice";
 import { Journal } from "../../types";
 import { Alert } from "../../utils/alert";
@@ -43,7 +45,10 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
   const theme = useTheme();
   const dispatch = useAppDispatch();
   // const { encryptionKey } = useAuth();
-  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const encryptionKey = useJournalKey();
+  const entries = useAppSelector((state) => state.journals.entries);
+  const activeNotebookId = useAppSelector((state) => state.notebooks.activeNotebookId);
+  const tagSuggestions = useMemo(() => collectTags(entries), [entries]);
 
   const journalId = route.params?.journalId || null;
   const selectedDate = route.params?.selectedDate || null;
@@ -66,6 +71,7 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
 
   // Inside the JournalEditorScreen component, add mood state after other states:
   const [selectedMood, setSelectedMood] = useState<string>("");
+  const [tags, setTags] = useState<string[]>([]);
 
   // New state for Markdown Preview toggle
   const [isPreviewMode, setIsPreviewMode] = useState(true);
@@ -178,7 +184,7 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
         onBackPress,
       );
       return () => subscription.remove();
-    }, [text, title, imageBase64List,selectedMood, encryptionKey, isJournalModified]),
+    }, [text, title, imageBase64List,selectedMood, tags, encryptionKey, isJournalModified]),
   );
 
   useFocusEffect(
@@ -195,7 +201,7 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
         await handleSave(false);
       };
       callSaveAsync();
-    }, [encryptionKey, text, title, selectedMood, imageBase64List]),
+    }, [encryptionKey, text, title, selectedMood, tags, imageBase64List]),
   );
 
   const loadJournal = async () => {
@@ -211,6 +217,7 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
         setTitle(journal.title || "");
         setText(journal.text);
         setSelectedMood(journal.mood || ""); // ADD THIS LINE
+        setTags(journal.tags ?? []);
         if (journal.images && journal.images.length > 0) {
           setImageBase64List(journal.images);
           setImageIds(journal.images.map(() => uuidv4()));
@@ -311,7 +318,10 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
         title: title.trim() || undefined,
         text: text.trim(),
         mood: selectedMood || undefined, // ADD THIS LINE
+        tags: tags.length > 0 ? tags : undefined,
         images: imageBase64List.length > 0 ? imageBase64List : undefined,
+        // New entries go into the notebook being viewed
+        notebookId: existingJournal ? existingJournal.notebookId : activeNotebookId ?? undefined,
       };
 
       await VaultStorageProvider.saveJournal(journal, encryptionKey);
@@ -502,6 +512,12 @@ const JournalEditorScreen: React.FC<{ navigation: any; route: any }> = ({
             label="I am feeling:"
           />
 
+          <TagInput
+            tags={tags}
+            onChangeTags={setTags}
+            suggestions={tagSuggestions}
+          />
+
           {/* Attachments Section */}
           {(imageBase64List.length > 0 || isCompressingImage) && (
             <View style={styles.attachmentsArea}>
@@ -0,0 +1,373 @@
+// src/screens/Journal/JournalHistoryScreen.tsx
+
+import { useFocusEffect } from "@react-navigation/native";
+import { format, formatDistanceToNow } from "date-fns";
+import React, { useCallback, useMemo, useState } from "react";
+import { FlatList, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  Divider,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { MOOD_OPTIONS } from "@/src/components/journal/MoodSelector";
+import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
+import { useAppDispatch, useJournalKey } from "@/src/stores/hooks";
+import { updateJournal } from "@/src/stores/slices/journalsSlice";
+import type { Journal, JournalRevision } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+import { formatTag } from "@/src/utils/tags";
+import { countDiffWords, diffWords, DiffPart } from "@/src/utils/textDiff";
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+const moodLabel = (mood?: string) => {
+  const option = MOOD_OPTIONS.find((m) => m.value === mood);
+  return option ? `${option.emoji} ${option.label}` : "No mood";
+};
+
+const JournalHistoryScreen: React.FC<{ navigation: any; route: any }> = ({
+  navigation,
+  route,
+}) => {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const encryptionKey = useJournalKey();
+
+  const { journalId } = route.params;
+
+  const [journal, setJournal] = useState<Journal | null>(null);
+  const [revisions, setRevisions] = useState<JournalRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      const loadHistory = async () => {
+        if (!encryptionKey) return;
+        setIsLoading(true);
+        try {
+          const [current, history] = await Promise.all([
+            VaultStorageProvider.getJournal(journalId, encryptionKey),
+            VaultStorageProvider.listRevisions(journalId, encryptionKey),
+          ]);
+          setJournal(current);
+          setRevisions(history);
+        } catch (error) {
+          console.error("❌ Error loading journal history:", error);
+          Alert.alert("Error", "Failed to load revision history");
+          navigation.goBack();
+        } finally {
+          setIsLoading(false);
+        }
+      };
+      loadHistory();
+    }, [journalId, encryptionKey, navigation]),
+  );
+
+  // Word counts per revision, compared with the current version
+  const changeCounts = useMemo(() => {
+    const counts: Record<string, { added: number; removed: number }> = {};
+    if (!journal) return counts;
+    for (const revision of revisions) {
+      counts[revision.id] = countDiffWords(diffWords(revision.text, journal.text));
+    }
+    return counts;
+  }, [journal, revisions]);
+
+  const expandedDiff = useMemo((): DiffPart[] => {
+    const revision = revisions.find((r) => r.id === expandedId);
+    if (!revision || !journal) return [];
+    return diffWords(revision.text, journal.text);
+  }, [expandedId, journal, revisions]);
+
+  const handleRestore = (revision: JournalRevision) => {
+    Alert.alert(
+      "Restore this version?",
+      "The entry will be replaced with this version. The current version stays in the history, so you can switch back.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: async () => {
+            if (!encryptionKey) return;
+            setRestoringId(revision.id);
+            try {
+              const restored = await VaultStorageProvider.restoreRevision(
+                journalId,
+                revision.id,
+                encryptionKey,
+              );
+              dispatch(updateJournal(restored));
+              navigation.goBack();
+            } catch (error) {
+              console.error("❌ Restore error:", error);
+              Alert.alert("Oops!", "Failed to restore this version");
+              setRestoringId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const addedStyle = {
+    backgroundColor: theme.dark ? "rgba(76,175,80,0.3)" : "rgba(76,175,80,0.2)",
+    color: theme.dark ? "#a5d6a7" : "#1b5e20",
+  };
+  const removedStyle = {
+    backgroundColor: theme.dark ? "rgba(244,67,54,0.3)" : "rgba(244,67,54,0.15)",
+    color: theme.dark ? "#ef9a9a" : "#b71c1c",
+    textDecorationLine: "line-through" as const,
+  };
+
+  const renderDiff = (revision: JournalRevision) => {
+    if (!journal) return null;
+    const titleChanged = (revision.title ?? "") !== (journal.title ?? "");
+    const moodChanged = (revision.mood ?? "") !== (journal.mood ?? "");
+    const tagsChanged =
+      (revision.tags ?? []).join(",") !== (journal.tags ?? []).join(",");
+
+    return (
+      <View style={styles.diffContainer}>
+        <Divider style={styles.divider} />
+
+        <View style={styles.legend}>
+          <Text variant="labelSmall" style={[styles.legendItem, removedStyle]}>
+            Only in this version
+          </Text>
+          <Text variant="labelSmall" style={[styles.legendItem, addedStyle]}>
+            Added since
+          </Text>
+        </View>
+
+        {titleChanged && (
+          <Text variant="bodyMedium" style={styles.fieldChange}>
+            <Text style={styles.fieldLabel}>Title: </Text>
+            <Text style={removedStyle}>{revision.title || "Untitled"}</Text>
+            {"  →  "}
+            <Text style={addedStyle}>{journal.title || "Untitled"}</Text>
+          </Text>
+        )}
+        {moodChanged && (
+          <Text variant="bodyMedium" style={styles.fieldChange}>
+            <Text style={styles.fieldLabel}>Mood: </Text>
+            <Text style={removedStyle}>{moodLabel(revision.mood)}</Text>
+            {"  →  "}
+            <Text style={addedStyle}>{moodLabel(journal.mood)}</Text>
+          </Text>
+        )}
+        {tagsChanged && (
+          <View style={styles.tagRow}>
+            <Text style={styles.fieldLabel}>Tags:</Text>
+            {(revision.tags ?? []).map((tag) => (
+              <Chip key={tag} compact style={styles.tagChip} textStyle={styles.tagChipText}>
+                {formatTag(tag)}
+              </Chip>
+            ))}
+            {!revision.tags?.length && <Text variant="bodySmall">None</Text>}
+          </View>
+        )}
+
+        <Text variant="bodyMedium" style={styles.diffText}>
+          {expandedDiff.map((part, index) => (
+            <Text
+              key={index}
+              style={
+                part.type === "added"
+                  ? addedStyle
+                  : part.type === "removed"
+                    ? removedStyle
+                    : undefined
+              }
+            >
+              {part.text}
+            </Text>
+          ))}
+        </Text>
+
+        <Button
+          mode="contained-tonal"
+          icon="restore"
+          onPress={() => handleRestore(revision)}
+          loading={restoringId === revision.id}
+          disabled={!!restoringId}
+          style={styles.restoreButton}
+        >
+          Restore this version
+        </Button>
+      </View>
+    );
+  };
+
+  const renderRevision = ({ item }: { item: JournalRevision }) => {
+    const isExpanded = expandedId === item.id;
+    const counts = changeCounts[item.id];
+    const savedAt = new Date(item.savedAt);
+
+    return (
+      <Card
+        mode="outlined"
+        style={styles.card}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+      >
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <View style={styles.cardTitle}>
+              <Text variant="titleSmall">{format(savedAt, "MMM d, yyyy · h:mm a")}</Text>
+              <Text
+                variant="bodySmall"
+                style={{ color: theme.colors.onSurfaceVariant }}
+              >
+                {formatDistanceToNow(savedAt, { addSuffix: true })}
+                {item.title ? ` · ${item.title}` : ""}
+              </Text>
+            </View>
+            {counts && (counts.added > 0 || counts.removed > 0) && (
+              <View style={styles.counts}>
+                <Text variant="labelMedium" style={{ color: addedStyle.color }}>
+                  +{counts.added}
+                </Text>
+                <Text variant="labelMedium" style={{ color: removedStyle.color }}>
+                  −{counts.removed}
+                </Text>
+              </View>
+            )}
+          </View>
+          {isExpanded && renderDiff(item)}
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <FlatList
+        data={revisions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderRevision}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text
+            variant="bodyMedium"
+            style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Earlier versions are kept every time you save. Tap a version to see what changed since.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text variant="titleMedium">No earlier versions yet</Text>
+            <Text
+              variant="bodyMedium"
+              style={{ color: theme.colors.onSurfaceVariant, textAlign: "center" }}
+            >
+              Versions appear here after you edit this entry.
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  cardTitle: {
+    flex: 1,
+    gap: 2,
+  },
+  counts: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  diffContainer: {
+    marginTop: 8,
+  },
+  divider: {
+    marginBottom: 12,
+  },
+  legend: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  legendItem: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  fieldChange: {
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontWeight: "700",
+  },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 8,
+  },
+  tagChip: {
+    borderRadius: 14,
+  },
+  tagChipText: {
+    fontSize: 12,
+  },
+  diffText: {
+    lineHeight: 22,
+  },
+  restoreButton: {
+    marginTop: 16,
+    alignSelf: "flex-start",
+  },
+  emptyState: {
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 48,
+  },
+});
+
+export default JournalHistoryScreen;
@@ -3,15 +3,30 @@
 import { ExportFormat, ExportModal } from "@/src/components/common/ExportModal";
 import { setIsExportImportInProgress } from "@/src/stores/slices/settingsSlice";
 import { getMarkdownStyles } from "@/src/utils/markdownStyles";
+import { collectTags, formatTag } from "@/src/utils/tags";
 import { getJournalCardStyle } from "@/src/utils/theme";
 
 import { useFocusEffect } from "@react-navigation/native";
 import { format as DateFormat, isFuture, parseISO } from "date-fns";
-import React, { useCallback, useMemo, useState } from "react";
-import { FlatList, RefreshControl, StyleSheet, View } from "react-native";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  FlatList,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
 import Markdown from "react-native-markdown-display";
 import {
+  ActivityIndicator,
   Card,
+  Chip,
   FAB,
   IconButton,
   Searchbar,
@@ -21,20 +36,29 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { MOOD_OPTIONS } from "@/src/components/journal/MoodSelector";
-import { generateExportFile, shareFile } from "@/src/services/exportService";
+import { NotebookSwitcher } from "@/src/components/notebooks/NotebookSwitcher";
+import APP_CONFIG from "@/src/config/appConfig";
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import {
+  describeExportSelection,
+  generateSelectionExport,
+  shareFile,
+} from "@/src/services/exportService";
+import { buildSnippet } from "@/src/services/searchService";
 import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
-import { useAppDispatch, useAppSelector } from "@/src/stores/hooks";
+import { useAppDispatch, useAppSelector, useJournalKey } from "@/src/stores/hooks";
 import {
   deleteJournal as deleteJournalAction,
-  setJournals,
   setLoading,
 } from "@/src/stores/slices/journalsSlice";
-import type { Journal } from "@/src/types";
+import type { ExportSelection, JournalSummary, SearchHit } from "@/src/types";
 import { Alert } from "@/src/utils/alert";
 import { resolveImmediately } from "@/src/utils/immediatePromiseResolver";
 
 const VaultStorageProvider = getVaultStorageProvider();
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
   navigation,
   route,
@@ -45,61 +69,193 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
   const selectedDate = route.params?.selectedDate as string | undefined;
 
   // --- Redux State ---
-  const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const encryptionKey = useJournalKey();
+  const activeNotebookId = useAppSelector((state) => state.notebooks.activeNotebookId);
+  const notebooks = useAppSelector((state) => state.notebooks.notebooks);
+  // Pages loaded so far (no images) and the id/date/tags of every journal
   const journals = useAppSelector((state) => state.journals.journals);
+  const entries = useAppSelector((state) => state.journals.entries);
   const isGlobalLoading = useAppSelector((state) => state.journals.isLoading);
+  const trashRetentionDays = useAppSelector(
+    (state) => state.settings.trashRetentionDays,
+  );
+  const { reload, loadMore, hasMore } = useJournalLoader();
 
   // --- Local UI State ---
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(
+    (route.params?.tag as string | undefined) ?? null,
+  );
   const [refreshing, setRefreshing] = useState(false);
 
+  // Follow tag links from JournalDetail when this screen is already mounted
+  const routeTag = route.params?.tag as string | undefined;
+  useEffect(() => {
+    if (routeTag) setSelectedTag(routeTag);
+  }, [routeTag]);
+
   const [isExporting, setIsExporting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const [exportModalVisible, setExportModalVisible] = useState(false);
 
-  const filteredJournals = useMemo(() => {
-    let result = [...journals];
+  // Filtered view pages through `filteredIds` locally
+  const [filteredJournals, setFilteredJournals] = useState<JournalSummary[]>(
+    [],
+  );
+  const [filteredOffset, setFilteredOffset] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const filterRequestRef = useRef(0);
+
+  const allTags = useMemo(() => collectTags(entries), [entries]);
 
-    if (selectedDate) {
-      result = result.filter((journal) => {
-        const journalDate = new Date(journal.date);
+  // Ranked search against the encrypted index (debounced, re-run when journals change)
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !encryptionKey) {
+      setSearchHits(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await VaultStorageProvider.searchJournals(
+          query,
+          encryptionKey,
+        );
+        if (!cancelled) setSearchHits(hits);
+      } catch (error) {
+        console.error("❌ Error searching journals:", error);
+        if (!cancelled) setSearchHits([]);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, encryptionKey, entries]);
+
+  /**
+   * Ids matching the date / tag / search filters, in display order.
+   * null when nothing is filtered and the paged Redux list is shown instead.
+   */
+  const filteredIds = useMemo(() => {
+    const isSearching = searchQuery.trim().length > 0;
+    if (!selectedDate && !selectedTag && !isSearching) return null;
+
+    const matching = entries.filter((entry) => {
+      if (selectedTag && !entry.tags.includes(selectedTag)) return false;
+      if (selectedDate) {
+        const journalDate = new Date(entry.date);
         const year = journalDate.getFullYear();
         const month = String(journalDate.getMonth() + 1).padStart(2, "0");
         const day = String(journalDate.getDate()).padStart(2, "0");
-        return `${year}-${month}-${day}` === selectedDate;
-      });
+        if (`${year}-${month}-${day}` !== selectedDate) return false;
+      }
+      return true;
+    });
+
+    if (!isSearching) return matching.map((entry) => entry.id);
+
+    // Keep the index's relevance order
+    const allowed = new Set(matching.map((entry) => entry.id));
+    return (searchHits ?? [])
+      .map((hit) => hit.id)
+      .filter((id) => allowed.has(id));
+  }, [entries, selectedDate, selectedTag, searchQuery, searchHits]);
+
+  const loadFilteredPage = useCallback(
+    async (offset: number) => {
+      if (!encryptionKey || !filteredIds) return;
+
+      const request = ++filterRequestRef.current;
+      const ids = filteredIds.slice(
+        offset,
+        offset + APP_CONFIG.JOURNAL_PAGE_SIZE,
+      );
+      const page = await VaultStorageProvider.listJournalSummaries(
+        encryptionKey,
+        { ids, limit: ids.length },
+      );
+      // A newer filter replaced this one while decrypting
+      if (request !== filterRequestRef.current) return;
+
+      const byId = new Map(page.items.map((journal) => [journal.id, journal]));
+      const items = ids
+        .map((id) => byId.get(id))
+        .filter((journal): journal is JournalSummary => !!journal);
+
+      setFilteredJournals((prev) => (offset === 0 ? items : [...prev, ...items]));
+      setFilteredOffset(offset + ids.length);
+    },
+    [encryptionKey, filteredIds],
+  );
+
+  useEffect(() => {
+    if (!filteredIds) {
+      filterRequestRef.current++;
+      setFilteredJournals([]);
+      setFilteredOffset(0);
+      return;
     }
+    loadFilteredPage(0).catch((error) => {
+      console.error("❌ Error loading filtered journals:", error);
+    });
+  }, [filteredIds, loadFilteredPage]);
 
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      result = result.filter(
-        (journal) =>
-          (journal.title || "").toLowerCase().includes(query) ||
-          journal.text.toLowerCase().includes(query),
-      );
+  const visibleJournals = filteredIds ? filteredJournals : journals;
+  const totalCount = filteredIds ? filteredIds.length : entries.length;
+  const canLoadMore = filteredIds
+    ? filteredOffset < filteredIds.length
+    : hasMore;
+
+  const handleLoadMore = async () => {
+    if (!canLoadMore || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      if (filteredIds) {
+        await loadFilteredPage(filteredOffset);
+      } else {
+        await loadMore();
+      }
+    } catch (error) {
+      console.error("❌ Error loading more journals:", error);
+    } finally {
+      setIsLoadingMore(false);
     }
+  };
 
-    return result.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
-    );
-  }, [journals, selectedDate, searchQuery]);
+  /**
+   * The current view as an export selection (day, tag, search and notebook)
+   */
+  const exportSelection = useMemo((): ExportSelection => {
+    const query = searchQuery.trim();
+    return {
+      from: selectedDate,
+      to: selectedDate,
+      tags: selectedTag ? [selectedTag] : undefined,
+      notebookId: activeNotebookId ?? undefined,
+      query: query || undefined,
+    };
+  }, [selectedDate, selectedTag, searchQuery, activeNotebookId]);
 
   const loadJournals = useCallback(async () => {
     if (!encryptionKey) return;
 
     dispatch(setLoading(true));
     try {
-      const loadedJournals =
-        await VaultStorageProvider.listJournals(encryptionKey);
-      dispatch(setJournals(loadedJournals));
+      await reload();
     } catch (error) {
       console.error("❌ Error loading journals:", error);
       Alert.alert("Error", "Failed to load journals");
     } finally {
       dispatch(setLoading(false));
     }
-  }, [dispatch, encryptionKey]);
+  }, [dispatch, encryptionKey, reload]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -115,6 +271,14 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
     }, [encryptionKey, journals.length, loadJournals]),
   );
 
+  // Picking another notebook swaps the journals shown
+  const shownNotebookRef = useRef(activeNotebookId);
+  useEffect(() => {
+    if (shownNotebookRef.current === activeNotebookId) return;
+    shownNotebookRef.current = activeNotebookId;
+    loadJournals();
+  }, [activeNotebookId, loadJournals]);
+
   /**
    * Called when the user taps the export icon on a specific date header in JournalList.
    */
@@ -127,8 +291,8 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
    * Encapsulates the logic for both standard and encrypted exports.
    */
   const onExport = async (exportFormat: ExportFormat, password?: string) => {
-    if (filteredJournals.length === 0) {
-      Alert.alert("No Journals", "No entries found for this date.");
+    if (totalCount === 0) {
+      Alert.alert("No Journals", "No entries match the current view.");
       setExportModalVisible(false);
       return;
     }
@@ -159,9 +323,10 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
 
     try {
       // Generate the file (JSON, PDF, Text, or Encrypted)
-      const { uri, filename } = await generateExportFile(
+      const { uri, filename } = await generateSelectionExport(
         exportFormat,
-        filteredJournals,
+        exportSelection,
+        encryptionKey,
         password,
       );
 
@@ -179,26 +344,26 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
 
   const handleDeleteJournal = async (journalId: string) => {
     Alert.alert(
-      "Delete?",
-      "Are you sure you want to delete this memory? This cannot be undone.?",
+      "Move to Trash?",
+      `This memory will be moved to the Trash and permanently deleted after ${trashRetentionDays} days.`,
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Delete",
+          text: "Move to Trash",
           style: "destructive",
           onPress: async () => {
             if (!encryptionKey) return;
 
             setIsDeleting(true);
             try {
-              await VaultStorageProvider.deleteJournal(
+              await VaultStorageProvider.trashJournal(
                 journalId,
                 encryptionKey,
               );
               dispatch(deleteJournalAction(journalId));
             } catch (error) {
               console.error("❌ Delete error:", error);
-              Alert.alert("Oops!", "Failed to delete journal");
+              Alert.alert("Oops!", "Failed to move journal to trash");
             } finally {
               setIsDeleting(false);
             }
@@ -232,13 +397,20 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
   /**
    * Elegant card with left date banner + preserved background color scheme
    */
-  const JournalCard = ({ item, index }: { item: Journal; index: number }) => {
+  const JournalCard = ({
+    item,
+    index,
+  }: {
+    item: JournalSummary;
+    index: number;
+  }) => {
     const dateObj = new Date(item.date);
     const day = DateFormat(dateObj, "dd");
     const month = DateFormat(dateObj, "MMM").toUpperCase();
     const formattedTime = DateFormat(dateObj, "hh:mm a");
 
-    const hasImages = !!item.images && item.images.length > 0;
+    const hasImages = item.imageCount > 0;
+    const tags = item.tags ?? [];
 
     const cardStyle = getJournalCardStyle(theme, index);
     const markdownStyles = getMarkdownStyles(theme);
@@ -251,6 +423,10 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
         ? item.text.substring(0, 180).replace(/\n/g, " ") + "…"
         : item.text;
 
+    const snippet = searchQuery.trim()
+      ? buildSnippet(item.text, searchQuery)
+      : null;
+
     const bannerBg = theme.dark ? "rgba(0,0,0,0.18)" : "rgba(255,255,255,0.55)";
 
     // GET MOOD EMOJI - ADD THIS
@@ -319,52 +495,82 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
                 )}
               </View>
 
-              <View style={styles.preview}>
-                <Markdown
-                  style={{
-                    ...markdownStyles,
-                    // Force body text to be compact
-                    body: {
-                      fontSize: 14,
-                      lineHeight: 20,
-                      color: theme.colors.onSurfaceVariant,
-                    },
-                    // Kill margins on paragraphs
-                    paragraph: {
-                      marginBottom: 0,
-                      marginTop: 0,
-                    },
-                    // NEUTRALIZE HEADERS (h1-h6) to look like normal bold text
-                    heading1: {
-                      fontSize: 14,
-                      lineHeight: 20,
-                      fontWeight: "700",
-                      marginBottom: 4,
-                      marginTop: 0,
-                    },
-                    heading2: {
-                      fontSize: 14,
-                      lineHeight: 20,
-                      fontWeight: "700",
-                      marginBottom: 4,
-                      marginTop: 0,
-                    },
-                    heading3: {
-                      fontSize: 14,
-                      lineHeight: 20,
-                      fontWeight: "700",
-                      marginBottom: 4,
-                      marginTop: 0,
-                    },
-                    // Ensure lists don't add huge padding
-                    list: {
-                      marginBottom: 0,
-                    },
-                  }}
+              {snippet ? (
+                <Text
+                  style={[
+                    styles.preview,
+                    styles.snippetText,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                  numberOfLines={4}
                 >
-                  {previewText}
-                </Markdown>
-              </View>
+                  {snippet.map((segment, i) =>
+                    segment.highlight ? (
+                      <Text
+                        key={i}
+                        style={[
+                          styles.snippetHighlight,
+                          {
+                            color: theme.colors.onSurface,
+                            backgroundColor: theme.colors.primaryContainer,
+                          },
+                        ]}
+                      >
+                        {segment.text}
+                      </Text>
+                    ) : (
+                      segment.text
+                    ),
+                  )}
+                </Text>
+              ) : (
+                <View style={styles.preview}>
+                  <Markdown
+                    style={{
+                      ...markdownStyles,
+                      // Force body text to be compact
+                      body: {
+                        fontSize: 14,
+                        lineHeight: 20,
+                        color: theme.colors.onSurfaceVariant,
+                      },
+                      // Kill margins on paragraphs
+                      paragraph: {
+                        marginBottom: 0,
+                        marginTop: 0,
+                      },
+                      // NEUTRALIZE HEADERS (h1-h6) to look like normal bold text
+                      heading1: {
+                        fontSize: 14,
+                        lineHeight: 20,
+                        fontWeight: "700",
+                        marginBottom: 4,
+                        marginTop: 0,
+                      },
+                      heading2: {
+                        fontSize: 14,
+                        lineHeight: 20,
+                        fontWeight: "700",
+                        marginBottom: 4,
+                        marginTop: 0,
+                      },
+                      heading3: {
+                        fontSize: 14,
+                        lineHeight: 20,
+                        fontWeight: "700",
+                        marginBottom: 4,
+                        marginTop: 0,
+                      },
+                      // Ensure lists don't add huge padding
+                      list: {
+                        marginBottom: 0,
+                      },
+                    }}
+                  >
+                    {previewText}
+                  </Markdown>
+                </View>
+              )}
 
               <View style={styles.metaRow}>
                 {hasImages && (
@@ -386,11 +592,37 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
                         { color: theme.colors.onSurfaceVariant },
                       ]}
                     >
-                      {item.images!.length}
+                      {item.imageCount}
                     </Text>
                   </View>
                 )}
 
+                {tags.slice(0, 3).map((tag) => (
+                  <Chip
+                    key={tag}
+                    compact
+                    selected={selectedTag === tag}
+                    onPress={() =>
+                      setSelectedTag(selectedTag === tag ? null : tag)
+                    }
+                    style={styles.tagChip}
+                    textStyle={styles.tagChipText}
+                  >
+                    {formatTag(tag)}
+                  </Chip>
+                ))}
+                {tags.length > 3 && (
+                  <Text
+                    style={[
+                      styles.metaText,
+                      styles.moreTags,
+                      { color: theme.colors.onSurfaceVariant },
+                    ]}
+                  >
+                    +{tags.length - 3}
+                  </Text>
+                )}
+
                 <View style={styles.actionButtonContainer}>
                   <IconButton
                     icon="trash-can-outline"
@@ -434,10 +666,11 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
       */}
       <ExportModal
         visible={exportModalVisible}
-        journalsList={filteredJournals}
-        selectedDate={selectedDate || DateFormat(new Date(), "yyyy-MM-dd")}
+        entryCount={totalCount}
+        description={describeExportSelection(exportSelection, notebooks)}
         onClose={() => setExportModalVisible(false)}
         onExport={onExport}
+        onRefine={() => navigation.navigate("Export", { selection: exportSelection })}
       />
       {/* Header */}
       <Card
@@ -453,8 +686,7 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
                 {selectedDateFormatted || "📖 All My Journals"}
               </Text>
               <Text variant="bodyMedium" style={styles.subtitle}>
-                {filteredJournals.length}{" "}
-                {filteredJournals.length === 1 ? "entry" : "entries"}
+                {totalCount} {totalCount === 1 ? "entry" : "entries"}
               </Text>
             </View>
 
@@ -462,14 +694,18 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
               icon="export-variant"
               mode="contained-tonal"
               onPress={() => handleOpenExport()}
-              disabled={filteredJournals.length === 0 || isDeleting}
+              disabled={totalCount === 0 || isDeleting}
             />
           </View>
         </Card.Content>
       </Card>
 
+      <View style={styles.notebookSwitcher}>
+        <NotebookSwitcher onManage={() => navigation.navigate("Notebooks")} />
+      </View>
+
       {/* Search */}
-      {journals.length > 0 && (
+      {entries.length > 0 && (
         <Searchbar
           placeholder="Search in journals..."
           onChangeText={setSearchQuery}
@@ -479,15 +715,39 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
         />
       )}
 
+      {/* Tag filter */}
+      {allTags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.tagFilterScroll}
+          contentContainerStyle={styles.tagFilterRow}
+        >
+          {allTags.map((tag) => (
+            <Chip
+              key={tag}
+              compact
+              mode={selectedTag === tag ? "flat" : "outlined"}
+              selected={selectedTag === tag}
+              onPress={() => setSelectedTag(selectedTag === tag ? null : tag)}
+              style={styles.tagChip}
+              textStyle={styles.tagChipText}
+            >
+              {formatTag(tag)}
+            </Chip>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Content */}
-      {filteredJournals.length === 0 && !isGlobalLoading ? (
+      {totalCount === 0 && !isGlobalLoading ? (
         <View style={styles.empty}>
           <Text variant="headlineSmall" style={styles.emptyTitle}>
-            {searchQuery ? "No matches found" : "No journals yet"}
+            {searchQuery || selectedTag ? "No matches found" : "No journals yet"}
           </Text>
           <Text variant="bodyMedium" style={styles.emptyText}>
-            {searchQuery
-              ? "Try different keywords"
+            {searchQuery || selectedTag
+              ? "Try different keywords or tags"
               : selectedDateFormatted
                 ? `No entries for ${selectedDateFormatted}`
                 : "Start your first journal entry"}
@@ -495,7 +755,7 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
         </View>
       ) : (
         <FlatList
-          data={filteredJournals}
+          data={visibleJournals}
           renderItem={({ item, index }) => (
             <JournalCard item={item} index={index} />
           )}
@@ -508,6 +768,13 @@ const JournalListScreen: React.FC<{ navigation: any; route: any }> = ({
               tintColor={theme.colors.primary}
             />
           }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            canLoadMore ? (
+              <ActivityIndicator style={styles.listFooter} />
+            ) : null
+          }
           showsVerticalScrollIndicator={false}
         />
       )}
@@ -541,6 +808,10 @@ const styles = StyleSheet.create({
   headerTitle: { fontWeight: "700", marginBottom: 4 },
   subtitle: { opacity: 0.7 },
 
+  notebookSwitcher: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
   searchbar: {
     marginHorizontal: 16,
     marginBottom: 8,
@@ -629,6 +900,16 @@ const styles = StyleSheet.create({
   preview: {
     marginTop: 10,
   },
+  listFooter: {
+    marginVertical: 16,
+  },
+  snippetText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  snippetHighlight: {
+    fontWeight: "700",
+  },
 
   metaRow: {
     marginTop: 10,
@@ -657,6 +938,25 @@ const styles = StyleSheet.create({
     opacity: 0.8,
   },
 
+  // Tags
+  tagFilterScroll: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  tagFilterRow: {
+    paddingHorizontal: 16,
+    gap: 6,
+  },
+  tagChip: {
+    borderRadius: 14,
+  },
+  tagChipText: {
+    fontSize: 12,
+  },
+  moreTags: {
+    alignSelf: "center",
+  },
+
   // Empty state
   empty: {
     flex: 1,
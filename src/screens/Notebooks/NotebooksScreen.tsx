@@ -0,0 +1,332 @@
+// src/screens/Notebooks/NotebooksScreen.tsx
+
+import React, { useEffect, useState } from "react";
+import { FlatList, StyleSheet, View } from "react-native";
+import { Avatar, Button, Card, FAB, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { NotebookDialog } from "@/src/components/notebooks/NotebookDialog";
+import { NotebookPassphraseDialog } from "@/src/components/notebooks/NotebookPassphraseDialog";
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import { useNotebooks } from "@/src/hooks/useNotebooks";
+import { NotebookFields } from "@/src/services/notebookService";
+import type { Notebook } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+
+type PassphraseAction = "set" | "change" | "remove" | "delete";
+
+const PASSPHRASE_DIALOGS: Record<
+  PassphraseAction,
+  { title: string; message: string; askCurrent: boolean; askNew: boolean }
+> = {
+  set: {
+    title: "Set Passphrase",
+    message:
+      "Entries in this notebook will need this passphrase as well as your password. " +
+      "It cannot be recovered - if you forget it, the entries are lost.",
+    askCurrent: false,
+    askNew: true,
+  },
+  change: {
+    title: "Change Passphrase",
+    message: "",
+    askCurrent: true,
+    askNew: true,
+  },
+  remove: {
+    title: "Remove Passphrase",
+    message: "Entries in this notebook will open with just your password again.",
+    askCurrent: true,
+    askNew: false,
+  },
+  delete: {
+    title: "Delete Notebook",
+    message: "Enter the passphrase so this notebook's entries can be kept under All.",
+    askCurrent: true,
+    askNew: false,
+  },
+};
+
+const NotebooksScreen: React.FC<{ navigation: any }> = () => {
+  const theme = useTheme();
+  const {
+    notebooks,
+    isUnlocked,
+    refresh,
+    lock,
+    addNotebook,
+    editNotebook,
+    setPassphrase,
+    changePassphrase,
+    removePassphrase,
+    removeNotebook,
+  } = useNotebooks();
+  const { reload } = useJournalLoader();
+
+  const [isBusy, setIsBusy] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [editing, setEditing] = useState<Notebook | null>(null);
+  const [passphraseAction, setPassphraseAction] = useState<{
+    action: PassphraseAction;
+    notebook: Notebook;
+  } | null>(null);
+
+  useEffect(() => {
+    refresh().catch((error) => {
+      console.error("❌ Error loading notebooks:", error);
+      Alert.alert("Error", "Failed to load notebooks");
+    });
+  }, [refresh]);
+
+  // Runs a notebook action with the busy flag set; true when it succeeded
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`❌ ${fallbackMessage}:`, error);
+      Alert.alert("Error", error instanceof Error ? error.message : fallbackMessage);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (fields: NotebookFields) => {
+    if (await run(() => addNotebook(fields), "Could not create notebook")) {
+      setShowCreateDialog(false);
+    }
+  };
+
+  const handleEdit = async (fields: NotebookFields) => {
+    if (!editing) return;
+    if (await run(() => editNotebook(editing, fields), "Could not save notebook")) {
+      setEditing(null);
+    }
+  };
+
+  const handlePassphrase = async (current: string, next: string) => {
+    if (!passphraseAction) return;
+    const { action, notebook } = passphraseAction;
+
+    const succeeded = await run(async () => {
+      switch (action) {
+        case "set":
+          await setPassphrase(notebook, next);
+          break;
+        case "change":
+          await changePassphrase(notebook, current, next);
+          break;
+        case "remove":
+          await removePassphrase(notebook, current);
+          break;
+        case "delete":
+          await removeNotebook(notebook, current);
+          break;
+      }
+    }, "Could not update notebook");
+
+    if (succeeded) {
+      setPassphraseAction(null);
+      // Entries moved between keys - the loaded list may show them in the wrong place
+      if (action !== "change") reload().catch(() => {});
+    }
+  };
+
+  const handleDelete = (notebook: Notebook) => {
+    Alert.alert(
+      "Delete notebook?",
+      `"${notebook.name}" will be removed. Its entries are kept and show up under All.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            if (notebook.protection) {
+              setPassphraseAction({ action: "delete", notebook });
+            } else {
+              run(() => removeNotebook(notebook), "Could not delete notebook");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: Notebook }) => {
+    const unlocked = isUnlocked(item);
+
+    return (
+      <Card mode="outlined" style={[styles.card, { borderColor: item.color }]}>
+        <Card.Title
+          title={item.name}
+          subtitle={
+            item.protection ? (unlocked ? "Passphrase · unlocked" : "Passphrase · locked") : undefined
+          }
+          left={(props) => (
+            <Avatar.Icon
+              {...props}
+              icon={item.icon}
+              color={theme.colors.surface}
+              style={{ backgroundColor: item.color }}
+            />
+          )}
+        />
+        <Card.Actions style={styles.actions}>
+          <Button
+            mode="text"
+            textColor={theme.colors.error}
+            onPress={() => handleDelete(item)}
+            disabled={isBusy}
+          >
+            Delete
+          </Button>
+          {item.protection && unlocked && (
+            <Button mode="text" icon="lock-outline" onPress={() => lock(item.id)} disabled={isBusy}>
+              Lock
+            </Button>
+          )}
+          {item.protection ? (
+            <>
+              <Button
+                mode="text"
+                onPress={() => setPassphraseAction({ action: "remove", notebook: item })}
+                disabled={isBusy}
+              >
+                Remove Passphrase
+              </Button>
+              <Button
+                mode="text"
+                onPress={() => setPassphraseAction({ action: "change", notebook: item })}
+                disabled={isBusy}
+              >
+                Change Passphrase
+              </Button>
+            </>
+          ) : (
+            <Button
+              mode="text"
+              icon="lock-plus-outline"
+              onPress={() => setPassphraseAction({ action: "set", notebook: item })}
+              disabled={isBusy}
+            >
+              Set Passphrase
+            </Button>
+          )}
+          <Button
+            mode="contained-tonal"
+            icon="pencil-outline"
+            onPress={() => setEditing(item)}
+            disabled={isBusy}
+          >
+            Edit
+          </Button>
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  const dialog = passphraseAction ? PASSPHRASE_DIALOGS[passphraseAction.action] : null;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <FlatList
+        data={notebooks}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text
+            variant="bodyMedium"
+            style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+          >
+            Keep entries apart by topic. New entries go into the notebook you
+            are viewing.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>📚</Text>
+            <Text variant="titleMedium">No notebooks yet</Text>
+          </View>
+        }
+      />
+
+      <FAB
+        icon="plus"
+        label="New Notebook"
+        style={styles.fab}
+        onPress={() => setShowCreateDialog(true)}
+        disabled={isBusy}
+      />
+
+      <NotebookDialog
+        visible={showCreateDialog}
+        title="New Notebook"
+        isSaving={isBusy}
+        onDismiss={() => setShowCreateDialog(false)}
+        onSubmit={handleCreate}
+      />
+
+      <NotebookDialog
+        visible={editing !== null}
+        title="Edit Notebook"
+        initial={editing ?? undefined}
+        isSaving={isBusy}
+        onDismiss={() => setEditing(null)}
+        onSubmit={handleEdit}
+      />
+
+      <NotebookPassphraseDialog
+        visible={dialog !== null}
+        title={dialog?.title ?? ""}
+        message={dialog?.message || undefined}
+        askCurrent={dialog?.askCurrent ?? false}
+        askNew={dialog?.askNew ?? false}
+        isSaving={isBusy}
+        onDismiss={() => setPassphraseAction(null)}
+        onSubmit={handlePassphrase}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  actions: {
+    flexWrap: "wrap",
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: 48,
+    gap: 8,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+  },
+  fab: {
+    position: "absolute",
+    right: 16,
+    bottom: 16,
+  },
+});
+
+export default NotebooksScreen;
@@ -1,12 +1,21 @@
 import { TimePickerInput } from "@/src/components/common/TimePickerInput";
 
+import {
+  clearBiometricKey,
+  disableBiometricUnlock,
+  enableBiometricUnlock,
+  getBiometricLabel,
+  hasBiometricUnlock,
+  isBiometricAvailable,
+} from "@/src/services/biometricService";
 import { getCryptoProvider } from "@/src/services/cryptoServiceProvider";
 import {
-  cancelAllNotifications,
+  cancelDailyReminder,
   requestNotificationPermissions,
   scheduleDailyReminder,
 } from "@/src/services/notificationService";
 
+import { format } from "date-fns";
 import React, { useEffect, useState } from "react";
 import { Platform, ScrollView, StyleSheet, Switch, View } from "react-native";
 import {
@@ -20,26 +29,52 @@ import {
   useTheme,
 } from "react-native-paper";
 
+import { DecoyPasswordDialog } from "@/src/components/common/DecoyPasswordDialog";
 import { ExportPasswordDialog } from "@/src/components/common/ExportPasswordDialog";
-import { generateExportFile, shareFile } from "@/src/services/exportService";
+import { KeyRotationDialog } from "@/src/components/common/KeyRotationDialog";
+import { useProfiles } from "@/src/hooks/useProfiles";
+import {
+  chooseBackupDirectory,
+  describeBackupDirectory,
+  isAutoBackupSupported,
+  loadBackupState,
+  refreshBackupReminder,
+  resetBackupDirectory,
+  runBackup,
+  saveBackupPassword,
+} from "@/src/services/backupService";
+import {
+  disableDecoyPassword,
+  enableDecoyPassword,
+  isDecoyPasswordSet,
+} from "@/src/services/decoyService";
+import { generateEncryptedStreamFile, shareFile } from "@/src/services/exportService";
+import { startKeyRotation } from "@/src/services/keyRotationService";
 import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
-import { Journal } from "@/src/types";
+import { AppSettings, BackupState } from "@/src/types";
+import type { Vault } from "@/src/types/crypto";
 import { Alert } from "@/src/utils/alert";
 import { handleDestroy } from "@/src/utils/destroyDbAlert";
 import { resolveImmediately } from "@/src/utils/immediatePromiseResolver";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { APP_CONFIG } from "../../config/appConfig";
 import { useAppDispatch, useAppSelector } from "../../stores/hooks";
+import { setEncryptionKey } from "../../stores/slices/authSlice";
 import {
   setAutoLockTimeout,
+  setBackupIntervalDays,
+  setBackupKeepCount,
   setInstantLockOnBackground,
   setIsExportImportInProgress,
   setNotificationsEnabled,
   setNotificationTime,
   setTheme,
+  setTrashRetentionDays,
+  setWipeAfterFailedAttempts,
 } from "../../stores/slices/settingsSlice";
 const CryptoManager = getCryptoProvider();
 const VaultStorageProvider = getVaultStorageProvider();
+const NO_QUESTIONS: string[] = [];
 
 const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const theme = useTheme();
@@ -48,6 +83,8 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 
   // Local state
   const [showTimeoutOptions, setShowTimeoutOptions] = useState(false);
+  const [showTrashOptions, setShowTrashOptions] = useState(false);
+  const [showWipeOptions, setShowWipeOptions] = useState(false);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
@@ -70,6 +107,374 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   }, [newPassword, currentPassword, confirmNewPassword]);
 
   const encryptionKey = useAppSelector((state) => state.auth.encryptionKey);
+  const isDecoySession = useAppSelector((state) => state.auth.isDecoySession);
+  // Settings that act on the whole vault; a decoy session only changes what it
+  // shows, like the biometric switch below
+  const [decoySettings, setDecoySettings] = useState<
+    Partial<
+      Pick<
+        AppSettings,
+        "trashRetentionDays" | "wipeAfterFailedAttempts" | "backupIntervalDays" | "backupKeepCount"
+      >
+    >
+  >({});
+  const shownSettings = isDecoySession ? { ...settings, ...decoySettings } : settings;
+  const { profiles, activeProfile, removeActiveProfile } = useProfiles();
+  const [isDeletingProfile, setIsDeletingProfile] = useState(false);
+
+  // Biometric unlock
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [biometricEnabled, setBiometricEnabled] = useState(false);
+  const [biometricLabel, setBiometricLabel] = useState("Biometrics");
+  const [isTogglingBiometric, setIsTogglingBiometric] = useState(false);
+
+  useEffect(() => {
+    const loadBiometricState = async () => {
+      const available = await isBiometricAvailable();
+      setBiometricAvailable(available);
+      if (!available) return;
+      setBiometricLabel(await getBiometricLabel());
+      setBiometricEnabled(hasBiometricUnlock(await VaultStorageProvider.getVault()));
+    };
+    loadBiometricState();
+  }, []);
+
+  // Decoy password
+  const [decoyEnabled, setDecoyEnabled] = useState(false);
+  const [showDecoyDialog, setShowDecoyDialog] = useState(false);
+  const [isUpdatingDecoy, setIsUpdatingDecoy] = useState(false);
+
+  useEffect(() => {
+    const loadDecoyState = async () => {
+      if (!encryptionKey) return;
+      const vaultData = await VaultStorageProvider.getVault();
+      if (vaultData) {
+        setDecoyEnabled(await isDecoyPasswordSet(vaultData as Vault, encryptionKey));
+      }
+    };
+    loadDecoyState();
+  }, [encryptionKey]);
+
+  const handleDecoySubmit = async (decoyPassword: string) => {
+    if (!encryptionKey) {
+      Alert.alert("⚠️ Oops!", "Not authenticated");
+      return;
+    }
+
+    setIsUpdatingDecoy(true);
+    try {
+      const vaultData = await VaultStorageProvider.getVault();
+      if (!vaultData) {
+        Alert.alert("⚠️ Oops!", "Account not found");
+        return;
+      }
+
+      const updatedVault = await enableDecoyPassword(
+        vaultData as Vault,
+        encryptionKey,
+        decoyPassword,
+        isDecoySession,
+      );
+      await VaultStorageProvider.saveVault(updatedVault);
+
+      Alert.alert(
+        "Decoy Password Saved",
+        "Unlock with the decoy password to write the decoy journal.",
+      );
+      setDecoyEnabled(true);
+      setShowDecoyDialog(false);
+    } catch (error) {
+      console.error("❌ Decoy password error:", error);
+      Alert.alert(
+        "⚠️ Oops!",
+        error instanceof Error && error.message.includes("different")
+          ? error.message
+          : "Could not save the decoy password",
+      );
+    } finally {
+      setIsUpdatingDecoy(false);
+    }
+  };
+
+  const handleDecoyToggle = (enable: boolean) => {
+    if (enable) {
+      setShowDecoyDialog(true);
+      return;
+    }
+
+    Alert.alert(
+      "Turn Off Decoy Password?",
+      "Journals written after unlocking with the decoy password will be permanently deleted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            if (!encryptionKey) return;
+            setIsUpdatingDecoy(true);
+            try {
+              const vaultData = await VaultStorageProvider.getVault();
+              if (!vaultData) return;
+              const updatedVault = await disableDecoyPassword(
+                vaultData as Vault,
+                encryptionKey,
+                isDecoySession,
+              );
+              await VaultStorageProvider.saveVault(updatedVault);
+              setDecoyEnabled(false);
+            } catch (error) {
+              console.error("❌ Decoy password error:", error);
+              Alert.alert("⚠️ Oops!", "Could not turn off the decoy password");
+            } finally {
+              setIsUpdatingDecoy(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  // Data Key rotation
+  const [rotationQuestions, setRotationQuestions] = useState<string[] | null>(null);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+
+  const openKeyRotation = async () => {
+    const vaultData = await VaultStorageProvider.getVault();
+    if (!vaultData) {
+      Alert.alert("⚠️ Oops!", "Account not found");
+      return;
+    }
+    setRotationQuestions(
+      (vaultData as Vault).security_questions.map((sq) => sq.question),
+    );
+  };
+
+  const handleKeyRotationSubmit = async (password: string, answers: string[]) => {
+    if (!encryptionKey || !rotationQuestions) return;
+
+    setIsRotatingKey(true);
+    try {
+      const vaultData = await VaultStorageProvider.getVault();
+      if (!vaultData) {
+        Alert.alert("⚠️ Oops!", "Account not found");
+        return;
+      }
+
+      const { dk, recoveryKey } = await startKeyRotation(
+        vaultData as Vault,
+        encryptionKey,
+        password,
+        rotationQuestions.map((question, i) => ({
+          questionId: question,
+          answer: answers[i],
+        })),
+      );
+
+      setRotationQuestions(null);
+      setBiometricEnabled(false);
+      // The new key starts the re-encryption (see useKeyRotation)
+      dispatch(setEncryptionKey(dk));
+
+      Alert.alert(
+        "Encryption Key Rotated",
+        `Your journals are being re-encrypted with the new key.\n\n` +
+          `⚠️ Your recovery key has also been changed:\n\n${recoveryKey}\n\n` +
+          `Please save this new key in a safe place.`,
+      );
+    } catch (error) {
+      console.error("❌ Key rotation error:", error);
+      Alert.alert(
+        "⚠️ Oops!",
+        error instanceof Error ? error.message : "Could not rotate the encryption key",
+      );
+    } finally {
+      setIsRotatingKey(false);
+    }
+  };
+
+  // Automatic backups
+  const [backupState, setBackupState] = useState<BackupState | null>(null);
+  const [showBackupIntervalOptions, setShowBackupIntervalOptions] = useState(false);
+  const [showBackupKeepOptions, setShowBackupKeepOptions] = useState(false);
+  const [showBackupPasswordDialog, setShowBackupPasswordDialog] = useState(false);
+  // Interval waiting for a backup password before it is turned on
+  const [pendingBackupInterval, setPendingBackupInterval] = useState<number | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  useEffect(() => {
+    if (!isAutoBackupSupported) return;
+    loadBackupState()
+      .then(setBackupState)
+      .catch((error) => console.error("❌ Error loading backup state:", error));
+  }, []);
+
+  const applyBackupInterval = async (days: number, state: BackupState) => {
+    if (isDecoySession) {
+      setDecoySettings((current) => ({ ...current, backupIntervalDays: days }));
+      return;
+    }
+    dispatch(setBackupIntervalDays(days));
+    // The overdue reminder is a notification
+    if (days > 0) await requestNotificationPermissions();
+    await refreshBackupReminder(state, days);
+  };
+
+  const handleBackupIntervalSelect = async (days: number) => {
+    setShowBackupIntervalOptions(false);
+    if (!backupState) return;
+    if (days > 0 && !backupState.passwordEncrypted) {
+      setPendingBackupInterval(days);
+      setShowBackupPasswordDialog(true);
+      return;
+    }
+    await applyBackupInterval(days, backupState);
+  };
+
+  const handleBackupPasswordSubmit = async (password: string) => {
+    if (!encryptionKey) return;
+    setShowBackupPasswordDialog(false);
+    try {
+      // The backup password is sealed with the real key - a decoy session must
+      // not replace it
+      if (isDecoySession) throw new Error("Backup password is not this session's");
+      const state = await saveBackupPassword(encryptionKey, password);
+      setBackupState(state);
+      if (pendingBackupInterval !== null) {
+        await applyBackupInterval(pendingBackupInterval, state);
+      }
+    } catch (error) {
+      console.error("❌ Backup password error:", error);
+      Alert.alert("⚠️ Oops!", "Could not save the backup password");
+    } finally {
+      setPendingBackupInterval(null);
+    }
+  };
+
+  const handleBackupKeepSelect = (count: number) => {
+    if (isDecoySession) {
+      setDecoySettings((current) => ({ ...current, backupKeepCount: count }));
+    } else {
+      dispatch(setBackupKeepCount(count));
+    }
+    setShowBackupKeepOptions(false);
+  };
+
+  const handleChooseBackupFolder = async () => {
+    // The folder belongs to the real backups
+    if (isDecoySession) return;
+    try {
+      setBackupState(await chooseBackupDirectory());
+    } catch (error) {
+      // Cancelling the picker ends up here too
+      console.log("Backup folder not changed:", error);
+    }
+  };
+
+  const handleUseAppBackupFolder = async () => {
+    if (isDecoySession) return;
+    try {
+      setBackupState(await resetBackupDirectory());
+    } catch (error) {
+      console.error("❌ Backup folder error:", error);
+    }
+  };
+
+  const handleBackupNow = async () => {
+    if (!encryptionKey) return;
+    // Would only record a failed attempt against the real backups
+    if (isDecoySession) {
+      Alert.alert("⚠️ Oops!", "Backup failed");
+      return;
+    }
+    setIsBackingUp(true);
+    dispatch(setIsExportImportInProgress(true));
+    try {
+      const state = await runBackup(encryptionKey, settings.backupKeepCount);
+      await refreshBackupReminder(state, settings.backupIntervalDays);
+      setBackupState(state);
+      Alert.alert("Success", `✅ Backup saved as ${state.lastFilename}`);
+    } catch (error) {
+      Alert.alert(
+        "⚠️ Oops!",
+        error instanceof Error ? error.message : "Backup failed",
+      );
+      setBackupState(await loadBackupState());
+    } finally {
+      setIsBackingUp(false);
+      dispatch(setIsExportImportInProgress(false));
+    }
+  };
+
+  const getLastBackupLabel = () => {
+    if (!backupState?.lastSuccessAt) return "No backup made yet";
+    return `Last backup ${format(new Date(backupState.lastSuccessAt), "MMM d, yyyy 'at' h:mm a")}`;
+  };
+
+  const handleDeleteProfile = () => {
+    Alert.alert(
+      "Delete Profile?",
+      `"${activeProfile?.name}" and all of its journals will be permanently deleted. Other profiles are not affected.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setIsDeletingProfile(true);
+            try {
+              // Locks the app and opens another profile
+              await removeActiveProfile();
+            } catch (error) {
+              console.error("❌ Delete profile error:", error);
+              Alert.alert("⚠️ Oops!", "Could not delete this profile");
+              setIsDeletingProfile(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleBiometricToggle = async (enable: boolean) => {
+    if (!encryptionKey) {
+      Alert.alert("⚠️ Oops!", "Not authenticated");
+      return;
+    }
+
+    // Enrolling would hand the decoy key to the real biometric wrap, and the
+    // decoy session has no business removing it - only the switch moves
+    if (isDecoySession) {
+      setBiometricEnabled(enable);
+      return;
+    }
+
+    setIsTogglingBiometric(true);
+    try {
+      const vaultData = await VaultStorageProvider.getVault();
+      if (!vaultData) {
+        Alert.alert("⚠️ Oops!", "Account not found");
+        return;
+      }
+
+      const updatedVault = enable
+        ? await enableBiometricUnlock(vaultData as any, encryptionKey)
+        : await disableBiometricUnlock(vaultData as any);
+      await VaultStorageProvider.saveVault(updatedVault);
+      setBiometricEnabled(enable);
+    } catch (error) {
+      console.error("❌ Biometric toggle error:", error);
+      if (enable) await clearBiometricKey();
+      Alert.alert(
+        "⚠️ Oops!",
+        enable
+          ? `Could not enable ${biometricLabel} unlock`
+          : `Could not disable ${biometricLabel} unlock`,
+      );
+    } finally {
+      setIsTogglingBiometric(false);
+    }
+  };
 
   const handleNotificationToggle = async (value: boolean) => {
     if (Platform.OS === "web") {
@@ -98,7 +503,7 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       // Alert.alert("Success", "Daily reminder has been set!");
     } else {
       // Cancel notifications
-      await cancelAllNotifications();
+      await cancelDailyReminder();
       dispatch(setNotificationsEnabled(false));
     }
   };
@@ -131,6 +536,24 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     setShowTimeoutOptions(false);
   };
 
+  const handleTrashRetentionSelect = (days: number) => {
+    if (isDecoySession) {
+      setDecoySettings((current) => ({ ...current, trashRetentionDays: days }));
+    } else {
+      dispatch(setTrashRetentionDays(days));
+    }
+    setShowTrashOptions(false);
+  };
+
+  const handleWipeAfterSelect = (attempts: number) => {
+    if (isDecoySession) {
+      setDecoySettings((current) => ({ ...current, wipeAfterFailedAttempts: attempts }));
+    } else {
+      dispatch(setWipeAfterFailedAttempts(attempts));
+    }
+    setShowWipeOptions(false);
+  };
+
   const handleChangePassword = async () => {
     if (!isPasswordValid) {
       Alert.alert("⚠️ Oops!", "New password must be at least 8 characters");
@@ -156,9 +579,13 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         return;
       }
 
-      // Verify current password
+      // Verify current password (it must be the one this session was opened with)
+      let unlockResult;
       try {
-        await CryptoManager.unlockWithPassword(vaultData as any, currentPassword);
+        unlockResult = await CryptoManager.unlockWithPassword(vaultData as any, currentPassword);
+        if (unlockResult.dk !== encryptionKey) {
+          throw new Error("Password belongs to another session");
+        }
       } catch (error) {
         Alert.alert("⚠️ Oops!", "Current password is incorrect");
         throw error;
@@ -166,15 +593,28 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 
       // The encryptionKey we have is already decrypted DK
       // Use it to rebuild vault with new password
-      const updatedVault = await CryptoManager.rebuildVaultWithNewPassword(
-        vaultData as any,
-        encryptionKey,
-        newPassword,
-      );
+      // (a decoy session changes the decoy password, leaving the real one alone)
+      const updatedVault = unlockResult.isDecoy
+        ? await CryptoManager.rebuildVaultWithNewDecoyPassword(
+            vaultData as any,
+            encryptionKey,
+            newPassword,
+          )
+        : await CryptoManager.rebuildVaultWithNewPassword(
+            vaultData as any,
+            encryptionKey,
+            newPassword,
+          );
 
       // Save updated vault
       await VaultStorageProvider.saveVault(updatedVault);
 
+      // The new password wrap invalidated biometric unlock
+      if (biometricEnabled && !unlockResult.isDecoy) {
+        await clearBiometricKey();
+        setBiometricEnabled(false);
+      }
+
       // Update encryption key in context (it stays the same)
       // setEncryptionKey(encryptionKey); // Already set
 
@@ -213,9 +653,10 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     try {
       dispatch(setIsExportImportInProgress(true));
 
-      let loadedJournals: Journal[] = [];
+      let journalIds: string[] = [];
       try {
-        loadedJournals = await VaultStorageProvider.listJournals(encryptionKey);
+        const index = await VaultStorageProvider.listJournalIndex(encryptionKey);
+        journalIds = index.map((entry) => entry.id);
       } catch (error) {
         console.error("❌ Error loading journals:", error);
         Alert.alert(
@@ -226,9 +667,10 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           "Failed to load journals to backup before destroying data.",
         );
       }
-      const { uri, filename } = await generateExportFile(
-        "encrypted",
-        loadedJournals,
+      if (!password) throw new Error("Password required for encryption.");
+      const { uri, filename } = await generateEncryptedStreamFile(
+        journalIds,
+        encryptionKey,
         password,
       );
 
@@ -241,7 +683,7 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         // above share file function downloads on web so show alert.
         Alert.alert(
           "Success",
-          `✅ Encrypted Backup of ${loadedJournals.length} journal(s) succeed. \n\nFile downloaded: ${filename}`,
+          `✅ Encrypted Backup of ${journalIds.length} journal(s) succeed. \n\nFile downloaded: ${filename}`,
         );
       }
       await handleDestroy(dispatch);
@@ -362,6 +804,69 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
             />
           </View>
 
+          {/* Biometric unlock (only on devices with enrolled biometrics) */}
+          {biometricAvailable && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text variant="titleMedium">{biometricLabel} Unlock</Text>
+                <Text style={styles.settingDescription}>
+                  Unlock without typing your password. Turns off when the
+                  password changes.
+                </Text>
+              </View>
+              <Switch
+                value={biometricEnabled}
+                onValueChange={handleBiometricToggle}
+                disabled={isTogglingBiometric}
+              />
+            </View>
+          )}
+
+          {/* Decoy password */}
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text variant="titleMedium">Decoy Password</Text>
+              <Text style={styles.settingDescription}>
+                A second password that opens a separate, harmless journal
+              </Text>
+            </View>
+            <Switch
+              value={decoyEnabled}
+              onValueChange={handleDecoyToggle}
+              disabled={isUpdatingDecoy}
+            />
+          </View>
+          {decoyEnabled && (
+            <Button
+              mode="text"
+              onPress={() => setShowDecoyDialog(true)}
+              disabled={isUpdatingDecoy}
+              style={styles.inlineButton}
+            >
+              Change Decoy Password
+            </Button>
+          )}
+
+          {/* Wipe after repeated failed unlocks */}
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text variant="titleMedium">Erase After Failed Unlocks</Text>
+              <Text style={styles.settingDescription}>
+                Destroy all data after this many wrong passwords, answers or
+                recovery keys
+              </Text>
+            </View>
+            <Button
+              mode="outlined"
+              onPress={() => setShowWipeOptions(true)}
+              style={styles.timeoutButton}
+            >
+              {APP_CONFIG.WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS.find(
+                (o) => o.value === shownSettings.wipeAfterFailedAttempts,
+              )?.label ?? `${shownSettings.wipeAfterFailedAttempts} Attempts`}
+            </Button>
+          </View>
+
           {/* Auto lock timeout (only when instant lock is off) */}
           {!settings.instantLockOnBackground && (
             <View style={styles.settingRow}>
@@ -399,6 +904,43 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
               Change Password
             </Button>
 
+            {/* A decoy session's password never passes the rotation's check */}
+            <Button
+              mode="outlined"
+              onPress={openKeyRotation}
+              style={styles.passwordButton}
+              icon="key-change"
+            >
+              Rotate Encryption Key
+            </Button>
+
+            <Button
+              mode="outlined"
+              onPress={() => navigation.navigate("Integrity")}
+              style={styles.passwordButton}
+              icon="shield-check-outline"
+            >
+              Check Vault Integrity
+            </Button>
+
+            <Button
+              mode="outlined"
+              onPress={() => navigation.navigate("Sync")}
+              style={styles.passwordButton}
+              icon="sync"
+            >
+              Sync Between Devices
+            </Button>
+
+            <Button
+              mode="outlined"
+              onPress={() => navigation.navigate("Transfer")}
+              style={styles.passwordButton}
+              icon="cellphone-arrow-down"
+            >
+              Transfer to New Device
+            </Button>
+
             <Button
               mode="outlined"
               style={styles.resetButton}
@@ -417,6 +959,189 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           </View>
         </View>
 
+        {/* Automatic backups */}
+        <View
+          style={[styles.section, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text variant="titleLarge" style={styles.sectionTitle}>
+            Backups
+          </Text>
+
+          {!isAutoBackupSupported ? (
+            <List.Item
+              title="Not Available on Web"
+              description="Use Export to download an encrypted backup"
+              left={(props) => <List.Icon {...props} icon="alert-circle" />}
+            />
+          ) : (
+            <>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text variant="titleMedium">Automatic Backups</Text>
+                  <Text style={styles.settingDescription}>
+                    Encrypted backup, made when you unlock and one is due
+                  </Text>
+                </View>
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowBackupIntervalOptions(true)}
+                  disabled={!backupState}
+                  style={styles.timeoutButton}
+                >
+                  {APP_CONFIG.BACKUP_INTERVAL_OPTIONS.find(
+                    (o) => o.value === shownSettings.backupIntervalDays,
+                  )?.label ?? `Every ${shownSettings.backupIntervalDays} Days`}
+                </Button>
+              </View>
+
+              {shownSettings.backupIntervalDays > 0 && (
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text variant="titleMedium">Keep</Text>
+                    <Text style={styles.settingDescription}>
+                      Older automatic backups are deleted
+                    </Text>
+                  </View>
+                  <Button
+                    mode="outlined"
+                    onPress={() => setShowBackupKeepOptions(true)}
+                    style={styles.timeoutButton}
+                  >
+                    {APP_CONFIG.BACKUP_KEEP_OPTIONS.find(
+                      (o) => o.value === shownSettings.backupKeepCount,
+                    )?.label ?? `${shownSettings.backupKeepCount} Backups`}
+                  </Button>
+                </View>
+              )}
+
+              {backupState && (
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text variant="titleMedium">Folder</Text>
+                    <Text style={styles.settingDescription}>
+                      {describeBackupDirectory(backupState)}
+                    </Text>
+                  </View>
+                  <Button mode="text" onPress={handleChooseBackupFolder}>
+                    Change
+                  </Button>
+                </View>
+              )}
+              {backupState?.directoryUri && (
+                <Button
+                  mode="text"
+                  onPress={handleUseAppBackupFolder}
+                  style={styles.inlineButton}
+                >
+                  Use App Folder
+                </Button>
+              )}
+
+              <HelperText type="info">{getLastBackupLabel()}</HelperText>
+              {backupState?.lastError && (
+                <HelperText type="error">
+                  Last attempt failed: {backupState.lastError}
+                </HelperText>
+              )}
+              <HelperText type="info">
+                Journals in protected notebooks are not included - export
+                them while unlocked.
+              </HelperText>
+
+              <View style={styles.backupButtons}>
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowBackupPasswordDialog(true)}
+                  disabled={!backupState}
+                  style={styles.passwordButton}
+                  icon="form-textbox-password"
+                >
+                  {backupState?.passwordEncrypted
+                    ? "Change Backup Password"
+                    : "Set Backup Password"}
+                </Button>
+                <Button
+                  mode="contained-tonal"
+                  onPress={handleBackupNow}
+                  loading={isBackingUp}
+                  disabled={!backupState?.passwordEncrypted || isBackingUp}
+                  style={styles.passwordButton}
+                  icon="content-save-outline"
+                >
+                  Back Up Now
+                </Button>
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Profile */}
+        <View
+          style={[styles.section, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text variant="titleLarge" style={styles.sectionTitle}>
+            Profile
+          </Text>
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text variant="titleMedium">{activeProfile?.name}</Text>
+              <Text style={styles.settingDescription}>
+                {profiles.length > 1
+                  ? `${profiles.length} profiles share this device. Lock to switch.`
+                  : "Add more profiles from the unlock screen"}
+              </Text>
+            </View>
+          </View>
+          {/* Like Reset & Destroy, this deletes the profile whichever password opened it */}
+          {profiles.length > 1 && (
+            <Button
+              mode="outlined"
+              onPress={handleDeleteProfile}
+              loading={isDeletingProfile}
+              disabled={isDeletingProfile}
+              textColor={theme.colors.error}
+              style={styles.trashButton}
+              icon="account-remove-outline"
+            >
+              Delete Profile
+            </Button>
+          )}
+        </View>
+
+        {/* Trash */}
+        <View
+          style={[styles.section, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text variant="titleLarge" style={styles.sectionTitle}>
+            Trash
+          </Text>
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text variant="titleMedium">Keep Deleted Entries</Text>
+              <Text style={styles.settingDescription}>
+                Permanently delete after
+              </Text>
+            </View>
+            <Button
+              mode="outlined"
+              onPress={() => setShowTrashOptions(true)}
+              style={styles.timeoutButton}
+            >
+              {APP_CONFIG.TRASH_RETENTION_OPTIONS.find(
+                (o) => o.value === shownSettings.trashRetentionDays,
+              )?.label ?? `${shownSettings.trashRetentionDays} Days`}
+            </Button>
+          </View>
+          <Button
+            mode="outlined"
+            onPress={() => navigation.navigate("Trash")}
+            style={styles.trashButton}
+            icon="trash-can-outline"
+          >
+            Open Trash
+          </Button>
+        </View>
+
         {/* About */}
         <View
           style={[
@@ -440,6 +1165,33 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         </View>
       </ScrollView>
 
+      <DecoyPasswordDialog
+        visible={showDecoyDialog}
+        isSaving={isUpdatingDecoy}
+        onDismiss={() => setShowDecoyDialog(false)}
+        onSubmit={handleDecoySubmit}
+      />
+
+      <KeyRotationDialog
+        visible={rotationQuestions !== null}
+        questions={rotationQuestions ?? NO_QUESTIONS}
+        isSaving={isRotatingKey}
+        onDismiss={() => setRotationQuestions(null)}
+        onSubmit={handleKeyRotationSubmit}
+      />
+
+      <ExportPasswordDialog
+        visible={showBackupPasswordDialog}
+        title="Backup Password"
+        message="Automatic backups are encrypted with this password. You will need it to import them."
+        submitLabel="Save"
+        onDismiss={() => {
+          setShowBackupPasswordDialog(false);
+          setPendingBackupInterval(null);
+        }}
+        onSubmit={handleBackupPasswordSubmit}
+      />
+
       <ExportPasswordDialog
         visible={exportPasswordModalVisible}
         onDismiss={() => setExportPasswordModalVisible(false)}
@@ -475,6 +1227,126 @@ const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         </Dialog>
       </Portal>
 
+      {/* Trash retention dialog */}
+      <Portal>
+        <Dialog
+          visible={showTrashOptions}
+          onDismiss={() => setShowTrashOptions(false)}
+        >
+          <Dialog.Title>Keep Deleted Entries For</Dialog.Title>
+          <Dialog.Content style={{ gap: 8 }}>
+            {APP_CONFIG.TRASH_RETENTION_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                mode={
+                  shownSettings.trashRetentionDays === option.value
+                    ? "contained"
+                    : "outlined"
+                }
+                onPress={() => handleTrashRetentionSelect(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowTrashOptions(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      {/* Automatic backup interval dialog */}
+      <Portal>
+        <Dialog
+          visible={showBackupIntervalOptions}
+          onDismiss={() => setShowBackupIntervalOptions(false)}
+        >
+          <Dialog.Title>Automatic Backups</Dialog.Title>
+          <Dialog.Content style={{ gap: 8 }}>
+            {APP_CONFIG.BACKUP_INTERVAL_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                mode={
+                  shownSettings.backupIntervalDays === option.value
+                    ? "contained"
+                    : "outlined"
+                }
+                onPress={() => handleBackupIntervalSelect(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowBackupIntervalOptions(false)}>
+              Cancel
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      {/* Automatic backups kept dialog */}
+      <Portal>
+        <Dialog
+          visible={showBackupKeepOptions}
+          onDismiss={() => setShowBackupKeepOptions(false)}
+        >
+          <Dialog.Title>Keep Automatic Backups</Dialog.Title>
+          <Dialog.Content style={{ gap: 8 }}>
+            {APP_CONFIG.BACKUP_KEEP_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                mode={
+                  shownSettings.backupKeepCount === option.value
+                    ? "contained"
+                    : "outlined"
+                }
+                onPress={() => handleBackupKeepSelect(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowBackupKeepOptions(false)}>
+              Cancel
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      {/* Wipe after failed unlocks dialog */}
+      <Portal>
+        <Dialog
+          visible={showWipeOptions}
+          onDismiss={() => setShowWipeOptions(false)}
+        >
+          <Dialog.Title>Erase After Failed Unlocks</Dialog.Title>
+          <Dialog.Content style={{ gap: 8 }}>
+            <Text variant="bodyMedium">
+              Journals cannot be recovered after an erase unless you have a
+              backup.
+            </Text>
+            {APP_CONFIG.WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                mode={
+                  shownSettings.wipeAfterFailedAttempts === option.value
+                    ? "contained"
+                    : "outlined"
+                }
+                onPress={() => handleWipeAfterSelect(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowWipeOptions(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Password change dialog — call helper, DO NOT remove */}
       {ResetPassword(
         showPasswordDialog,
@@ -551,6 +1423,17 @@ const styles = StyleSheet.create({
   passwordButton: {
     flex: 1,
   },
+  trashButton: {
+    marginTop: 20,
+  },
+  inlineButton: {
+    alignSelf: "flex-start",
+  },
+  backupButtons: {
+    flexDirection: "column",
+    gap: 12,
+    marginTop: 12,
+  },
   resetButton: {
     flex: 1,
     borderColor: "transparent",
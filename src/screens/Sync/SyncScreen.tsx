@@ -0,0 +1,396 @@
+// src/screens/Sync/SyncScreen.tsx
+
+import { useFocusEffect } from "@react-navigation/native";
+import { format } from "date-fns";
+import React, { useCallback, useEffect, useState } from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+import { Button, Card, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import APP_CONFIG from "@/src/config/appConfig";
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import {
+  ConflictResolution,
+  connectSync,
+  disconnectSync,
+  loadSyncConflicts,
+  loadSyncState,
+  resolveSyncConflict,
+  runSync,
+} from "@/src/services/syncService";
+import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
+import { useAppDispatch, useAppSelector } from "@/src/stores/hooks";
+import { setIsExportImportInProgress } from "@/src/stores/slices/settingsSlice";
+import type { Journal, SyncConflict, SyncState } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+const SNIPPET_LENGTH = 160;
+
+const snippet = (journal: Journal | null) => {
+  if (!journal) return "Deleted on this device";
+  const text = journal.text.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text;
+};
+
+const formatTime = (iso: string) => format(new Date(iso), "MMM d, yyyy 'at' h:mm a");
+
+const SyncScreen: React.FC<{ navigation: any }> = () => {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  // The sync setup is sealed with the real Data Key - a decoy session sees none
+  // and cannot connect, so the real setup is never replaced
+  const isDecoySession = useAppSelector((state) => state.auth.isDecoySession);
+  const { reload } = useJournalLoader();
+
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  // This device's version of each conflicting entry
+  const [localVersions, setLocalVersions] = useState<Record<string, Journal | null>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Connect form
+  const [url, setUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [serverPassword, setServerPassword] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [showSecrets, setShowSecrets] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!dk) return;
+    try {
+      if (isDecoySession) return;
+      setSyncState(await loadSyncState());
+      setConflicts(await loadSyncConflicts(dk));
+    } catch (error) {
+      console.error("❌ Error loading sync state:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dk, isDecoySession]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh]),
+  );
+
+  useEffect(() => {
+    if (!dk || conflicts.length === 0) return;
+    let cancelled = false;
+    const load = async () => {
+      const versions: Record<string, Journal | null> = {};
+      for (const conflict of conflicts) {
+        versions[conflict.id] = await VaultStorageProvider.getJournal(conflict.id, dk).catch(
+          () => null,
+        );
+      }
+      if (!cancelled) setLocalVersions(versions);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [dk, conflicts]);
+
+  // Runs a sync action with auto-lock held off; journals may have changed after
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsBusy(true);
+    dispatch(setIsExportImportInProgress(true));
+    try {
+      await action();
+    } catch (error) {
+      console.error(`❌ ${fallbackMessage}:`, error);
+      Alert.alert("⚠️ Oops!", error instanceof Error ? error.message : fallbackMessage);
+    } finally {
+      await refresh();
+      await reload().catch(() => {});
+      setIsBusy(false);
+      dispatch(setIsExportImportInProgress(false));
+    }
+  };
+
+  const handleConnect = () =>
+    run(async () => {
+      if (!dk) return;
+      if (isDecoySession) throw new Error("Could not connect");
+      await connectSync(
+        dk,
+        { kind: "webdav", url: url.trim(), username: username.trim() || null },
+        serverPassword || null,
+        passphrase,
+      );
+      setServerPassword("");
+      setPassphrase("");
+      const { result } = await runSync(dk);
+      Alert.alert(
+        "Sync Connected",
+        `Received ${result.pulled}, sent ${result.pushed} journal(s).`,
+      );
+    }, "Could not connect");
+
+  const handleSync = () =>
+    run(async () => {
+      if (!dk) return;
+      const { result } = await runSync(dk);
+      Alert.alert(
+        "Sync Complete",
+        `Received: ${result.pulled}\nSent: ${result.pushed}\n` +
+          `Deleted: ${result.deletedLocally + result.deletedRemotely}\n` +
+          `New conflicts: ${result.conflicts}`,
+      );
+    }, "Sync failed");
+
+  const handleDisconnect = () => {
+    Alert.alert(
+      "Stop Syncing?",
+      "This device stops syncing. Journals stay on this device, on the server and on your other devices.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Stop",
+          style: "destructive",
+          onPress: () => run(disconnectSync, "Could not stop syncing"),
+        },
+      ],
+    );
+  };
+
+  const handleResolve = (conflict: SyncConflict, resolution: ConflictResolution) =>
+    run(async () => {
+      if (!dk) return;
+      await resolveSyncConflict(dk, conflict.id, resolution);
+    }, "Could not resolve the conflict");
+
+  if (isLoading) return null;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text
+          variant="bodyMedium"
+          style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+        >
+          Keeps journals in step across your devices through a WebDAV server
+          you run. Entries are encrypted with your sync passphrase before they
+          leave this device - the server never sees your writing.
+        </Text>
+
+        {!syncState ? (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Title title="Connect to a Server" />
+            <Card.Content>
+              <TextInput
+                label="Server folder URL"
+                placeholder="http://192.168.1.20:8080/journal"
+                value={url}
+                onChangeText={setUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                style={styles.input}
+              />
+              <TextInput
+                label="Username (optional)"
+                value={username}
+                onChangeText={setUsername}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+              />
+              <TextInput
+                label="Server password (optional)"
+                value={serverPassword}
+                onChangeText={setServerPassword}
+                secureTextEntry={!showSecrets}
+                style={styles.input}
+              />
+              <TextInput
+                label="Sync passphrase"
+                value={passphrase}
+                onChangeText={setPassphrase}
+                secureTextEntry={!showSecrets}
+                right={
+                  <TextInput.Icon
+                    icon={showSecrets ? "eye-off" : "eye"}
+                    onPress={() => setShowSecrets(!showSecrets)}
+                  />
+                }
+                style={styles.input}
+              />
+              <HelperText type="info">
+                Use the same passphrase on every device. It cannot be recovered
+                - without it the synced data cannot be read.
+              </HelperText>
+              <HelperText type="info">
+                Journals in protected notebooks are not synced.
+              </HelperText>
+            </Card.Content>
+            <Card.Actions>
+              <Button
+                mode="contained"
+                onPress={handleConnect}
+                loading={isBusy}
+                disabled={
+                  isBusy ||
+                  !url.trim() ||
+                  passphrase.length < APP_CONFIG.MIN_SYNC_PASSPHRASE_LENGTH
+                }
+              >
+                Connect
+              </Button>
+            </Card.Actions>
+          </Card>
+        ) : (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Title
+              title="Syncing"
+              subtitle={syncState.remote.url}
+              subtitleNumberOfLines={2}
+            />
+            <Card.Content>
+              <Text variant="bodyMedium">
+                {syncState.lastSyncAt
+                  ? `Last synced ${formatTime(syncState.lastSyncAt)}`
+                  : "Not synced yet"}
+              </Text>
+              {syncState.lastError && (
+                <HelperText type="error">
+                  Last sync failed: {syncState.lastError}
+                </HelperText>
+              )}
+            </Card.Content>
+            <Card.Actions>
+              <Button
+                mode="text"
+                textColor={theme.colors.error}
+                onPress={handleDisconnect}
+                disabled={isBusy}
+              >
+                Stop Syncing
+              </Button>
+              <Button
+                mode="contained"
+                icon="sync"
+                onPress={handleSync}
+                loading={isBusy}
+                disabled={isBusy}
+              >
+                Sync Now
+              </Button>
+            </Card.Actions>
+          </Card>
+        )}
+
+        {conflicts.length > 0 && (
+          <View style={styles.sectionHeader}>
+            <Text variant="titleMedium">Changed on Two Devices</Text>
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              Choose which version to keep. These entries are not synced until
+              you do.
+            </Text>
+          </View>
+        )}
+
+        {conflicts.map((conflict) => {
+          const local = localVersions[conflict.id] ?? null;
+          return (
+            <Card
+              key={conflict.id}
+              mode="outlined"
+              style={[styles.card, { borderColor: theme.colors.tertiary }]}
+            >
+              <Card.Title
+                title={local?.title || conflict.remote.title || "Untitled"}
+                subtitle={format(new Date(conflict.remote.date), "EEEE, MMM d, yyyy")}
+              />
+              <Card.Content style={styles.versions}>
+                <View style={styles.version}>
+                  <Text variant="labelLarge">This device</Text>
+                  {local && (
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Edited {formatTime(local.updatedAt)}
+                    </Text>
+                  )}
+                  <Text variant="bodyMedium">{snippet(local)}</Text>
+                </View>
+                <View style={styles.version}>
+                  <Text variant="labelLarge">Other device</Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Edited {formatTime(conflict.remote.updatedAt)}
+                  </Text>
+                  <Text variant="bodyMedium">{snippet(conflict.remote)}</Text>
+                </View>
+              </Card.Content>
+              <Card.Actions style={styles.actions}>
+                <Button
+                  mode="text"
+                  onPress={() => handleResolve(conflict, "keep-both")}
+                  disabled={isBusy || !local}
+                >
+                  Keep Both
+                </Button>
+                <Button
+                  mode="text"
+                  onPress={() => handleResolve(conflict, "keep-remote")}
+                  disabled={isBusy}
+                >
+                  Keep Other
+                </Button>
+                <Button
+                  mode="contained-tonal"
+                  onPress={() => handleResolve(conflict, "keep-local")}
+                  disabled={isBusy || !local}
+                >
+                  Keep This
+                </Button>
+              </Card.Actions>
+            </Card>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    marginTop: 12,
+    marginBottom: 8,
+    gap: 4,
+  },
+  versions: {
+    gap: 12,
+  },
+  version: {
+    gap: 2,
+  },
+  actions: {
+    flexWrap: "wrap",
+  },
+});
+
+export default SyncScreen;
@@ -0,0 +1,363 @@
+// src/screens/Transfer/TransferScreen.tsx
+
+import { CameraView, useCameraPermissions } from "expo-camera";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+import {
+  Button,
+  Card,
+  HelperText,
+  Icon,
+  ProgressBar,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import QRCode from "react-native-qrcode-svg";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useJournalLoader } from "@/src/hooks/useJournalLoader";
+import { useNotebooks } from "@/src/hooks/useNotebooks";
+import {
+  hostTransfer,
+  isTransferSupported,
+  listLockedNotebooks,
+  parseTransferInvite,
+  receiveTransfer,
+  TRANSFER_CANCELLED,
+  TransferSession,
+} from "@/src/services/transferService";
+import { useAppDispatch, useAppSelector } from "@/src/stores/hooks";
+import { setIsExportImportInProgress } from "@/src/stores/slices/settingsSlice";
+import type { TransferProgress, TransferSummary } from "@/src/types";
+
+type Mode = "choose" | "send" | "receive";
+
+const QR_SIZE = 240;
+
+const describeProgress = (progress: TransferProgress | null, sending: boolean) => {
+  if (!progress) return "";
+  switch (progress.phase) {
+    case "waiting":
+      return "Waiting for the new device to scan this code…";
+    case "connected":
+      return "Connected - preparing…";
+    case "transferring":
+      return `${sending ? "Sent" : "Received"} ${progress.done} of ${progress.total} journals`;
+    case "verifying":
+      return "Verifying…";
+  }
+};
+
+const TransferScreen: React.FC<{ navigation: any }> = () => {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const dk = useAppSelector((state) => state.auth.encryptionKey);
+  const notebookKeys = useAppSelector((state) => state.notebooks.notebookKeys);
+  const { reload } = useJournalLoader();
+  const { refresh: refreshNotebooks } = useNotebooks();
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const [mode, setMode] = useState<Mode>("choose");
+  const [session, setSession] = useState<TransferSession | null>(null);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [summary, setSummary] = useState<TransferSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lockedNotebooks, setLockedNotebooks] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  // The camera keeps firing while a code stays in view
+  const hasScanned = useRef(false);
+  const sessionRef = useRef<TransferSession | null>(null);
+
+  useEffect(() => {
+    if (!dk) return;
+    listLockedNotebooks(dk, notebookKeys).then(setLockedNotebooks).catch(() => {});
+  }, [dk, notebookKeys]);
+
+  // Leaving the screen stops a transfer that is still running
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.cancel();
+      dispatch(setIsExportImportInProgress(false));
+    };
+  }, [dispatch]);
+
+  const reset = () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    hasScanned.current = false;
+    setSession(null);
+    setProgress(null);
+    setSummary(null);
+    setError(null);
+    setMode("choose");
+  };
+
+  const fail = (err: unknown, fallback: string) => {
+    if (err instanceof Error && err.message === TRANSFER_CANCELLED) return;
+    console.error(`❌ ${fallback}:`, err);
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  const startSending = async () => {
+    if (!dk) return;
+    setMode("send");
+    setIsBusy(true);
+    dispatch(setIsExportImportInProgress(true));
+    try {
+      const started = await hostTransfer(dk, notebookKeys, setProgress);
+      sessionRef.current = started;
+      setSession(started);
+      setSummary(await started.completion);
+    } catch (err) {
+      fail(err, "Transfer failed");
+    } finally {
+      sessionRef.current = null;
+      setIsBusy(false);
+      dispatch(setIsExportImportInProgress(false));
+    }
+  };
+
+  const startReceiving = async () => {
+    if (!permission?.granted) {
+      const response = await requestPermission();
+      if (!response.granted) {
+        setError("Camera access is needed to scan the code on the other device");
+        return;
+      }
+    }
+    setError(null);
+    setMode("receive");
+  };
+
+  const handleScanned = useCallback(
+    async ({ data }: { data: string }) => {
+      if (hasScanned.current || !dk) return;
+      hasScanned.current = true;
+
+      setIsBusy(true);
+      dispatch(setIsExportImportInProgress(true));
+      try {
+        const invite = parseTransferInvite(data);
+        setProgress({ phase: "connected", done: 0, total: 0 });
+        setSummary(await receiveTransfer(dk, invite, setProgress));
+        await refreshNotebooks();
+        await reload();
+      } catch (err) {
+        fail(err, "Transfer failed");
+      } finally {
+        setIsBusy(false);
+        dispatch(setIsExportImportInProgress(false));
+      }
+    },
+    [dk, dispatch, refreshNotebooks, reload],
+  );
+
+  if (!isTransferSupported) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        edges={["left", "right", "bottom"]}
+      >
+        <View style={styles.content}>
+          <Text variant="bodyMedium">
+            Transfers need the mobile app on both devices - not available on web.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const sending = mode === "send";
+  const fraction = progress && progress.total > 0 ? progress.done / progress.total : 0;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {mode === "choose" && (
+          <>
+            <Text
+              variant="bodyMedium"
+              style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+            >
+              Move your journals straight to another phone on the same Wi-Fi.
+              The old device shows a code, the new one scans it, and everything
+              is sent encrypted with a key that is used only once.
+            </Text>
+
+            <Card mode="outlined" style={styles.card}>
+              <Card.Title
+                title="Send from This Device"
+                subtitle="This is the old device"
+                left={(props) => <Icon {...props} source="cellphone-arrow-down" />}
+              />
+              <Card.Content>
+                {lockedNotebooks.length > 0 && (
+                  <HelperText type="info">
+                    Locked notebooks are left out: {lockedNotebooks.join(", ")}.
+                    Open them in Notebooks first to include their entries.
+                  </HelperText>
+                )}
+              </Card.Content>
+              <Card.Actions>
+                <Button mode="contained" onPress={startSending}>
+                  Show Code
+                </Button>
+              </Card.Actions>
+            </Card>
+
+            <Card mode="outlined" style={styles.card}>
+              <Card.Title
+                title="Receive on This Device"
+                subtitle="This is the new device"
+                left={(props) => <Icon {...props} source="qrcode-scan" />}
+              />
+              <Card.Content>
+                <HelperText type="info">
+                  Journals are added to this vault. Entries with the same id are
+                  replaced by the incoming version.
+                </HelperText>
+              </Card.Content>
+              <Card.Actions>
+                <Button mode="contained" onPress={startReceiving}>
+                  Scan Code
+                </Button>
+              </Card.Actions>
+            </Card>
+          </>
+        )}
+
+        {sending && session && !summary && !error && progress?.phase === "waiting" && (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Content style={styles.qrContainer}>
+              <View style={styles.qrBackground}>
+                <QRCode value={JSON.stringify(session.invite)} size={QR_SIZE} />
+              </View>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                On the new device, open Settings → Transfer to New Device → Scan Code.
+                Keep this screen open.
+              </Text>
+            </Card.Content>
+          </Card>
+        )}
+
+        {mode === "receive" && !hasScanned.current && (
+          <View style={styles.cameraContainer}>
+            <CameraView
+              style={styles.camera}
+              barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+              onBarcodeScanned={handleScanned}
+            />
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              Point the camera at the code on the old device.
+            </Text>
+          </View>
+        )}
+
+        {progress && !summary && !error && progress.phase !== "waiting" && (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Content style={styles.progress}>
+              <Text variant="bodyMedium">{describeProgress(progress, sending)}</Text>
+              <ProgressBar
+                progress={fraction}
+                indeterminate={progress.phase !== "transferring"}
+              />
+              <HelperText type="info">Keep both devices open and nearby.</HelperText>
+            </Card.Content>
+          </Card>
+        )}
+
+        {summary && (
+          <Card mode="outlined" style={styles.card}>
+            <Card.Title
+              title="Transfer Verified"
+              left={(props) => (
+                <Icon {...props} source="check-decagram" color={theme.colors.primary} />
+              )}
+            />
+            <Card.Content>
+              <Text variant="bodyMedium">
+                {sending ? "Sent" : "Received"} {summary.journals} journal(s) and{" "}
+                {summary.notebooks} notebook(s). Both devices checked every entry
+                arrived intact.
+              </Text>
+              <Text
+                variant="bodySmall"
+                style={[styles.digest, { color: theme.colors.onSurfaceVariant }]}
+              >
+                Check code: {summary.digest.slice(0, 8).toUpperCase()} (same on both
+                devices)
+              </Text>
+              {summary.skippedNotebooks.length > 0 && (
+                <HelperText type="info">
+                  Not included (locked): {summary.skippedNotebooks.join(", ")}
+                </HelperText>
+              )}
+            </Card.Content>
+          </Card>
+        )}
+
+        {error && (
+          <HelperText type="error" style={styles.error}>
+            {error}
+          </HelperText>
+        )}
+
+        {mode !== "choose" && (
+          <Button mode="outlined" onPress={reset} disabled={isBusy && !sending}>
+            {summary || error ? "Done" : "Cancel"}
+          </Button>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  qrContainer: {
+    alignItems: "center",
+    gap: 12,
+  },
+  qrBackground: {
+    // Scanners need a light quiet zone, also in dark mode
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+  },
+  cameraContainer: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  camera: {
+    height: 320,
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  progress: {
+    gap: 8,
+  },
+  digest: {
+    marginTop: 8,
+  },
+  error: {
+    marginBottom: 12,
+  },
+});
+
+export default TransferScreen;
@@ -0,0 +1,274 @@
+// src/screens/Trash/TrashScreen.tsx
+
+import { useFocusEffect } from "@react-navigation/native";
+import { format, formatDistanceToNow } from "date-fns";
+import React, { useCallback, useState } from "react";
+import { FlatList, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { getVaultStorageProvider } from "@/src/services/vaultStorageProvider";
+import { useAppDispatch, useAppSelector, useJournalKey } from "@/src/stores/hooks";
+import { addJournal } from "@/src/stores/slices/journalsSlice";
+import type { TrashedJournal } from "@/src/types";
+import { Alert } from "@/src/utils/alert";
+import { daysUntilPurge } from "@/src/utils/trash";
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+const TrashScreen: React.FC<{ navigation: any }> = () => {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const encryptionKey = useJournalKey();
+  const trashRetentionDays = useAppSelector(
+    (state) => state.settings.trashRetentionDays,
+  );
+
+  const [trash, setTrash] = useState<TrashedJournal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!encryptionKey) return;
+    try {
+      setTrash(await VaultStorageProvider.listTrash(encryptionKey));
+    } catch (error) {
+      console.error("❌ Error loading trash:", error);
+      Alert.alert("Error", "Failed to load trash");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [encryptionKey]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash]),
+  );
+
+  const handleRestore = async (item: TrashedJournal) => {
+    if (!encryptionKey) return;
+    setBusyId(item.id);
+    try {
+      const restored = await VaultStorageProvider.restoreJournal(
+        item.id,
+        encryptionKey,
+      );
+      dispatch(addJournal(restored));
+      setTrash((prev) => prev.filter((t) => t.id !== item.id));
+    } catch (error) {
+      console.error("❌ Restore error:", error);
+      Alert.alert("Oops!", "Failed to restore journal");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = (item: TrashedJournal) => {
+    Alert.alert(
+      "Delete forever?",
+      "This memory will be permanently deleted. This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            if (!encryptionKey) return;
+            setBusyId(item.id);
+            try {
+              await VaultStorageProvider.deleteJournal(item.id, encryptionKey);
+              setTrash((prev) => prev.filter((t) => t.id !== item.id));
+            } catch (error) {
+              console.error("❌ Delete error:", error);
+              Alert.alert("Oops!", "Failed to delete journal");
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash?",
+      `All ${trash.length} memories in the trash will be permanently deleted. This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            if (!encryptionKey) return;
+            setIsLoading(true);
+            try {
+              await VaultStorageProvider.purgeTrash(0, encryptionKey);
+            } catch (error) {
+              console.error("❌ Empty trash error:", error);
+              Alert.alert("Oops!", "Failed to empty trash");
+            }
+            await loadTrash();
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: TrashedJournal }) => {
+    const remaining = daysUntilPurge(item.deletedAt, trashRetentionDays);
+    const preview = item.text.replace(/[#*_`>~[\]]/g, "").replace(/\s+/g, " ").trim();
+
+    return (
+      <Card mode="outlined" style={styles.card}>
+        <Card.Content>
+          <Text variant="titleMedium" numberOfLines={1}>
+            {item.title || "Untitled Entry"}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={{ color: theme.colors.onSurfaceVariant }}
+          >
+            {format(new Date(item.date), "MMM d, yyyy")} · Deleted{" "}
+            {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+          </Text>
+          {!!preview && (
+            <Text variant="bodyMedium" numberOfLines={2} style={styles.preview}>
+              {preview}
+            </Text>
+          )}
+          <Text
+            variant="labelSmall"
+            style={[styles.purgeNote, { color: theme.colors.error }]}
+          >
+            {remaining === 0
+              ? "Deleted permanently on next unlock"
+              : `Deleted permanently in ${remaining} day${remaining === 1 ? "" : "s"}`}
+          </Text>
+        </Card.Content>
+        <Card.Actions>
+          <Button
+            mode="text"
+            textColor={theme.colors.error}
+            icon="delete-forever-outline"
+            onPress={() => handleDeleteForever(item)}
+            disabled={!!busyId}
+          >
+            Delete
+          </Button>
+          <Button
+            mode="contained-tonal"
+            icon="restore"
+            onPress={() => handleRestore(item)}
+            loading={busyId === item.id}
+            disabled={!!busyId}
+          >
+            Restore
+          </Button>
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={["left", "right", "bottom"]}
+    >
+      <FlatList
+        data={trash}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text
+              variant="bodyMedium"
+              style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}
+            >
+              Deleted memories stay here for {trashRetentionDays} days before
+              they are removed for good.
+            </Text>
+            {trash.length > 0 && (
+              <Button
+                mode="outlined"
+                icon="delete-sweep-outline"
+                textColor={theme.colors.error}
+                onPress={handleEmptyTrash}
+                disabled={!!busyId}
+              >
+                Empty
+              </Button>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>🗑️</Text>
+            <Text variant="titleMedium">Trash is empty</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 16,
+  },
+  intro: {
+    flex: 1,
+  },
+  card: {
+    marginBottom: 12,
+    borderRadius: 16,
+  },
+  preview: {
+    marginTop: 8,
+    opacity: 0.8,
+  },
+  purgeNote: {
+    marginTop: 8,
+  },
+  emptyState: {
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 64,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+  },
+});
+
+export default TrashScreen;
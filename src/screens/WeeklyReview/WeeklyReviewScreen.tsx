@@ -1,18 +1,15 @@
 // src/screens/WeeklyReview/WeeklyReviewScreen.tsx
-import { buildWeeklyReviewSummary } from '@/src/services/weeklyReviewService';
-import { useAppSelector } from '@/src/stores/hooks';
+import { useWeeklyReview } from '@/src/hooks/useWeeklyReview';
 import { getPromptByCategory } from '@/src/utils/journalPrompts';
 import { format } from 'date-fns';
-import React, { useMemo } from 'react';
+import React from 'react';
 import { Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { Button, Card, Chip, Text, useTheme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 const WeeklyReviewScreen: React.FC<any> = ({ navigation }) => {
   const theme = useTheme();
-  const journals = useAppSelector((s) => s.journals.journals);
-
-  const summary = useMemo(() => buildWeeklyReviewSummary(journals), [journals]);
+  const summary = useWeeklyReview(true);
 
   const subtleBorder = theme.colors.outlineVariant;
   const heroBg = theme.dark ? theme.colors.elevation.level3 : theme.colors.primaryContainer;
@@ -0,0 +1,342 @@
+import { addDays, formatDate } from 'date-fns';
+import { Directory, File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
+import APP_CONFIG from '../config/appConfig';
+import {
+  BackupArchive,
+  BackupArchiveJournal,
+  BackupBlob,
+  BackupChainManifest,
+  BackupState,
+} from '../types';
+import { packJournal } from '../utils/backupArchive';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { encryptBackupContent } from './exportService';
+import { cancelBackupReminder, scheduleBackupReminder } from './notificationService';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Automatic backups
+ *
+ * Writes encrypted backups (EncryptedBackupPayload files, sealed with a backup
+ * password) to a folder, daily or weekly, and deletes all but the newest few.
+ * Building a backup needs the Data Key, so a due backup runs at the next
+ * unlock; the backup password is kept sealed with the DK. A reminder
+ * notification goes off when no backup succeeds for a while.
+ *
+ * Backups are incremental (see BackupArchive): a full archive, then deltas with
+ * only what changed, until BACKUP_DELTAS_PER_CHAIN starts a new chain. What the
+ * chain holds is remembered in a manifest sealed with the DK; without it (new
+ * folder, new password, rotated key) the next backup is a full one.
+ *
+ * Only journals sealed with the Data Key are included - protected notebooks
+ * are backed up from Export while unlocked. Not available on web.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+const BACKUP_FILE_PREFIX = `${APP_CONFIG.slug.toLowerCase()}-auto-backup-`;
+const BACKUP_FILE_SUFFIX = '.enc.json';
+const DELTA_FILE_MARK = '-delta';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_BACKUP_STATE: BackupState = {
+  directoryUri: null,
+  passwordEncrypted: null,
+  lastSuccessAt: null,
+  lastFilename: null,
+  lastAttemptAt: null,
+  lastError: null,
+  chainEncrypted: null,
+};
+
+export const isAutoBackupSupported = Platform.OS !== 'web';
+
+export const loadBackupState = async (): Promise<BackupState> => {
+  return { ...EMPTY_BACKUP_STATE, ...(await VaultStorageProvider.getBackupState()) };
+};
+
+const updateBackupState = async (changes: Partial<BackupState>): Promise<BackupState> => {
+  const state = { ...(await loadBackupState()), ...changes };
+  await VaultStorageProvider.saveBackupState(state);
+  return state;
+};
+
+/**
+ * The chosen folder, or a Backups folder in the app's documents
+ */
+const getBackupDirectory = (state: BackupState): Directory => {
+  if (state.directoryUri) return new Directory(state.directoryUri);
+
+  const directory = new Directory(Paths.document, 'Backups');
+  if (!directory.exists) directory.create({ idempotent: true });
+  return directory;
+};
+
+export const describeBackupDirectory = (state: BackupState): string => {
+  if (!state.directoryUri) return 'App documents › Backups';
+  return decodeURIComponent(state.directoryUri.split('/').pop() ?? state.directoryUri);
+};
+
+/**
+ * Let the user pick the backup folder
+ * On iOS the access only lasts until the app restarts, so the app's own folder
+ * (visible in the Files app) is the better choice there.
+ */
+export const chooseBackupDirectory = async (): Promise<BackupState> => {
+  const directory = await Directory.pickDirectoryAsync();
+  // The new folder does not have the chain's earlier parts
+  return updateBackupState({ directoryUri: directory.uri, lastError: null, chainEncrypted: null });
+};
+
+export const resetBackupDirectory = async (): Promise<BackupState> => {
+  return updateBackupState({ directoryUri: null, lastError: null, chainEncrypted: null });
+};
+
+export const saveBackupPassword = async (dk: string, password: string): Promise<BackupState> => {
+  // A chain is imported with one password, so a new password starts a new chain
+  return updateBackupState({
+    passwordEncrypted: await CryptoManager.encryptData(dk, password),
+    lastError: null,
+    chainEncrypted: null,
+  });
+};
+
+/**
+ * Move the sealed backup password to a new Data Key (key rotation)
+ */
+export const resealBackupPassword = async (oldKey: string, newKey: string): Promise<void> => {
+  const state = await VaultStorageProvider.getBackupState();
+  if (!state?.passwordEncrypted) return;
+
+  const password = await CryptoManager.decryptData(oldKey, state.passwordEncrypted).catch(() => null);
+  if (!password) return;
+  await VaultStorageProvider.saveBackupState({
+    ...state,
+    passwordEncrypted: await CryptoManager.encryptData(newKey, password),
+    chainEncrypted: null,
+  });
+};
+
+/**
+ * The manifest to build the next delta on, or null when a full backup is due
+ */
+const openChainManifest = async (
+  dk: string,
+  state: BackupState
+): Promise<BackupChainManifest | null> => {
+  if (!state.chainEncrypted) return null;
+  try {
+    const manifest = JSON.parse(
+      await CryptoManager.decryptData(dk, state.chainEncrypted)
+    ) as BackupChainManifest;
+    return manifest.sequence < APP_CONFIG.BACKUP_DELTAS_PER_CHAIN ? manifest : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build the next archive of the chain (a full one when there is no chain)
+ * Only journals whose updatedAt differs from the manifest are decrypted in full.
+ */
+const buildBackupArchive = async (
+  dk: string,
+  chain: BackupChainManifest | null
+): Promise<{ archive: BackupArchive; manifest: BackupChainManifest }> => {
+  const journalVersions: Record<string, string> = {};
+  const changedIds: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await VaultStorageProvider.listJournalSummaries(dk, { cursor });
+    for (const summary of page.items) {
+      journalVersions[summary.id] = summary.updatedAt;
+      if (chain?.journalVersions[summary.id] !== summary.updatedAt) {
+        changedIds.push(summary.id);
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  const knownHashes = new Set(chain?.blobHashes ?? []);
+  const blobs: BackupBlob[] = [];
+  const journals: BackupArchiveJournal[] = [];
+  for (const id of changedIds) {
+    const journal = await VaultStorageProvider.getJournal(id, dk);
+    if (journal) journals.push(packJournal(journal, knownHashes, blobs));
+  }
+
+  const exportDate = new Date().toISOString();
+  const archiveId = uuidv4();
+  const archive: BackupArchive = {
+    format: 'incremental_backup',
+    version: APP_CONFIG.BACKUP_ARCHIVE_VERSION,
+    appName: APP_CONFIG.displayName,
+    exportDate,
+    archiveId,
+    kind: chain ? 'delta' : 'full',
+    chainId: chain?.chainId ?? archiveId,
+    parentId: chain?.archiveId ?? null,
+    sequence: chain ? chain.sequence + 1 : 0,
+    since: chain?.exportDate ?? null,
+    journals,
+    tombstones: Object.keys(chain?.journalVersions ?? {})
+      .filter((id) => !(id in journalVersions))
+      .map((id) => ({ id, deletedAt: exportDate })),
+    blobs,
+  };
+
+  const manifest: BackupChainManifest = {
+    chainId: archive.chainId,
+    archiveId,
+    sequence: archive.sequence,
+    exportDate,
+    journalVersions,
+    blobHashes: [...knownHashes],
+  };
+  return { archive, manifest };
+};
+
+/**
+ * Delete all but the newest `keepCount` automatic backups
+ * A kept delta keeps its full backup and the parts in between, or it could not
+ * be restored. Only files named like ours are touched.
+ */
+const pruneBackups = (directory: Directory, keepCount: number): number => {
+  const backups = directory
+    .list()
+    .filter(
+      (entry): entry is File =>
+        entry instanceof File &&
+        entry.name.startsWith(BACKUP_FILE_PREFIX) &&
+        entry.name.endsWith(BACKUP_FILE_SUFFIX)
+    )
+    // Timestamped names sort oldest first
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  let firstKept = Math.max(0, backups.length - keepCount);
+  while (firstKept > 0 && backups[firstKept].name.includes(DELTA_FILE_MARK)) {
+    firstKept--;
+  }
+
+  const expired = backups.slice(0, firstKept);
+  for (const file of expired) {
+    try {
+      file.delete();
+    } catch (error) {
+      console.error(`Could not delete old backup ${file.name}:`, error);
+    }
+  }
+  return expired.length;
+};
+
+/**
+ * Write a backup now and prune old ones
+ * The outcome is recorded either way; a failure is re-thrown.
+ */
+export const runBackup = async (dk: string, keepCount: number): Promise<BackupState> => {
+  const state = await updateBackupState({ lastAttemptAt: new Date().toISOString() });
+
+  try {
+    if (!state.passwordEncrypted) {
+      throw new Error('No backup password set');
+    }
+    const password = await CryptoManager.decryptData(dk, state.passwordEncrypted).catch(() => {
+      throw new Error('The backup password could not be read - set it again');
+    });
+
+    const { archive, manifest } = await buildBackupArchive(dk, await openChainManifest(dk, state));
+    const content = await encryptBackupContent(archive, password);
+
+    const directory = getBackupDirectory(state);
+    const timestamp = formatDate(new Date(), 'yyyy-MM-dd-HHmmss');
+    const mark = archive.kind === 'delta' ? `${DELTA_FILE_MARK}-${archive.sequence}` : '-full';
+    const filename = `${BACKUP_FILE_PREFIX}${timestamp}${mark}${BACKUP_FILE_SUFFIX}`;
+    directory.createFile(filename, 'application/json').write(content);
+
+    const pruned = pruneBackups(directory, keepCount);
+    console.log(
+      `💾 ${archive.kind} backup written: ${archive.journals.length} journal(s), ` +
+        `${archive.tombstones.length} deletion(s), ${archive.blobs.length} new image(s); ` +
+        `${pruned} old backup(s) removed`
+    );
+
+    return updateBackupState({
+      lastSuccessAt: new Date().toISOString(),
+      lastFilename: filename,
+      lastError: null,
+      chainEncrypted: await CryptoManager.encryptData(dk, JSON.stringify(manifest)),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Backup failed';
+    console.error('❌ Automatic backup failed:', error);
+    await updateBackupState({ lastError: message });
+    throw new Error(message);
+  }
+};
+
+/**
+ * True when the last successful backup is older than the interval
+ */
+export const isBackupDue = (state: BackupState, intervalDays: number, now = new Date()): boolean => {
+  if (intervalDays <= 0) return false;
+  if (!state.lastSuccessAt) return true;
+  return now.getTime() - Date.parse(state.lastSuccessAt) >= intervalDays * DAY_MS;
+};
+
+/**
+ * Run the backup if one is due (called at unlock and when the app comes back)
+ * A failed attempt is not retried before BACKUP_RETRY_DELAY_MS.
+ *
+ * @param onStart - Called once it is clear a backup will be written
+ * @returns the new state, or null when nothing ran
+ */
+export const runDueBackup = async (
+  dk: string,
+  intervalDays: number,
+  keepCount: number,
+  onStart?: () => void
+): Promise<BackupState | null> => {
+  if (!isAutoBackupSupported) return null;
+
+  const state = await loadBackupState();
+  if (!isBackupDue(state, intervalDays)) return null;
+  if (
+    state.lastError &&
+    state.lastAttemptAt &&
+    Date.now() - Date.parse(state.lastAttemptAt) < APP_CONFIG.BACKUP_RETRY_DELAY_MS
+  ) {
+    return null;
+  }
+
+  // Journals still sealed with the old key would be left out
+  if (await VaultStorageProvider.getKeyRotationState()) return null;
+
+  onStart?.();
+  const result = await runBackup(dk, keepCount);
+  await refreshBackupReminder(result, intervalDays);
+  return result;
+};
+
+/**
+ * Reschedule the "no recent backup" reminder for when the next backup will be
+ * overdue by BACKUP_REMINDER_GRACE_DAYS (cancelled when backups are off)
+ */
+export const refreshBackupReminder = async (
+  state: BackupState,
+  intervalDays: number
+): Promise<void> => {
+  if (!isAutoBackupSupported) return;
+  if (intervalDays <= 0) {
+    await cancelBackupReminder();
+    return;
+  }
+
+  const since = state.lastSuccessAt ? new Date(state.lastSuccessAt) : new Date();
+  const remindAt = addDays(since, intervalDays + APP_CONFIG.BACKUP_REMINDER_GRACE_DAYS);
+  // Already overdue - remind soon, not in the past
+  const soonest = addDays(new Date(), 1);
+  await scheduleBackupReminder(remindAt > soonest ? remindAt : soonest);
+};
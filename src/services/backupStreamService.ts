@@ -0,0 +1,322 @@
+import { bytesToUtf8, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import APP_CONFIG from '../config/appConfig';
+import { BackupStreamChunk, BackupStreamHeader, Journal } from '../types';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { DEFAULT_KDF_PARAMS, deriveArgon2idKey, isAllowedArgon2Params } from './keyDerivationService';
+
+/**
+ * Streamed encrypted exports (JSON Lines)
+ *
+ *   line 1   - BackupStreamHeader (salt + KDF parameters, not secret)
+ *   line 2.. - one BackupStreamChunk each, sealed with the password's key
+ *
+ * The key is derived once; journals are then sealed and written a chunk at a
+ * time, and read back the same way, so neither side ever holds the whole vault
+ * as one string. Each chunk carries its index and the last one is marked
+ * final, so a reordered or truncated file fails instead of importing part of it.
+ *
+ * Every chunk is sealed with the header line as associated data, so a header
+ * edited after export (other salt, KDF parameters or date) fails to decrypt.
+ * KDF parameters outside the accepted range are refused before deriving.
+ */
+
+const CryptoManager = getCryptoProvider();
+
+// Picked file: a file URI on native, the File itself on web
+export type BackupStreamSource = string | Blob;
+
+// ==================== Writing ====================
+
+type StreamSink = {
+  write: (line: string) => void;
+  finish: () => string;
+  abort: () => void;
+};
+
+/**
+ * Native writes straight to a file in Documents; on web the browser keeps the
+ * parts and joins them into the downloaded Blob
+ */
+const openStreamSink = (filename: string): StreamSink => {
+  if (Platform.OS === 'web') {
+    const parts: string[] = [];
+    return {
+      write: (line) => parts.push(line),
+      finish: () => {
+        const url = URL.createObjectURL(new Blob(parts, { type: 'application/x-ndjson' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 100);
+        return url;
+      },
+      abort: () => {
+        parts.length = 0;
+      },
+    };
+  }
+
+  const file = new File(Paths.document, filename);
+  file.create({ overwrite: true });
+  const handle = file.open();
+  return {
+    write: (line) => handle.writeBytes(utf8ToBytes(line)),
+    finish: () => {
+      handle.close();
+      return file.uri;
+    },
+    abort: () => {
+      handle.close();
+      if (file.exists) file.delete();
+    },
+  };
+};
+
+// Cheap stand-in for the serialized size (images dominate)
+const estimateSize = (journal: Journal): number =>
+  journal.text.length +
+  (journal.title?.length ?? 0) +
+  (journal.images ?? []).reduce((sum, image) => sum + image.length, 0) +
+  512;
+
+/**
+ * Seal journals into a streamed backup file, one chunk at a time
+ * @param loadJournal - journal number `index` (null = skip it, e.g. deleted meanwhile)
+ * @returns the file URI (an object URL on web, where the file is downloaded)
+ */
+export const writeEncryptedBackupStream = async (
+  filename: string,
+  total: number,
+  loadJournal: (index: number) => Promise<Journal | null>,
+  password: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> => {
+  const salt = await CryptoManager.generateSalt();
+  const key = await deriveArgon2idKey(password, salt, DEFAULT_KDF_PARAMS);
+  const header: BackupStreamHeader = {
+    type: 'encrypted_backup_stream',
+    version: APP_CONFIG.BACKUP_STREAM_VERSION,
+    appName: APP_CONFIG.displayName,
+    exportDate: new Date().toISOString(),
+    kdfParams: DEFAULT_KDF_PARAMS,
+    salt,
+  };
+
+  const headerLine = JSON.stringify(header);
+
+  const sink = openStreamSink(filename);
+  try {
+    sink.write(`${headerLine}\n`);
+
+    let index = 0;
+    let written = 0;
+    let pending: Journal[] = [];
+    let pendingSize = 0;
+
+    const flush = async (final: boolean) => {
+      const chunk: BackupStreamChunk = {
+        index,
+        final,
+        journals: pending,
+        ...(final ? { totalEntries: written + pending.length } : {}),
+      };
+      const sealed = await CryptoManager.encryptData(key, JSON.stringify(chunk), headerLine);
+      sink.write(`${JSON.stringify(sealed)}\n`);
+      written += pending.length;
+      index++;
+      pending = [];
+      pendingSize = 0;
+    };
+
+    for (let i = 0; i < total; i++) {
+      const journal = await loadJournal(i);
+      if (journal) {
+        pending.push(journal);
+        pendingSize += estimateSize(journal);
+        if (pendingSize >= APP_CONFIG.BACKUP_STREAM_CHUNK_SIZE) {
+          await flush(false);
+        }
+      }
+      onProgress?.(i + 1, total);
+    }
+    await flush(true);
+
+    return sink.finish();
+  } catch (error) {
+    sink.abort();
+    throw error;
+  }
+};
+
+// ==================== Reading ====================
+
+type ByteReader = {
+  read: () => Promise<Uint8Array | null>;
+  close: () => void;
+};
+
+const openByteReader = (source: BackupStreamSource): ByteReader => {
+  if (typeof source !== 'string') {
+    const reader = source.stream().getReader();
+    return {
+      read: async () => {
+        const { done, value } = await reader.read();
+        return done ? null : value;
+      },
+      close: () => {
+        reader.cancel().catch(() => {});
+      },
+    };
+  }
+
+  const handle = new File(source).open();
+  return {
+    read: async () => {
+      if ((handle.offset ?? 0) >= (handle.size ?? 0)) return null;
+      return handle.readBytes(APP_CONFIG.BACKUP_STREAM_READ_SIZE);
+    },
+    close: () => handle.close(),
+  };
+};
+
+/**
+ * Lines of a byte stream (split on the byte, so multi-byte characters are
+ * never cut in half)
+ */
+const createLineReader = (reader: ByteReader) => {
+  let buffer: Uint8Array = new Uint8Array(0);
+  let scanned = 0;
+  let ended = false;
+
+  return async (): Promise<string | null> => {
+    for (;;) {
+      const newline = buffer.indexOf(0x0a, scanned);
+      if (newline >= 0) {
+        const line = bytesToUtf8(buffer.subarray(0, newline));
+        buffer = buffer.slice(newline + 1);
+        scanned = 0;
+        return line;
+      }
+      scanned = buffer.length;
+
+      if (ended) {
+        if (buffer.length === 0) return null;
+        const line = bytesToUtf8(buffer);
+        buffer = new Uint8Array(0);
+        return line;
+      }
+      const bytes = await reader.read();
+      if (bytes) buffer = concatBytes(buffer, bytes);
+      else ended = true;
+    }
+  };
+};
+
+const parseHeader = (line: string | null): BackupStreamHeader | null => {
+  if (!line) return null;
+  try {
+    const header = JSON.parse(line);
+    return header?.type === 'encrypted_backup_stream' ? (header as BackupStreamHeader) : null;
+  } catch {
+    return null;
+  }
+};
+
+const SALT_PATTERN = new RegExp(`^[\\da-f]{${APP_CONFIG.SALT_SIZE * 2}}$`, 'i');
+
+/**
+ * Throws unless the header is one this app can read without risk
+ */
+const checkHeader = (header: BackupStreamHeader): void => {
+  if (header.version > APP_CONFIG.BACKUP_STREAM_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  if (!isAllowedArgon2Params(header.kdfParams)) {
+    throw new Error('Invalid file: unsupported key derivation');
+  }
+  if (typeof header.salt !== 'string' || !SALT_PATTERN.test(header.salt)) {
+    throw new Error('Invalid file: malformed salt');
+  }
+};
+
+/**
+ * Header of a streamed backup, or null for any other file
+ * Throws for a streamed backup whose header cannot be read safely.
+ */
+export const readBackupStreamHeader = async (
+  source: BackupStreamSource
+): Promise<BackupStreamHeader | null> => {
+  const reader = openByteReader(source);
+  try {
+    const header = parseHeader(await createLineReader(reader)());
+    if (header) checkHeader(header);
+    return header;
+  } finally {
+    reader.close();
+  }
+};
+
+/**
+ * Decrypt a streamed backup chunk by chunk
+ * Throws 'PASSWORD_REQUIRED' without a password and 'Invalid Password' when the
+ * first chunk does not open; nothing is handed on before that.
+ *
+ * @param onJournals - called with each chunk's journals, in file order
+ * @returns number of journals in the file
+ */
+export const readEncryptedBackupStream = async (
+  source: BackupStreamSource,
+  password: string | undefined,
+  onJournals: (journals: Journal[]) => Promise<void>
+): Promise<number> => {
+  const reader = openByteReader(source);
+  const nextLine = createLineReader(reader);
+  try {
+    const headerLine = await nextLine();
+    const header = parseHeader(headerLine);
+    if (!headerLine || !header) {
+      throw new Error('Invalid file: not a streamed backup');
+    }
+    checkHeader(header);
+    if (!password) {
+      throw new Error('PASSWORD_REQUIRED');
+    }
+
+    const key = await deriveArgon2idKey(password, header.salt, header.kdfParams);
+    let index = 0;
+    let count = 0;
+
+    for (let line = await nextLine(); line !== null; line = await nextLine()) {
+      if (line.trim() === '') continue;
+
+      let chunk: BackupStreamChunk;
+      try {
+        chunk = JSON.parse(await CryptoManager.decryptData(key, JSON.parse(line), headerLine));
+      } catch {
+        throw new Error(
+          index === 0 ? 'Invalid Password' : 'This backup is damaged - part of it cannot be decrypted'
+        );
+      }
+      if (chunk.index !== index) {
+        throw new Error('This backup is damaged - parts are missing or out of order');
+      }
+
+      await onJournals(chunk.journals);
+      count += chunk.journals.length;
+      index++;
+
+      if (chunk.final) {
+        if (chunk.totalEntries !== count) {
+          throw new Error('This backup is damaged - journals are missing');
+        }
+        return count;
+      }
+    }
+    throw new Error('This backup is incomplete - the file was cut off');
+  } finally {
+    reader.close();
+  }
+};
@@ -0,0 +1,152 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import APP_CONFIG from '../config/appConfig';
+import { Vault } from '../types/crypto';
+import { getProfileStorageKeys } from '../utils/profileStorage';
+import { getCryptoProvider } from './cryptoServiceProvider';
+
+/**
+ * Biometric unlock
+ *
+ * A random Biometric Key (BK) is stored in the OS keystore (iOS Keychain /
+ * Android Keystore) and is only released after a successful biometric prompt.
+ * The vault keeps a fourth key wrap, AES-256-GCM(DK, BK), so unlocking skips
+ * the password KDF entirely. The password always keeps working as a fallback.
+ *
+ * The wrap is dropped whenever the password changes (see
+ * rebuildVaultWithNewPassword); the keystore entry is removed with it.
+ */
+
+const CryptoManager = getCryptoProvider();
+
+// Each profile has its own keystore entry
+const getBiometricKeyName = (): string => getProfileStorageKeys().BIOMETRIC_KEY;
+
+const secureStoreOptions = (prompt: string): SecureStore.SecureStoreOptions => ({
+  requireAuthentication: true,
+  authenticationPrompt: prompt,
+  keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+});
+
+/**
+ * True when the device has biometric hardware with at least one enrolled biometric
+ */
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled && SecureStore.canUseBiometricAuthentication();
+  } catch (error) {
+    console.error('Error checking biometric availability:', error);
+    return false;
+  }
+};
+
+/**
+ * Human-readable name of the device's biometric method
+ */
+export const getBiometricLabel = async (): Promise<string> => {
+  try {
+    const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+    if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+      return Platform.OS === 'ios' ? 'Face ID' : 'Face Unlock';
+    }
+    if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+      return Platform.OS === 'ios' ? 'Touch ID' : 'Fingerprint';
+    }
+  } catch (error) {
+    console.error('Error reading biometric types:', error);
+  }
+  return 'Biometrics';
+};
+
+/**
+ * True when the vault carries a biometric key wrap
+ */
+export const hasBiometricUnlock = (vault: Vault | Record<string, any> | null): boolean => {
+  return !!(vault as Vault | null)?.key_wraps?.dk_wrapped_by_biometric;
+};
+
+/**
+ * Enrol biometric unlock
+ * Stores a new Biometric Key behind biometrics and returns the vault with the
+ * extra wrap - the caller must save it.
+ */
+export const enableBiometricUnlock = async (vault: Vault, dk: string): Promise<Vault> => {
+  const biometricKey = await CryptoManager.generateDataKey();
+
+  // Writing with requireAuthentication prompts once, which confirms the user can pass it
+  await SecureStore.setItemAsync(
+    getBiometricKeyName(),
+    biometricKey,
+    secureStoreOptions('Confirm to enable biometric unlock')
+  );
+
+  return CryptoManager.wrapDataKeyWithBiometricKey(vault, dk, biometricKey);
+};
+
+/**
+ * Remove the keystore entry (safe to call when nothing is stored)
+ */
+export const clearBiometricKey = async (): Promise<void> => {
+  if (Platform.OS === 'web') return;
+
+  try {
+    await SecureStore.deleteItemAsync(getBiometricKeyName());
+  } catch (error) {
+    console.error('Error clearing biometric key:', error);
+  }
+};
+
+/**
+ * Turn biometric unlock off
+ * Returns the vault without the biometric wrap - the caller must save it.
+ */
+export const disableBiometricUnlock = async (vault: Vault): Promise<Vault> => {
+  await clearBiometricKey();
+
+  const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+  delete newVault.key_wraps.dk_wrapped_by_biometric;
+  newVault.updated_at = new Date().toISOString();
+  return newVault;
+};
+
+export type BiometricUnlockOutcome =
+  | { status: 'unlocked'; dk: string }
+  | { status: 'cancelled' } // Prompt dismissed or failed - the password still works
+  | { status: 'invalidated' }; // Keystore entry gone (e.g. biometrics re-enrolled) - enrol again
+
+/**
+ * Prompt for biometrics and unlock the Data Key
+ */
+export const unlockWithBiometrics = async (vault: Vault): Promise<BiometricUnlockOutcome> => {
+  let biometricKey: string | null;
+  try {
+    biometricKey = await SecureStore.getItemAsync(
+      getBiometricKeyName(),
+      secureStoreOptions(`Unlock ${APP_CONFIG.displayName}`)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Biometric prompt error:', message);
+    // Android reports a permanently invalidated keystore key; everything else is a failed prompt
+    return /invalidated/i.test(message) ? { status: 'invalidated' } : { status: 'cancelled' };
+  }
+
+  if (!biometricKey) {
+    return { status: 'invalidated' };
+  }
+
+  try {
+    const { dk } = await CryptoManager.unlockWithBiometricKey(vault, biometricKey);
+    return { status: 'unlocked', dk };
+  } catch (error) {
+    console.error('Biometric key does not match the vault:', error);
+    return { status: 'invalidated' };
+  }
+};
@@ -12,6 +12,7 @@
 import { Platform } from 'react-native';
 import {
   EncryptedNote,
+  NoteMetadata,
   QAPair,
   RecoveryResult,
   UnlockResult,
@@ -57,12 +58,71 @@ export interface CryptoServiceProvider {
 
   /**
    * Unlock vault with password
+   * Legacy (PBKDF2) password wraps are transparently re-wrapped with Argon2id;
+   * when that happens `vaultUpgraded` is true and the caller must save `vault`.
+   * A decoy password opens the decoy slot instead and sets `isDecoy`.
    * @param vault - Vault object
    * @param password - User's password
    * @returns Promise with dk and vault
    */
   unlockWithPassword(vault: Vault, password: string): Promise<UnlockResult>;
 
+  /**
+   * Unlock vault with the biometric key released by the OS keystore
+   * @param vault - Vault object (must contain dk_wrapped_by_biometric)
+   * @param biometricKey - Random 32-byte key (hex) from secure storage
+   * @returns Promise with dk and vault
+   */
+  unlockWithBiometricKey(vault: Vault, biometricKey: string): Promise<UnlockResult>;
+
+  /**
+   * Add the biometric key wrap (DK sealed with a random key kept in the OS keystore)
+   * @param vault - Current vault
+   * @param dk - Decrypted Data Key
+   * @param biometricKey - Random 32-byte key (hex)
+   * @returns Promise with updated vault
+   */
+  wrapDataKeyWithBiometricKey(vault: Vault, dk: string, biometricKey: string): Promise<Vault>;
+
+  // ==================== Decoy Slot ====================
+
+  /**
+   * Refill the decoy slot with random data (turns a decoy password off)
+   * @param vault - Current vault
+   * @returns Promise with updated vault
+   */
+  clearDecoySlot(vault: Vault): Promise<Vault>;
+
+  /**
+   * Wrap the decoy Data Key with a (new) decoy password
+   * @param vault - Current vault
+   * @param decoyDk - Decoy Data Key
+   * @param decoyPassword - Decoy password
+   * @returns Promise with updated vault
+   */
+  rebuildVaultWithNewDecoyPassword(
+    vault: Vault,
+    decoyDk: string,
+    decoyPassword: string
+  ): Promise<Vault>;
+
+  /**
+   * Seal the decoy Data Key with the real Data Key
+   * @param vault - Current vault
+   * @param dk - Decrypted Data Key
+   * @param decoyDk - Decoy Data Key
+   * @returns Promise with updated vault
+   */
+  wrapDecoyDataKey(vault: Vault, dk: string, decoyDk: string): Promise<Vault>;
+
+  /**
+   * Open the decoy Data Key with the real Data Key
+   * @param vault - Vault object
+   * @param dk - Decrypted Data Key
+   * @returns Promise with the decoy DK, or null when no decoy password is set
+   */
+  unwrapDecoyDataKey(vault: Vault, dk: string): Promise<string | null>;
+
   /**
    * Unlock vault with security answers
    * @param vault - Vault object
@@ -110,13 +170,23 @@ export interface CryptoServiceProvider {
     newQAPairs: QAPair[]
   ): Promise<Vault>;
 
+  /**
+   * Rebuild vault with a new recovery key
+   * @param vault - Current vault
+   * @param dk - Decrypted Data Key
+   * @returns Promise with newVault and newRecoveryKey (show it to the user)
+   */
+  rebuildVaultWithNewRecoveryKey(vault: Vault, dk: string): Promise<RecoveryResult>;
+
   // ==================== Note Encryption/Decryption ====================
 
   /**
    * Encrypt a note with the Data Key using AES-256-GCM
+   * Title and mood are sealed into `metadata_encrypted`, tags into `tags_encrypted`
+   * and images into `images_encrypted` (so list views can skip them)
    * @param dk - Data Key (hex string, 32 bytes)
    * @param noteText - Plain text note content
-   * @param noteMetadata - Optional metadata
+   * @param noteMetadata - Optional metadata (createdAt is kept; new notes get now)
    * @returns Promise<EncryptedNote>
    */
   encryptNote(
@@ -129,6 +199,8 @@ export interface CryptoServiceProvider {
       mood?: string;
       tags?: string[];
       images?: string[];
+      notebookId?: string;
+      createdAt?: string;
     }
   ): Promise<EncryptedNote>;
 
@@ -148,6 +220,24 @@ export interface CryptoServiceProvider {
    */
   decryptNoteTags(dk: string, encryptedNote: EncryptedNote): Promise<string[]>;
 
+  /**
+   * Decrypt note metadata (title, mood, image count)
+   * Falls back to the legacy plaintext fields when the note has no sealed metadata
+   * @param dk - Data Key
+   * @param encryptedNote - EncryptedNote object
+   * @returns Promise<NoteMetadata> - Decrypted metadata
+   */
+  decryptNoteMetadata(dk: string, encryptedNote: EncryptedNote): Promise<NoteMetadata>;
+
+  /**
+   * Decrypt note images (base64)
+   * Falls back to images stored in the metadata blob or legacy plaintext
+   * @param dk - Data Key
+   * @param encryptedNote - EncryptedNote object
+   * @returns Promise<string[]> - Decrypted images
+   */
+  decryptNoteImages(dk: string, encryptedNote: EncryptedNote): Promise<string[]>;
+
   // ==================== Utility Methods ====================
 
   /**
@@ -171,17 +261,19 @@ export interface CryptoServiceProvider {
    * Encrypt arbitrary data using AES-256-GCM
    * @param dk - Data Key (hex string, 32 bytes)
    * @param plaintext - Plain text data to encrypt
+   * @param associatedData - Optional context bound to the seal but not stored in it
    * @returns Promise<string> - Encrypted data as hex (iv + ciphertext + authTag)
    */
-  encryptData(dk: string, plaintext: string): Promise<string>;
+  encryptData(dk: string, plaintext: string, associatedData?: string): Promise<string>;
 
   /**
    * Decrypt arbitrary data using AES-256-GCM
    * @param dk - Data Key (hex string, 32 bytes)
    * @param encryptedData - Encrypted data as hex (iv + ciphertext + authTag)
+   * @param associatedData - The same context passed to encryptData
    * @returns Promise<string> - Decrypted plain text
    */
-  decryptData(dk: string, encryptedData: string): Promise<string>;
+  decryptData(dk: string, encryptedData: string, associatedData?: string): Promise<string>;
 
 
   // ==================== Encrypted Backup/Restore ====================
@@ -0,0 +1,85 @@
+import { Vault } from '../types/crypto';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Decoy (duress) password
+ *
+ * A second password that opens a separate, innocuous journal set. The vault
+ * always carries a decoy slot - random filler until a decoy password is set -
+ * and decoy journals live in the same storage as the real ones, sealed with
+ * their own Data Key, so nothing on disk shows whether a decoy exists.
+ *
+ * Only the real Data Key can open `decoy_dk_wrapped_by_dk`, so a decoy session
+ * sees the decoy setting as off, exactly like a vault without one. Changing it
+ * from there would overwrite the real wraps, so a decoy session gets the same
+ * failure as any other failed save.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+/**
+ * True when the session key can see a configured decoy password
+ */
+export const isDecoyPasswordSet = async (vault: Vault, dk: string): Promise<boolean> => {
+  return (await CryptoManager.unwrapDecoyDataKey(vault, dk)) !== null;
+};
+
+/**
+ * Set or change the decoy password
+ * Keeps the existing decoy journals when one is already set. Returns the vault
+ * with the new wraps - the caller must save it.
+ *
+ * @param isDecoySession - The session was opened with the decoy password
+ */
+export const enableDecoyPassword = async (
+  vault: Vault,
+  dk: string,
+  decoyPassword: string,
+  isDecoySession: boolean
+): Promise<Vault> => {
+  if (isDecoySession) throw new Error('Could not save the decoy password');
+
+  // The decoy must never shadow the real password
+  const existing = await CryptoManager.unlockWithPassword(vault, decoyPassword).catch(() => null);
+  if (existing && !existing.isDecoy) {
+    throw new Error('The decoy password must be different from your password');
+  }
+
+  const decoyDk =
+    (await CryptoManager.unwrapDecoyDataKey(vault, dk)) ?? (await CryptoManager.generateDataKey());
+
+  const withPassword = await CryptoManager.rebuildVaultWithNewDecoyPassword(
+    vault,
+    decoyDk,
+    decoyPassword
+  );
+  return CryptoManager.wrapDecoyDataKey(withPassword, dk, decoyDk);
+};
+
+/**
+ * Turn the decoy password off and permanently delete the decoy journals
+ * Returns the vault with a fresh filler slot - the caller must save it.
+ *
+ * @param isDecoySession - The session was opened with the decoy password
+ */
+export const disableDecoyPassword = async (
+  vault: Vault,
+  dk: string,
+  isDecoySession: boolean
+): Promise<Vault> => {
+  if (isDecoySession) throw new Error('Could not turn off the decoy password');
+
+  const decoyDk = await CryptoManager.unwrapDecoyDataKey(vault, dk);
+
+  if (decoyDk) {
+    const journals = await VaultStorageProvider.listJournals(decoyDk);
+    const trashed = await VaultStorageProvider.listTrash(decoyDk);
+    for (const journal of [...journals, ...trashed]) {
+      await VaultStorageProvider.deleteJournal(journal.id, decoyDk);
+    }
+  }
+
+  return CryptoManager.clearDecoySlot(vault);
+};
@@ -6,21 +6,192 @@ import { marked } from "marked";
 import { Platform } from "react-native";
 import { MOOD_OPTIONS } from "../components/journal/MoodSelector";
 import APP_CONFIG from "../config/appConfig";
-import { PDF_EXPORT_STYLESHEET } from "../config/PDF_EXPORT_STYLESHEET";
-import { Journal } from "../types";
+import {
+  PDF_EXPORT_STYLESHEET,
+  PDF_PAPER_SIZES,
+  PDF_TEMPLATE_STYLESHEET,
+} from "../config/PDF_EXPORT_STYLESHEET";
+import {
+  ExportSelection,
+  IntegrityIssue,
+  Journal,
+  Notebook,
+  PdfExportOptions,
+} from "../types";
 import { EncryptedBackupPayload } from "../types/crypto";
+import { formatTag } from "../utils/tags";
+import { writeEncryptedBackupStream } from "./backupStreamService";
 import getCryptoProvider from "./cryptoServiceProvider";
 import { base64ToDataUri } from "./imageService";
+import { getVaultStorageProvider } from "./vaultStorageProvider";
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+export type ExportFormat = "json" | "pdf" | "text" | "encrypted";
+
+const hasFilters = (selection?: ExportSelection): selection is ExportSelection =>
+  !!selection &&
+  !!(
+    selection.from ||
+    selection.to ||
+    selection.moods?.length ||
+    selection.tags?.length ||
+    selection.notebookId ||
+    selection.query?.trim()
+  );
+
+const formatDay = (day: string) => format(parseISO(day), "MMM d, yyyy");
+
+/**
+ * One line saying what a selection takes, e.g.
+ * "May 1, 2025 – Jun 30, 2025 · 😊 Happy · #travel · “beach”"
+ */
+export const describeExportSelection = (
+  selection?: ExportSelection,
+  notebooks: Notebook[] = [],
+): string => {
+  if (!hasFilters(selection)) return "All entries";
+
+  const parts: string[] = [];
+  if (selection.from && selection.to) {
+    parts.push(`${formatDay(selection.from)} – ${formatDay(selection.to)}`);
+  } else if (selection.from) {
+    parts.push(`From ${formatDay(selection.from)}`);
+  } else if (selection.to) {
+    parts.push(`Until ${formatDay(selection.to)}`);
+  }
+  if (selection.moods?.length) {
+    parts.push(
+      selection.moods
+        .map((value) => {
+          const mood = MOOD_OPTIONS.find((m) => m.value === value);
+          return mood ? `${mood.emoji} ${mood.label}` : value;
+        })
+        .join(", "),
+    );
+  }
+  if (selection.tags?.length) {
+    parts.push(selection.tags.map(formatTag).join(", "));
+  }
+  if (selection.notebookId) {
+    const notebook = notebooks.find((n) => n.id === selection.notebookId);
+    parts.push(`Notebook: ${notebook?.name ?? "Unknown"}`);
+  }
+  if (selection.query?.trim()) {
+    parts.push(`“${selection.query.trim()}”`);
+  }
+  return parts.join(" · ");
+};
+
+/**
+ * Ids of the journals a selection takes, newest first
+ * Only the mood filter needs decryption (of summaries, a page at a time).
+ */
+export const resolveExportSelection = async (
+  selection: ExportSelection,
+  key: string,
+): Promise<string[]> => {
+  const tags = selection.tags?.length ? new Set(selection.tags) : null;
+  let entries = (await VaultStorageProvider.listJournalIndex(key)).filter((entry) => {
+    if (selection.notebookId && entry.notebookId !== selection.notebookId) return false;
+    const day = format(new Date(entry.date), "yyyy-MM-dd");
+    if (selection.from && day < selection.from) return false;
+    if (selection.to && day > selection.to) return false;
+    if (tags && !entry.tags.some((tag) => tags.has(tag))) return false;
+    return true;
+  });
+
+  const query = selection.query?.trim();
+  if (query) {
+    const hits = new Set((await VaultStorageProvider.searchJournals(query, key)).map((hit) => hit.id));
+    entries = entries.filter((entry) => hits.has(entry.id));
+  }
+
+  if (selection.moods?.length) {
+    const moods = new Set(selection.moods);
+    const matching = new Set<string>();
+    for (let i = 0; i < entries.length; i += APP_CONFIG.JOURNAL_PAGE_SIZE) {
+      const ids = entries.slice(i, i + APP_CONFIG.JOURNAL_PAGE_SIZE).map((entry) => entry.id);
+      const page = await VaultStorageProvider.listJournalSummaries(key, { ids, limit: ids.length });
+      for (const journal of page.items) {
+        if (journal.mood && moods.has(journal.mood)) matching.add(journal.id);
+      }
+    }
+    entries = entries.filter((entry) => matching.has(entry.id));
+  }
+
+  return entries.map((entry) => entry.id);
+};
+
+const loadSelectedJournals = async (
+  ids: string[],
+  key: string,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Journal[]> => {
+  const journals: Journal[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    const journal = await VaultStorageProvider.getJournal(ids[i], key);
+    if (journal) journals.push(journal);
+    onProgress?.(i + 1, ids.length);
+  }
+  return journals;
+};
+
+/**
+ * Export the journals a selection takes, in any format. Encrypted exports are
+ * streamed; the others decrypt the selected journals first.
+ * @param pdfOptions - Template and layout of a PDF export
+ */
+export const generateSelectionExport = async (
+  exportFormat: ExportFormat,
+  selection: ExportSelection,
+  key: string,
+  password?: string,
+  onProgress?: (done: number, total: number) => void,
+  pdfOptions?: PdfExportOptions,
+): Promise<{ uri: string; filename: string; count: number }> => {
+  const ids = await resolveExportSelection(selection, key);
+  if (ids.length === 0) throw new Error("No journals match this selection.");
+
+  if (exportFormat === "encrypted") {
+    if (!password) throw new Error("Password required for encryption.");
+    const result = await generateEncryptedStreamFile(ids, key, password, onProgress);
+    return { ...result, count: ids.length };
+  }
+
+  const journals = await loadSelectedJournals(ids, key, onProgress);
+  const result = await generateExportFile(exportFormat, journals, password, selection, pdfOptions);
+  return { ...result, count: journals.length };
+};
+
+/**
+ * Preview the PDF of the journals a selection takes (see previewPdfExport)
+ */
+export const previewSelectionPdf = async (
+  selection: ExportSelection,
+  key: string,
+  pdfOptions: PdfExportOptions,
+  onProgress?: (done: number, total: number) => void,
+): Promise<void> => {
+  const ids = await resolveExportSelection(selection, key);
+  if (ids.length === 0) throw new Error("No journals match this selection.");
+  await previewPdfExport(await loadSelectedJournals(ids, key, onProgress), selection, pdfOptions);
+};
 
 /**
  * Export journals as JSON with metadata for proper import
+ * @param selection - What the journals were picked by, recorded in the file
  */
-export const exportAsJSON = async (journals: Journal[]): Promise<string> => {
+export const exportAsJSON = async (
+  journals: Journal[],
+  selection?: ExportSelection,
+): Promise<string> => {
   const exportData = {
     version: "1.0",
     appName: APP_CONFIG.displayName,
     exportDate: new Date().toISOString(),
     totalEntries: journals.length,
+    ...(hasFilters(selection) ? { selection } : {}),
     journals: journals.map((journal) => ({
       id: journal.id,
       date: journal.date,
@@ -29,7 +200,9 @@ export const exportAsJSON = async (journals: Journal[]): Promise<string> => {
       title: journal.title,
       text: journal.text,
       mood: journal.mood,
+      tags: journal.tags || [],
       images: journal.images || [],
+      notebookId: journal.notebookId,
     })),
   };
   return JSON.stringify(exportData, null, 2);
@@ -52,8 +225,6 @@ export const exportAsEncryptedBackup = async (
   journals: Journal[], 
   password: string
 ): Promise<string> => {
-  const CryptoManager = getCryptoProvider();
-
   // 1. Create the plain data object
   const plainData = {
     version: "1.0",
@@ -63,6 +234,18 @@ export const exportAsEncryptedBackup = async (
     journals: journals,
   };
 
+  return encryptBackupContent(plainData, password);
+};
+
+/**
+ * Seal any backup content (journal list or incremental archive) with a password
+ * @returns the EncryptedBackupPayload as JSON
+ */
+export const encryptBackupContent = async (
+  plainData: object,
+  password: string
+): Promise<string> => {
+  const CryptoManager = getCryptoProvider();
   const plainString = JSON.stringify(plainData);
 
   // 2. Encrypt it
@@ -91,11 +274,16 @@ export const exportAsEncryptedBackup = async (
 
 /**
  * Unified function to handle file generation based on format
+ * @param selection - What the journals were picked by; readable formats
+ *   record it (the encrypted one carries only the journals)
+ * @param pdfOptions - Template and layout of a PDF export
  */
 export const generateExportFile = async (
-  format: 'json' | 'pdf' | 'text' | 'encrypted',
+  format: ExportFormat,
   journals: Journal[],
-  password?: string
+  password?: string,
+  selection?: ExportSelection,
+  pdfOptions?: PdfExportOptions,
 ): Promise<{ uri: string; filename: string }> => {
   
   const timestamp = formatDate(new Date(), 'yyyy-MM-dd-HHmmss');
@@ -106,26 +294,30 @@ export const generateExportFile = async (
   switch (format) {
     case 'encrypted':
       if (!password) throw new Error('Password required for encryption.');
-      filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.enc.json`;
-      content = await exportAsEncryptedBackup(journals, password);
-      uri = await saveTextFile(content, filename);
+      filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.enc.jsonl`;
+      uri = await writeEncryptedBackupStream(
+        filename,
+        journals.length,
+        async (index) => journals[index],
+        password,
+      );
       break;
 
     case 'json':
       filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.json`;
-      content = await exportAsJSON(journals);
+      content = await exportAsJSON(journals, selection);
       uri = await saveTextFile(content, filename);
       break;
 
     case 'text':
       filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.md`;
-      content = await exportAsMarkdown(journals);
+      content = await exportAsMarkdown(journals, selection);
       uri = await saveTextFile(content, filename);
       break;
 
     case 'pdf':
       filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.pdf`;
-      uri = await exportAsPDF(journals);
+      uri = await exportAsPDF(journals, selection, pdfOptions);
       break;
     
     default:
@@ -135,14 +327,65 @@ export const generateExportFile = async (
   return { uri, filename };
 };
 
+/**
+ * Streamed encrypted export of journals decrypted one at a time, for vaults
+ * too large to hold in memory
+ * @param ids - journals to export, all opened by `key`
+ */
+export const generateEncryptedStreamFile = async (
+  ids: string[],
+  key: string,
+  password: string,
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ uri: string; filename: string }> => {
+  const timestamp = formatDate(new Date(), 'yyyy-MM-dd-HHmmss');
+  const filename = `${APP_CONFIG.slug.toLowerCase()}-export-${timestamp}.enc.jsonl`;
+  const uri = await writeEncryptedBackupStream(
+    filename,
+    ids.length,
+    (index) => VaultStorageProvider.getJournal(ids[index], key),
+    password,
+    onProgress,
+  );
+  return { uri, filename };
+};
+
+/**
+ * Save the stored ciphertext of damaged items, exactly as found, so it can be
+ * kept or examined outside the app (it still needs the vault's keys to open)
+ */
+export const generateRawCiphertextFile = async (
+  items: IntegrityIssue[]
+): Promise<{ uri: string; filename: string }> => {
+  const timestamp = formatDate(new Date(), 'yyyy-MM-dd-HHmmss');
+  const filename = `${APP_CONFIG.slug.toLowerCase()}-damaged-${timestamp}.json`;
+  const content = JSON.stringify(
+    {
+      version: "1.0",
+      appName: APP_CONFIG.displayName,
+      exportDate: new Date().toISOString(),
+      totalItems: items.length,
+      items: items.map(({ id, kind, label, problems, raw }) => ({ id, kind, label, problems, raw })),
+    },
+    null,
+    2,
+  );
+
+  return { uri: await saveTextFile(content, filename), filename };
+};
+
 /**
  * Export journals as plain markdown
  */
 export const exportAsMarkdown = async (
   journals: Journal[],
+  selection?: ExportSelection,
 ): Promise<string> => {
   let markdownContent = `${APP_CONFIG.displayName} Export\n`;
   markdownContent += "=".repeat(40) + "\n\n";
+  if (hasFilters(selection)) {
+    markdownContent += `*Selection: ${describeExportSelection(selection)}*\n\n`;
+  }
 
   journals.forEach((journal, index) => {
     const date = format(
@@ -162,6 +405,10 @@ export const exportAsMarkdown = async (
         }
       }
 
+    if (journal.tags && journal.tags.length > 0) {
+      markdownContent += `Tags: ${journal.tags.map(formatTag).join(" ")}\n`;
+    }
+
     markdownContent += `\n${journal.text}\n`;
 
     if (journal.images && journal.images.length > 0) {
@@ -173,25 +420,99 @@ export const exportAsMarkdown = async (
   return markdownContent;
 };
 
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  template: "entry-per-page",
+  paperSize: "letter",
+  fontSize: "medium",
+  imagePlacement: "grid",
+  includeMoods: true,
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const countWords = (text: string) =>
+  text.split(/\s+/).filter((w) => w.length > 0).length;
+
+const renderPdfContent = (journal: Journal): string => {
+  // Content with Markdown parsing
+  try {
+    return `<div class="entry-content">${markdownToHtml(journal.text)}</div>`;
+  } catch (error) {
+    console.error("Error parsing markdown:", error);
+    // Fallback to plain text
+    return `<div class="entry-content">${escapeHtml(journal.text).replace(/\n/g, "<br />")}</div>`;
+  }
+};
+
+const renderPdfMood = (journal: Journal, options: PdfExportOptions): string => {
+  const moodOption = options.includeMoods
+    ? MOOD_OPTIONS.find((m) => m.value === journal.mood)
+    : undefined;
+  if (!moodOption) return "";
+  return `
+        <div class="entry-mood">
+          <span class="mood-emoji">${moodOption.emoji}</span>
+          <span class="mood-label">${moodOption.label}</span>
+        </div>
+      `;
+};
+
+const renderPdfTags = (journal: Journal): string => {
+  if (!journal.tags || journal.tags.length === 0) return "";
+  const tagChips = journal.tags
+    .map((tag) => `<span class="tag-chip">${escapeHtml(formatTag(tag))}</span>`)
+    .join("");
+  return `<div class="entry-tags">${tagChips}</div>`;
+};
+
+const renderPdfImages = (journal: Journal, options: PdfExportOptions): string => {
+  if (options.imagePlacement === "none" || !journal.images || journal.images.length === 0) {
+    return "";
+  }
+  const imageCount = journal.images.length;
+  const gridClass = imageCount === 1 ? "images-grid single" : "images-grid";
+  // The daily log shows images without a heading or captions
+  const isLog = options.template === "daily-log";
+
+  let html = `<div class="images-section">
+        ${isLog ? "" : `<span class="images-label">📸 Images (${imageCount})</span>`}
+        <div class="${gridClass}">`;
+
+  journal.images.forEach((base64Image, imgIndex) => {
+    try {
+      const imageDataUri = base64ToDataUri(base64Image);
+      html += `
+          <div class="image-wrapper">
+            <img src="${imageDataUri}" alt="Image ${imgIndex + 1}" class="entry-image" />
+            ${isLog ? "" : `<div class="image-caption">Image ${imgIndex + 1}</div>`}
+          </div>`;
+    } catch (error) {
+      console.error("Error processing image for PDF:", error);
+      html += `
+          <div class="image-wrapper">
+            <div style="background: #f0f0f0; padding: 20px; border-radius: 3px; text-align: center;">
+              <div class="image-caption">❌ Image ${imgIndex + 1} could not be loaded</div>
+            </div>
+          </div>`;
+    }
+  });
+
+  return html + `</div></div>`;
+};
+
 /**
- * Export journals as PDF with embedded images
+ * Export header and summary (entry-per-page and daily log)
  */
-export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
-  let htmlContent = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${APP_CONFIG.displayName} - Journal Export</title>
-   ${PDF_EXPORT_STYLESHEET}
-</head>
-<body>`;
-
-  // Document Header
+const renderPdfDocumentHeader = (
+  journals: Journal[],
+  selection: ExportSelection | undefined,
+  options: PdfExportOptions,
+): string => {
   const exportDate = format(new Date(), "MMMM dd, yyyy");
   const exportTime = format(new Date(), "hh:mm a");
 
-  htmlContent += `
+  let html = `
   <div class="document-header">
     <h1>${APP_CONFIG.displayName}</h1>
     <p style="color: #9aa0a6; margin-top: 2px; font-size: 12px;">Journal Export</p>
@@ -203,15 +524,22 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
       <div class="meta-item">
         <span class="meta-label">📝</span>
         <span>${journals.length} ${journals.length === 1 ? "entry" : "entries"}</span>
-      </div>
+      </div>${
+        hasFilters(selection)
+          ? `
+      <div class="meta-item">
+        <span class="meta-label">🔎</span>
+        <span>${escapeHtml(describeExportSelection(selection))}</span>
+      </div>`
+          : ""
+      }
     </div>
   </div>`;
 
-  // Summary Section
-  const totalWords = journals.reduce(
-    (sum, j) => sum + j.text.split(/\s+/).filter((w) => w.length > 0).length,
-    0,
-  );
+  // The daily log goes straight to the entries
+  if (options.template === "daily-log") return html;
+
+  const totalWords = journals.reduce((sum, j) => sum + countWords(j.text), 0);
   const avgWordsPerEntry =
     journals.length > 0 ? Math.round(totalWords / journals.length) : 0;
   const dateRange =
@@ -219,7 +547,7 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
       ? `${format(parseISO(journals[journals.length - 1].date), "MMM dd, yyyy")} — ${format(parseISO(journals[0].date), "MMM dd, yyyy")}`
       : "N/A";
 
-  htmlContent += `
+  html += `
   <div class="summary-section">
     <h2>📊 Export Summary</h2>
     <div class="summary-stats">
@@ -241,19 +569,66 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
       </div>
     </div>
   </div>`;
+  return html;
+};
 
-  // Entries
-  htmlContent += '<div class="entries-container">';
+/**
+ * Book cover and a table of contents grouped by month, linking to the entries
+ * (journals are newest first; a book reads oldest first)
+ */
+const renderPdfBookFrontMatter = (
+  journals: Journal[],
+  selection: ExportSelection | undefined,
+): string => {
+  const dateRange =
+    journals.length > 0
+      ? `${format(parseISO(journals[0].date), "MMMM yyyy")} — ${format(parseISO(journals[journals.length - 1].date), "MMMM yyyy")}`
+      : "";
+
+  let html = `
+  <div class="cover">
+    <h1>${APP_CONFIG.displayName}</h1>
+    <p>${dateRange}</p>
+    <p>${journals.length} ${journals.length === 1 ? "entry" : "entries"}</p>
+    ${hasFilters(selection) ? `<p>${escapeHtml(describeExportSelection(selection))}</p>` : ""}
+  </div>
+  <div class="toc">
+    <h2>Contents</h2>`;
 
-  for (let index = 0; index < journals.length; index++) {
-    const journal = journals[index];
+  let month = "";
+  journals.forEach((journal, index) => {
     const dateObj = parseISO(journal.date);
-    const formattedDate = format(dateObj, "EEEE, MMMM dd, yyyy");
-    const formattedTime = format(dateObj, "hh:mm a");
+    const entryMonth = format(dateObj, "MMMM yyyy");
+    if (entryMonth !== month) {
+      month = entryMonth;
+      html += `<div class="toc-month">${month}</div>`;
+    }
+    const title = journal.title?.trim() ? escapeHtml(journal.title.trim()) : "Untitled Entry";
+    html += `
+    <div class="toc-entry">
+      <span class="toc-date">${format(dateObj, "EEE, MMM d")}</span>
+      <a href="#entry-${index + 1}">${title}</a>
+    </div>`;
+  });
 
-    
-    htmlContent += `
-    <div class="journal-entry">
+  return html + "</div>";
+};
+
+/**
+ * One entry as a card (entry-per-page) or a chapter (book)
+ */
+const renderPdfEntry = (
+  journal: Journal,
+  index: number,
+  isLast: boolean,
+  options: PdfExportOptions,
+): string => {
+  const dateObj = parseISO(journal.date);
+  const formattedDate = format(dateObj, "EEEE, MMMM dd, yyyy");
+  const formattedTime = format(dateObj, "hh:mm a");
+
+  let html = `
+    <div class="journal-entry" id="entry-${index + 1}">
       <div class="entry-header">
         <div class="entry-date-time">
           <div class="entry-date">${formattedDate}</div>
@@ -262,90 +637,102 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
         <div class="entry-index">Entry ${index + 1}</div>
       </div>`;
 
-    // Title
-    if (journal.title && journal.title.trim()) {
-      const escapedTitle = journal.title
-        .replace(/&/g, "&amp;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;");
-      htmlContent += `<h2 class="entry-title">${escapedTitle}</h2>`;
-    } else {
-      htmlContent += `<h2 class="entry-title untitled">Untitled Entry</h2>`;
-    }
-
-     if (journal.mood) {
-    const moodOption = MOOD_OPTIONS.find(m => m.value === journal.mood);
-    if (moodOption) {
-      htmlContent += `
-        <div class="entry-mood">
-          <span class="mood-emoji">${moodOption.emoji}</span>
-          <span class="mood-label">${moodOption.label}</span>
-        </div>
-      `;
-    }
-  }
-
-    // Content with Markdown parsing
-    try {
-      const parsedContent = markdownToHtml(journal.text);
-      htmlContent += `<div class="entry-content">${parsedContent}</div>`;
-    } catch (error) {
-      console.error("Error parsing markdown:", error);
-      // Fallback to plain text
-      const escapedText = journal.text
-        .replace(/&/g, "&amp;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;")
-        .replace(/\n/g, "<br />");
-      htmlContent += `<div class="entry-content">${escapedText}</div>`;
-    }
+  // Title
+  html += journal.title && journal.title.trim()
+    ? `<h2 class="entry-title">${escapeHtml(journal.title)}</h2>`
+    : `<h2 class="entry-title untitled">Untitled Entry</h2>`;
 
-    // Images
-    if (journal.images && journal.images.length > 0) {
-      const imageCount = journal.images.length;
-      const gridClass = imageCount === 1 ? "images-grid single" : "images-grid";
+  html += renderPdfMood(journal, options);
+  html += renderPdfTags(journal);
+  html += renderPdfContent(journal);
+  html += renderPdfImages(journal, options);
 
-      htmlContent += `<div class="images-section">
-        <span class="images-label">📸 Images (${imageCount})</span>
-        <div class="${gridClass}">`;
+  // Entry Footer
+  html += `
+    <div class="entry-footer">
+      💾 ${format(parseISO(journal.createdAt || journal.date), "MMM dd, yyyy")} · ${countWords(journal.text)} words
+    </div>`;
 
-      journal.images.forEach((base64Image, imgIndex) => {
-        try {
-          const imageDataUri = base64ToDataUri(base64Image);
-          htmlContent += `
-          <div class="image-wrapper">
-            <img src="${imageDataUri}" alt="Image ${imgIndex + 1}" class="entry-image" />
-            <div class="image-caption">Image ${imgIndex + 1}</div>
-          </div>`;
-        } catch (error) {
-          console.error("Error processing image for PDF:", error);
-          htmlContent += `
-          <div class="image-wrapper">
-            <div style="background: #f0f0f0; padding: 20px; border-radius: 3px; text-align: center;">
-              <div class="image-caption">❌ Image ${imgIndex + 1} could not be loaded</div>
-            </div>
-          </div>`;
-        }
-      });
+  // Page divider (except last entry)
+  if (!isLast) {
+    html += '<hr class="page-divider" />';
+  }
 
-      htmlContent += `</div></div>`;
-    }
+  return html + "</div>";
+};
 
-    // Entry Footer
-    const wordCount = journal.text
-      .split(/\s+/)
-      .filter((w) => w.length > 0).length;
-    htmlContent += `
-    <div class="entry-footer">
-      💾 ${format(parseISO(journal.createdAt || journal.date), "MMM dd, yyyy")} · ${wordCount} words
+/**
+ * One entry as a row of the daily log
+ */
+const renderPdfLogEntry = (journal: Journal, options: PdfExportOptions): string => {
+  const dateObj = parseISO(journal.date);
+  const mood = options.includeMoods
+    ? MOOD_OPTIONS.find((m) => m.value === journal.mood)
+    : undefined;
+  const meta = [
+    mood ? `${mood.emoji} ${mood.label}` : "",
+    (journal.tags ?? []).map((tag) => escapeHtml(formatTag(tag))).join(" "),
+  ].filter(Boolean);
+
+  return `
+    <div class="log-entry">
+      <div class="log-date">
+        ${format(dateObj, "EEE, MMM d, yyyy")}
+        <span class="log-time">${format(dateObj, "hh:mm a")}</span>
+      </div>
+      <div class="log-body">
+        ${journal.title?.trim() ? `<div class="log-title">${escapeHtml(journal.title)}</div>` : ""}
+        ${meta.length > 0 ? `<div class="log-meta">${meta.join(" · ")}</div>` : ""}
+        ${renderPdfContent(journal)}
+        ${renderPdfImages(journal, options)}
+      </div>
     </div>`;
+};
 
-    // Page divider (except last entry)
-    if (index < journals.length - 1) {
-      htmlContent += '<hr class="page-divider" />';
-    }
+/**
+ * HTML of a PDF export in the chosen template and layout
+ */
+export const buildPdfHtml = (
+  journals: Journal[],
+  selection?: ExportSelection,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS,
+): string => {
+  const paper = PDF_PAPER_SIZES[options.paperSize];
+  const bodyClasses = [
+    `template-${options.template}`,
+    `font-${options.fontSize}`,
+    `images-${options.imagePlacement}`,
+  ].join(" ");
 
-    htmlContent += "</div>";
+  let htmlContent = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${APP_CONFIG.displayName} - Journal Export</title>
+   ${PDF_EXPORT_STYLESHEET}
+   ${PDF_TEMPLATE_STYLESHEET}
+   <style>@page { size: ${paper.css}; }</style>
+</head>
+<body class="${bodyClasses}">`;
+
+  if (options.template === "book") {
+    // Oldest first, like a diary read from the start
+    const ordered = [...journals].reverse();
+    htmlContent += renderPdfBookFrontMatter(ordered, selection);
+    htmlContent += '<div class="entries-container">';
+    ordered.forEach((journal, index) => {
+      htmlContent += renderPdfEntry(journal, index, index === ordered.length - 1, options);
+    });
+  } else {
+    htmlContent += renderPdfDocumentHeader(journals, selection, options);
+    htmlContent += '<div class="entries-container">';
+    journals.forEach((journal, index) => {
+      htmlContent +=
+        options.template === "daily-log"
+          ? renderPdfLogEntry(journal, options)
+          : renderPdfEntry(journal, index, index === journals.length - 1, options);
+    });
   }
 
   htmlContent += `</div>
@@ -357,9 +744,23 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
 </body>
 </html>`;
 
+  return htmlContent;
+};
+
+/**
+ * Export journals as PDF with embedded images
+ */
+export const exportAsPDF = async (
+  journals: Journal[],
+  selection?: ExportSelection,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS,
+): Promise<string> => {
+  const { width, height } = PDF_PAPER_SIZES[options.paperSize];
   try {
     const { uri } = await Print.printToFileAsync({
-      html: htmlContent,
+      html: buildPdfHtml(journals, selection, options),
+      width,
+      height,
     });
     return uri;
   } catch (error) {
@@ -368,6 +769,32 @@ export const exportAsPDF = async (journals: Journal[]): Promise<string> => {
   }
 };
 
+/**
+ * Show a PDF export in the system print preview, where it can also be printed
+ * On web the document opens in a new window with the browser's print dialog.
+ */
+export const previewPdfExport = async (
+  journals: Journal[],
+  selection?: ExportSelection,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS,
+): Promise<void> => {
+  const html = buildPdfHtml(journals, selection, options);
+
+  if (Platform.OS === "web") {
+    // expo-print on web prints the app itself, not the given HTML
+    const preview = window.open("", "_blank");
+    if (!preview) throw new Error("Allow pop-ups to preview the PDF.");
+    preview.document.write(html);
+    preview.document.close();
+    preview.focus();
+    preview.print();
+    return;
+  }
+
+  const { width, height } = PDF_PAPER_SIZES[options.paperSize];
+  await Print.printAsync({ html, width, height });
+};
+
 /**
  * Share file using native share dialog
  * On mobile, this opens the share sheet which includes "Save to Files" option
@@ -437,6 +864,7 @@ const getUTI = (filename: string): string => {
  */
 const getMimeType = (filename: string): string => {
   if (filename.endsWith(".json")) return "application/json";
+  if (filename.endsWith(".jsonl")) return "application/x-ndjson";
   if (filename.endsWith(".txt")) return "text/plain";
   if (filename.endsWith(".pdf")) return "application/pdf";
   return "application/octet-stream";
@@ -3,7 +3,8 @@
 // ============================================================================
 
 import APP_CONFIG from "@/src/config/appConfig";
-import { AppSettings } from "@/src/types";
+import { AppSettings, ProfileRegistry } from "@/src/types";
+import { getProfileStorageKeys } from "@/src/utils/profileStorage";
 import PreferenceStorageProvider from "../preferenceStorageProvider";
 
 
@@ -11,6 +12,9 @@ class AsyncStorePreferenceStorageProvider  implements PreferenceStorageProvider{
 
  static obj: AsyncStorePreferenceStorageProvider | null = null;
 
+  // Keys of the active profile
+  private keys = APP_CONFIG.STORAGE_KEYS;
+
   private constructor() {
   }
 
@@ -24,7 +28,7 @@ class AsyncStorePreferenceStorageProvider  implements PreferenceStorageProvider{
 
   async saveSettings(settings: AppSettings): Promise<void> {
     try {
-      localStorage.setItem(APP_CONFIG.STORAGE_KEYS.PREFERENCE_DB_KEY, JSON.stringify(settings));
+      localStorage.setItem(this.keys.PREFERENCE_DB_KEY, JSON.stringify(settings));
       console.log("✅ [Web] Preferences saved to localStorage");
     } catch (error) {
       console.error("❌ [Web] Error saving preferences:", error);
@@ -34,7 +38,7 @@ class AsyncStorePreferenceStorageProvider  implements PreferenceStorageProvider{
 
   async getSettings(): Promise<AppSettings | null> {
     try {
-      const data = localStorage.getItem(APP_CONFIG.STORAGE_KEYS.PREFERENCE_DB_KEY);
+      const data = localStorage.getItem(this.keys.PREFERENCE_DB_KEY);
       if (!data) {
         console.log("ℹ️ [Web] No saved preferences found");
         return null;
@@ -50,13 +54,45 @@ class AsyncStorePreferenceStorageProvider  implements PreferenceStorageProvider{
 
   async clearSettings(): Promise<void> {
     try {
-      localStorage.removeItem(APP_CONFIG.STORAGE_KEYS.PREFERENCE_DB_KEY);
+      localStorage.removeItem(this.keys.PREFERENCE_DB_KEY);
       console.log("✅ [Web] Preferences cleared");
     } catch (error) {
       console.error("❌ [Web] Error clearing preferences:", error);
       throw new Error("Failed to clear preferences");
     }
   }
+
+  async switchProfile(profileId: string): Promise<void> {
+    this.keys = getProfileStorageKeys(profileId);
+  }
+
+  async deleteProfilePreferences(profileId: string): Promise<void> {
+    try {
+      localStorage.removeItem(getProfileStorageKeys(profileId).PREFERENCE_DB_KEY);
+    } catch (error) {
+      console.error("❌ [Web] Error deleting profile preferences:", error);
+      throw new Error("Failed to delete profile preferences");
+    }
+  }
+
+  async getProfileRegistry(): Promise<ProfileRegistry | null> {
+    try {
+      const data = localStorage.getItem(APP_CONFIG.DEVICE_STORAGE_KEYS.PROFILE_REGISTRY);
+      return data ? (JSON.parse(data) as ProfileRegistry) : null;
+    } catch (error) {
+      console.error("❌ [Web] Error loading profiles:", error);
+      return null;
+    }
+  }
+
+  async saveProfileRegistry(registry: ProfileRegistry): Promise<void> {
+    try {
+      localStorage.setItem(APP_CONFIG.DEVICE_STORAGE_KEYS.PROFILE_REGISTRY, JSON.stringify(registry));
+    } catch (error) {
+      console.error("❌ [Web] Error saving profiles:", error);
+      throw new Error("Failed to save profiles");
+    }
+  }
 };
 
 export default AsyncStorePreferenceStorageProvider;
\ No newline at end of file
@@ -1,14 +1,90 @@
 
 import APP_CONFIG from '@/src/config/appConfig';
-import { Journal, SecurityQuestion } from '@/src/types';
+import {
+  BackupState,
+  ImportLogEntry,
+  ImportUndoResult,
+  IntegrityIssue,
+  IntegrityScan,
+  Journal,
+  JournalIndexEntry,
+  JournalPage,
+  JournalPageQuery,
+  JournalRevision,
+  KeyRotationBatch,
+  KeyRotationState,
+  LockoutState,
+  Notebook,
+  QuarantinedItem,
+  SearchHit,
+  SearchIndex,
+  SecurityQuestion,
+  SyncState,
+  TrashedJournal,
+} from '@/src/types';
+import { describeDecryptionFailure, isWellFormedCiphertext } from '@/src/utils/integrity';
+import { compareJournalsNewestFirst, paginateJournals, toJournalSummary } from '@/src/utils/journalPaging';
+import { getProfileStorageKeys } from '@/src/utils/profileStorage';
+import { getTrashCutoff } from '@/src/utils/trash';
 import { Vault } from '@/src/types/crypto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
 import { getCryptoProvider } from '../cryptoServiceProvider';
+import {
+  applyRevision,
+  applyRevisionRetention,
+  createRevision,
+  hasVersionedChanges,
+} from '../revisionService';
+import {
+  addToSearchIndex,
+  buildSearchIndex,
+  removeFromSearchIndex,
+  searchIndex,
+  SEARCH_INDEX_VERSION,
+} from '../searchService';
 import { VaultStorageProvider } from '../vaultStorageProvider';
 
+// Trashed journals keep their images until purged
+type TrashRecord = Journal & { deletedAt: string };
+
+/**
+ * Import log of one key. `undo` belongs to the newest entry: each journal it
+ * wrote, with the updatedAt it was written with and the version it replaced
+ */
+type ImportLogRecord = {
+  entries: Omit<ImportLogEntry, 'canUndo'>[];
+  undo: {
+    importId: string;
+    journals: { id: string; importedUpdatedAt: string; previous: Journal | null }[];
+  } | null;
+};
+
+type StorageKeyName = keyof typeof APP_CONFIG.STORAGE_KEYS;
+
+// Segmented stores checked by the integrity scan
+const SEALED_STORES: { name: StorageKeyName; label: string }[] = [
+  { name: 'JOURNALS', label: 'Journals' },
+  { name: 'TRASH', label: 'Trash' },
+  { name: 'JOURNAL_REVISIONS', label: 'Revision history' },
+  { name: 'NOTEBOOKS', label: 'Notebooks' },
+  { name: 'SEARCH_INDEX', label: 'Search index' },
+  { name: 'IMPORT_LOG', label: 'Import log' },
+];
+
 class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
   static obj: AsyncStoreVaultStorageProvider | null = null;
 
+  // Decrypted search index, kept only for the key it was opened with
+  private searchIndexCache: { key: string; index: SearchIndex } | null = null;
+
+  // Journals of the import in progress, kept in memory until it is committed
+  private stagedImport: Map<string, Journal> | null = null;
+
+  // Active profile and its namespaced storage keys
+  private profileId: string = APP_CONFIG.DEFAULT_PROFILE_ID;
+  private keys = APP_CONFIG.STORAGE_KEYS;
+
   private constructor() {}
 
   static getObject(): AsyncStoreVaultStorageProvider {
@@ -56,11 +132,102 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
     }
   }
 
-  // ==================== Storage Methods ====================
+  /**
+   * Sealed blobs hold one segment per Data Key: the account's and, once a decoy
+   * password has been used, the decoy's. Segments carry no label, so only a key
+   * holder can tell whose a segment is. Older installs stored a single bare segment.
+   */
+  private parseSegments(raw: string | null): string[] {
+    if (!raw) return [];
+    return raw.startsWith('[') ? (JSON.parse(raw) as string[]) : [raw];
+  }
+
+  /**
+   * Index of the segment sealed with `keyHex` (-1 when it has none)
+   */
+  private async findSegment(segments: string[], keyHex: string): Promise<number> {
+    for (let i = 0; i < segments.length; i++) {
+      try {
+        await this.decryptJSON(keyHex, segments[i]);
+        return i;
+      } catch {
+        // Another key's segment
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Read this key's segment of a sealed blob (null when it has none yet)
+   */
+  private async readSealed<T>(storageKey: string, keyHex: string): Promise<T | null> {
+    const segments = this.parseSegments(await AsyncStorage.getItem(storageKey));
+    for (const segment of segments) {
+      try {
+        return (await this.decryptJSON(keyHex, segment)) as T;
+      } catch {
+        // Another key's segment
+      }
+    }
+    return null;
+  }
 
+  /**
+   * Replace the segment sealed with `ownerKey` (or add one), keeping everyone else's
+   */
+  private async writeSealed(
+    storageKey: string,
+    keyHex: string,
+    data: any,
+    ownerKey: string = keyHex
+  ): Promise<void> {
+    const segments = this.parseSegments(await AsyncStorage.getItem(storageKey));
+    const index = await this.findSegment(segments, ownerKey);
+    const sealed = await this.encryptJSON(keyHex, data);
+
+    if (index >= 0) {
+      segments[index] = sealed;
+    } else {
+      segments.push(sealed);
+    }
+    await AsyncStorage.setItem(storageKey, JSON.stringify(segments));
+  }
+
+  /**
+   * Re-seal the segment opened by `oldKey` with `newKey` (no-op when there is none,
+   * e.g. because it was already re-sealed)
+   */
+  private async resealSegment(storageKey: string, oldKey: string, newKey: string): Promise<void> {
+    const segments = this.parseSegments(await AsyncStorage.getItem(storageKey));
+    const index = await this.findSegment(segments, oldKey);
+    if (index < 0) return;
+
+    const data = await this.decryptJSON(oldKey, segments[index]);
+    segments[index] = await this.encryptJSON(newKey, data);
+    await AsyncStorage.setItem(storageKey, JSON.stringify(segments));
+  }
+
+  /**
+   * Re-seal a single-key value (not segmented) when it still opens with `oldKey`
+   */
+  private async resealValue(storageKey: string, oldKey: string, newKey: string): Promise<void> {
+    const encrypted = await AsyncStorage.getItem(storageKey);
+    if (!encrypted) return;
+
+    let data: any;
+    try {
+      data = await this.decryptJSON(oldKey, encrypted);
+    } catch {
+      // Already re-sealed
+      return;
+    }
+    await AsyncStorage.setItem(storageKey, await this.encryptJSON(newKey, data));
+  }
+
+  // ==================== Storage Methods ====================
   async isFirstLaunch(): Promise<boolean> {
     try {
-      const value = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.FIRST_LAUNCH);
+      const value = await AsyncStorage.getItem(this.keys.FIRST_LAUNCH);
       return value === null;
     } catch (error) {
       console.error('Error checking first launch:', error);
@@ -74,6 +241,10 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
     }, 0);
   }
 
+  async migrateWithDataKey(key: string): Promise<void> {
+    // Web stores all journals as a single encrypted blob - nothing to migrate
+  }
+
   async getJournalCount(): Promise<number> {
     // For web, we'd need to count from actual storage
     // This is a limitation - we'd need to refactor to pass key
@@ -82,7 +253,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async markAsLaunched(): Promise<void> {
     try {
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.FIRST_LAUNCH, 'true');
+      await AsyncStorage.setItem(this.keys.FIRST_LAUNCH, 'true');
     } catch (error) {
       console.error('Error marking as launched:', error);
     }
@@ -116,7 +287,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
   ): Promise<void> {
     try {
       const encrypted = await this.encryptJSON(key, questions);
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.SECURITY_QUESTIONS, encrypted);
+      await AsyncStorage.setItem(this.keys.SECURITY_QUESTIONS, encrypted);
     } catch (error) {
       console.error('Error saving security questions:', error);
       throw new Error('Failed to save security questions');
@@ -125,7 +296,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async getSecurityQuestions(key: string): Promise<SecurityQuestion[] | null> {
     try {
-      const encrypted = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.SECURITY_QUESTIONS);
+      const encrypted = await AsyncStorage.getItem(this.keys.SECURITY_QUESTIONS);
       if (!encrypted) return null;
       return await this.decryptJSON(key, encrypted);
     } catch (error) {
@@ -141,7 +312,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
   ): Promise<void> {
     try {
       await AsyncStorage.setItem(
-        APP_CONFIG.STORAGE_KEYS.SECURITY_ANSWERS_HASH,
+        this.keys.SECURITY_ANSWERS_HASH,
         JSON.stringify(answerHashes)
       );
     } catch (error) {
@@ -154,7 +325,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
     Array<{ questionId: string; answerHash: string }> | null
   > {
     try {
-      const data = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.SECURITY_ANSWERS_HASH);
+      const data = await AsyncStorage.getItem(this.keys.SECURITY_ANSWERS_HASH);
       if (!data) return null;
       return JSON.parse(data);
     } catch (error) {
@@ -168,7 +339,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
   > {
     try {
       const questionsOnly = await AsyncStorage.getItem(
-        `${APP_CONFIG.STORAGE_KEYS.SECURITY_QUESTIONS}_public`
+        `${this.keys.SECURITY_QUESTIONS}_public`
       );
       if (!questionsOnly) return null;
       return JSON.parse(questionsOnly);
@@ -183,7 +354,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
   ): Promise<void> {
     try {
       await AsyncStorage.setItem(
-        `${APP_CONFIG.STORAGE_KEYS.SECURITY_QUESTIONS}_public`,
+        `${this.keys.SECURITY_QUESTIONS}_public`,
         JSON.stringify(questions)
       );
     } catch (error) {
@@ -200,13 +371,15 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
       const existingIndex = journals.findIndex((j) => j.id === journal.id);
 
       if (existingIndex >= 0) {
+        await this.captureRevision(journals[existingIndex], journal, key);
         journals[existingIndex] = journal;
       } else {
         journals.push(journal);
       }
 
-      const encrypted = await this.encryptJSON(key, journals);
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.JOURNALS, encrypted);
+      await this.writeSealed(this.keys.JOURNALS, key, journals);
+
+      await this.updateSearchIndex(key, (index) => addToSearchIndex(index, journal));
     } catch (error) {
       console.error('Error saving journal:', error);
       throw new Error('Failed to save journal');
@@ -225,15 +398,26 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async listJournals(key: string): Promise<Journal[]> {
     try {
-      const encrypted = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.JOURNALS);
-      if (!encrypted) return [];
-      return await this.decryptJSON(key, encrypted) ;
+      return (await this.readSealed<Journal[]>(this.keys.JOURNALS, key)) ?? [];
     } catch (error) {
       console.error('Error listing journals:', error);
       throw new Error('Failed to load journals - wrong password?');
     }
   }
 
+  async listJournalSummaries(key: string, query?: JournalPageQuery): Promise<JournalPage> {
+    // Everything lives in one encrypted blob, so paging happens after decryption
+    const journals = await this.listJournals(key);
+    return paginateJournals(journals, query);
+  }
+
+  async listJournalIndex(key: string): Promise<JournalIndexEntry[]> {
+    const journals = await this.listJournals(key);
+    return journals
+      .map((j) => ({ id: j.id, date: j.date, tags: j.tags ?? [], notebookId: j.notebookId }))
+      .sort(compareJournalsNewestFirst);
+  }
+
   async deleteJournal(id: string, key?: string): Promise<void> {
     try {
       if (key === undefined || key === null) {
@@ -241,27 +425,267 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
       }
       const journals = await this.listJournals(key);
       const filtered = journals.filter((j) => j.id !== id);
-      const encrypted = await this.encryptJSON(key, filtered);
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.JOURNALS, encrypted);
+      await this.writeSealed(this.keys.JOURNALS, key, filtered);
+
+      // Permanent delete also covers journals sitting in the trash
+      const trash = await this.loadTrash(key);
+      if (trash.some((t) => t.id === id)) {
+        await this.persistTrash(key, trash.filter((t) => t.id !== id));
+      }
+
+      const revisions = await this.loadRevisions(key);
+      if (revisions[id]) {
+        delete revisions[id];
+        await this.persistRevisions(key, revisions);
+      }
+
+      await this.updateSearchIndex(key, (index) => removeFromSearchIndex(index, id));
     } catch (error) {
       console.error('Error deleting journal:', error);
       throw new Error('Failed to delete journal');
     }
   }
 
+  // ==================== Trash ====================
+
+  async trashJournal(id: string, key: string): Promise<void> {
+    try {
+      const journals = await this.listJournals(key);
+      const journal = journals.find((j) => j.id === id);
+      if (!journal) return;
+
+      const trash = await this.loadTrash(key);
+      await this.persistTrash(key, [
+        { ...journal, deletedAt: new Date().toISOString() },
+        ...trash.filter((t) => t.id !== id),
+      ]);
+
+      await this.writeSealed(
+        this.keys.JOURNALS,
+        key,
+        journals.filter((j) => j.id !== id)
+      );
+
+      await this.updateSearchIndex(key, (index) => removeFromSearchIndex(index, id));
+    } catch (error) {
+      console.error('Error moving journal to trash:', error);
+      throw new Error('Failed to move journal to trash');
+    }
+  }
+
+  async restoreJournal(id: string, key: string): Promise<Journal> {
+    try {
+      const trash = await this.loadTrash(key);
+      const record = trash.find((t) => t.id === id);
+      if (!record) throw new Error('Journal not in trash');
+
+      const { deletedAt, ...journal } = record;
+      const journals = (await this.listJournals(key)).filter((j) => j.id !== id);
+      journals.push(journal);
+
+      await this.writeSealed(this.keys.JOURNALS, key, journals);
+      await this.persistTrash(key, trash.filter((t) => t.id !== id));
+
+      await this.updateSearchIndex(key, (index) => addToSearchIndex(index, journal));
+      return journal;
+    } catch (error) {
+      console.error('Error restoring journal from trash:', error);
+      throw new Error('Failed to restore journal');
+    }
+  }
+
+  async listTrash(key: string): Promise<TrashedJournal[]> {
+    try {
+      const trash = await this.loadTrash(key);
+      return trash
+        .map(({ deletedAt, ...journal }) => ({ ...toJournalSummary(journal), deletedAt }))
+        .sort((a, b) => (a.deletedAt < b.deletedAt ? 1 : a.deletedAt > b.deletedAt ? -1 : 0));
+    } catch (error) {
+      console.error('Error listing trash:', error);
+      throw new Error('Failed to load trash');
+    }
+  }
+
+  async purgeTrash(retentionDays: number, key?: string): Promise<number> {
+    try {
+      if (key === undefined || key === null) {
+        throw new Error('key cannot be null for web platform');
+      }
+      const cutoff = getTrashCutoff(retentionDays);
+      const trash = await this.loadTrash(key);
+      const expired = trash.filter((t) => t.deletedAt <= cutoff);
+      if (expired.length === 0) return 0;
+
+      await this.persistTrash(key, trash.filter((t) => t.deletedAt > cutoff));
+
+      const revisions = await this.loadRevisions(key);
+      for (const record of expired) {
+        delete revisions[record.id];
+      }
+      await this.persistRevisions(key, revisions);
+
+      return expired.length;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      throw new Error('Failed to empty trash');
+    }
+  }
+
+  private async loadTrash(key: string): Promise<TrashRecord[]> {
+    return (await this.readSealed<TrashRecord[]>(this.keys.TRASH, key)) ?? [];
+  }
+
+  private async persistTrash(
+    key: string,
+    trash: TrashRecord[],
+    ownerKey: string = key
+  ): Promise<void> {
+    await this.writeSealed(this.keys.TRASH, key, trash, ownerKey);
+  }
+
+  // ==================== Revision History ====================
+
+  async listRevisions(journalId: string, key: string): Promise<JournalRevision[]> {
+    try {
+      const revisions = await this.loadRevisions(key);
+      return applyRevisionRetention(revisions[journalId] ?? []);
+    } catch (error) {
+      console.error('Error listing revisions:', error);
+      throw new Error('Failed to load revision history');
+    }
+  }
+
+  async restoreRevision(journalId: string, revisionId: string, key: string): Promise<Journal> {
+    const current = await this.getJournal(journalId, key);
+    if (!current) throw new Error('Journal not found');
+
+    const revision = (await this.listRevisions(journalId, key)).find((r) => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    // saveJournal keeps the replaced version, so a restore can be undone
+    const restored = applyRevision(current, revision);
+    await this.saveJournal(restored, key);
+    return restored;
+  }
+
+  private async loadRevisions(key: string): Promise<Record<string, JournalRevision[]>> {
+    return (
+      (await this.readSealed<Record<string, JournalRevision[]>>(
+        this.keys.JOURNAL_REVISIONS,
+        key
+      )) ?? {}
+    );
+  }
+
+  private async persistRevisions(
+    key: string,
+    revisions: Record<string, JournalRevision[]>,
+    ownerKey: string = key
+  ): Promise<void> {
+    await this.writeSealed(this.keys.JOURNAL_REVISIONS, key, revisions, ownerKey);
+  }
+
+  /**
+   * Store the version being overwritten; never blocks the save itself
+   */
+  private async captureRevision(previous: Journal, next: Journal, key: string): Promise<void> {
+    if (!hasVersionedChanges(previous, next)) return;
+    try {
+      const revisions = await this.loadRevisions(key);
+      revisions[next.id] = applyRevisionRetention([
+        createRevision(previous),
+        ...(revisions[next.id] ?? []),
+      ]);
+      await this.persistRevisions(key, revisions);
+    } catch (error) {
+      console.error('Error capturing journal revision:', error);
+    }
+  }
+
+  // ==================== Search Index ====================
+
+  async searchJournals(query: string, key: string): Promise<SearchHit[]> {
+    try {
+      const index = await this.loadSearchIndex(key);
+      return searchIndex(index, query);
+    } catch (error) {
+      console.error('Error searching journals:', error);
+      throw new Error('Failed to search journals');
+    }
+  }
+
+  async rebuildSearchIndex(key: string): Promise<void> {
+    const journals = await this.listJournals(key);
+    await this.persistSearchIndex(key, buildSearchIndex(journals));
+  }
+
+  private async loadSearchIndex(key: string): Promise<SearchIndex> {
+    if (this.searchIndexCache?.key === key) {
+      return this.searchIndexCache.index;
+    }
+
+    const index = await this.readSealed<SearchIndex>(this.keys.SEARCH_INDEX, key);
+    if (index?.version === SEARCH_INDEX_VERSION) {
+      this.searchIndexCache = { key, index };
+      return index;
+    }
+
+    await this.rebuildSearchIndex(key);
+    return this.searchIndexCache!.index;
+  }
+
+  private async persistSearchIndex(
+    key: string,
+    index: SearchIndex,
+    ownerKey: string = key
+  ): Promise<void> {
+    await this.writeSealed(this.keys.SEARCH_INDEX, key, index, ownerKey);
+    this.searchIndexCache = { key, index };
+  }
+
+  /**
+   * Apply an incremental index change; failures only drop the index for a later rebuild
+   */
+  private async updateSearchIndex(
+    key: string,
+    update: (index: SearchIndex) => void
+  ): Promise<void> {
+    try {
+      const index = await this.loadSearchIndex(key);
+      update(index);
+      await this.persistSearchIndex(key, index);
+    } catch (error) {
+      console.error('Error updating search index:', error);
+      this.searchIndexCache = null;
+      await AsyncStorage.removeItem(this.keys.SEARCH_INDEX).catch(() => {});
+    }
+  }
+
   async reEncryptAllData(oldKey: string, newKey: string): Promise<void> {
     try {
       // Re-encrypt journals
       const journals = await this.listJournals(oldKey);
-      const encryptedJournals = await this.encryptJSON(newKey, journals);
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.JOURNALS, encryptedJournals);
+      await this.writeSealed(this.keys.JOURNALS, newKey, journals, oldKey);
+
+      // Re-encrypt revision history and trash
+      const revisions = await this.loadRevisions(oldKey);
+      await this.persistRevisions(newKey, revisions, oldKey);
+      const trash = await this.loadTrash(oldKey);
+      await this.persistTrash(newKey, trash, oldKey);
+
+      // Re-encrypt notebooks (protected notebooks' journals keep their own key)
+      const notebooks = await this.listNotebooks(oldKey);
+      await this.writeSealed(this.keys.NOTEBOOKS, newKey, notebooks, oldKey);
+
+      // Re-encrypt search index
+      await this.persistSearchIndex(newKey, buildSearchIndex(journals), oldKey);
 
       // Re-encrypt security questions
       const securityQuestions = await this.getSecurityQuestions(oldKey);
       if (securityQuestions) {
         const encryptedQuestions = await this.encryptJSON(newKey, securityQuestions);
         await AsyncStorage.setItem(
-          APP_CONFIG.STORAGE_KEYS.SECURITY_QUESTIONS,
+          this.keys.SECURITY_QUESTIONS,
           encryptedQuestions
         );
       }
@@ -271,6 +695,295 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
     }
   }
 
+  /**
+   * Move journals (with their trash records and revisions) to another key's segments
+   */
+  async reEncryptJournals(ids: string[], oldKey: string, newKey: string): Promise<void> {
+    try {
+      if (ids.length === 0) return;
+      const moving = new Set(ids);
+
+      const journals = await this.listJournals(oldKey);
+      const moved = journals.filter((j) => moving.has(j.id));
+      await this.writeSealed(
+        this.keys.JOURNALS,
+        oldKey,
+        journals.filter((j) => !moving.has(j.id))
+      );
+      const target = (await this.listJournals(newKey)).filter((j) => !moving.has(j.id));
+      await this.writeSealed(this.keys.JOURNALS, newKey, [...target, ...moved]);
+
+      const trash = await this.loadTrash(oldKey);
+      const movedTrash = trash.filter((t) => moving.has(t.id));
+      if (movedTrash.length > 0) {
+        await this.persistTrash(oldKey, trash.filter((t) => !moving.has(t.id)));
+        const targetTrash = (await this.loadTrash(newKey)).filter((t) => !moving.has(t.id));
+        await this.persistTrash(newKey, [...movedTrash, ...targetTrash]);
+      }
+
+      const revisions = await this.loadRevisions(oldKey);
+      const movedRevisions = ids.filter((id) => revisions[id]);
+      if (movedRevisions.length > 0) {
+        const targetRevisions = await this.loadRevisions(newKey);
+        for (const id of movedRevisions) {
+          targetRevisions[id] = revisions[id];
+          delete revisions[id];
+        }
+        await this.persistRevisions(oldKey, revisions);
+        await this.persistRevisions(newKey, targetRevisions);
+      }
+
+      await this.updateSearchIndex(oldKey, (index) =>
+        ids.forEach((id) => removeFromSearchIndex(index, id))
+      );
+      await this.updateSearchIndex(newKey, (index) =>
+        moved.forEach((journal) => addToSearchIndex(index, journal))
+      );
+    } catch (error) {
+      console.error('Error moving journals to another key:', error);
+      throw new Error('Failed to re-encrypt journals');
+    }
+  }
+
+  // ==================== Data Key Rotation ====================
+
+  /**
+   * Journals and trash are one blob each, so a single "batch" re-seals them all
+   * (no cursor or batch size needed)
+   */
+  async reEncryptJournalBatch(oldKey: string, newKey: string): Promise<KeyRotationBatch> {
+    try {
+      await this.resealSegment(this.keys.JOURNALS, oldKey, newKey);
+      await this.resealSegment(this.keys.TRASH, oldKey, newKey);
+
+      const count = (await this.listJournals(newKey)).length + (await this.loadTrash(newKey)).length;
+      return { cursor: null, processed: count, total: count, done: true };
+    } catch (error) {
+      console.error('Error re-encrypting journals:', error);
+      throw new Error('Failed to re-encrypt journals');
+    }
+  }
+
+  async finishKeyRotation(oldKey: string, newKey: string): Promise<void> {
+    try {
+      await this.resealSegment(this.keys.JOURNAL_REVISIONS, oldKey, newKey);
+      await this.resealSegment(this.keys.NOTEBOOKS, oldKey, newKey);
+      await this.resealSegment(this.keys.SEARCH_INDEX, oldKey, newKey);
+      await this.resealSegment(this.keys.IMPORT_LOG, oldKey, newKey);
+      this.searchIndexCache = null;
+
+      await this.resealValue(this.keys.SECURITY_QUESTIONS, oldKey, newKey);
+      await this.resealValue(this.keys.VERIFICATION_TOKEN, oldKey, newKey);
+    } catch (error) {
+      console.error('Error finishing key rotation:', error);
+      throw new Error('Failed to finish key rotation');
+    }
+  }
+
+  // ==================== Integrity ====================
+
+  /**
+   * Check every segment of the sealed stores. Each segment holds one key's whole
+   * set (e.g. all its journals), so that is the unit that can be damaged here.
+   * Segments none of the keys open are only checked for well-formed ciphertext.
+   */
+  async scanIntegrity(keys: string[]): Promise<IntegrityScan> {
+    try {
+      const scan: IntegrityScan = { checked: 0, unverified: 0, issues: [] };
+
+      for (const store of SEALED_STORES) {
+        const raw = await AsyncStorage.getItem(this.keys[store.name]);
+        if (!raw) continue;
+
+        let segments: string[];
+        try {
+          segments = this.parseSegments(raw);
+        } catch {
+          scan.issues.push({
+            id: `${store.name}:*`,
+            kind: 'store',
+            label: store.label,
+            problems: ['store: not valid JSON'],
+            raw: { store: store.name, value: raw },
+          });
+          continue;
+        }
+
+        for (const segment of segments) {
+          if (await this.opensWithAny(segment, keys)) {
+            scan.checked++;
+          } else if (isWellFormedCiphertext(segment)) {
+            scan.unverified++;
+          } else {
+            scan.issues.push({
+              id: `${store.name}:${segment.slice(0, APP_CONFIG.IV_SIZE * 2)}`,
+              kind: 'store',
+              label: store.label,
+              problems: [describeDecryptionFailure('segment', segment)],
+              raw: { store: store.name, segment },
+            });
+          }
+        }
+      }
+
+      return scan;
+    } catch (error) {
+      console.error('Error scanning vault integrity:', error);
+      throw new Error('Failed to check vault integrity');
+    }
+  }
+
+  private async opensWithAny(segment: string, keys: string[]): Promise<boolean> {
+    for (const key of keys) {
+      if ((await this.findSegment([segment], key)) >= 0) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Move damaged segments (or a whole unreadable store) to the quarantine.
+   * The quarantine is saved first, so an interruption can only leave a copy behind.
+   */
+  async quarantineItems(issues: IntegrityIssue[]): Promise<void> {
+    try {
+      if (issues.length === 0) return;
+
+      const moving = new Set(issues.map((issue) => issue.id));
+      const quarantinedAt = new Date().toISOString();
+      const quarantine = (await this.listQuarantine()).filter((item) => !moving.has(item.id));
+      await this.saveQuarantine([
+        ...issues.map((issue) => ({ ...issue, quarantinedAt })),
+        ...quarantine,
+      ]);
+
+      for (const issue of issues) {
+        const storageKey = this.keys[issue.raw.store as StorageKeyName];
+        if (!storageKey) throw new Error(`Unknown store ${issue.raw.store}`);
+        const current = await AsyncStorage.getItem(storageKey);
+
+        if (issue.raw.segment) {
+          const segments = this.parseSegments(current).filter((s) => s !== issue.raw.segment);
+          if (segments.length > 0) {
+            await AsyncStorage.setItem(storageKey, JSON.stringify(segments));
+          } else {
+            await AsyncStorage.removeItem(storageKey);
+          }
+        } else if (current === issue.raw.value) {
+          await AsyncStorage.removeItem(storageKey);
+        }
+      }
+
+      this.searchIndexCache = null;
+    } catch (error) {
+      console.error('Error quarantining items:', error);
+      throw new Error('Failed to quarantine damaged items');
+    }
+  }
+
+  async listQuarantine(): Promise<QuarantinedItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.keys.QUARANTINE);
+      return stored ? (JSON.parse(stored) as QuarantinedItem[]) : [];
+    } catch (error) {
+      console.error('Error listing quarantine:', error);
+      throw new Error('Failed to load quarantine');
+    }
+  }
+
+  /**
+   * Put quarantined segments back. A whole store only goes back while nothing
+   * has been written in its place.
+   */
+  async restoreQuarantined(ids: string[]): Promise<void> {
+    try {
+      const restoring = new Set(ids);
+      const quarantine = await this.listQuarantine();
+
+      for (const item of quarantine.filter((q) => restoring.has(q.id))) {
+        const storageKey = this.keys[item.raw.store as StorageKeyName];
+        if (!storageKey) throw new Error(`Unknown store ${item.raw.store}`);
+        const current = await AsyncStorage.getItem(storageKey);
+
+        if (item.raw.segment) {
+          const segments = this.parseSegments(current).filter((s) => s !== item.raw.segment);
+          await AsyncStorage.setItem(storageKey, JSON.stringify([...segments, item.raw.segment]));
+        } else if (current === null && item.raw.value) {
+          await AsyncStorage.setItem(storageKey, item.raw.value);
+        } else {
+          throw new Error(`${item.label} has been written since it was quarantined`);
+        }
+      }
+
+      await this.saveQuarantine(quarantine.filter((q) => !restoring.has(q.id)));
+      this.searchIndexCache = null;
+    } catch (error) {
+      console.error('Error restoring quarantined items:', error);
+      throw error instanceof Error && error.message.includes('written since')
+        ? error
+        : new Error('Failed to restore quarantined items');
+    }
+  }
+
+  async deleteQuarantined(ids: string[]): Promise<void> {
+    try {
+      const deleting = new Set(ids);
+      const quarantine = await this.listQuarantine();
+      await this.saveQuarantine(quarantine.filter((q) => !deleting.has(q.id)));
+    } catch (error) {
+      console.error('Error deleting quarantined items:', error);
+      throw new Error('Failed to delete quarantined items');
+    }
+  }
+
+  private async saveQuarantine(items: QuarantinedItem[]): Promise<void> {
+    if (items.length > 0) {
+      await AsyncStorage.setItem(this.keys.QUARANTINE, JSON.stringify(items));
+    } else {
+      await AsyncStorage.removeItem(this.keys.QUARANTINE);
+    }
+  }
+
+  // ==================== Notebooks ====================
+
+  async listNotebooks(key: string): Promise<Notebook[]> {
+    try {
+      const notebooks = (await this.readSealed<Notebook[]>(this.keys.NOTEBOOKS, key)) ?? [];
+      return notebooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error('Error listing notebooks:', error);
+      throw new Error('Failed to load notebooks');
+    }
+  }
+
+  async saveNotebook(notebook: Notebook, key: string): Promise<void> {
+    try {
+      const notebooks = (await this.listNotebooks(key)).filter((n) => n.id !== notebook.id);
+      await this.writeSealed(this.keys.NOTEBOOKS, key, [...notebooks, notebook]);
+    } catch (error) {
+      console.error('Error saving notebook:', error);
+      throw new Error('Failed to save notebook');
+    }
+  }
+
+  async deleteNotebook(id: string, key: string): Promise<void> {
+    try {
+      const notebooks = await this.listNotebooks(key);
+      await this.writeSealed(
+        this.keys.NOTEBOOKS,
+        key,
+        notebooks.filter((n) => n.id !== id)
+      );
+    } catch (error) {
+      console.error('Error deleting notebook:', error);
+      throw new Error('Failed to delete notebook');
+    }
+  }
+
+  // Each key's notebooks are stored apart, so saving one never reaches another key's
+  async listForeignNotebookIds(): Promise<string[]> {
+    return [];
+  }
+
   // ==================== Verification Token ====================
 
   async saveVerificationToken(key: string): Promise<void> {
@@ -280,7 +993,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
         verified: true,
       };
       const encrypted = await this.encryptJSON(key, verificationData);
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.VERIFICATION_TOKEN, encrypted);
+      await AsyncStorage.setItem(this.keys.VERIFICATION_TOKEN, encrypted);
     } catch (error) {
       console.error('Error saving verification token:', error);
       throw new Error('Failed to save verification token');
@@ -289,7 +1002,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async verifyPassword(key: string): Promise<boolean> {
     try {
-      const encrypted = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.VERIFICATION_TOKEN);
+      const encrypted = await AsyncStorage.getItem(this.keys.VERIFICATION_TOKEN);
       if (!encrypted) {
         // No token stored yet
         return true; // Allow for backward compatibility
@@ -306,34 +1019,50 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async clearAllData(): Promise<void> {
     try {
-      console.log('[Web] Clearing localStorage,AsyncStorage and sessionStorage');
-      localStorage.clear();
+      console.log('[Web] Clearing storage of the active profile');
+      this.searchIndexCache = null;
       sessionStorage.clear();
-      await AsyncStorage.clear();
-      console.log("✅ [Web] All storage destroyed");
-      // await AsyncStorage.multiRemove([
-      //   APP_CONFIG.storageKeys.FIRST_LAUNCH,
-      //   APP_CONFIG.storageKeys.VAULT,
-      //   APP_CONFIG.storageKeys.SECURITY_ANSWERS_HASH,
-      //   APP_CONFIG.storageKeys.RECOVERY_KEY_DISPLAY,
-      //   APP_CONFIG.storageKeys.MASTER_KEY_SALT,
-      //   APP_CONFIG.storageKeys.SECURITY_QUESTIONS,
-      //   APP_CONFIG.storageKeys.SECURITY_QUESTIONS + '_public',
-      //   APP_CONFIG.storageKeys.JOURNALS,
-      //   APP_CONFIG.storageKeys.SETTINGS,
-      //   APP_CONFIG.storageKeys.VERIFICATION_TOKEN,
-      // ]);
+      await this.removeProfileKeys(this.keys);
+      console.log("✅ [Web] Profile storage destroyed");
     } catch (error) {
       console.error('Error clearing data:', error);
       throw new Error('Failed to clear data');
     }
   }
 
+  // ==================== Profiles ====================
+
+  /**
+   * Every key a profile writes (other profiles' keys are left alone)
+   */
+  private async removeProfileKeys(keys: typeof APP_CONFIG.STORAGE_KEYS): Promise<void> {
+    await AsyncStorage.multiRemove([
+      ...Object.values(keys),
+      `${keys.SECURITY_QUESTIONS}_public`,
+    ]);
+  }
+
+  async switchProfile(profileId: string): Promise<void> {
+    // Never carry decrypted state across profiles
+    this.searchIndexCache = null;
+    this.stagedImport = null;
+    this.profileId = profileId;
+    this.keys = getProfileStorageKeys(profileId);
+    console.log(`✅ [Web] Using storage keys of profile ${profileId}`);
+  }
+
+  async deleteProfileStorage(profileId: string): Promise<void> {
+    if (profileId === this.profileId) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+    await this.removeProfileKeys(getProfileStorageKeys(profileId));
+  }
+
   // ==================== Vault Operations ====================
 
   async saveVault(vault: Vault | Record<string, any>): Promise<void> {
     try {
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.VAULT, JSON.stringify(vault));
+      await AsyncStorage.setItem(this.keys.VAULT, JSON.stringify(vault));
     } catch (error) {
       console.error('Error saving vault:', error);
       throw new Error('Failed to save vault');
@@ -342,7 +1071,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async getVault(): Promise<Vault | null> {
     try {
-      const vaultStr = await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.VAULT);
+      const vaultStr = await AsyncStorage.getItem(this.keys.VAULT);
       if (!vaultStr) return null;
       return JSON.parse(vaultStr) as Vault;
     } catch (error) {
@@ -353,7 +1082,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async saveRecoveryKeyHash(recoveryKey: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(APP_CONFIG.STORAGE_KEYS.RECOVERY_KEY_DISPLAY, recoveryKey);
+      await AsyncStorage.setItem(this.keys.RECOVERY_KEY_DISPLAY, recoveryKey);
     } catch (error) {
       console.error('Error saving recovery key:', error);
       throw new Error('Failed to save recovery key');
@@ -362,7 +1091,7 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async getRecoveryKeyHash(): Promise<string | null> {
     try {
-      return await AsyncStorage.getItem(APP_CONFIG.STORAGE_KEYS.RECOVERY_KEY_DISPLAY);
+      return await AsyncStorage.getItem(this.keys.RECOVERY_KEY_DISPLAY);
     } catch (error) {
       console.error('Error retrieving recovery key hash:', error);
       return null;
@@ -371,12 +1100,256 @@ class AsyncStoreVaultStorageProvider implements VaultStorageProvider {
 
   async clearRecoveryKeyDisplay(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(APP_CONFIG.STORAGE_KEYS.RECOVERY_KEY_DISPLAY);
+      await AsyncStorage.removeItem(this.keys.RECOVERY_KEY_DISPLAY);
     } catch (error) {
       console.error('Error clearing recovery key display:', error);
     }
   }
 
+  // ==================== Unlock Throttling ====================
+
+  async getLockoutState(): Promise<LockoutState | null> {
+    try {
+      const stateStr = await AsyncStorage.getItem(this.keys.LOCKOUT_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as LockoutState;
+    } catch (error) {
+      console.error('Error retrieving lockout state:', error);
+      return null;
+    }
+  }
+
+  async saveLockoutState(state: LockoutState | null): Promise<void> {
+    try {
+      if (state) {
+        await AsyncStorage.setItem(this.keys.LOCKOUT_STATE, JSON.stringify(state));
+      } else {
+        await AsyncStorage.removeItem(this.keys.LOCKOUT_STATE);
+      }
+    } catch (error) {
+      console.error('Error saving lockout state:', error);
+      throw new Error('Failed to save lockout state');
+    }
+  }
+
+  async getKeyRotationState(): Promise<KeyRotationState | null> {
+    try {
+      const stateStr = await AsyncStorage.getItem(this.keys.KEY_ROTATION);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as KeyRotationState;
+    } catch (error) {
+      console.error('Error retrieving key rotation state:', error);
+      return null;
+    }
+  }
+
+  async saveKeyRotationState(state: KeyRotationState | null): Promise<void> {
+    try {
+      if (state) {
+        await AsyncStorage.setItem(this.keys.KEY_ROTATION, JSON.stringify(state));
+      } else {
+        await AsyncStorage.removeItem(this.keys.KEY_ROTATION);
+      }
+    } catch (error) {
+      console.error('Error saving key rotation state:', error);
+      throw new Error('Failed to save key rotation state');
+    }
+  }
+
+  // ==================== Automatic Backups ====================
+
+  async getBackupState(): Promise<BackupState | null> {
+    try {
+      const stateStr = await AsyncStorage.getItem(this.keys.BACKUP_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as BackupState;
+    } catch (error) {
+      console.error('Error retrieving backup state:', error);
+      return null;
+    }
+  }
+
+  async saveBackupState(state: BackupState | null): Promise<void> {
+    try {
+      if (state) {
+        await AsyncStorage.setItem(this.keys.BACKUP_STATE, JSON.stringify(state));
+      } else {
+        await AsyncStorage.removeItem(this.keys.BACKUP_STATE);
+      }
+    } catch (error) {
+      console.error('Error saving backup state:', error);
+      throw new Error('Failed to save backup state');
+    }
+  }
+
+  // ==================== Sync ====================
+
+  async getSyncState(): Promise<SyncState | null> {
+    try {
+      const stateStr = await AsyncStorage.getItem(this.keys.SYNC_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as SyncState;
+    } catch (error) {
+      console.error('Error retrieving sync state:', error);
+      return null;
+    }
+  }
+
+  async saveSyncState(state: SyncState | null): Promise<void> {
+    try {
+      if (state) {
+        await AsyncStorage.setItem(this.keys.SYNC_STATE, JSON.stringify(state));
+      } else {
+        await AsyncStorage.removeItem(this.keys.SYNC_STATE);
+      }
+    } catch (error) {
+      console.error('Error saving sync state:', error);
+      throw new Error('Failed to save sync state');
+    }
+  }
+
+  // ==================== Imports ====================
+
+  // Each key's journals are stored apart, so an import never reaches another key's
+  async listForeignJournalIds(): Promise<string[]> {
+    return [];
+  }
+
+  async beginImport(): Promise<void> {
+    this.stagedImport = new Map();
+  }
+
+  async stageImportJournals(journals: Journal[], key: string): Promise<void> {
+    if (!this.stagedImport) throw new Error('No import in progress');
+    for (const journal of journals) {
+      this.stagedImport.set(journal.id, journal);
+    }
+  }
+
+  /**
+   * Write every staged journal with a single sealed write of the journals store.
+   * The log (with undo data) is written first and put back if that write fails.
+   */
+  async commitImport(source: string, key: string): Promise<ImportLogEntry> {
+    try {
+      const staged = [...(this.stagedImport?.values() ?? [])];
+      if (staged.length === 0) throw new Error('Nothing staged');
+
+      const journals = new Map((await this.listJournals(key)).map((j) => [j.id, j]));
+      const log = await this.loadImportLog(key);
+      const entry: ImportLogEntry = {
+        id: uuidv4(),
+        importedAt: new Date().toISOString(),
+        source,
+        added: 0,
+        replaced: 0,
+        canUndo: true,
+      };
+
+      const undo: NonNullable<ImportLogRecord['undo']> = { importId: entry.id, journals: [] };
+      for (const journal of staged) {
+        const previous = journals.get(journal.id) ?? null;
+        if (previous) entry.replaced++;
+        else entry.added++;
+        undo.journals.push({ id: journal.id, importedUpdatedAt: journal.updatedAt, previous });
+        journals.set(journal.id, journal);
+      }
+
+      const { canUndo, ...logged } = entry;
+      await this.writeSealed(this.keys.IMPORT_LOG, key, {
+        entries: [logged, ...log.entries].slice(0, APP_CONFIG.IMPORT_LOG_LIMIT),
+        undo,
+      });
+      try {
+        await this.writeSealed(this.keys.JOURNALS, key, [...journals.values()]);
+      } catch (error) {
+        await this.writeSealed(this.keys.IMPORT_LOG, key, log);
+        throw error;
+      }
+      this.stagedImport = null;
+
+      await this.updateSearchIndex(key, (index) => {
+        for (const journal of staged) addToSearchIndex(index, journal);
+      });
+      return entry;
+    } catch (error) {
+      console.error('Error committing import:', error);
+      throw new Error('Failed to import journals - nothing was changed');
+    }
+  }
+
+  async discardImport(): Promise<void> {
+    this.stagedImport = null;
+  }
+
+  async listImportLog(key: string): Promise<ImportLogEntry[]> {
+    try {
+      const log = await this.loadImportLog(key);
+      return log.entries.map((entry) => ({
+        ...entry,
+        canUndo: !entry.undoneAt && log.undo?.importId === entry.id,
+      }));
+    } catch (error) {
+      console.error('Error listing imports:', error);
+      throw new Error('Failed to load import log');
+    }
+  }
+
+  /**
+   * Remove what the last import added and put back what it replaced. Journals
+   * changed or deleted since the import are left alone.
+   */
+  async undoLastImport(key: string): Promise<ImportUndoResult> {
+    try {
+      const log = await this.loadImportLog(key);
+      const [last, ...rest] = log.entries;
+      if (!last || last.undoneAt || log.undo?.importId !== last.id) {
+        throw new Error('Nothing to undo');
+      }
+
+      const journals = new Map((await this.listJournals(key)).map((j) => [j.id, j]));
+      const result: ImportUndoResult = { removed: 0, restored: 0, kept: 0 };
+      const removed: string[] = [];
+      const restored: Journal[] = [];
+
+      for (const { id, importedUpdatedAt, previous } of log.undo.journals) {
+        const current = journals.get(id);
+        if (!current || current.updatedAt !== importedUpdatedAt) {
+          result.kept++;
+        } else if (previous) {
+          journals.set(id, previous);
+          restored.push(previous);
+          result.restored++;
+        } else {
+          journals.delete(id);
+          removed.push(id);
+          result.removed++;
+        }
+      }
+
+      await this.writeSealed(this.keys.JOURNALS, key, [...journals.values()]);
+      await this.writeSealed(this.keys.IMPORT_LOG, key, {
+        entries: [{ ...last, undoneAt: new Date().toISOString() }, ...rest],
+        undo: null,
+      });
+
+      await this.updateSearchIndex(key, (index) => {
+        for (const id of removed) removeFromSearchIndex(index, id);
+        for (const journal of restored) addToSearchIndex(index, journal);
+      });
+      return result;
+    } catch (error) {
+      console.error('Error undoing import:', error);
+      throw new Error('Failed to undo the last import');
+    }
+  }
+
+  private async loadImportLog(key: string): Promise<ImportLogRecord> {
+    return (
+      (await this.readSealed<ImportLogRecord>(this.keys.IMPORT_LOG, key)) ?? { entries: [], undo: null }
+    );
+  }
+
   async hasVault(): Promise<boolean> {
     try {
       const vault = await this.getVault();
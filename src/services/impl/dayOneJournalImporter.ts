@@ -0,0 +1,108 @@
+// ============================================================================
+// IMPORTER (Day One - "JSON" export: Journal.json, or a ZIP with the journal
+// JSON files and a photos/ folder)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { Journal } from '@/src/types';
+import { normalizeTags } from '@/src/utils/tags';
+import {
+  findImportFile,
+  imageFromFile,
+  ImportFile,
+  JournalImporter,
+  splitMarkdownTitle,
+  toIsoDate,
+} from '../journalImporter';
+
+type DayOnePhoto = { identifier?: string; md5?: string; type?: string };
+
+type DayOneEntry = {
+  uuid?: string;
+  creationDate?: string;
+  modifiedDate?: string;
+  text?: string;
+  tags?: string[];
+  photos?: DayOnePhoto[];
+};
+
+// Photos are placed in the text as ![](dayone-moment://<identifier>)
+const MOMENT_PATTERN = /!\[[^\]]*\]\(dayone-moment:\/*[^)]*\)\n?/g;
+// Day One escapes Markdown punctuation it did not add itself (\. \- \!)
+const ESCAPE_PATTERN = /\\([\\`*_{}[\]()#+\-.!>|~])/g;
+
+const isDayOneExport = (data: any): data is { entries: DayOneEntry[] } =>
+  !!data &&
+  Array.isArray(data.entries) &&
+  data.entries.every((entry: any) => typeof entry?.creationDate === 'string');
+
+const dayOneJournalImporter: JournalImporter = {
+  label: 'Day One',
+
+  parse: async (files: ImportFile[]) => {
+    const journals: Journal[] = [];
+    let matched = false;
+    let missingPhotos = 0;
+    let unsupportedPhotos = 0;
+
+    // One JSON file per Day One journal
+    for (const file of files.filter((f) => f.name.toLowerCase().endsWith('.json'))) {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        continue;
+      }
+      if (!isDayOneExport(data)) continue;
+      matched = true;
+
+      for (const entry of data.entries) {
+        const date = toIsoDate(entry.creationDate);
+        if (!date) continue;
+
+        const text = (entry.text ?? '').replace(MOMENT_PATTERN, '').replace(ESCAPE_PATTERN, '$1');
+        const { title, body } = splitMarkdownTitle(text);
+
+        const images: string[] = [];
+        for (const photo of entry.photos ?? []) {
+          const photoFile = photo.md5
+            ? findImportFile(files, `photos/${photo.md5}.${photo.type ?? 'jpeg'}`)
+            : undefined;
+          if (!photoFile) {
+            missingPhotos++;
+            continue;
+          }
+          const image = await imageFromFile(photoFile);
+          if (image) images.push(image);
+          else unsupportedPhotos++;
+        }
+
+        const tags = normalizeTags(entry.tags);
+        journals.push({
+          // Day One's own id, so importing the same export again finds duplicates
+          id: entry.uuid ?? uuidv4(),
+          date,
+          createdAt: date,
+          updatedAt: toIsoDate(entry.modifiedDate) ?? date,
+          title,
+          text: body.trim(),
+          tags: tags.length > 0 ? tags : undefined,
+          images: images.length > 0 ? images : undefined,
+        });
+      }
+    }
+
+    if (!matched) return null;
+
+    const warnings: string[] = [];
+    if (missingPhotos > 0) {
+      warnings.push(`${missingPhotos} photo(s) not found - pick the ZIP export to include photos`);
+    }
+    if (unsupportedPhotos > 0) {
+      warnings.push(`${unsupportedPhotos} photo(s) skipped - format not supported (e.g. HEIC)`);
+    }
+    return { journals, warnings };
+  },
+};
+
+export default dayOneJournalImporter;
@@ -0,0 +1,118 @@
+// ============================================================================
+// IMPORTER (Journey - ZIP export with one JSON file per entry next to its
+// photos; a single entry file or an array of entries also works)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { Journal } from '@/src/types';
+import { normalizeTags } from '@/src/utils/tags';
+import {
+  findImportFile,
+  imageFromFile,
+  ImportFile,
+  JournalImporter,
+  toIsoDate,
+} from '../journalImporter';
+
+type JourneyEntry = {
+  id?: string;
+  text?: string;
+  type?: string; // 'html' or 'markdown'
+  date_journal: number; // Epoch milliseconds
+  date_modified?: number;
+  mood?: number;
+  tags?: string[];
+  photos?: string[]; // File names next to the entry
+};
+
+// Journey's five mood faces, saddest first (0 = no mood)
+const JOURNEY_MOODS = ['sad', 'anxious', 'calm', 'happy', 'excited'];
+
+const isJourneyEntry = (value: any): value is JourneyEntry =>
+  !!value && typeof value.date_journal === 'number' && typeof value.text === 'string';
+
+/**
+ * Journey's rich text as Markdown-ish plain text
+ */
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const journeyJournalImporter: JournalImporter = {
+  label: 'Journey',
+
+  parse: async (files: ImportFile[]) => {
+    const entries: JourneyEntry[] = [];
+    for (const file of files.filter((f) => f.name.toLowerCase().endsWith('.json'))) {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        continue;
+      }
+      const items = Array.isArray(data) ? data : [data];
+      if (items.length > 0 && items.every(isJourneyEntry)) {
+        entries.push(...items);
+      }
+    }
+    if (entries.length === 0) return null;
+
+    const journals: Journal[] = [];
+    let missingPhotos = 0;
+    let unsupportedPhotos = 0;
+
+    for (const entry of entries) {
+      const date = toIsoDate(entry.date_journal);
+      if (!date) continue;
+
+      const images: string[] = [];
+      for (const name of entry.photos ?? []) {
+        const photoFile = findImportFile(files, name);
+        if (!photoFile) {
+          missingPhotos++;
+          continue;
+        }
+        const image = await imageFromFile(photoFile);
+        if (image) images.push(image);
+        else unsupportedPhotos++;
+      }
+
+      const tags = normalizeTags(entry.tags);
+      const text = entry.type === 'html' ? htmlToText(entry.text ?? '') : (entry.text ?? '').trim();
+      journals.push({
+        id: entry.id ?? uuidv4(),
+        date,
+        createdAt: date,
+        updatedAt: toIsoDate(entry.date_modified) ?? date,
+        text,
+        mood: entry.mood ? JOURNEY_MOODS[entry.mood - 1] : undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        images: images.length > 0 ? images : undefined,
+      });
+    }
+
+    const warnings: string[] = [];
+    if (missingPhotos > 0) {
+      warnings.push(`${missingPhotos} photo(s) not found - pick the ZIP export to include photos`);
+    }
+    if (unsupportedPhotos > 0) {
+      warnings.push(`${unsupportedPhotos} photo(s) skipped - format not supported`);
+    }
+    return { journals, warnings };
+  },
+};
+
+export default journeyJournalImporter;
@@ -0,0 +1,132 @@
+// ============================================================================
+// IMPORTER (Markdown - one .md file per entry with optional YAML front matter;
+// a ZIP of the folder also brings the images its links point to)
+// ============================================================================
+
+import { load as loadYaml } from 'js-yaml';
+import { v4 as uuidv4 } from 'uuid';
+import { Journal } from '@/src/types';
+import { normalizeTags } from '@/src/utils/tags';
+import {
+  findImportFile,
+  imageFromFile,
+  ImportFile,
+  JournalImporter,
+  resolveMood,
+  splitMarkdownTitle,
+  toIsoDate,
+} from '../journalImporter';
+
+/**
+ * Front matter fields read (others are ignored):
+ *   title, date (or created), updated, tags (list or "a, b"), mood, id,
+ *   images / photos (paths relative to the file)
+ */
+type FrontMatter = Record<string, unknown>;
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const IMAGE_LINK_PATTERN = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)\n?/g;
+const DATE_IN_NAME_PATTERN = /(\d{4}-\d{2}-\d{2})/;
+
+const isMarkdownFile = (file: ImportFile) => /\.(md|markdown)$/i.test(file.name);
+
+const readFrontMatter = (text: string): { frontMatter: FrontMatter; body: string } | null => {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) return { frontMatter: {}, body: text };
+  try {
+    const frontMatter = loadYaml(match[1]);
+    return {
+      frontMatter: frontMatter && typeof frontMatter === 'object' ? (frontMatter as FrontMatter) : {},
+      body: text.slice(match[0].length),
+    };
+  } catch {
+    return null;
+  }
+};
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  if (typeof value === 'string') return value.split(',').map((item) => item.trim());
+  return [];
+};
+
+const markdownJournalImporter: JournalImporter = {
+  label: 'Markdown',
+
+  parse: async (files: ImportFile[]) => {
+    const markdownFiles = files.filter(isMarkdownFile);
+    if (markdownFiles.length === 0) return null;
+
+    const journals: Journal[] = [];
+    const warnings: string[] = [];
+    let undatedFiles = 0;
+    let missingImages = 0;
+
+    for (const file of markdownFiles) {
+      const parsed = readFrontMatter(await file.text());
+      if (!parsed) {
+        warnings.push(`${file.name}: front matter could not be read - file skipped`);
+        continue;
+      }
+      const { frontMatter } = parsed;
+
+      // Date from the front matter, else from a file name like 2024-05-01.md
+      let date =
+        toIsoDate(frontMatter.date) ??
+        toIsoDate(frontMatter.created) ??
+        toIsoDate(file.name.match(DATE_IN_NAME_PATTERN)?.[1]);
+      if (!date) {
+        undatedFiles++;
+        date = new Date().toISOString();
+      }
+
+      // Images: listed in the front matter or linked in the text (links to
+      // files that came along are removed from the text)
+      const images: string[] = [];
+      const addImage = async (reference: string): Promise<boolean> => {
+        if (/^[a-z]+:/i.test(reference)) return false; // http:, data: ...
+        const imageFile = findImportFile(files, reference, file.path);
+        const image = imageFile ? await imageFromFile(imageFile) : null;
+        if (!image) {
+          missingImages++;
+          return false;
+        }
+        images.push(image);
+        return true;
+      };
+
+      for (const reference of [...toList(frontMatter.images), ...toList(frontMatter.photos)]) {
+        await addImage(reference);
+      }
+      let text = parsed.body;
+      for (const [link, reference] of [...parsed.body.matchAll(IMAGE_LINK_PATTERN)]) {
+        if (await addImage(reference)) text = text.replace(link, '');
+      }
+
+      const heading = splitMarkdownTitle(text);
+      const title = typeof frontMatter.title === 'string' ? frontMatter.title : heading.title;
+      const tags = normalizeTags(toList(frontMatter.tags));
+      journals.push({
+        id: typeof frontMatter.id === 'string' ? frontMatter.id : uuidv4(),
+        date,
+        createdAt: date,
+        updatedAt: toIsoDate(frontMatter.updated) ?? date,
+        title,
+        text: (typeof frontMatter.title === 'string' ? text : heading.body).trim(),
+        mood: resolveMood(frontMatter.mood),
+        tags: tags.length > 0 ? tags : undefined,
+        images: images.length > 0 ? images : undefined,
+      });
+    }
+
+    if (undatedFiles > 0) {
+      warnings.push(`${undatedFiles} file(s) without a date - dated today`);
+    }
+    if (missingImages > 0) {
+      warnings.push(`${missingImages} image(s) not found - pick a ZIP of the folder to include images`);
+    }
+    return { journals, warnings };
+  },
+};
+
+export default markdownJournalImporter;
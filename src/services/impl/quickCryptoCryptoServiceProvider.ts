@@ -4,7 +4,7 @@
  * Platform: iOS/Android (React Native)
  * Uses: react-native-quick-crypto
  * Encryption: AES-256-GCM (authenticated encryption)
- * Key Derivation: PBKDF2-SHA256
+ * Key Derivation: Argon2id (default) / PBKDF2-SHA256 (legacy vaults)
  * 
  * Storage Format: iv(12 bytes hex) + ciphertext(hex) + authTag(16 bytes hex)
  * 
@@ -21,6 +21,7 @@ import {
   EncryptedNote,
   KDFParams,
   NormalizedAnswers,
+  NoteMetadata,
   QAPair,
   RecoveryResult,
   Salts,
@@ -29,6 +30,14 @@ import {
   VaultSecurityQuestion,
 } from '../../types/crypto';
 import { CryptoServiceProvider } from '../cryptoServiceProvider';
+import {
+  DEFAULT_KDF_PARAMS,
+  deriveArgon2idKey,
+  getWrapKdfParams,
+  LEGACY_KDF_PARAMS,
+  needsKdfUpgrade,
+  setWrapKdfParams,
+} from '../keyDerivationService';
 // polyfill imports
 import { Buffer } from '@craftzdog/react-native-buffer';
 
@@ -56,15 +65,23 @@ function generateRandomBytes(sizeInBytes: number): string {
 }
 
 /**
- * PBKDF2-SHA256 key derivation (async wrapped for consistency)
+ * Password key derivation (Argon2id or PBKDF2-SHA256, chosen by params)
+ * PBKDF2 is async wrapped for consistency
  */
-async function deriveKeyFromPassword(password: string, salt: string): Promise<string> {
+async function deriveKeyFromPassword(
+  password: string,
+  salt: string,
+  params: KDFParams = LEGACY_KDF_PARAMS
+): Promise<string> {
+  if (params.algorithm === 'Argon2id') {
+    return deriveArgon2idKey(password, salt, params);
+  }
   return new Promise((resolve, reject) => {
     try {
       const key = QuickCrypto.pbkdf2Sync(
         utf8ToBuf(password),
         utf8ToBuf(salt), // UTF-8 salt for compatibility
-        APP_CONFIG.KDF_ITERATIONS,
+        params.iterations,
         APP_CONFIG.DK_SIZE, // bytes
         'SHA-256'
       );
@@ -131,11 +148,13 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
    * 
    * Format: iv(12 bytes) + ciphertext + authTag(16 bytes)
    * Returns: hex string
+   * associatedData is authenticated but not stored; decryption must pass the same
    */
   private async encryptAES256GCM(
     plaintext: string,
     keyHex: string,
-    ivHex: string
+    ivHex: string,
+    associatedData?: string
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
@@ -143,6 +162,7 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
         const iv = hexToBuf(ivHex); // 12 bytes
 
         const cipher = QuickCrypto.createCipheriv('aes-256-gcm', key, iv);
+        if (associatedData) cipher.setAAD(Buffer.from(associatedData, 'utf8'));
 
         const ciphertext = Buffer.concat([
           cipher.update(plaintext, 'utf8'),
@@ -174,7 +194,8 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
    */
   private async decryptAES256GCM(
     ivAndCiphertextHex: string,
-    keyHex: string
+    keyHex: string,
+    associatedData?: string
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
@@ -198,6 +219,7 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
 
         const decipher = QuickCrypto.createDecipheriv('aes-256-gcm', key, iv);
         decipher.setAuthTag(authTag);
+        if (associatedData) decipher.setAAD(Buffer.from(associatedData, 'utf8'));
 
         const plaintext = Buffer.concat([
           decipher.update(ciphertext),
@@ -237,7 +259,7 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       recovery_salt: await this.generateSalt(),
     };
 
-    const pwdk = await deriveKeyFromPassword(password, salts.master_salt);
+    const pwdk = await deriveKeyFromPassword(password, salts.master_salt, DEFAULT_KDF_PARAMS);
     const passwordIV = await this.generateIV();
     const dk_wrapped_by_password = await this.encryptAES256GCM(dk, pwdk, passwordIV);
 
@@ -245,13 +267,14 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
     const normalizedAnswers = this.normalizeAnswers(answerStrings);
     const SADerivedKey = await deriveKeyFromPassword(
       normalizedAnswers.combined,
-      salts.security_answer_salt
+      salts.security_answer_salt,
+      DEFAULT_KDF_PARAMS
     );
     const securityIV = await this.generateIV();
     const dk_wrapped_by_security = await this.encryptAES256GCM(dk, SADerivedKey, securityIV);
 
     const recoveryKey = uuidv4();
-    const rkdk = await deriveKeyFromPassword(recoveryKey, salts.recovery_salt);
+    const rkdk = await deriveKeyFromPassword(recoveryKey, salts.recovery_salt, DEFAULT_KDF_PARAMS);
     const recoveryIV = await this.generateIV();
     const dk_wrapped_by_recovery = await this.encryptAES256GCM(dk, rkdk, recoveryIV);
 
@@ -260,10 +283,7 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       question: qa.questionId,
     }));
 
-    const kdfParams: KDFParams = {
-      algorithm: 'PBKDF2-SHA256',
-      iterations: APP_CONFIG.KDF_ITERATIONS,
-    };
+    const kdfParams: KDFParams = { ...DEFAULT_KDF_PARAMS };
 
     const now = new Date().toISOString();
     const vault: Vault = {
@@ -280,21 +300,206 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       updated_at: now,
     };
 
-    return { vault, recoveryKey, dk };
+    // Filled with random data until a decoy password is set
+    return { vault: await this.clearDecoySlot(vault), recoveryKey, dk };
   }
 
   async unlockWithPassword(vault: Vault, password: string): Promise<UnlockResult> {
+    let dk: string;
+    try {
+      const pwdk = await deriveKeyFromPassword(
+        password,
+        vault.salts.master_salt,
+        getWrapKdfParams(vault, 'dk_wrapped_by_password')
+      );
+      dk = await this.decryptAES256GCM(vault.key_wraps.dk_wrapped_by_password, pwdk);
+
+      if (dk.length !== 64) {
+        throw new Error('Decrypted DK has invalid length');
+      }
+    } catch {
+      // Not the account password - it may still open the decoy slot
+      const decoyDk = await this.unlockDecoySlot(vault, password);
+      if (decoyDk) {
+        return { dk: decoyDk, vault, isDecoy: true };
+      }
+      throw new Error('Password unlock failed: Invalid password or corrupted vault');
+    }
+
+    let result: UnlockResult = { dk, vault };
+
+    // Transparent upgrade: re-wrap DK with Argon2id while we hold the password
+    if (needsKdfUpgrade(getWrapKdfParams(vault, 'dk_wrapped_by_password'))) {
+      try {
+        const upgradedVault = await this.rebuildVaultWithNewPassword(vault, dk, password);
+        // Same password, so biometric unlock stays enrolled
+        if (vault.key_wraps.dk_wrapped_by_biometric) {
+          upgradedVault.key_wraps.dk_wrapped_by_biometric = vault.key_wraps.dk_wrapped_by_biometric;
+        }
+        result = { dk, vault: upgradedVault, vaultUpgraded: true };
+      } catch (error) {
+        // Upgrade is best-effort; the old wrap still works
+        console.error('KDF upgrade failed:', error);
+      }
+    }
+
+    // Vaults created before decoy passwords get an (empty) decoy slot
+    if (!result.vault.key_wraps.dk_wrapped_by_decoy) {
+      try {
+        result = { dk, vault: await this.clearDecoySlot(result.vault), vaultUpgraded: true };
+      } catch (error) {
+        console.error('Adding decoy slot failed:', error);
+      }
+    }
+
+    return result;
+  }
+
+  async unlockWithBiometricKey(vault: Vault, biometricKey: string): Promise<UnlockResult> {
     try {
-      const pwdk = await deriveKeyFromPassword(password, vault.salts.master_salt);
-      const dk = await this.decryptAES256GCM(vault.key_wraps.dk_wrapped_by_password, pwdk);
+      const wrapped = vault.key_wraps.dk_wrapped_by_biometric;
+      if (!wrapped) {
+        throw new Error('Biometric unlock is not enrolled');
+      }
 
+      const dk = await this.decryptAES256GCM(wrapped, biometricKey);
       if (dk.length !== 64) {
         throw new Error('Decrypted DK has invalid length');
       }
 
       return { dk, vault };
     } catch {
-      throw new Error('Password unlock failed: Invalid password or corrupted vault');
+      throw new Error('Biometric unlock failed: Key invalidated or corrupted vault');
+    }
+  }
+
+  async wrapDataKeyWithBiometricKey(
+    vault: Vault,
+    dk: string,
+    biometricKey: string
+  ): Promise<Vault> {
+    if (dk.length !== 64 || biometricKey.length !== 64) {
+      throw new Error('Invalid key length');
+    }
+
+    // Random key, not a password - no KDF involved
+    const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+    newVault.key_wraps.dk_wrapped_by_biometric = await this.encryptAES256GCM(
+      dk,
+      biometricKey,
+      await this.generateIV()
+    );
+    newVault.updated_at = new Date().toISOString();
+
+    return newVault;
+  }
+
+  // ==================== Decoy Slot ====================
+  // Every vault carries the decoy fields. While no decoy password is set they
+  // hold random data of the same shape, so the vault never shows whether one is.
+
+  /**
+   * Try the password against the decoy wrap
+   * @returns The decoy Data Key, or null when the password does not open it
+   */
+  private async unlockDecoySlot(vault: Vault, password: string): Promise<string | null> {
+    const wrapped = vault.key_wraps.dk_wrapped_by_decoy;
+    if (!wrapped || !vault.salts.decoy_salt) return null;
+
+    try {
+      const decoyPwdk = await deriveKeyFromPassword(
+        password,
+        vault.salts.decoy_salt,
+        getWrapKdfParams(vault, 'dk_wrapped_by_decoy')
+      );
+      const decoyDk = await this.decryptAES256GCM(wrapped, decoyPwdk);
+      return decoyDk.length === 64 ? decoyDk : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * A wrap-shaped value nobody can open (a random key sealed with a random key)
+   */
+  private async createFillerWrap(): Promise<string> {
+    return this.encryptAES256GCM(
+      await this.generateDataKey(),
+      await this.generateDataKey(),
+      await this.generateIV()
+    );
+  }
+
+  async clearDecoySlot(vault: Vault): Promise<Vault> {
+    const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+    newVault.salts.decoy_salt = await this.generateSalt();
+    setWrapKdfParams(newVault, 'dk_wrapped_by_decoy', DEFAULT_KDF_PARAMS);
+    newVault.key_wraps.dk_wrapped_by_decoy = await this.createFillerWrap();
+    newVault.key_wraps.decoy_dk_wrapped_by_dk = await this.createFillerWrap();
+    newVault.updated_at = new Date().toISOString();
+    return newVault;
+  }
+
+  async rebuildVaultWithNewDecoyPassword(
+    vault: Vault,
+    decoyDk: string,
+    decoyPassword: string
+  ): Promise<Vault> {
+    try {
+      if (decoyDk.length !== 64) {
+        throw new Error('Invalid Data Key length');
+      }
+
+      const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+      newVault.salts.decoy_salt = await this.generateSalt();
+
+      const decoyPwdk = await deriveKeyFromPassword(
+        decoyPassword,
+        newVault.salts.decoy_salt,
+        DEFAULT_KDF_PARAMS
+      );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_decoy', DEFAULT_KDF_PARAMS);
+      newVault.key_wraps.dk_wrapped_by_decoy = await this.encryptAES256GCM(
+        decoyDk,
+        decoyPwdk,
+        await this.generateIV()
+      );
+      newVault.updated_at = new Date().toISOString();
+
+      return newVault;
+    } catch (error) {
+      throw new Error(
+        `Failed to rebuild vault with new decoy password: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async wrapDecoyDataKey(vault: Vault, dk: string, decoyDk: string): Promise<Vault> {
+    if (dk.length !== 64 || decoyDk.length !== 64) {
+      throw new Error('Invalid key length');
+    }
+
+    const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+    newVault.key_wraps.decoy_dk_wrapped_by_dk = await this.encryptAES256GCM(
+      decoyDk,
+      dk,
+      await this.generateIV()
+    );
+    newVault.updated_at = new Date().toISOString();
+
+    return newVault;
+  }
+
+  async unwrapDecoyDataKey(vault: Vault, dk: string): Promise<string | null> {
+    const wrapped = vault.key_wraps.decoy_dk_wrapped_by_dk;
+    if (!wrapped) return null;
+
+    try {
+      const decoyDk = await this.decryptAES256GCM(wrapped, dk);
+      return decoyDk.length === 64 ? decoyDk : null;
+    } catch {
+      // Filler, or the decoy session's own key
+      return null;
     }
   }
 
@@ -308,7 +513,8 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       const normalizedAnswers = this.normalizeAnswers(answerStrings);
       const sadk = await deriveKeyFromPassword(
         normalizedAnswers.combined,
-        vault.salts.security_answer_salt
+        vault.salts.security_answer_salt,
+        getWrapKdfParams(vault, 'dk_wrapped_by_security_ans')
       );
       const dk = await this.decryptAES256GCM(vault.key_wraps.dk_wrapped_by_security_ans, sadk);
 
@@ -328,7 +534,11 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
     newPassword: string
   ): Promise<RecoveryResult> {
     try {
-      const rkdk = await deriveKeyFromPassword(recoveryKey, vault.salts.recovery_salt);
+      const rkdk = await deriveKeyFromPassword(
+        recoveryKey,
+        vault.salts.recovery_salt,
+        getWrapKdfParams(vault, 'dk_wrapped_by_recovery')
+      );
       const dk = await this.decryptAES256GCM(vault.key_wraps.dk_wrapped_by_recovery, rkdk);
 
       if (dk.length !== 64) {
@@ -339,7 +549,12 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       newVault.salts.master_salt = await this.generateSalt();
       newVault.salts.recovery_salt = await this.generateSalt();
 
-      const newPwdk = await deriveKeyFromPassword(newPassword, newVault.salts.master_salt);
+      const newPwdk = await deriveKeyFromPassword(
+        newPassword,
+        newVault.salts.master_salt,
+        DEFAULT_KDF_PARAMS
+      );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_password', DEFAULT_KDF_PARAMS);
       const newPasswordIV = await this.generateIV();
       newVault.key_wraps.dk_wrapped_by_password = await this.encryptAES256GCM(
         dk,
@@ -347,8 +562,16 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
         newPasswordIV
       );
 
+      // The biometric wrap belongs to the old password - it has to be enrolled again
+      delete newVault.key_wraps.dk_wrapped_by_biometric;
+
       const newRecoveryKey = uuidv4();
-      const newRkdk = await deriveKeyFromPassword(newRecoveryKey, newVault.salts.recovery_salt);
+      const newRkdk = await deriveKeyFromPassword(
+        newRecoveryKey,
+        newVault.salts.recovery_salt,
+        DEFAULT_KDF_PARAMS
+      );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_recovery', DEFAULT_KDF_PARAMS);
       const newRecoveryIV = await this.generateIV();
       newVault.key_wraps.dk_wrapped_by_recovery = await this.encryptAES256GCM(
         dk,
@@ -377,7 +600,12 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
       newVault.salts.master_salt = await this.generateSalt();
 
-      const newPwdk = await deriveKeyFromPassword(newPassword, newVault.salts.master_salt);
+      const newPwdk = await deriveKeyFromPassword(
+        newPassword,
+        newVault.salts.master_salt,
+        DEFAULT_KDF_PARAMS
+      );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_password', DEFAULT_KDF_PARAMS);
       const newPasswordIV = await this.generateIV();
       newVault.key_wraps.dk_wrapped_by_password = await this.encryptAES256GCM(
         dk,
@@ -385,6 +613,9 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
         newPasswordIV
       );
 
+      // The biometric wrap belongs to the old password - it has to be enrolled again
+      delete newVault.key_wraps.dk_wrapped_by_biometric;
+
       newVault.updated_at = new Date().toISOString();
 
       return newVault;
@@ -416,8 +647,10 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       const normalizedAnswers = this.normalizeAnswers(answerStrings);
       const newSADK = await deriveKeyFromPassword(
         normalizedAnswers.combined,
-        newVault.salts.security_answer_salt
+        newVault.salts.security_answer_salt,
+        DEFAULT_KDF_PARAMS
       );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_security_ans', DEFAULT_KDF_PARAMS);
 
       const newSecurityIV = await this.generateIV();
       newVault.key_wraps.dk_wrapped_by_security_ans = await this.encryptAES256GCM(
@@ -441,6 +674,39 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
     }
   }
 
+  async rebuildVaultWithNewRecoveryKey(vault: Vault, dk: string): Promise<RecoveryResult> {
+    try {
+      if (dk.length !== 64) {
+        throw new Error('Invalid Data Key length');
+      }
+
+      const newVault = JSON.parse(JSON.stringify(vault)) as Vault;
+      newVault.salts.recovery_salt = await this.generateSalt();
+
+      const newRecoveryKey = uuidv4();
+      const newRkdk = await deriveKeyFromPassword(
+        newRecoveryKey,
+        newVault.salts.recovery_salt,
+        DEFAULT_KDF_PARAMS
+      );
+      setWrapKdfParams(newVault, 'dk_wrapped_by_recovery', DEFAULT_KDF_PARAMS);
+      const newRecoveryIV = await this.generateIV();
+      newVault.key_wraps.dk_wrapped_by_recovery = await this.encryptAES256GCM(
+        dk,
+        newRkdk,
+        newRecoveryIV
+      );
+
+      newVault.updated_at = new Date().toISOString();
+
+      return { newVault, newRecoveryKey };
+    } catch (error) {
+      throw new Error(
+        `Failed to rebuild vault with new recovery key: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   // ==================== Note Encryption/Decryption ====================
 
   async encryptNote(
@@ -453,6 +719,8 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
       mood?: string;
       tags?: string[];
       images?: string[];
+      notebookId?: string;
+      createdAt?: string;
     }
   ): Promise<EncryptedNote> {
     try {
@@ -466,6 +734,26 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
         encryptedTags = await this.encryptAES256GCM(tagsJSON, dk, tagsIV);
       }
 
+      const images = noteMetadata?.images ?? [];
+      let encryptedImages: string | undefined = undefined;
+      if (images.length > 0) {
+        const imagesIV = await this.generateIV();
+        encryptedImages = await this.encryptAES256GCM(JSON.stringify(images), dk, imagesIV);
+      }
+
+      const metadata: NoteMetadata = {
+        title: noteMetadata?.title,
+        mood: noteMetadata?.mood,
+        imageCount: images.length,
+        notebookId: noteMetadata?.notebookId,
+      };
+      const metadataIV = await this.generateIV();
+      const encryptedMetadata = await this.encryptAES256GCM(
+        JSON.stringify(metadata),
+        dk,
+        metadataIV
+      );
+
       const now = new Date().toISOString();
 
       return {
@@ -474,10 +762,9 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
         iv,
         content: encryptedContent,
         tags_encrypted: encryptedTags,
-        title: noteMetadata?.title,
-        mood: noteMetadata?.mood,
-        images: noteMetadata?.images,
-        created_at: now,
+        metadata_encrypted: encryptedMetadata,
+        images_encrypted: encryptedImages,
+        created_at: noteMetadata?.createdAt || now,
         updated_at: now,
       };
     } catch (error) {
@@ -513,6 +800,45 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
     }
   }
 
+  async decryptNoteMetadata(dk: string, encryptedNote: EncryptedNote): Promise<NoteMetadata> {
+    if (!encryptedNote.metadata_encrypted) {
+      // Legacy row: metadata was stored in plaintext
+      return {
+        title: encryptedNote.title,
+        mood: encryptedNote.mood,
+        imageCount: encryptedNote.images?.length ?? 0,
+        images: encryptedNote.images,
+      };
+    }
+
+    try {
+      const decryptedMetadata = await this.decryptAES256GCM(encryptedNote.metadata_encrypted, dk);
+      const metadata = JSON.parse(decryptedMetadata) as NoteMetadata;
+      return { ...metadata, imageCount: metadata.imageCount ?? metadata.images?.length ?? 0 };
+    } catch (error) {
+      throw new Error(
+        `Metadata decryption failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async decryptNoteImages(dk: string, encryptedNote: EncryptedNote): Promise<string[]> {
+    if (!encryptedNote.images_encrypted) {
+      // Older notes keep images inside the metadata blob (or in plaintext)
+      const metadata = await this.decryptNoteMetadata(dk, encryptedNote);
+      return metadata.images ?? [];
+    }
+
+    try {
+      const decryptedImages = await this.decryptAES256GCM(encryptedNote.images_encrypted, dk);
+      return JSON.parse(decryptedImages) as string[];
+    } catch (error) {
+      throw new Error(
+        `Image decryption failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   // ==================== Utility Methods ====================
 
   async verifySecurityAnswers(vault: Vault, qaPairs: QAPair[]): Promise<boolean> {
@@ -531,10 +857,10 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
   /**
    * Encrypt arbitrary data using AES-256-GCM
    */
-  async encryptData(dk: string, plaintext: string): Promise<string> {
+  async encryptData(dk: string, plaintext: string, associatedData?: string): Promise<string> {
     try {
       const iv = await this.generateIV();
-      return await this.encryptAES256GCM(plaintext, dk, iv);
+      return await this.encryptAES256GCM(plaintext, dk, iv, associatedData);
     } catch (error) {
       throw new Error(
         `Data encryption failed: ${error instanceof Error ? error.message : String(error)}`
@@ -545,9 +871,9 @@ class QuickCryptoCryptoServiceProvider implements CryptoServiceProvider {
   /**
    * Decrypt arbitrary data using AES-256-GCM
    */
-  async decryptData(dk: string, encryptedData: string): Promise<string> {
+  async decryptData(dk: string, encryptedData: string, associatedData?: string): Promise<string> {
     try {
-      return await this.decryptAES256GCM(encryptedData, dk);
+      return await this.decryptAES256GCM(encryptedData, dk, associatedData);
     } catch (error) {
       throw new Error(
         `Data decryption failed: ${error instanceof Error ? error.message : String(error)}`
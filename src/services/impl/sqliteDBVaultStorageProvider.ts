@@ -7,16 +7,120 @@
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SQLite from "expo-sqlite";
+import { v4 as uuidv4 } from "uuid";
 import APP_CONFIG from "../../config/appConfig";
-import { Journal } from "../../types";
-import { EncryptedNote } from "../../types/crypto";
+import {
+  BackupState,
+  ImportLogEntry,
+  ImportUndoResult,
+  IntegrityIssue,
+  IntegrityScan,
+  Journal,
+  JournalIndexEntry,
+  JournalPage,
+  JournalPageQuery,
+  JournalRevision,
+  JournalSummary,
+  KeyRotationBatch,
+  KeyRotationState,
+  LockoutState,
+  Notebook,
+  QuarantinedItem,
+  SearchHit,
+  SearchIndex,
+  SyncState,
+  TrashedJournal,
+} from "../../types";
+import { EncryptedNote, NoteMetadata } from "../../types/crypto";
 import { CryptoServiceProvider, getCryptoProvider } from "../cryptoServiceProvider";
+import {
+  addToSearchIndex,
+  buildSearchIndex,
+  removeFromSearchIndex,
+  searchIndex,
+  SEARCH_INDEX_VERSION,
+} from "../searchService";
+import {
+  applyRevision,
+  applyRevisionRetention,
+  createRevision,
+  hasVersionedChanges,
+} from "../revisionService";
+import { describeDecryptionFailure, isWellFormedCiphertext } from "../../utils/integrity";
+import { decodeJournalCursor, encodeJournalCursor } from "../../utils/journalPaging";
+import { getVaultDbName } from "../../utils/profileStorage";
+import { getTrashCutoff } from "../../utils/trash";
+import { runSchemaMigrations } from "./sqliteVaultMigrations";
 import { VaultStorageProvider } from "../vaultStorageProvider";
 
+/**
+ * Raw row of the journals table
+ * title / mood / images are only populated on legacy (pre-metadata-encryption) rows
+ * images_encrypted is not selected for summaries
+ * deleted_at is set while the journal is in the trash
+ */
+type JournalRow = {
+  id: string;
+  date: string;
+  iv: string;
+  content: string;
+  title: string;
+  mood: string;
+  tags_encrypted: string;
+  metadata_encrypted: string | null;
+  images_encrypted?: string | null;
+  images: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+};
+
+const JOURNAL_SUMMARY_COLUMNS =
+  "id, date, iv, content, title, mood, tags_encrypted, metadata_encrypted, images, created_at, updated_at";
+
+const JOURNAL_ROW_COLUMNS = `${JOURNAL_SUMMARY_COLUMNS}, images_encrypted`;
+
+// Every column of a journals row, for putting a row back exactly as it was
+const JOURNAL_STORED_COLUMNS = [...JOURNAL_ROW_COLUMNS.split(", "), "deleted_at"];
+
+/**
+ * Table and columns a quarantined row is taken from (and put back into)
+ */
+const QUARANTINE_TABLES: Record<string, { table: string; columns: string[] }> = {
+  journal: { table: "journals", columns: JOURNAL_STORED_COLUMNS },
+  trash: { table: "journals", columns: JOURNAL_STORED_COLUMNS },
+  revision: {
+    table: "journal_revisions",
+    columns: ["id", "journal_id", "saved_at", "revision_encrypted"],
+  },
+  notebook: { table: "notebooks", columns: ["id", "notebook_encrypted"] },
+};
+
+/**
+ * Values of a journals row, in JOURNAL_ROW_COLUMNS order
+ */
+const journalRowValues = (row: JournalRow): SQLite.SQLiteBindValue[] =>
+  JOURNAL_ROW_COLUMNS.split(", ").map((column) => row[column as keyof JournalRow] ?? null);
+
+/**
+ * A row as stored, for integrity reports (missing columns become null)
+ */
+const toRawRecord = (row: object): Record<string, string | null> => {
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [column, value == null ? null : String(value)]),
+  );
+};
+
+// Where the profile stamp was kept before the key took the usual "@" prefix
+const LEGACY_PROFILE_ID_KEY = `${APP_CONFIG.STORAGE_KEY_PREFIX}_profile_id`;
+
 class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
 
   static db: SQLite.SQLiteDatabase | null = null;
 
+  // Profile whose database `db` is
+  static profileId: string = APP_CONFIG.DEFAULT_PROFILE_ID;
+
   // --- Database Initialization ---
 
    CryptoManager:CryptoServiceProvider ;
@@ -24,6 +128,9 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
 
   static obj: SQLiteDBVaultStorageProvider | null = null;
 
+  // Decrypted search index, kept only for the Data Key it was opened with
+  private searchIndexCache: { dk: string; index: SearchIndex } | null = null;
+
   private constructor() {
     this.CryptoManager = getCryptoProvider();
   }
@@ -43,9 +150,11 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
   initializeStorage = async () => {
     try {
       // Open the database (creates if doesn't exist)
-      SQLiteDBVaultStorageProvider.db = await SQLite.openDatabaseAsync(APP_CONFIG.SQLITE_VAULT_DB_NAME);
+      SQLiteDBVaultStorageProvider.db = await SQLite.openDatabaseAsync(
+        getVaultDbName(SQLiteDBVaultStorageProvider.profileId),
+      );
 
-      // Create key-value store table
+      // Create key-value store table (outside the migrations - it holds the schema version)
       await SQLiteDBVaultStorageProvider.db.execAsync(`
       CREATE TABLE IF NOT EXISTS key_value_store (
         key TEXT PRIMARY KEY,
@@ -53,24 +162,12 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
         );
         `);
 
-      // Create journals table with per-note encryption
-      // Each row is one encrypted note with its own IV
-      await SQLiteDBVaultStorageProvider.db.execAsync(`
-          CREATE TABLE IF NOT EXISTS journals (
-            id TEXT PRIMARY KEY,
-            date TEXT,
-            iv TEXT,
-            content TEXT NOT NULL,
-            title TEXT,
-            mood TEXT,
-            tags_encrypted TEXT,
-            images TEXT,
-            created_at TEXT,
-            updated_at TEXT
-            );
-            `);
+      // Tables, columns and indexes are created by versioned migrations
+      const version = await runSchemaMigrations(SQLiteDBVaultStorageProvider.db);
 
-      console.log("Database initialized successfully");
+      await this.assertProfileOwnership();
+
+      console.log(`Database initialized successfully (schema v${version})`);
     } catch (error) {
       console.error("Error initializing database:", error);
       throw error;
@@ -81,7 +178,7 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
     try {
       if (SQLiteDBVaultStorageProvider.db != null) {
         await SQLiteDBVaultStorageProvider.db.closeAsync();
-        await SQLite.deleteDatabaseAsync(APP_CONFIG.SQLITE_VAULT_DB_NAME);
+        await SQLite.deleteDatabaseAsync(getVaultDbName(SQLiteDBVaultStorageProvider.profileId));
         console.log("Database Destroyed successfully");
         // Initialize a new database;
         await this.initializeStorage();
@@ -95,6 +192,68 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
     }
   };
 
+  /**
+   * Stamp the database with its profile on first open and refuse to use a
+   * database stamped for another profile (e.g. a file copied between profiles)
+   */
+  private assertProfileOwnership = async (): Promise<void> => {
+    const profileId = SQLiteDBVaultStorageProvider.profileId;
+    let owner = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.PROFILE_ID);
+
+    if (owner === null) {
+      owner = await this.getValue(LEGACY_PROFILE_ID_KEY);
+      if (owner !== null) {
+        await this.setValue(SQLiteDBVaultStorageProvider.KEYS.PROFILE_ID, owner);
+        await this.deleteValue(LEGACY_PROFILE_ID_KEY);
+      }
+    }
+
+    if (owner === null) {
+      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.PROFILE_ID, profileId);
+    } else if (owner !== profileId) {
+      await SQLiteDBVaultStorageProvider.db?.closeAsync();
+      SQLiteDBVaultStorageProvider.db = null;
+      throw new Error(`Vault database belongs to another profile (${owner})`);
+    }
+  };
+
+  /**
+   * Close the current profile's database and open another's
+   */
+  switchProfile = async (profileId: string): Promise<void> => {
+    if (SQLiteDBVaultStorageProvider.profileId === profileId && SQLiteDBVaultStorageProvider.db) {
+      return;
+    }
+
+    if (SQLiteDBVaultStorageProvider.db) {
+      await SQLiteDBVaultStorageProvider.db.closeAsync();
+      SQLiteDBVaultStorageProvider.db = null;
+    }
+    // Never carry decrypted state across profiles
+    this.searchIndexCache = null;
+    SQLiteDBVaultStorageProvider.profileId = profileId;
+
+    await this.initializeStorage();
+    console.log(`✅ Opened vault for profile ${profileId}`);
+  };
+
+  /**
+   * Delete another profile's database file
+   */
+  deleteProfileStorage = async (profileId: string): Promise<void> => {
+    if (profileId === SQLiteDBVaultStorageProvider.profileId) {
+      throw new Error("Switch to another profile before deleting this one");
+    }
+
+    try {
+      await SQLite.deleteDatabaseAsync(getVaultDbName(profileId));
+      console.log(`💥 Deleted vault for profile ${profileId}`);
+    } catch (error) {
+      // Profiles that were never set up have no database file
+      console.warn("Profile database not deleted:", error);
+    }
+  };
+
   // --- Helper for Key-Value Store ---
 
   setValue = async (key: string, value: string) => {
@@ -207,327 +366,1861 @@ class SQLiteDBVaultStorageProvider implements VaultStorageProvider {
     }
   };
 
-  // --- Journal Functions with Per-Note Encryption ---
+  // --- Unlock Throttling ---
 
-  /**
-   * Save a journal entry (encrypted per-note)
-   *
-   * @param journal - Journal object with text content
-   * @param dk - The Data Key for encryption
-   */
-  saveJournal = async (journal: Journal, dk: string): Promise<void> => {
+  getLockoutState = async (): Promise<LockoutState | null> => {
     try {
-      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      const stateStr = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.LOCKOUT_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as LockoutState;
+    } catch (error) {
+      console.error("Error retrieving lockout state:", error);
+      return null;
+    }
+  };
 
-      // Encrypt the note using CryptoManager
-      const encryptedNote = await this.CryptoManager.encryptNote(dk, journal.text, {
-        id: journal.id,
-        date: journal.date,
-        title: journal.title,
-        mood: journal.mood,
-        tags: [], // Can be extended to support tags
-        images: journal.images,
-      });
+  saveLockoutState = async (state: LockoutState | null): Promise<void> => {
+    try {
+      if (state) {
+        await this.setValue(SQLiteDBVaultStorageProvider.KEYS.LOCKOUT_STATE, JSON.stringify(state));
+      } else {
+        await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.LOCKOUT_STATE);
+      }
+    } catch (error) {
+      console.error("Error saving lockout state:", error);
+      throw new Error("Failed to save lockout state");
+    }
+  };
 
-      // Save encrypted note to database
-      await SQLiteDBVaultStorageProvider.db.runAsync(
-        `INSERT OR REPLACE INTO journals 
-       (id, date, iv, content, title, mood, tags_encrypted, images, created_at, updated_at) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          encryptedNote.id,
-          encryptedNote.date || "",
-          encryptedNote.iv,
-          encryptedNote.content,
-          encryptedNote.title || "",
-          encryptedNote.mood || "",
-          encryptedNote.tags_encrypted || "",
-          JSON.stringify(encryptedNote.images || []),
-          encryptedNote.created_at || new Date().toISOString(),
-          encryptedNote.updated_at || new Date().toISOString(),
-        ],
-      );
+  getKeyRotationState = async (): Promise<KeyRotationState | null> => {
+    try {
+      const stateStr = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.KEY_ROTATION);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as KeyRotationState;
     } catch (error) {
-      console.error("Error saving journal:", error);
-      throw new Error("Failed to save journal");
+      console.error("Error retrieving key rotation state:", error);
+      return null;
     }
   };
 
-  /**
-   * Get a single journal by ID (decrypted)
-   *
-   * @param id - Journal ID
-   * @param dk - The Data Key for decryption
-   * @returns Decrypted Journal object
-   */
-  getJournal = async (id: string, dk: string): Promise<Journal | null> => {
+  saveKeyRotationState = async (state: KeyRotationState | null): Promise<void> => {
     try {
-      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      if (state) {
+        await this.setValue(SQLiteDBVaultStorageProvider.KEYS.KEY_ROTATION, JSON.stringify(state));
+      } else {
+        await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.KEY_ROTATION);
+      }
+    } catch (error) {
+      console.error("Error saving key rotation state:", error);
+      throw new Error("Failed to save key rotation state");
+    }
+  };
 
-      const row = await SQLiteDBVaultStorageProvider.db.getFirstAsync<{
-        id: string;
-        date: string;
-        iv: string;
-        content: string;
-        title: string;
-        mood: string;
-        images: string;
-        created_at: string;
-        updated_at: string;
-      }>(
-        `SELECT id, date, iv, content, title, mood, images, created_at, updated_at 
-       FROM journals WHERE id = ?`,
-        [id],
-      );
+  getBackupState = async (): Promise<BackupState | null> => {
+    try {
+      const stateStr = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.BACKUP_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as BackupState;
+    } catch (error) {
+      console.error("Error retrieving backup state:", error);
+      return null;
+    }
+  };
 
-      if (!row) {
-        return null;
+  saveBackupState = async (state: BackupState | null): Promise<void> => {
+    try {
+      if (state) {
+        await this.setValue(SQLiteDBVaultStorageProvider.KEYS.BACKUP_STATE, JSON.stringify(state));
+      } else {
+        await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.BACKUP_STATE);
       }
+    } catch (error) {
+      console.error("Error saving backup state:", error);
+      throw new Error("Failed to save backup state");
+    }
+  };
 
-      const encryptedNoteObject: EncryptedNote = {
-        id: row.id,
-        date: row.date,
-        iv: row.iv,
-        content: row.content,
-        title: row.title,
-        mood: row.mood,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-      };
-
-      // Decrypt the content
-      const decryptedText = await this.CryptoManager.decryptNote(dk, encryptedNoteObject);
+  getSyncState = async (): Promise<SyncState | null> => {
+    try {
+      const stateStr = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.SYNC_STATE);
+      if (!stateStr) return null;
+      return JSON.parse(stateStr) as SyncState;
+    } catch (error) {
+      console.error("Error retrieving sync state:", error);
+      return null;
+    }
+  };
 
-      // Parse images if stored as JSON
-      let images: string[] = [];
-      if (row.images) {
-        try {
-          images = JSON.parse(row.images);
-        } catch {
-          images = [];
-        }
+  saveSyncState = async (state: SyncState | null): Promise<void> => {
+    try {
+      if (state) {
+        await this.setValue(SQLiteDBVaultStorageProvider.KEYS.SYNC_STATE, JSON.stringify(state));
+      } else {
+        await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.SYNC_STATE);
       }
-
-      return {
-        id: row.id,
-        date: row.date,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-        title: row.title,
-        text: decryptedText,
-        mood: row.mood,
-        images,
-      };
     } catch (error) {
-      console.error("Error getting journal:", error);
-      throw new Error("Failed to get journal - decryption failed");
+      console.error("Error saving sync state:", error);
+      throw new Error("Failed to save sync state");
     }
   };
 
+  // --- Imports ---
+
   /**
-   * List all journals (decrypted)
-   *
-   * @param dk - The Data Key for decryption
-   * @returns Array of decrypted Journal objects
+   * Ids of stored journals (trashed ones too) this key cannot open
    */
-  listJournals = async (dk: string): Promise<Journal[]> => {
+  listForeignJournalIds = async (dk: string): Promise<string[]> => {
     try {
-      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
 
-      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+      const rows = await db.getAllAsync<{
         id: string;
-        date: string;
-        iv: string;
-        content: string;
-        title: string;
-        mood: string;
-        images: string;
-        created_at: string;
-        updated_at: string;
-      }>(
-        `SELECT id, date, iv, content, title, mood, images, created_at, updated_at 
-       FROM journals ORDER BY date DESC`,
-      );
-
-      const journals: Journal[] = [];
+        tags_encrypted: string | null;
+        metadata_encrypted: string | null;
+      }>("SELECT id, tags_encrypted, metadata_encrypted FROM journals");
 
+      const foreign: string[] = [];
       for (const row of rows) {
-        try {
-          const noteObject: EncryptedNote = {
-            id: row.id,
-            date: row.date,
-            iv: row.iv,
-            content: row.content,
-            title: row.title,
-            mood: row.mood,
-            created_at: row.created_at,
-            updated_at: row.updated_at,
-          };
-
-          // Decrypt content
-          const decryptedText = await this.CryptoManager.decryptNote(dk, noteObject);
-
-          // Parse images
-          let images: string[] = [];
-          if (row.images) {
-            try {
-              images = JSON.parse(row.images);
-            } catch {
-              images = [];
-            }
-          }
-
-          journals.push({
-            id: row.id,
-            date: row.date,
-            createdAt: row.created_at,
-            updatedAt: row.updated_at,
-            title: row.title,
-            text: decryptedText,
-            mood: row.mood,
-            images,
-          });
-        } catch (decryptError) {
-          console.error(`Failed to decrypt journal ${row.id}:`, decryptError);
-          // Skip this journal on decryption error
-          continue;
-        }
+        if (!(await this.isSealedWith(row, dk))) foreign.push(row.id);
       }
-
-      return journals;
+      return foreign;
     } catch (error) {
-      console.error("Error listing journals:", error);
-      throw new Error("Failed to load journals - wrong password?");
+      console.error("Error listing journal ids:", error);
+      throw new Error("Failed to check existing journals");
     }
   };
 
   /**
-   * Delete a journal by ID
-   *
-   * @param id - Journal ID to delete
+   * Start a new import (drops anything staged by one that never finished)
    */
-  deleteJournal = async (id: string): Promise<void> => {
+  beginImport = async (): Promise<void> => {
     try {
       if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
-
-      await SQLiteDBVaultStorageProvider.db.runAsync("DELETE FROM journals WHERE id = ?", [id]);
+      await SQLiteDBVaultStorageProvider.db.runAsync("DELETE FROM import_staging");
     } catch (error) {
-      console.error("Error deleting journal:", error);
-      throw new Error("Failed to delete journal");
+      console.error("Error starting import:", error);
+      throw new Error("Failed to start import");
     }
   };
 
   /**
-   * Re-encrypt all journals with a new Data Key
-   * Used when user changes password/recovery method
-   *
-   * @param oldDk - Current Data Key
-   * @param newDk - New Data Key
+   * Seal journals into the staging table - nothing is visible in the vault yet
    */
-  reEncryptAllJournals = async (
-    oldDk: string,
-    newDk: string,
-  ): Promise<void> => {
+  stageImportJournals = async (journals: Journal[], dk: string): Promise<void> => {
     try {
-      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
 
-      // Get all encrypted journals
-      const journals = await this.listJournals(oldDk);
-
-      // Re-encrypt each journal with new DK
       for (const journal of journals) {
-        const encryptedNote = await this.CryptoManager.encryptNote(newDk, journal.text, {
-          id: journal.id,
-          date: journal.date,
-          title: journal.title,
-          mood: journal.mood,
-          images: journal.images,
-        });
-
-        await SQLiteDBVaultStorageProvider.db.runAsync(
-          `UPDATE journals 
-         SET iv = ?, content = ?, updated_at = ? 
-         WHERE id = ?`,
-          [
-            encryptedNote.iv,
-            encryptedNote.content,
-            new Date().toISOString(),
-            journal.id,
-          ],
+        // Keep the file's timestamps - keep-newer compares updated_at on the next import
+        const row: JournalRow = {
+          ...(await this.sealJournalRow(journal, dk)),
+          created_at: journal.createdAt || journal.date,
+          updated_at: journal.updatedAt || journal.createdAt || journal.date,
+        };
+        await db.runAsync(
+          `INSERT OR REPLACE INTO import_staging (${JOURNAL_ROW_COLUMNS})
+           VALUES (${JOURNAL_ROW_COLUMNS.split(", ").map(() => "?").join(", ")})`,
+          journalRowValues(row),
         );
       }
     } catch (error) {
-      console.error("Error re-encrypting journals:", error);
-      throw new Error("Failed to re-encrypt journals");
+      console.error("Error staging import:", error);
+      throw new Error("Failed to stage imported journals");
     }
   };
 
   /**
-   * Get journal count (useful for UI)
+   * Move every staged journal into the vault in one transaction, keeping the
+   * rows they replace for undo. The search index is rebuilt on next search.
+   * Staged journals whose id belongs to another key's journal are left out.
    *
-   * @returns Number of journals
+   * @param source - What was imported, for the log
    */
-  getJournalCount = async (): Promise<number> => {
+  commitImport = async (source: string, dk: string): Promise<ImportLogEntry> => {
     try {
-      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
 
-      const result = await SQLiteDBVaultStorageProvider.db.getFirstAsync<{ count: number }>(
-        "SELECT COUNT(*) as count FROM journals",
+      const staged = await db.getAllAsync<{ id: string; iv: string }>(
+        "SELECT id, iv FROM import_staging",
       );
+      if (staged.length === 0) throw new Error("Nothing staged");
+
+      const earlier = await this.readImportLog(dk);
+      const entry: ImportLogEntry = {
+        id: uuidv4(),
+        importedAt: new Date().toISOString(),
+        source,
+        added: 0,
+        replaced: 0,
+        canUndo: true,
+      };
 
-      return result?.count ?? 0;
+      await db.withTransactionAsync(async () => {
+        // Only the last import can be undone
+        for (const previousImport of earlier) {
+          await db.runAsync("DELETE FROM import_undo WHERE import_id = ?", [previousImport.id]);
+        }
+
+        for (const { id, iv } of staged) {
+          const previous = await db.getFirstAsync<JournalRow>(
+            `SELECT ${JOURNAL_STORED_COLUMNS.join(", ")} FROM journals WHERE id = ?`,
+            [id],
+          );
+          if (previous && !(await this.isSealedWith(previous, dk))) {
+            await db.runAsync("DELETE FROM import_staging WHERE id = ?", [id]);
+            continue;
+          }
+          if (previous) entry.replaced++;
+          else entry.added++;
+          await db.runAsync(
+            `INSERT INTO import_undo (import_id, journal_id, imported_iv, previous_row)
+             VALUES (?, ?, ?, ?)`,
+            [entry.id, id, iv, previous ? JSON.stringify(previous) : null],
+          );
+        }
+
+        await db.runAsync(
+          `INSERT OR REPLACE INTO journals (${JOURNAL_ROW_COLUMNS})
+           SELECT ${JOURNAL_ROW_COLUMNS} FROM import_staging`,
+        );
+        await db.runAsync("DELETE FROM import_staging");
+
+        const { canUndo, ...logged } = entry;
+        await db.runAsync(
+          "INSERT INTO import_log (id, imported_at, log_encrypted) VALUES (?, ?, ?)",
+          [entry.id, entry.importedAt, await this.CryptoManager.encryptData(dk, JSON.stringify(logged))],
+        );
+        for (const old of earlier.slice(APP_CONFIG.IMPORT_LOG_LIMIT - 1)) {
+          await db.runAsync("DELETE FROM import_log WHERE id = ?", [old.id]);
+        }
+      });
+
+      await this.dropSearchIndex();
+      return entry;
     } catch (error) {
-      console.error("Error getting journal count:", error);
-      return 0;
+      console.error("Error committing import:", error);
+      throw new Error("Failed to import journals - nothing was changed");
+    }
+  };
+
+  discardImport = async (): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+      await SQLiteDBVaultStorageProvider.db.runAsync("DELETE FROM import_staging");
+    } catch (error) {
+      console.error("Error discarding import:", error);
     }
   };
 
   /**
-   * Clear all app data (for testing or reset)
+   * This key's imports, newest first
    */
-  clearAllData = async (): Promise<void> => {
+  listImportLog = async (dk: string): Promise<ImportLogEntry[]> => {
     try {
-      await this.DestroyAndReInitializeDatabase();
-      // if (!SQLiteBackend.db) throw new Error('Database not initialized');
-      // await SQLiteBackend.db.execAsync('DELETE FROM journals; DELETE FROM key_value_store;');
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const undoable = new Set(
+        (await db.getAllAsync<{ import_id: string }>("SELECT DISTINCT import_id FROM import_undo")).map(
+          (row) => row.import_id,
+        ),
+      );
+      return (await this.readImportLog(dk)).map((entry) => ({
+        ...entry,
+        canUndo: !entry.undoneAt && undoable.has(entry.id),
+      }));
     } catch (error) {
-      console.error("Error clearing data:", error);
-      throw new Error("Failed to clear data");
+      console.error("Error listing imports:", error);
+      throw new Error("Failed to load import log");
     }
   };
 
   /**
-   * Migration helper: Migrate old AsyncStorage format to new SQLite + per-note encryption
-   * (Run once on app startup for backward compatibility)
+   * Remove what the last import added and put back what it replaced, in one
+   * transaction. Journals changed or deleted since the import are left alone.
    */
-  migrateFromAsyncStorage = async (dk: string): Promise<void> => {
-    const isMigrated = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.MIGRATION_COMPLETE_V1);
-    if (isMigrated) {
-      return;
+  undoLastImport = async (dk: string): Promise<ImportUndoResult> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const [last] = await this.readImportLog(dk);
+      const rows = last
+        ? await db.getAllAsync<{ journal_id: string; imported_iv: string; previous_row: string | null }>(
+            "SELECT journal_id, imported_iv, previous_row FROM import_undo WHERE import_id = ?",
+            [last.id],
+          )
+        : [];
+      if (!last || last.undoneAt || rows.length === 0) throw new Error("Nothing to undo");
+
+      const result: ImportUndoResult = { removed: 0, restored: 0, kept: 0 };
+      await db.withTransactionAsync(async () => {
+        for (const row of rows) {
+          // Every save seals with a fresh IV, so a different IV means it was changed
+          const current = await db.getFirstAsync<{ iv: string; deleted_at: string | null }>(
+            "SELECT iv, deleted_at FROM journals WHERE id = ?",
+            [row.journal_id],
+          );
+          if (!current || current.iv !== row.imported_iv || current.deleted_at) {
+            result.kept++;
+          } else if (row.previous_row) {
+            const previous = JSON.parse(row.previous_row) as Record<string, string | null>;
+            await db.runAsync(
+              `INSERT OR REPLACE INTO journals (${JOURNAL_STORED_COLUMNS.join(", ")})
+               VALUES (${JOURNAL_STORED_COLUMNS.map(() => "?").join(", ")})`,
+              JOURNAL_STORED_COLUMNS.map((column) => previous[column] ?? null),
+            );
+            result.restored++;
+          } else {
+            await db.runAsync("DELETE FROM journals WHERE id = ?", [row.journal_id]);
+            result.removed++;
+          }
+        }
+
+        await db.runAsync("DELETE FROM import_undo WHERE import_id = ?", [last.id]);
+        const undone = { ...last, undoneAt: new Date().toISOString() };
+        await db.runAsync("UPDATE import_log SET log_encrypted = ? WHERE id = ?", [
+          await this.CryptoManager.encryptData(dk, JSON.stringify(undone)),
+          last.id,
+        ]);
+      });
+
+      await this.dropSearchIndex();
+      return result;
+    } catch (error) {
+      console.error("Error undoing import:", error);
+      throw new Error("Failed to undo the last import");
+    }
+  };
+
+  /**
+   * Log entries sealed with this key, newest first (canUndo is left for the caller)
+   */
+  private readImportLog = async (dk: string): Promise<Omit<ImportLogEntry, "canUndo">[]> => {
+    if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+    const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{ log_encrypted: string }>(
+      "SELECT log_encrypted FROM import_log ORDER BY imported_at DESC",
+    );
+    const entries: Omit<ImportLogEntry, "canUndo">[] = [];
+    for (const row of rows) {
+      try {
+        entries.push(JSON.parse(await this.CryptoManager.decryptData(dk, row.log_encrypted)));
+      } catch {
+        // Another Data Key's import (the decoy slot)
+      }
     }
+    return entries;
+  };
+
+  // --- Journal Functions with Per-Note Encryption ---
 
+  /**
+   * Save a journal entry (encrypted per-note)
+   *
+   * @param journal - Journal object with text content
+   * @param dk - The Data Key for encryption
+   */
+  saveJournal = async (journal: Journal, dk: string): Promise<void> => {
     try {
-      // Check if old format exists in AsyncStorage
-      const oldJournalsStr = await AsyncStorage.getItem(
-        APP_CONFIG.STORAGE_KEYS.JOURNALS,
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      // Keep the version being overwritten
+      await this.captureRevision(journal, dk);
+
+      // Save encrypted note to database
+      const row = await this.sealJournalRow(journal, dk);
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        `INSERT OR REPLACE INTO journals (${JOURNAL_ROW_COLUMNS})
+       VALUES (${JOURNAL_ROW_COLUMNS.split(", ").map(() => "?").join(", ")})`,
+        journalRowValues(row),
       );
-      if (oldJournalsStr) {
-        // This would be old encrypted format
-        // You'd need the old key to decrypt if it was encrypted
-        console.log(
-          "Old journal format detected - manual migration may be needed",
-        );
-      }
 
-      // Mark migration as complete
-      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.MIGRATION_COMPLETE_V1, "true");
-      console.log("Migration check complete");
+      await this.updateSearchIndex(dk, (index) => addToSearchIndex(index, journal));
     } catch (error) {
-      console.error("Migration error:", error);
-      // Don't throw - allow app to continue
+      console.error("Error saving journal:", error);
+      throw new Error("Failed to save journal");
     }
   };
 
+  /**
+   * Get a single journal by ID (decrypted)
+   *
+   * @param id - Journal ID
+   * @param dk - The Data Key for decryption
+   * @returns Decrypted Journal object
+   */
+  getJournal = async (id: string, dk: string): Promise<Journal | null> => {
+    let row: JournalRow | null = null;
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      row = await SQLiteDBVaultStorageProvider.db.getFirstAsync<JournalRow>(
+        `SELECT ${JOURNAL_ROW_COLUMNS} FROM journals WHERE id = ?`,
+        [id],
+      );
+
+      if (!row) {
+        return null;
+      }
+
+      return await this.decryptJournalRow(row, dk);
+    } catch (error) {
+      console.error("Error getting journal:", error);
+      // Metadata that opens while the rest does not means the row itself is damaged
+      if (row && (row.metadata_encrypted || row.tags_encrypted) && (await this.isSealedWith(row, dk))) {
+        throw new Error("Journal is damaged - run Check Vault Integrity in Settings");
+      }
+      throw new Error("Failed to get journal - decryption failed");
+    }
+  };
+
+  /**
+   * List all journals (decrypted)
+   *
+   * @param dk - The Data Key for decryption
+   * @returns Array of decrypted Journal objects
+   */
+  listJournals = async (dk: string): Promise<Journal[]> => {
+    try {
+      return await this.listJournalsWhere("deleted_at IS NULL", dk);
+    } catch (error) {
+      console.error("Error listing journals:", error);
+      throw new Error("Failed to load journals - wrong password?");
+    }
+  };
+
+  /**
+   * Decrypt every journal row matching a (constant) SQL condition, newest first
+   */
+  private listJournalsWhere = async (condition: string, dk: string): Promise<Journal[]> => {
+    if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+    const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<JournalRow>(
+      `SELECT ${JOURNAL_ROW_COLUMNS} FROM journals WHERE ${condition} ORDER BY date DESC`,
+    );
+
+    const journals: Journal[] = [];
+
+    for (const row of rows) {
+      try {
+        journals.push(await this.decryptJournalRow(row, dk));
+      } catch {
+        // Another key's journal (or unreadable) - skip it
+        continue;
+      }
+    }
+
+    return journals;
+  };
+
+  /**
+   * List one page of journals without images, newest first
+   *
+   * @param dk - The Data Key for decryption
+   * @param query - Date range, id filter and cursor
+   * @returns Page of decrypted summaries and the cursor for the next page
+   */
+  listJournalSummaries = async (
+    dk: string,
+    query: JournalPageQuery = {},
+  ): Promise<JournalPage> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const limit = query.limit ?? APP_CONFIG.JOURNAL_PAGE_SIZE;
+      const where: string[] = ["deleted_at IS NULL"];
+      const params: SQLite.SQLiteBindValue[] = [];
+
+      if (query.from) {
+        where.push("date >= ?");
+        params.push(query.from);
+      }
+      if (query.to) {
+        where.push("date < ?");
+        params.push(query.to);
+      }
+      if (query.ids) {
+        if (query.ids.length === 0) return { items: [], nextCursor: null };
+        where.push(`id IN (${query.ids.map(() => "?").join(", ")})`);
+        params.push(...query.ids);
+      }
+      let cursor = decodeJournalCursor(query.cursor);
+      let hasMore = true;
+      const items: JournalSummary[] = [];
+
+      // Rows sealed with another key (the decoy slot, a protected notebook) and rows
+      // of other notebooks are skipped, so keep reading batches until the page is
+      // full or the rows run out
+      while (hasMore && items.length < limit) {
+        const batchWhere = [...where];
+        const batchParams = [...params];
+        if (cursor) {
+          batchWhere.push("(date < ? OR (date = ? AND id < ?))");
+          batchParams.push(cursor.date, cursor.date, cursor.id);
+        }
+
+        // One extra row tells us whether another batch exists
+        const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<JournalRow>(
+          `SELECT ${JOURNAL_SUMMARY_COLUMNS} FROM journals
+           WHERE ${batchWhere.join(" AND ")}
+           ORDER BY date DESC, id DESC
+           LIMIT ?`,
+          [...batchParams, limit + 1],
+        );
+        hasMore = rows.length > limit;
+
+        const batchRows = rows.slice(0, limit);
+        for (const [i, row] of batchRows.entries()) {
+          cursor = { date: row.date, id: row.id };
+          try {
+            const summary = await this.decryptJournalSummaryRow(row, dk);
+            // The notebook is sealed inside the metadata, so filter after decrypting
+            if (query.notebookId !== undefined && summary.notebookId !== query.notebookId) {
+              continue;
+            }
+            items.push(summary);
+          } catch {
+            // Another key's journal (or unreadable) - skip it
+            continue;
+          }
+          if (items.length === limit) {
+            hasMore = i < rows.length - 1;
+            break;
+          }
+        }
+      }
+
+      return {
+        items,
+        nextCursor: hasMore && cursor ? encodeJournalCursor(cursor) : null,
+      };
+    } catch (error) {
+      console.error("Error listing journal page:", error);
+      throw new Error("Failed to load journals - wrong password?");
+    }
+  };
+
+  /**
+   * Id, date, tags and notebook of every journal (only the small tags and
+   * metadata blobs are decrypted)
+   *
+   * @param dk - The Data Key for decrypting tags
+   * @returns Entries newest first
+   */
+  listJournalIndex = async (dk: string): Promise<JournalIndexEntry[]> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+        id: string;
+        date: string;
+        tags_encrypted: string | null;
+        metadata_encrypted: string | null;
+      }>(
+        `SELECT id, date, tags_encrypted, metadata_encrypted FROM journals
+         WHERE deleted_at IS NULL ORDER BY date DESC, id DESC`,
+      );
+
+      const entries: JournalIndexEntry[] = [];
+      for (const row of rows) {
+        let tags: string[] = [];
+        let notebookId: string | undefined;
+        try {
+          if (row.tags_encrypted) {
+            tags = JSON.parse(await this.CryptoManager.decryptData(dk, row.tags_encrypted));
+          }
+          if (row.metadata_encrypted) {
+            const metadata: NoteMetadata = JSON.parse(
+              await this.CryptoManager.decryptData(dk, row.metadata_encrypted),
+            );
+            notebookId = metadata.notebookId;
+          }
+        } catch {
+          // Sealed with another key (the decoy slot or a protected notebook) - not in this view
+          continue;
+        }
+        entries.push({ id: row.id, date: row.date, tags, notebookId });
+      }
+
+      return entries;
+    } catch (error) {
+      console.error("Error listing journal index:", error);
+      throw new Error("Failed to load journals - wrong password?");
+    }
+  };
+
+  /**
+   * True when a row belongs to the given key (decoy and protected-notebook
+   * journals share the table). Only a small blob is tried - the metadata, or the
+   * tags on rows older than it; legacy rows with neither are assumed to match.
+   */
+  private isSealedWith = async (
+    row: { tags_encrypted: string | null; metadata_encrypted: string | null },
+    dk: string,
+  ): Promise<boolean> => {
+    const probe = row.metadata_encrypted || row.tags_encrypted;
+    if (!probe) return true;
+    try {
+      await this.CryptoManager.decryptData(dk, probe);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Map a journals row to EncryptedNote (parsing legacy plaintext images)
+   */
+  private rowToEncryptedNote = (row: JournalRow): EncryptedNote => {
+    let legacyImages: string[] = [];
+    if (row.images) {
+      try {
+        legacyImages = JSON.parse(row.images);
+      } catch {
+        legacyImages = [];
+      }
+    }
+
+    return {
+      id: row.id,
+      date: row.date,
+      iv: row.iv,
+      content: row.content,
+      tags_encrypted: row.tags_encrypted || undefined,
+      metadata_encrypted: row.metadata_encrypted || undefined,
+      images_encrypted: row.images_encrypted || undefined,
+      title: row.title,
+      mood: row.mood,
+      images: legacyImages,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  };
+
+  /**
+   * Decrypt a journals row (content + metadata) into a Journal
+   */
+  private decryptJournalRow = async (row: JournalRow, dk: string): Promise<Journal> => {
+    const summary = await this.decryptJournalSummaryRow(row, dk);
+    const { imageCount, ...journal } = summary;
+
+    const images =
+      imageCount > 0
+        ? await this.CryptoManager.decryptNoteImages(dk, this.rowToEncryptedNote(row))
+        : [];
+
+    return { ...journal, images };
+  };
+
+  /**
+   * Decrypt a journals row without touching its images
+   */
+  private decryptJournalSummaryRow = async (
+    row: JournalRow,
+    dk: string,
+  ): Promise<JournalSummary> => {
+    const noteObject = this.rowToEncryptedNote(row);
+
+    const decryptedText = await this.CryptoManager.decryptNote(dk, noteObject);
+    const metadata = await this.CryptoManager.decryptNoteMetadata(dk, noteObject);
+    const tags = await this.CryptoManager.decryptNoteTags(dk, noteObject);
+
+    return {
+      id: row.id,
+      date: row.date,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      title: metadata.title || undefined,
+      text: decryptedText,
+      mood: metadata.mood || undefined,
+      tags,
+      imageCount: metadata.imageCount ?? 0,
+      notebookId: metadata.notebookId,
+    };
+  };
+
+  /**
+   * Delete a journal by ID
+   *
+   * @param id - Journal ID to delete
+   * @param dk - The Data Key, used to update the search index
+   */
+  deleteJournal = async (id: string, dk?: string): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      await SQLiteDBVaultStorageProvider.db.runAsync("DELETE FROM journals WHERE id = ?", [id]);
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        "DELETE FROM journal_revisions WHERE journal_id = ?",
+        [id],
+      );
+
+      if (dk) {
+        await this.updateSearchIndex(dk, (index) => removeFromSearchIndex(index, id));
+      } else {
+        // Can't re-encrypt without the key - drop the index so it is rebuilt on next search
+        await this.dropSearchIndex();
+      }
+    } catch (error) {
+      console.error("Error deleting journal:", error);
+      throw new Error("Failed to delete journal");
+    }
+  };
+
+  /**
+   * Re-encrypt all journals with a new Data Key
+   * Used when user changes password/recovery method
+   *
+   * @param oldDk - Current Data Key
+   * @param newDk - New Data Key
+   */
+  reEncryptAllJournals = async (
+    oldDk: string,
+    newDk: string,
+  ): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      // Get all encrypted journals (trashed ones too)
+      const journals = await this.listJournalsWhere("deleted_at IS NULL", oldDk);
+      const trashed = await this.listJournalsWhere("deleted_at IS NOT NULL", oldDk);
+
+      // Re-encrypt each journal with new DK
+      for (const journal of [...journals, ...trashed]) {
+        await this.resealJournal(journal, newDk, new Date().toISOString());
+      }
+
+      // Revisions and the index were sealed with the old key
+      await this.resealRevisions(
+        "SELECT id, revision_encrypted FROM journal_revisions",
+        [],
+        oldDk,
+        newDk,
+      );
+
+      // Journals of protected notebooks stay sealed with their Notebook Key
+      for (const notebook of await this.listNotebooks(oldDk)) {
+        await this.saveNotebook(notebook, newDk);
+      }
+
+      const index = buildSearchIndex(journals);
+      await this.persistSearchIndex(newDk, index);
+    } catch (error) {
+      console.error("Error re-encrypting journals:", error);
+      throw new Error("Failed to re-encrypt journals");
+    }
+  };
+
+  /**
+   * Move journals (trashed ones and their revisions too) from one key to another
+   * Used when a notebook passphrase is added or removed.
+   *
+   * @param ids - Journals to move
+   * @param oldKey - Key they are sealed with now
+   * @param newKey - Key to seal them with
+   */
+  reEncryptJournals = async (ids: string[], oldKey: string, newKey: string): Promise<void> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+      if (ids.length === 0) return;
+
+      const placeholders = ids.map(() => "?").join(", ");
+      const rows = await db.getAllAsync<JournalRow>(
+        `SELECT ${JOURNAL_ROW_COLUMNS}, deleted_at FROM journals WHERE id IN (${placeholders})`,
+        ids,
+      );
+
+      const active: Journal[] = [];
+      for (const row of rows) {
+        const journal = await this.decryptJournalRow(row, oldKey);
+        // Re-sealing is not an edit - keep the timestamp
+        await this.resealJournal(journal, newKey, row.updated_at);
+        if (!row.deleted_at) active.push(journal);
+      }
+
+      await this.resealRevisions(
+        `SELECT id, revision_encrypted FROM journal_revisions WHERE journal_id IN (${placeholders})`,
+        ids,
+        oldKey,
+        newKey,
+      );
+
+      await this.updateSearchIndex(oldKey, (index) =>
+        ids.forEach((id) => removeFromSearchIndex(index, id)),
+      );
+      await this.updateSearchIndex(newKey, (index) =>
+        active.forEach((journal) => addToSearchIndex(index, journal)),
+      );
+    } catch (error) {
+      console.error("Error moving journals to another key:", error);
+      throw new Error("Failed to re-encrypt journals");
+    }
+  };
+
+  /**
+   * Re-seal the next batch of journals (trashed ones too) from the old Data Key
+   * to the new one, in id order. Rows that no longer open with the old key -
+   * already re-sealed, or another key's - are skipped, so batches can be repeated.
+   *
+   * @param cursor - Last id of the previous batch (null to start)
+   * @param limit - Rows to check in this batch
+   */
+  reEncryptJournalBatch = async (
+    oldKey: string,
+    newKey: string,
+    cursor: string | null,
+    limit: number,
+  ): Promise<KeyRotationBatch> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const rows = await db.getAllAsync<JournalRow>(
+        `SELECT ${JOURNAL_ROW_COLUMNS}, deleted_at FROM journals WHERE id > ? ORDER BY id LIMIT ?`,
+        [cursor ?? "", limit],
+      );
+
+      for (const row of rows) {
+        if (!(await this.isSealedWith(row, oldKey))) continue;
+        try {
+          const journal = await this.decryptJournalRow(row, oldKey);
+          await this.resealJournal(journal, newKey, row.updated_at);
+        } catch (error) {
+          // A damaged row must not block the rotation; it keeps its old sealing
+          console.error(`Skipping unreadable journal ${row.id} during key rotation:`, error);
+        }
+      }
+
+      const nextCursor = rows.length > 0 ? rows[rows.length - 1].id : cursor;
+      const counts = await db.getFirstAsync<{ total: number; processed: number }>(
+        "SELECT COUNT(*) as total, SUM(CASE WHEN id <= ? THEN 1 ELSE 0 END) as processed FROM journals",
+        [nextCursor ?? ""],
+      );
+
+      return {
+        cursor: nextCursor,
+        processed: counts?.processed ?? 0,
+        total: counts?.total ?? 0,
+        done: rows.length < limit,
+      };
+    } catch (error) {
+      console.error("Error re-encrypting journal batch:", error);
+      throw new Error("Failed to re-encrypt journals");
+    }
+  };
+
+  /**
+   * Re-seal everything besides the journals: revisions, notebooks, the import log
+   * and the search index
+   */
+  finishKeyRotation = async (oldKey: string, newKey: string): Promise<void> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      await this.resealRevisions(
+        "SELECT id, revision_encrypted FROM journal_revisions",
+        [],
+        oldKey,
+        newKey,
+      );
+
+      // listNotebooks skips rows already sealed with the new key
+      for (const notebook of await this.listNotebooks(oldKey)) {
+        await this.saveNotebook(notebook, newKey);
+      }
+
+      // The journals were re-sealed, so undo could no longer tell them from later
+      // edits - the log is kept, its undo data is not
+      for (const entry of await this.readImportLog(oldKey)) {
+        await db.runAsync("DELETE FROM import_undo WHERE import_id = ?", [entry.id]);
+        await db.runAsync("UPDATE import_log SET log_encrypted = ? WHERE id = ?", [
+          await this.CryptoManager.encryptData(newKey, JSON.stringify(entry)),
+          entry.id,
+        ]);
+      }
+
+      this.searchIndexCache = null;
+      await this.removeSearchIndexSegment(oldKey);
+      await this.rebuildSearchIndex(newKey);
+    } catch (error) {
+      console.error("Error finishing key rotation:", error);
+      throw new Error("Failed to finish key rotation");
+    }
+  };
+
+  /**
+   * A journals row for `journal` sealed with `dk`
+   * Plaintext title/mood/images columns are kept empty; metadata lives in metadata_encrypted.
+   * The creation time is the journal's, else the stored row's - only new rows get now.
+   */
+  private sealJournalRow = async (journal: Journal, dk: string): Promise<JournalRow> => {
+    let createdAt: string | undefined = journal.createdAt;
+    if (!createdAt && journal.id && SQLiteDBVaultStorageProvider.db) {
+      const existing = await SQLiteDBVaultStorageProvider.db.getFirstAsync<{ created_at: string }>(
+        "SELECT created_at FROM journals WHERE id = ?",
+        [journal.id],
+      );
+      createdAt = existing?.created_at;
+    }
+
+    const encryptedNote = await this.CryptoManager.encryptNote(dk, journal.text, {
+      id: journal.id,
+      date: journal.date,
+      title: journal.title,
+      mood: journal.mood,
+      tags: journal.tags ?? [],
+      images: journal.images,
+      notebookId: journal.notebookId,
+      createdAt,
+    });
+    return {
+      id: encryptedNote.id,
+      date: encryptedNote.date || "",
+      iv: encryptedNote.iv,
+      content: encryptedNote.content,
+      title: "",
+      mood: "",
+      tags_encrypted: encryptedNote.tags_encrypted || "",
+      metadata_encrypted: encryptedNote.metadata_encrypted || "",
+      images_encrypted: encryptedNote.images_encrypted || "",
+      images: "[]",
+      created_at: encryptedNote.created_at || new Date().toISOString(),
+      updated_at: encryptedNote.updated_at || new Date().toISOString(),
+    };
+  };
+
+  /**
+   * Overwrite a journal row's sealed columns with `journal` sealed under `key`
+   */
+  private resealJournal = async (journal: Journal, key: string, updatedAt: string) => {
+    if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+    const encryptedNote = await this.CryptoManager.encryptNote(key, journal.text, {
+      id: journal.id,
+      date: journal.date,
+      title: journal.title,
+      mood: journal.mood,
+      tags: journal.tags,
+      images: journal.images,
+      notebookId: journal.notebookId,
+    });
+
+    await SQLiteDBVaultStorageProvider.db.runAsync(
+      `UPDATE journals 
+     SET iv = ?, content = ?, tags_encrypted = ?, metadata_encrypted = ?, images_encrypted = ?,
+         title = '', mood = '', images = '[]', updated_at = ? 
+     WHERE id = ?`,
+      [
+        encryptedNote.iv,
+        encryptedNote.content,
+        encryptedNote.tags_encrypted || "",
+        encryptedNote.metadata_encrypted || "",
+        encryptedNote.images_encrypted || "",
+        updatedAt,
+        journal.id,
+      ],
+    );
+  };
+
+  /**
+   * Re-encrypt the revision rows selected by `query` that open with `oldKey`
+   */
+  private resealRevisions = async (
+    query: string,
+    params: SQLite.SQLiteBindValue[],
+    oldKey: string,
+    newKey: string,
+  ) => {
+    if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+    const revisionRows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+      id: string;
+      revision_encrypted: string;
+    }>(query, params);
+    for (const row of revisionRows) {
+      let plaintext: string;
+      try {
+        plaintext = await this.CryptoManager.decryptData(oldKey, row.revision_encrypted);
+      } catch {
+        // Belongs to another key (the decoy slot or a protected notebook)
+        continue;
+      }
+      const reEncrypted = await this.CryptoManager.encryptData(newKey, plaintext);
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        "UPDATE journal_revisions SET revision_encrypted = ? WHERE id = ?",
+        [reEncrypted, row.id],
+      );
+    }
+  };
+
+  // --- Integrity ---
+
+  /**
+   * Check the sealed columns of every journal, revision and notebook row
+   *
+   * A row's key is the first given key that opens one of its columns; all its
+   * other columns must open with that key too. Rows none of the keys open are
+   * only checked for well-formed ciphertext - another key's row looks just like
+   * a row that is damaged throughout.
+   *
+   * @param keys - Keys to try, the Data Key first (then e.g. unlocked notebook keys)
+   */
+  scanIntegrity = async (keys: string[]): Promise<IntegrityScan> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const scan: IntegrityScan = { checked: 0, unverified: 0, issues: [] };
+      const record = (
+        result: { key: string | null; problems: string[] },
+        item: Omit<IntegrityIssue, "problems">,
+      ) => {
+        if (result.problems.length > 0) {
+          scan.issues.push({ ...item, problems: result.problems });
+        } else if (result.key) {
+          scan.checked++;
+        } else {
+          scan.unverified++;
+        }
+      };
+
+      // Journals, trash included; remember each one's key for its revisions
+      const journalKeys = new Map<string, string>();
+      const rows = await db.getAllAsync<JournalRow>(
+        `SELECT ${JOURNAL_ROW_COLUMNS}, deleted_at FROM journals ORDER BY date DESC, id DESC`,
+      );
+      for (const row of rows) {
+        const result = await this.checkSealedColumns(
+          {
+            metadata: row.metadata_encrypted,
+            tags: row.tags_encrypted,
+            content: row.content,
+          },
+          { images: row.images_encrypted },
+          keys,
+        );
+        if (result.key) journalKeys.set(row.id, result.key);
+        record(result, {
+          id: row.id,
+          kind: row.deleted_at ? "trash" : "journal",
+          label: `Journal of ${row.date}`,
+          raw: toRawRecord(row),
+        });
+      }
+
+      const revisionRows = await db.getAllAsync<{
+        id: string;
+        journal_id: string;
+        saved_at: string;
+        revision_encrypted: string;
+      }>("SELECT id, journal_id, saved_at, revision_encrypted FROM journal_revisions");
+      for (const row of revisionRows) {
+        const journalKey = journalKeys.get(row.journal_id);
+        const result = await this.checkSealedColumns(
+          { revision: row.revision_encrypted },
+          {},
+          journalKey ? [journalKey] : keys,
+        );
+        // History of a journal that opened must open with the same key
+        if (journalKey && !result.key) {
+          result.problems = [describeDecryptionFailure("revision", row.revision_encrypted)];
+        }
+        record(result, {
+          id: row.id,
+          kind: "revision",
+          label: `Revision saved ${row.saved_at}`,
+          raw: toRawRecord(row),
+        });
+      }
+
+      const notebookRows = await db.getAllAsync<{ id: string; notebook_encrypted: string }>(
+        "SELECT id, notebook_encrypted FROM notebooks",
+      );
+      for (const row of notebookRows) {
+        const result = await this.checkSealedColumns(
+          { notebook: row.notebook_encrypted },
+          {},
+          keys,
+        );
+        record(result, { id: row.id, kind: "notebook", label: "Notebook", raw: toRawRecord(row) });
+      }
+
+      return scan;
+    } catch (error) {
+      console.error("Error scanning vault integrity:", error);
+      throw new Error("Failed to check vault integrity");
+    }
+  };
+
+  /**
+   * Find the key that opens one of `probes` and check every column against it
+   * `extra` columns (large ones, like images) are only checked, never probed.
+   */
+  private checkSealedColumns = async (
+    probes: Record<string, string | null | undefined>,
+    extra: Record<string, string | null | undefined>,
+    keys: string[],
+  ): Promise<{ key: string | null; problems: string[] }> => {
+    let key: string | null = null;
+    let openedField: string | null = null;
+    for (const [field, value] of Object.entries(probes)) {
+      if (!value) continue;
+      for (const candidate of keys) {
+        if (await this.opensWith(candidate, value)) {
+          key = candidate;
+          openedField = field;
+          break;
+        }
+      }
+      if (key) break;
+    }
+
+    const problems: string[] = [];
+    for (const [field, value] of Object.entries({ ...probes, ...extra })) {
+      if (!value || field === openedField) continue;
+      const isSound = key ? await this.opensWith(key, value) : isWellFormedCiphertext(value);
+      if (!isSound) problems.push(describeDecryptionFailure(field, value));
+    }
+    return { key, problems };
+  };
+
+  /**
+   * True when a sealed value decrypts (and so passes its GCM tag check) with `key`
+   */
+  private opensWith = async (key: string, value: string): Promise<boolean> => {
+    try {
+      await this.CryptoManager.decryptData(key, value);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Move damaged rows to the quarantine. The quarantine is saved before the rows
+   * are deleted, so an interruption can only leave a row in both places.
+   */
+  quarantineItems = async (issues: IntegrityIssue[]): Promise<void> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+      if (issues.length === 0) return;
+
+      const moving = new Set(issues.map((issue) => issue.id));
+      const quarantinedAt = new Date().toISOString();
+      const quarantine = (await this.listQuarantine()).filter((item) => !moving.has(item.id));
+      await this.saveQuarantine([
+        ...issues.map((issue) => ({ ...issue, quarantinedAt })),
+        ...quarantine,
+      ]);
+
+      for (const issue of issues) {
+        const source = QUARANTINE_TABLES[issue.kind];
+        if (!source) throw new Error(`Cannot quarantine ${issue.kind} items`);
+        await db.runAsync(`DELETE FROM ${source.table} WHERE id = ?`, [issue.id]);
+      }
+
+      await this.dropSearchIndex();
+    } catch (error) {
+      console.error("Error quarantining items:", error);
+      throw new Error("Failed to quarantine damaged items");
+    }
+  };
+
+  listQuarantine = async (): Promise<QuarantinedItem[]> => {
+    try {
+      const stored = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.QUARANTINE);
+      return stored ? (JSON.parse(stored) as QuarantinedItem[]) : [];
+    } catch (error) {
+      console.error("Error listing quarantine:", error);
+      throw new Error("Failed to load quarantine");
+    }
+  };
+
+  /**
+   * Put quarantined rows back exactly as they were found
+   */
+  restoreQuarantined = async (ids: string[]): Promise<void> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const restoring = new Set(ids);
+      const quarantine = await this.listQuarantine();
+      for (const item of quarantine.filter((q) => restoring.has(q.id))) {
+        const source = QUARANTINE_TABLES[item.kind];
+        if (!source) throw new Error(`Cannot restore ${item.kind} items`);
+        await db.runAsync(
+          `INSERT OR REPLACE INTO ${source.table} (${source.columns.join(", ")})
+           VALUES (${source.columns.map(() => "?").join(", ")})`,
+          source.columns.map((column) => item.raw[column] ?? null),
+        );
+      }
+
+      await this.saveQuarantine(quarantine.filter((q) => !restoring.has(q.id)));
+      await this.dropSearchIndex();
+    } catch (error) {
+      console.error("Error restoring quarantined items:", error);
+      throw new Error("Failed to restore quarantined items");
+    }
+  };
+
+  deleteQuarantined = async (ids: string[]): Promise<void> => {
+    try {
+      const deleting = new Set(ids);
+      const quarantine = await this.listQuarantine();
+      await this.saveQuarantine(quarantine.filter((q) => !deleting.has(q.id)));
+    } catch (error) {
+      console.error("Error deleting quarantined items:", error);
+      throw new Error("Failed to delete quarantined items");
+    }
+  };
+
+  private saveQuarantine = async (items: QuarantinedItem[]): Promise<void> => {
+    if (items.length > 0) {
+      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.QUARANTINE, JSON.stringify(items));
+    } else {
+      await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.QUARANTINE);
+    }
+  };
+
+  /**
+   * Forget every key's search index; each is rebuilt from the journals its key
+   * opens on its next search
+   */
+  private dropSearchIndex = async (): Promise<void> => {
+    if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+    const prefix = SQLiteDBVaultStorageProvider.KEYS.SEARCH_INDEX;
+    this.searchIndexCache = null;
+    // Also rows of versions that kept each key's index under its own name
+    await SQLiteDBVaultStorageProvider.db.runAsync(
+      "DELETE FROM key_value_store WHERE key = ? OR substr(key, 1, ?) = ?",
+      [prefix, prefix.length + 1, `${prefix}_`],
+    );
+  };
+
+  // --- Notebooks ---
+
+  /**
+   * Notebooks sealed with this key, oldest first
+   *
+   * @param dk - The Data Key for decryption
+   */
+  listNotebooks = async (dk: string): Promise<Notebook[]> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+        id: string;
+        notebook_encrypted: string;
+      }>("SELECT id, notebook_encrypted FROM notebooks");
+
+      const notebooks: Notebook[] = [];
+      for (const row of rows) {
+        try {
+          notebooks.push(
+            JSON.parse(await this.CryptoManager.decryptData(dk, row.notebook_encrypted)),
+          );
+        } catch {
+          // Another Data Key's notebook (the decoy slot) - skip it
+          continue;
+        }
+      }
+      return notebooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error("Error listing notebooks:", error);
+      throw new Error("Failed to load notebooks");
+    }
+  };
+
+  saveNotebook = async (notebook: Notebook, dk: string): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const encrypted = await this.CryptoManager.encryptData(dk, JSON.stringify(notebook));
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        "INSERT OR REPLACE INTO notebooks (id, notebook_encrypted) VALUES (?, ?)",
+        [notebook.id, encrypted],
+      );
+    } catch (error) {
+      console.error("Error saving notebook:", error);
+      throw new Error("Failed to save notebook");
+    }
+  };
+
+  deleteNotebook = async (id: string, dk: string): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      await SQLiteDBVaultStorageProvider.db.runAsync("DELETE FROM notebooks WHERE id = ?", [id]);
+    } catch (error) {
+      console.error("Error deleting notebook:", error);
+      throw new Error("Failed to delete notebook");
+    }
+  };
+
+  /**
+   * Ids of stored notebooks this key cannot open
+   */
+  listForeignNotebookIds = async (dk: string): Promise<string[]> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+        id: string;
+        notebook_encrypted: string;
+      }>("SELECT id, notebook_encrypted FROM notebooks");
+
+      const foreign: string[] = [];
+      for (const row of rows) {
+        try {
+          await this.CryptoManager.decryptData(dk, row.notebook_encrypted);
+        } catch {
+          foreign.push(row.id);
+        }
+      }
+      return foreign;
+    } catch (error) {
+      console.error("Error listing notebook ids:", error);
+      throw new Error("Failed to check existing notebooks");
+    }
+  };
+
+  /**
+   * Get journal count (useful for UI)
+   *
+   * @returns Number of journals
+   */
+  getJournalCount = async (): Promise<number> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const result = await SQLiteDBVaultStorageProvider.db.getFirstAsync<{ count: number }>(
+        "SELECT COUNT(*) as count FROM journals WHERE deleted_at IS NULL",
+      );
+
+      return result?.count ?? 0;
+    } catch (error) {
+      console.error("Error getting journal count:", error);
+      return 0;
+    }
+  };
+
+  // --- Trash ---
+
+  /**
+   * Move a journal to the trash (soft delete)
+   *
+   * @param id - Journal ID
+   * @param dk - The Data Key, used to update the search index
+   */
+  trashJournal = async (id: string, dk: string): Promise<void> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        "UPDATE journals SET deleted_at = ? WHERE id = ?",
+        [new Date().toISOString(), id],
+      );
+
+      await this.updateSearchIndex(dk, (index) => removeFromSearchIndex(index, id));
+    } catch (error) {
+      console.error("Error moving journal to trash:", error);
+      throw new Error("Failed to move journal to trash");
+    }
+  };
+
+  /**
+   * Take a journal back out of the trash
+   *
+   * @returns The restored journal
+   */
+  restoreJournal = async (id: string, dk: string): Promise<Journal> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      await SQLiteDBVaultStorageProvider.db.runAsync(
+        "UPDATE journals SET deleted_at = NULL WHERE id = ?",
+        [id],
+      );
+
+      const journal = await this.getJournal(id, dk);
+      if (!journal) throw new Error("Journal not found");
+
+      await this.updateSearchIndex(dk, (index) => addToSearchIndex(index, journal));
+      return journal;
+    } catch (error) {
+      console.error("Error restoring journal from trash:", error);
+      throw new Error("Failed to restore journal");
+    }
+  };
+
+  /**
+   * List trashed journals (no images), most recently deleted first
+   *
+   * @param dk - The Data Key for decryption
+   */
+  listTrash = async (dk: string): Promise<TrashedJournal[]> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<JournalRow>(
+        `SELECT ${JOURNAL_SUMMARY_COLUMNS}, deleted_at FROM journals
+         WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC`,
+      );
+
+      const trashed: TrashedJournal[] = [];
+      for (const row of rows) {
+        try {
+          const summary = await this.decryptJournalSummaryRow(row, dk);
+          trashed.push({ ...summary, deletedAt: row.deleted_at! });
+        } catch {
+          // Another key's journal (or unreadable) - skip it
+          continue;
+        }
+      }
+      return trashed;
+    } catch (error) {
+      console.error("Error listing trash:", error);
+      throw new Error("Failed to load trash");
+    }
+  };
+
+  /**
+   * Permanently delete journals trashed more than `retentionDays` ago
+   * Trashed journals are not in the search index. The timed purge goes by the
+   * plaintext deleted_at alone, so journals sealed with other keys (protected
+   * notebooks, the decoy set) expire too; the key only limits emptying the
+   * trash (retentionDays 0) to the journals the session can see.
+   *
+   * @param retentionDays - 0 empties the whole trash
+   * @param dk - The key whose trash is emptied
+   * @returns Number of journals purged
+   */
+  purgeTrash = async (retentionDays: number, dk?: string): Promise<number> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const cutoff = getTrashCutoff(retentionDays);
+
+      if (retentionDays > 0 || !dk) {
+        let purged = 0;
+        await db.withTransactionAsync(async () => {
+          // Revisions first, so a failure never leaves orphaned history behind
+          await db.runAsync(
+            `DELETE FROM journal_revisions WHERE journal_id IN
+               (SELECT id FROM journals WHERE deleted_at IS NOT NULL AND deleted_at <= ?)`,
+            [cutoff],
+          );
+          const result = await db.runAsync(
+            "DELETE FROM journals WHERE deleted_at IS NOT NULL AND deleted_at <= ?",
+            [cutoff],
+          );
+          purged = result.changes;
+        });
+        return purged;
+      }
+
+      const expired = await db.getAllAsync<{
+        id: string;
+        tags_encrypted: string | null;
+        metadata_encrypted: string | null;
+      }>(
+        `SELECT id, tags_encrypted, metadata_encrypted FROM journals
+         WHERE deleted_at IS NOT NULL AND deleted_at <= ?`,
+        [cutoff],
+      );
+
+      let purged = 0;
+      for (const row of expired) {
+        if (!(await this.isSealedWith(row, dk))) continue;
+
+        // Revisions first, so a failure never leaves orphaned history behind
+        await db.runAsync("DELETE FROM journal_revisions WHERE journal_id = ?", [row.id]);
+        const result = await db.runAsync("DELETE FROM journals WHERE id = ?", [row.id]);
+        purged += result.changes;
+      }
+      return purged;
+    } catch (error) {
+      console.error("Error purging trash:", error);
+      throw new Error("Failed to empty trash");
+    }
+  };
+
+  // --- Revision History ---
+
+  /**
+   * List earlier versions of a journal, newest first
+   *
+   * @param journalId - Journal ID
+   * @param dk - The Data Key for decryption
+   */
+  listRevisions = async (journalId: string, dk: string): Promise<JournalRevision[]> => {
+    try {
+      if (!SQLiteDBVaultStorageProvider.db) throw new Error("Database not initialized");
+
+      const rows = await SQLiteDBVaultStorageProvider.db.getAllAsync<{
+        id: string;
+        revision_encrypted: string;
+      }>(
+        `SELECT id, revision_encrypted FROM journal_revisions
+         WHERE journal_id = ? ORDER BY saved_at DESC`,
+        [journalId],
+      );
+
+      const revisions: JournalRevision[] = [];
+      for (const row of rows) {
+        try {
+          const plaintext = await this.CryptoManager.decryptData(dk, row.revision_encrypted);
+          revisions.push(JSON.parse(plaintext));
+        } catch (decryptError) {
+          console.error(`Failed to decrypt revision ${row.id}:`, decryptError);
+          continue;
+        }
+      }
+      return revisions;
+    } catch (error) {
+      console.error("Error listing revisions:", error);
+      throw new Error("Failed to load revision history");
+    }
+  };
+
+  /**
+   * Restore a journal to an earlier revision
+   * The version being replaced becomes a revision itself, so a restore can be undone.
+   *
+   * @returns The restored journal
+   */
+  restoreRevision = async (
+    journalId: string,
+    revisionId: string,
+    dk: string,
+  ): Promise<Journal> => {
+    const current = await this.getJournal(journalId, dk);
+    if (!current) throw new Error("Journal not found");
+
+    const revision = (await this.listRevisions(journalId, dk)).find((r) => r.id === revisionId);
+    if (!revision) throw new Error("Revision not found");
+
+    const restored = applyRevision(current, revision);
+    await this.saveJournal(restored, dk);
+    return restored;
+  };
+
+  /**
+   * Store the currently saved version of a journal as a revision (if the save changes it)
+   * Never throws - losing a revision must not block saving the journal.
+   */
+  private captureRevision = async (next: Journal, dk: string): Promise<void> => {
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) return;
+
+      const row = await db.getFirstAsync<JournalRow>(
+        `SELECT ${JOURNAL_SUMMARY_COLUMNS} FROM journals WHERE id = ?`,
+        [next.id],
+      );
+      if (!row) return;
+
+      const previous = await this.decryptJournalSummaryRow(row, dk);
+      if (!hasVersionedChanges(previous, next)) return;
+
+      const revision = createRevision(previous);
+      const encrypted = await this.CryptoManager.encryptData(dk, JSON.stringify(revision));
+      await db.runAsync(
+        `INSERT INTO journal_revisions (id, journal_id, saved_at, revision_encrypted)
+         VALUES (?, ?, ?, ?)`,
+        [revision.id, revision.journalId, revision.savedAt, encrypted],
+      );
+
+      // Retention only needs ids and timestamps - no decryption
+      const existing = await db.getAllAsync<{ id: string; saved_at: string }>(
+        "SELECT id, saved_at FROM journal_revisions WHERE journal_id = ?",
+        [next.id],
+      );
+      const keep = new Set(
+        applyRevisionRetention(existing.map((r) => ({ id: r.id, savedAt: r.saved_at }))).map(
+          (r) => r.id,
+        ),
+      );
+      for (const r of existing) {
+        if (!keep.has(r.id)) {
+          await db.runAsync("DELETE FROM journal_revisions WHERE id = ?", [r.id]);
+        }
+      }
+    } catch (error) {
+      console.error("Error capturing journal revision:", error);
+    }
+  };
+
+  // --- Search Index ---
+
+  /**
+   * Ranked full-text search over all journals
+   *
+   * @param query - Raw search text
+   * @param dk - The Data Key for decrypting the index
+   * @returns Matching journal ids, best first
+   */
+  searchJournals = async (query: string, dk: string): Promise<SearchHit[]> => {
+    try {
+      const index = await this.loadSearchIndex(dk);
+      return searchIndex(index, query);
+    } catch (error) {
+      console.error("Error searching journals:", error);
+      throw new Error("Failed to search journals");
+    }
+  };
+
+  /**
+   * Rebuild the search index from every journal and store it encrypted
+   *
+   * @param dk - The Data Key
+   */
+  rebuildSearchIndex = async (dk: string): Promise<void> => {
+    const journals = await this.listJournals(dk);
+    await this.persistSearchIndex(dk, buildSearchIndex(journals));
+  };
+
+  /**
+   * The stored index holds one sealed segment per key (Data Key, notebook keys,
+   * decoy key) in a single row, so saving with one key never replaces another
+   * key's index and the rows on disk do not show how many keys there are.
+   * Segments carry no label; older versions stored a single bare segment.
+   */
+  private readSearchIndexSegments = async (): Promise<string[]> => {
+    const raw = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.SEARCH_INDEX);
+    if (!raw) return [];
+    return raw.startsWith("[") ? (JSON.parse(raw) as string[]) : [raw];
+  };
+
+  /**
+   * Position and contents of the segment sealed with `dk` (null when it has none)
+   */
+  private findSearchIndexSegment = async (
+    segments: string[],
+    dk: string,
+  ): Promise<{ position: number; index: SearchIndex } | null> => {
+    for (let position = 0; position < segments.length; position++) {
+      try {
+        const index: SearchIndex = JSON.parse(
+          await this.CryptoManager.decryptData(dk, segments[position]),
+        );
+        return { position, index };
+      } catch {
+        // Another key's segment
+      }
+    }
+    return null;
+  };
+
+  private writeSearchIndexSegments = async (segments: string[]): Promise<void> => {
+    if (segments.length > 0) {
+      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.SEARCH_INDEX, JSON.stringify(segments));
+    } else {
+      await this.deleteValue(SQLiteDBVaultStorageProvider.KEYS.SEARCH_INDEX);
+    }
+  };
+
+  /**
+   * Forget the index of one key, keeping every other key's
+   */
+  private removeSearchIndexSegment = async (dk: string): Promise<void> => {
+    const segments = await this.readSearchIndexSegments();
+    const found = await this.findSearchIndexSegment(segments, dk);
+    if (!found) return;
+    segments.splice(found.position, 1);
+    await this.writeSearchIndexSegments(segments);
+  };
+
+  /**
+   * Decrypt the stored index (or build it on first use / version change)
+   */
+  private loadSearchIndex = async (dk: string): Promise<SearchIndex> => {
+    if (this.searchIndexCache?.dk === dk) {
+      return this.searchIndexCache.index;
+    }
+
+    try {
+      const found = await this.findSearchIndexSegment(await this.readSearchIndexSegments(), dk);
+      if (found?.index.version === SEARCH_INDEX_VERSION) {
+        this.searchIndexCache = { dk, index: found.index };
+        return found.index;
+      }
+    } catch (error) {
+      console.error("Search index unreadable, rebuilding:", error);
+      await this.dropSearchIndex();
+    }
+
+    await this.rebuildSearchIndex(dk);
+    return this.searchIndexCache!.index;
+  };
+
+  /**
+   * Encrypt and store the index in this key's segment, and cache it for this Data Key
+   */
+  private persistSearchIndex = async (dk: string, index: SearchIndex): Promise<void> => {
+    const segments = await this.readSearchIndexSegments().catch((): string[] => []);
+    const found = await this.findSearchIndexSegment(segments, dk);
+    const encrypted = await this.CryptoManager.encryptData(dk, JSON.stringify(index));
+
+    if (found) {
+      segments[found.position] = encrypted;
+    } else {
+      segments.push(encrypted);
+    }
+    await this.writeSearchIndexSegments(segments);
+    this.searchIndexCache = { dk, index };
+  };
+
+  /**
+   * Apply an incremental change to the index.
+   * Failures are logged, not thrown - the journal itself is already saved and
+   * the index is rebuilt from scratch if it can't be read later.
+   * A key with no index yet is left without one - its first search builds it.
+   */
+  private updateSearchIndex = async (
+    dk: string,
+    update: (index: SearchIndex) => void,
+  ): Promise<void> => {
+    try {
+      if (
+        this.searchIndexCache?.dk !== dk &&
+        !(await this.findSearchIndexSegment(await this.readSearchIndexSegments(), dk))
+      ) {
+        return;
+      }
+      const index = await this.loadSearchIndex(dk);
+      update(index);
+      await this.persistSearchIndex(dk, index);
+    } catch (error) {
+      console.error("Error updating search index:", error);
+      // Drop the stale index so the next search rebuilds it
+      this.searchIndexCache = null;
+      await this.removeSearchIndexSegment(dk).catch(() => {});
+    }
+  };
+
+  /**
+   * Clear all app data (for testing or reset)
+   */
+  clearAllData = async (): Promise<void> => {
+    try {
+      this.searchIndexCache = null;
+      await this.DestroyAndReInitializeDatabase();
+      // if (!SQLiteBackend.db) throw new Error('Database not initialized');
+      // await SQLiteBackend.db.execAsync('DELETE FROM journals; DELETE FROM key_value_store;');
+    } catch (error) {
+      console.error("Error clearing data:", error);
+      throw new Error("Failed to clear data");
+    }
+  };
+
+  /**
+   * Migration helper: Migrate old AsyncStorage format to new SQLite + per-note encryption
+   * (Run once on app startup for backward compatibility)
+   */
+  migrateFromAsyncStorage = async (dk: string): Promise<void> => {
+    const isMigrated = await this.getValue(SQLiteDBVaultStorageProvider.KEYS.MIGRATION_COMPLETE_V1);
+    if (isMigrated) {
+      return;
+    }
+
+    try {
+      // Check if old format exists in AsyncStorage
+      const oldJournalsStr = await AsyncStorage.getItem(
+        APP_CONFIG.STORAGE_KEYS.JOURNALS,
+      );
+      if (oldJournalsStr) {
+        // This would be old encrypted format
+        // You'd need the old key to decrypt if it was encrypted
+        console.log(
+          "Old journal format detected - manual migration may be needed",
+        );
+      }
+
+      // Mark migration as complete
+      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.MIGRATION_COMPLETE_V1, "true");
+      console.log("Migration check complete");
+    } catch (error) {
+      console.error("Migration error:", error);
+      // Don't throw - allow app to continue
+    }
+  };
+
+  /**
+   * Migration: seal legacy plaintext title/mood/images into metadata_encrypted
+   * (Runs once after the first unlock that has access to the Data Key)
+   *
+   * @param dk - The Data Key for encryption
+   */
+  migrateEncryptMetadata = async (dk: string): Promise<void> => {
+    const isMigrated = await this.getValue(
+      SQLiteDBVaultStorageProvider.KEYS.MIGRATION_METADATA_ENCRYPTED_V2,
+    );
+    if (isMigrated) {
+      return;
+    }
+
+    try {
+      const db = SQLiteDBVaultStorageProvider.db;
+      if (!db) throw new Error("Database not initialized");
+
+      const rows = await db.getAllAsync<JournalRow>(
+        `SELECT ${JOURNAL_ROW_COLUMNS} FROM journals
+         WHERE metadata_encrypted IS NULL OR metadata_encrypted = ''`,
+      );
+
+      await db.withTransactionAsync(async () => {
+        for (const row of rows) {
+          const legacyNote = this.rowToEncryptedNote(row);
+          const { images = [], ...metadata } = await this.CryptoManager.decryptNoteMetadata(
+            dk,
+            legacyNote,
+          );
+          const metadataEncrypted = await this.CryptoManager.encryptData(
+            dk,
+            JSON.stringify(metadata),
+          );
+          const imagesEncrypted =
+            images.length > 0
+              ? await this.CryptoManager.encryptData(dk, JSON.stringify(images))
+              : "";
+
+          await db.runAsync(
+            `UPDATE journals
+             SET metadata_encrypted = ?, images_encrypted = ?, title = '', mood = '', images = '[]'
+             WHERE id = ?`,
+            [metadataEncrypted, imagesEncrypted, row.id],
+          );
+        }
+      });
+
+      // Reclaim pages that still hold the old plaintext
+      await db.execAsync("VACUUM;");
+
+      await this.setValue(SQLiteDBVaultStorageProvider.KEYS.MIGRATION_METADATA_ENCRYPTED_V2, "true");
+      console.log(`Metadata encryption migration complete (${rows.length} rows)`);
+    } catch (error) {
+      console.error("Metadata encryption migration error:", error);
+      // Don't throw - legacy rows stay readable and the migration retries next unlock
+    }
+  };
+
+  /**
+   * Run every migration that needs the Data Key
+   */
+  migrateWithDataKey = async (dk: string): Promise<void> => {
+    await this.migrateEncryptMetadata(dk);
+  };
+
   /**
    * Export function to get all journals as JSON (for backup)
    * WARNING: This exports PLAINTEXT - use with caution!
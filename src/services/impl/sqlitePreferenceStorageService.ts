@@ -3,11 +3,16 @@
 // ============================================================================
 
 import APP_CONFIG from "@/src/config/appConfig";
-import { AppSettings } from "@/src/types";
+import { AppSettings, ProfileRegistry } from "@/src/types";
+import { getPreferencesDbName } from "@/src/utils/profileStorage";
 import * as SQLite from "expo-sqlite";
 import PreferenceStorageProvider from "../preferenceStorageProvider";
 
 let preferencesDbInstance: SQLite.SQLiteDatabase | null = null;
+let profilesDbInstance: SQLite.SQLiteDatabase | null = null;
+
+// Profile whose preferences.db is open
+let activeProfileId: string = APP_CONFIG.DEFAULT_PROFILE_ID;
 
 /**
  * Open/create preferences database
@@ -18,7 +23,7 @@ async function initializeStorage(): Promise<SQLite.SQLiteDatabase> {
   }
 
   try {
-    const db = await SQLite.openDatabaseAsync(APP_CONFIG.SQLITE_PREFERENCES_DB_NAME);
+    const db = await SQLite.openDatabaseAsync(getPreferencesDbName(activeProfileId));
 
     // Create settings table
     await db.execAsync(`
@@ -38,6 +43,33 @@ async function initializeStorage(): Promise<SQLite.SQLiteDatabase> {
   }
 }
 
+/**
+ * Open/create the device-level profiles database
+ */
+async function initializeProfilesStorage(): Promise<SQLite.SQLiteDatabase> {
+  if (profilesDbInstance) {
+    return profilesDbInstance;
+  }
+
+  try {
+    const db = await SQLite.openDatabaseAsync(APP_CONFIG.SQLITE_PROFILES_DB_NAME);
+
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS profile_registry (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    profilesDbInstance = db;
+    return db;
+  } catch (error) {
+    console.error("❌ [Native] Failed to open profiles database:", error);
+    throw new Error("Failed to initialize profile storage");
+  }
+}
+
 export default class SQLiteStorePreferencesStorage implements PreferenceStorageProvider {
  
   static obj: SQLiteStorePreferencesStorage | null = null;
@@ -91,7 +123,7 @@ export default class SQLiteStorePreferencesStorage implements PreferenceStorageP
       }
 
       // Delete the database file
-      await SQLite.deleteDatabaseAsync(APP_CONFIG.SQLITE_PREFERENCES_DB_NAME);
+      await SQLite.deleteDatabaseAsync(getPreferencesDbName(activeProfileId));
       console.log("💥 [Native] preferences.db DELETED");
 
       // Recreate fresh
@@ -150,6 +182,56 @@ export default class SQLiteStorePreferencesStorage implements PreferenceStorageP
       return null;
     }
   }
-}
 
+  async switchProfile(profileId: string): Promise<void> {
+    if (profileId === activeProfileId) return;
+
+    if (preferencesDbInstance) {
+      await preferencesDbInstance.closeAsync();
+      preferencesDbInstance = null;
+    }
+    activeProfileId = profileId;
+  }
 
+  async deleteProfilePreferences(profileId: string): Promise<void> {
+    if (profileId === activeProfileId) {
+      throw new Error("Switch to another profile before deleting this one");
+    }
+
+    try {
+      await SQLite.deleteDatabaseAsync(getPreferencesDbName(profileId));
+      console.log(`💥 [Native] Preferences of profile ${profileId} DELETED`);
+    } catch (error) {
+      // Profiles that never saved a setting have no database file
+      console.warn("[Native] Profile preferences not deleted:", error);
+    }
+  }
+
+  async getProfileRegistry(): Promise<ProfileRegistry | null> {
+    try {
+      const db = await initializeProfilesStorage();
+
+      const result = await db.getAllAsync<{ data: string }>(
+        "SELECT data FROM profile_registry WHERE id = 1 LIMIT 1",
+      );
+      return result.length > 0 ? (JSON.parse(result[0].data) as ProfileRegistry) : null;
+    } catch (error) {
+      console.error("❌ [Native] Error loading profiles:", error);
+      return null;
+    }
+  }
+
+  async saveProfileRegistry(registry: ProfileRegistry): Promise<void> {
+    try {
+      const db = await initializeProfilesStorage();
+
+      await db.runAsync(
+        "INSERT OR REPLACE INTO profile_registry (id, data, updated_at) VALUES (1, ?, ?)",
+        [JSON.stringify(registry), new Date().toISOString()],
+      );
+    } catch (error) {
+      console.error("❌ [Native] Error saving profiles:", error);
+      throw new Error("Failed to save profiles");
+    }
+  }
+}
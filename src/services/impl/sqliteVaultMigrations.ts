@@ -0,0 +1,224 @@
+/**
+ * Schema migrations for the SQLite vault database
+ *
+ * - The applied schema version is stored in key_value_store (SCHEMA_VERSION)
+ * - Migrations run in ascending version order, each inside its own exclusive
+ *   transaction together with the version bump
+ * - A failing migration is rolled back and stops the run; the database stays
+ *   at the last version that applied cleanly and the error is rethrown
+ *
+ * Databases created before this runner existed have no stored version, so every
+ * migration must be idempotent (IF NOT EXISTS / column checks).
+ * Never edit a shipped migration - append a new one with the next version.
+ */
+
+import * as SQLite from "expo-sqlite";
+import APP_CONFIG from "../../config/appConfig";
+
+type SchemaMigration = {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+};
+
+/**
+ * Add a column to an existing table if it is missing
+ */
+const addColumnIfMissing = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  type: string,
+) => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some((c) => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+  }
+};
+
+export const VAULT_SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: "create_journals",
+    up: async (db) => {
+      // Each row is one encrypted note with its own IV
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS journals (
+          id TEXT PRIMARY KEY,
+          date TEXT,
+          iv TEXT,
+          content TEXT NOT NULL,
+          title TEXT,
+          mood TEXT,
+          tags_encrypted TEXT,
+          images TEXT,
+          created_at TEXT,
+          updated_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "encrypted_metadata",
+    up: async (db) => {
+      await addColumnIfMissing(db, "journals", "metadata_encrypted", "TEXT");
+    },
+  },
+  {
+    version: 3,
+    name: "encrypted_images_and_paging",
+    up: async (db) => {
+      await addColumnIfMissing(db, "journals", "images_encrypted", "TEXT");
+      // Paging walks journals newest first
+      await db.execAsync(
+        "CREATE INDEX IF NOT EXISTS idx_journals_date_id ON journals (date DESC, id DESC);",
+      );
+    },
+  },
+  {
+    version: 4,
+    name: "journal_revisions",
+    up: async (db) => {
+      // Earlier versions of journals, one encrypted JournalRevision per row
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS journal_revisions (
+          id TEXT PRIMARY KEY,
+          journal_id TEXT NOT NULL,
+          saved_at TEXT NOT NULL,
+          revision_encrypted TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_journal_revisions_journal
+          ON journal_revisions (journal_id, saved_at DESC);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "soft_delete",
+    up: async (db) => {
+      await addColumnIfMissing(db, "journals", "deleted_at", "TEXT");
+      await db.execAsync(
+        "CREATE INDEX IF NOT EXISTS idx_journals_deleted_at ON journals (deleted_at);",
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "notebooks",
+    up: async (db) => {
+      // One encrypted Notebook per row; journals reference it inside their sealed metadata
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS notebooks (
+          id TEXT PRIMARY KEY,
+          notebook_encrypted TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "imports",
+    up: async (db) => {
+      // import_staging holds sealed journal rows until an import is committed;
+      // import_log has one sealed ImportLogEntry per row; import_undo keeps the
+      // rows the last import replaced (previous_row is NULL for added journals)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS import_staging (
+          id TEXT PRIMARY KEY,
+          date TEXT,
+          iv TEXT,
+          content TEXT NOT NULL,
+          title TEXT,
+          mood TEXT,
+          tags_encrypted TEXT,
+          metadata_encrypted TEXT,
+          images_encrypted TEXT,
+          images TEXT,
+          created_at TEXT,
+          updated_at TEXT
+        );
+        CREATE TABLE IF NOT EXISTS import_log (
+          id TEXT PRIMARY KEY,
+          imported_at TEXT NOT NULL,
+          log_encrypted TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS import_undo (
+          import_id TEXT NOT NULL,
+          journal_id TEXT NOT NULL,
+          imported_iv TEXT NOT NULL,
+          previous_row TEXT,
+          PRIMARY KEY (import_id, journal_id)
+        );
+      `);
+    },
+  },
+];
+
+const SCHEMA_VERSION_KEY = APP_CONFIG.STORAGE_KEYS.SCHEMA_VERSION;
+// Where the version was kept before the key took the usual "@" prefix
+const LEGACY_SCHEMA_VERSION_KEY = `${APP_CONFIG.STORAGE_KEY_PREFIX}_schema_version`;
+
+/**
+ * Read the applied schema version (0 for a new or pre-versioning database)
+ */
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const rows = await db.getAllAsync<{ value: string }>(
+    "SELECT value FROM key_value_store WHERE key IN (?, ?)",
+    [SCHEMA_VERSION_KEY, LEGACY_SCHEMA_VERSION_KEY],
+  );
+  const versions = rows
+    .map((row) => Number(row.value))
+    .filter((version) => Number.isInteger(version) && version > 0);
+  return versions.length > 0 ? Math.max(...versions) : 0;
+};
+
+/**
+ * Bring the database up to the latest migration version
+ * key_value_store must already exist - it holds the version itself.
+ *
+ * @returns The schema version after the run
+ */
+export const runSchemaMigrations = async (
+  db: SQLite.SQLiteDatabase,
+  migrations: SchemaMigration[] = VAULT_SCHEMA_MIGRATIONS,
+): Promise<number> => {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+  let current = await getSchemaVersion(db);
+
+  if (current > latest) {
+    // Opening a newer schema with older code could corrupt it
+    throw new Error(
+      `Vault database schema v${current} is newer than this app supports (v${latest})`,
+    );
+  }
+
+  for (const migration of ordered) {
+    if (migration.version <= current) continue;
+
+    try {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await migration.up(txn);
+        await txn.runAsync(
+          "INSERT OR REPLACE INTO key_value_store (key, value) VALUES (?, ?)",
+          [SCHEMA_VERSION_KEY, String(migration.version)],
+        );
+        await txn.runAsync("DELETE FROM key_value_store WHERE key = ?", [
+          LEGACY_SCHEMA_VERSION_KEY,
+        ]);
+      });
+    } catch (error) {
+      console.error(
+        `Schema migration v${migration.version} (${migration.name}) failed and was rolled back:`,
+        error,
+      );
+      throw new Error(`Failed to migrate vault database to v${migration.version}`);
+    }
+
+    current = migration.version;
+    console.log(`Applied schema migration v${current} (${migration.name})`);
+  }
+
+  return current;
+};
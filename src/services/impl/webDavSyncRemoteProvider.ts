@@ -0,0 +1,190 @@
+// ============================================================================
+// SYNC REMOTE (WebDAV - any plain HTTP server with WebDAV, e.g. a NAS or
+// `rclone serve webdav` on the local network)
+// ============================================================================
+
+import APP_CONFIG from "@/src/config/appConfig";
+import { SyncRemoteConfig, SyncRemoteEntry, SyncRemoteMeta } from "@/src/types";
+import SyncRemoteProvider, { REVISION_MISMATCH } from "../syncRemoteProvider";
+
+/**
+ * Layout under the configured folder:
+ *   sync.json          - SyncRemoteMeta
+ *   entries/<id>.json  - one sealed journal per file
+ *
+ * ETags are the revisions; writes send If-Match / If-None-Match so the server
+ * refuses (412) to overwrite a change it has not been told about.
+ */
+
+const META_FILE = "sync.json";
+const ENTRIES_DIR = "entries/";
+const ENTRY_SUFFIX = ".json";
+
+// PROPFIND replies differ in namespace prefixes (D:, d:, lp1:...)
+const RESPONSE_PATTERN = /<(?:\w+:)?response\b[\s\S]*?<\/(?:\w+:)?response>/g;
+const HREF_PATTERN = /<(?:\w+:)?href>([^<]*)<\/(?:\w+:)?href>/;
+const ETAG_PATTERN = /<(?:\w+:)?getetag>([^<]*)<\/(?:\w+:)?getetag>/;
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+export default class WebDavSyncRemoteProvider implements SyncRemoteProvider {
+  private baseUrl: string;
+  private authHeader: string | null;
+
+  // One instance per configured remote (no singleton - the config varies)
+  constructor(config: SyncRemoteConfig, password: string | null) {
+    this.baseUrl = config.url.endsWith("/") ? config.url : `${config.url}/`;
+    this.authHeader = config.username
+      ? `Basic ${btoa(`${config.username}:${password ?? ""}`)}`
+      : null;
+  }
+
+  private async request(
+    path: string,
+    method: string,
+    options: { body?: string; headers?: Record<string, string> } = {},
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), APP_CONFIG.SYNC_REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        body: options.body,
+        headers: {
+          ...(this.authHeader ? { Authorization: this.authHeader } : {}),
+          ...options.headers,
+        },
+        signal: controller.signal,
+      });
+      if (response.status === 401 || response.status === 403) {
+        throw new Error("The sync server refused the username or password");
+      }
+      if (response.status === 412) {
+        throw new Error(REVISION_MISMATCH);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error("The sync server did not answer in time");
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private expectOk(response: Response, action: string): void {
+    if (!response.ok) {
+      throw new Error(`Sync server error while ${action} (HTTP ${response.status})`);
+    }
+  }
+
+  // Servers are not required to send the ETag with a write - ask for it then
+  private async readRevision(path: string, response: Response): Promise<string> {
+    const etag =
+      response.headers.get("ETag") ??
+      (await this.request(path, "HEAD")).headers.get("ETag");
+    if (!etag) {
+      throw new Error("The sync server does not report revisions (ETag)");
+    }
+    return etag;
+  }
+
+  private async ensureCollection(path: string): Promise<void> {
+    const response = await this.request(path, "MKCOL");
+    // 405 = exists already
+    if (!response.ok && response.status !== 405) {
+      this.expectOk(response, "creating the sync folder");
+    }
+  }
+
+  getMeta = async (): Promise<SyncRemoteMeta | null> => {
+    const response = await this.request(META_FILE, "GET");
+    if (response.status === 404) return null;
+    this.expectOk(response, "reading the sync setup");
+    return (await response.json()) as SyncRemoteMeta;
+  };
+
+  saveMeta = async (meta: SyncRemoteMeta): Promise<void> => {
+    await this.ensureCollection("");
+    await this.ensureCollection(ENTRIES_DIR);
+
+    // Two devices setting up at once - only the first one wins
+    const response = await this.request(META_FILE, "PUT", {
+      body: JSON.stringify(meta),
+      headers: { "Content-Type": "application/json", "If-None-Match": "*" },
+    });
+    this.expectOk(response, "saving the sync setup");
+  };
+
+  listEntries = async (): Promise<SyncRemoteEntry[]> => {
+    const response = await this.request(ENTRIES_DIR, "PROPFIND", {
+      body:
+        '<?xml version="1.0" encoding="utf-8"?>' +
+        '<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/></d:prop></d:propfind>',
+      headers: { Depth: "1", "Content-Type": "application/xml" },
+    });
+    if (response.status === 404) return [];
+    this.expectOk(response, "listing entries");
+
+    const xml = await response.text();
+    const entries: SyncRemoteEntry[] = [];
+    for (const block of xml.match(RESPONSE_PATTERN) ?? []) {
+      const href = block.match(HREF_PATTERN)?.[1];
+      const etag = block.match(ETAG_PATTERN)?.[1];
+      if (!href || !etag) continue;
+
+      const name = decodeURIComponent(decodeXmlText(href)).split("/").pop() ?? "";
+      if (!name.endsWith(ENTRY_SUFFIX)) continue; // The folder itself
+      entries.push({
+        id: name.slice(0, -ENTRY_SUFFIX.length),
+        revision: decodeXmlText(etag),
+      });
+    }
+    return entries;
+  };
+
+  getEntry = async (id: string): Promise<(SyncRemoteEntry & { data: string }) | null> => {
+    const path = `${ENTRIES_DIR}${encodeURIComponent(id)}${ENTRY_SUFFIX}`;
+    const response = await this.request(path, "GET");
+    if (response.status === 404) return null;
+    this.expectOk(response, "downloading an entry");
+
+    const data = await response.text();
+    return { id, revision: await this.readRevision(path, response), data };
+  };
+
+  putEntry = async (
+    id: string,
+    data: string,
+    expectedRevision: string | null,
+  ): Promise<string> => {
+    const path = `${ENTRIES_DIR}${encodeURIComponent(id)}${ENTRY_SUFFIX}`;
+    const response = await this.request(path, "PUT", {
+      body: data,
+      headers: {
+        "Content-Type": "application/json",
+        ...(expectedRevision ? { "If-Match": expectedRevision } : { "If-None-Match": "*" }),
+      },
+    });
+    this.expectOk(response, "uploading an entry");
+    return this.readRevision(path, response);
+  };
+
+  deleteEntry = async (id: string, expectedRevision: string): Promise<void> => {
+    const path = `${ENTRIES_DIR}${encodeURIComponent(id)}${ENTRY_SUFFIX}`;
+    const response = await this.request(path, "DELETE", {
+      headers: { "If-Match": expectedRevision },
+    });
+    // 404 = another device deleted it already
+    if (response.status !== 404) {
+      this.expectOk(response, "deleting an entry");
+    }
+  };
+}
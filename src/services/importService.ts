@@ -1,6 +1,23 @@
-import type { Journal } from '../types';
+import type {
+  BackupArchive,
+  ImportLogEntry,
+  ImportUndoResult,
+  Journal,
+  JournalSummary,
+} from '../types';
 import { EncryptedBackupPayload } from '../types/crypto';
+import { assembleBackupChain, isBackupArchive } from '../utils/backupArchive';
+import { toJournalSummary } from '../utils/journalPaging';
+import { normalizeTags } from '../utils/tags';
+import {
+  BackupStreamSource,
+  readBackupStreamHeader,
+  readEncryptedBackupStream,
+} from './backupStreamService';
 import { getCryptoProvider } from './cryptoServiceProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+const VaultStorageProvider = getVaultStorageProvider();
 
 type ExportedJournalsPayload = {
   version?: string;
@@ -10,12 +27,258 @@ type ExportedJournalsPayload = {
   journals?: unknown;
 };
 
-export type ImportMode = 'skip-duplicates' | 'overwrite-duplicates';
+// What happens to entries that are already in the vault:
+//   skip-duplicates      - keep the vault's version
+//   overwrite-duplicates - replace it with the imported one
+//   keep-newer           - keep whichever was updated last
+export type ImportMode = 'skip-duplicates' | 'overwrite-duplicates' | 'keep-newer';
+
+/**
+ * Entry in the file that cannot be imported
+ * `position` counts from 1 in file order.
+ */
+export type InvalidImportEntry = {
+  position: number;
+  reason: string;
+};
+
+export type ParsedJournals = {
+  journals: Journal[];
+  invalid: InvalidImportEntry[];
+};
+
+/**
+ * Dry-run result for one importable entry
+ *   new       - not in the vault
+ *   duplicate - in the vault with the same content
+ *   conflict  - in the vault with different content (`existing` is the vault's version)
+ *   locked    - its id belongs to an entry this key cannot open; never imported
+ * Images are left out, so a plan stays small for large backups.
+ */
+export type ImportPlanEntry = {
+  status: 'new' | 'duplicate' | 'conflict' | 'locked';
+  incoming: JournalSummary;
+  existing?: JournalSummary;
+};
+
+export type ImportPlan = {
+  entries: ImportPlanEntry[]; // Newest first
+  invalid: InvalidImportEntry[];
+};
 
+/**
+ * Parse one export file, or the files of an incremental backup chain (a full
+ * backup and its deltas, in any order)
+ */
 export const parseExportedJournals = async (
-  jsonText: string, 
+  jsonText: string | string[],
   password?: string
-): Promise<Journal[]> => {
+): Promise<ParsedJournals> => {
+  const texts = Array.isArray(jsonText) ? jsonText : [jsonText];
+  const contents: any[] = [];
+  for (const text of texts) {
+    contents.push(await decodeExportFile(text, password));
+  }
+
+  const archives = contents.filter(isBackupArchive);
+  if (archives.length > 0) {
+    if (archives.length !== contents.length) {
+      throw new Error('Incremental backups cannot be imported together with other files');
+    }
+    return validateJournals(assembleBackupChain(archives as BackupArchive[]), new Set());
+  }
+
+  if (contents.length > 1) {
+    throw new Error('Only incremental backup parts can be imported together - pick one file');
+  }
+  const parsed = contents[0];
+
+  // --- Standard Import Logic ---
+
+  if (!parsed || !Array.isArray(parsed.journals)) {
+    throw new Error('Invalid file: missing journals[]');
+  }
+  return validateJournals(parsed.journals, new Set());
+};
+
+/**
+ * True for a streamed encrypted export - import it with importBackupStream
+ * instead of reading it whole
+ */
+export const isBackupStreamFile = async (source: BackupStreamSource): Promise<boolean> => {
+  return (await readBackupStreamHeader(source)) !== null;
+};
+
+/**
+ * Import a streamed encrypted export chunk by chunk
+ * Throws 'PASSWORD_REQUIRED' / 'Invalid Password' like parseExportedJournals.
+ *
+ * @param onJournals - receives each chunk's valid journals, ready to save
+ * @returns number of journals in the file
+ */
+export const importBackupStream = async (
+  source: BackupStreamSource,
+  password: string | undefined,
+  onJournals: (journals: Journal[]) => Promise<void>
+): Promise<number> => {
+  const seenIds = new Set<string>();
+  let position = 1;
+  return readEncryptedBackupStream(source, password, (journals) => {
+    const { journals: valid } = validateJournals(journals, seenIds, position);
+    position += journals.length;
+    return onJournals(valid);
+  });
+};
+
+/**
+ * Dry run: compare parsed journals with the vault without saving anything
+ */
+export const planImport = async (
+  parsed: ParsedJournals,
+  encryptionKey: string
+): Promise<ImportPlan> => {
+  const existingIds = await listExistingIds(encryptionKey);
+  const entries = await classifyJournals(parsed.journals, existingIds, encryptionKey);
+  return { entries: sortNewestFirst(entries), invalid: parsed.invalid };
+};
+
+/**
+ * Dry run for a streamed backup - read once to build the plan, then again by
+ * importBackupStream to save what was chosen, so it is never held whole
+ */
+export const planBackupStream = async (
+  source: BackupStreamSource,
+  password: string | undefined,
+  encryptionKey: string
+): Promise<ImportPlan> => {
+  const existingIds = await listExistingIds(encryptionKey);
+  const seenIds = new Set<string>();
+  const entries: ImportPlanEntry[] = [];
+  const invalid: InvalidImportEntry[] = [];
+  let position = 1;
+
+  await readEncryptedBackupStream(source, password, async (journals) => {
+    const chunk = validateJournals(journals, seenIds, position);
+    position += journals.length;
+    invalid.push(...chunk.invalid);
+    entries.push(...(await classifyJournals(chunk.journals, existingIds, encryptionKey)));
+  });
+  return { entries: sortNewestFirst(entries), invalid };
+};
+
+/**
+ * Save journals as one import: every one of them or, when anything fails, none.
+ * The import is logged in the vault and can be undone until the next one.
+ *
+ * @param source - What is being imported, for the log (e.g. "Day One Export")
+ * @param stageAll - hands the journals to `stage`, in as many calls as it likes
+ *   (a streamed backup is staged a chunk at a time)
+ */
+export const runImport = async (
+  source: string,
+  encryptionKey: string,
+  stageAll: (stage: (journals: Journal[]) => Promise<void>) => Promise<void>
+): Promise<ImportLogEntry> => {
+  await VaultStorageProvider.beginImport();
+  try {
+    await stageAll((journals) => VaultStorageProvider.stageImportJournals(journals, encryptionKey));
+    return await VaultStorageProvider.commitImport(source, encryptionKey);
+  } catch (error) {
+    await VaultStorageProvider.discardImport();
+    throw error;
+  }
+};
+
+/**
+ * Imports made with this key, newest first
+ */
+export const listImportLog = async (encryptionKey: string): Promise<ImportLogEntry[]> => {
+  return VaultStorageProvider.listImportLog(encryptionKey);
+};
+
+/**
+ * Undo the last import - entries edited or deleted since are left as they are
+ */
+export const undoLastImport = async (encryptionKey: string): Promise<ImportUndoResult> => {
+  return VaultStorageProvider.undoLastImport(encryptionKey);
+};
+
+/**
+ * Ids of the plan entries a mode imports: every new entry, no unchanged
+ * duplicate, and conflicts as the mode decides
+ */
+export const selectForMode = (entries: ImportPlanEntry[], mode: ImportMode): Set<string> => {
+  const selected = new Set<string>();
+  for (const { status, incoming, existing } of entries) {
+    const include =
+      status === 'new' ||
+      (status === 'conflict' &&
+        (mode === 'overwrite-duplicates' ||
+          (mode === 'keep-newer' && !!existing && isNewer(incoming, existing))));
+    if (include) selected.add(incoming.id);
+  }
+  return selected;
+};
+
+const isNewer = (a: JournalSummary, b: JournalSummary): boolean =>
+  new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+
+type ExistingIds = {
+  readable: Set<string>;
+  foreign: Set<string>; // Sealed with another key
+};
+
+const listExistingIds = async (encryptionKey: string): Promise<ExistingIds> => {
+  const existing = await VaultStorageProvider.listJournalIndex(encryptionKey);
+  return {
+    readable: new Set(existing.map((j) => j.id)),
+    foreign: new Set(await VaultStorageProvider.listForeignJournalIds(encryptionKey)),
+  };
+};
+
+const sameContent = (a: Journal, b: Journal): boolean =>
+  a.date === b.date &&
+  (a.notebookId ?? '') === (b.notebookId ?? '') &&
+  (a.title ?? '') === (b.title ?? '') &&
+  a.text === b.text &&
+  (a.mood ?? '') === (b.mood ?? '') &&
+  JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []) &&
+  JSON.stringify(a.images ?? []) === JSON.stringify(b.images ?? []);
+
+const classifyJournals = async (
+  journals: Journal[],
+  existingIds: ExistingIds,
+  encryptionKey: string
+): Promise<ImportPlanEntry[]> => {
+  const entries: ImportPlanEntry[] = [];
+  for (const journal of journals) {
+    const incoming = toJournalSummary(journal);
+    if (existingIds.foreign.has(journal.id)) {
+      entries.push({ status: 'locked', incoming });
+      continue;
+    }
+    const existing = existingIds.readable.has(journal.id)
+      ? await VaultStorageProvider.getJournal(journal.id, encryptionKey)
+      : null;
+
+    if (!existing) {
+      entries.push({ status: 'new', incoming });
+    } else if (sameContent(existing, journal)) {
+      entries.push({ status: 'duplicate', incoming });
+    } else {
+      entries.push({ status: 'conflict', incoming, existing: toJournalSummary(existing) });
+    }
+  }
+  return entries;
+};
+
+const sortNewestFirst = (entries: ImportPlanEntry[]): ImportPlanEntry[] =>
+  entries.sort((a, b) => b.incoming.date.localeCompare(a.incoming.date));
+
+/**
+ * The plain content of an export file (decrypted when it is an encrypted backup)
+ */
+const decodeExportFile = async (jsonText: string, password?: string): Promise<any> => {
   let parsed: any;
   try {
     parsed = JSON.parse(jsonText);
@@ -46,29 +309,59 @@ export const parseExportedJournals = async (
       throw new Error('Invalid Password');
     }
   }
+  return parsed;
+};
 
-  // --- Standard Import Logic ---
-
-  if (!parsed || !Array.isArray(parsed.journals)) {
-    throw new Error('Invalid file: missing journals[]');
+/**
+ * Why an item cannot be imported, or null when it can
+ */
+const findProblem = (j: any, seenIds: Set<string>): string | null => {
+  if (!j || typeof j !== 'object') return 'not a journal entry';
+  if (typeof j.id !== 'string' || j.id === '') return 'missing id';
+  if (typeof j.text !== 'string') return 'missing text';
+  if (typeof j.date === 'string' && Number.isNaN(new Date(j.date).getTime())) {
+    return `unreadable date "${j.date}"`;
   }
+  if (seenIds.has(j.id)) return 'same id as an earlier entry';
+  return null;
+};
 
+/**
+ * Valid items as journals (missing dates and timestamps become now); the rest
+ * are reported with their position
+ * @param seenIds - ids already taken, e.g. by earlier chunks of a stream (added to)
+ */
+const validateJournals = (
+  items: unknown[],
+  seenIds: Set<string>,
+  firstPosition = 1
+): ParsedJournals => {
   const now = new Date().toISOString();
+  const journals: Journal[] = [];
+  const invalid: InvalidImportEntry[] = [];
+
+  (items as any[]).forEach((j, index) => {
+    const problem = findProblem(j, seenIds);
+    if (problem) {
+      invalid.push({ position: firstPosition + index, reason: problem });
+      return;
+    }
+    seenIds.add(j.id);
+
+    const tags = normalizeTags(j.tags);
+    journals.push({
+      id: String(j.id),
+      date: typeof j.date === 'string' ? j.date : now,
+      createdAt: typeof j.createdAt === 'string' ? j.createdAt : now,
+      updatedAt: typeof j.updatedAt === 'string' ? j.updatedAt : now,
+      title: typeof j.title === 'string' ? j.title : undefined,
+      text: String(j.text ?? ''),
+      mood: typeof j.mood === 'string' ? j.mood : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      images: Array.isArray(j.images) ? j.images.filter((x: unknown) => typeof x === 'string') : undefined,
+      notebookId: typeof j.notebookId === 'string' ? j.notebookId : undefined,
+    });
+  });
 
-  const journals = (parsed.journals as any[])
-    .filter((j) => j && typeof j.id === 'string' && typeof j.text === 'string')
-    .map(
-      (j): Journal => ({
-        id: String(j.id),
-        date: typeof j.date === 'string' ? j.date : now,
-        createdAt: typeof j.createdAt === 'string' ? j.createdAt : now,
-        updatedAt: typeof j.updatedAt === 'string' ? j.updatedAt : now,
-        title: typeof j.title === 'string' ? j.title : undefined,
-        text: String(j.text ?? ''),
-        mood: typeof j.mood === 'string' ? j.mood : undefined,
-        images: Array.isArray(j.images) ? j.images.filter((x:unknown) => typeof x === 'string') : undefined,
-      }),
-    );
-
-  return journals;
+  return { journals, invalid };
 };
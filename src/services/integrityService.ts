@@ -0,0 +1,170 @@
+import { IntegrityIssue, IntegrityReport, QuarantinedItem } from '../types';
+import { KDFParams, KeyWraps, Salts, Vault } from '../types/crypto';
+import { isWellFormedCiphertext } from '../utils/integrity';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Vault integrity
+ *
+ * Listings skip anything that does not open with the session key, because the
+ * decoy slot and protected notebooks share storage with the vault. That also
+ * hides damage. The integrity check tells the two apart: it checks the vault
+ * record and its password wrap, and has the storage provider check every sealed
+ * item with all keys at hand.
+ *
+ * Damaged items can be quarantined - moved aside unchanged, so listings and
+ * re-encryption no longer trip over them - exported as raw ciphertext, restored
+ * or deleted for good.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+const REQUIRED_SALTS: (keyof Salts)[] = ['master_salt', 'security_answer_salt', 'recovery_salt'];
+const REQUIRED_WRAPS: (keyof KeyWraps)[] = [
+  'dk_wrapped_by_password',
+  'dk_wrapped_by_security_ans',
+  'dk_wrapped_by_recovery',
+];
+const OPTIONAL_WRAPS: (keyof KeyWraps)[] = [
+  'dk_wrapped_by_biometric',
+  'dk_wrapped_by_decoy',
+  'decoy_dk_wrapped_by_dk',
+];
+
+const isHex = (value: unknown): boolean =>
+  typeof value === 'string' && value.length > 0 && /^[0-9a-f]+$/i.test(value);
+
+const checkKdfParams = (params: unknown, name: string): string[] => {
+  const p = params as Partial<KDFParams> | undefined;
+  if (!p || typeof p !== 'object') return [`${name} is missing`];
+
+  const problems: string[] = [];
+  if (p.algorithm !== 'Argon2id' && p.algorithm !== 'PBKDF2-SHA256') {
+    problems.push(`${name}: unknown algorithm`);
+  }
+  if (!Number.isInteger(p.iterations) || (p.iterations ?? 0) <= 0) {
+    problems.push(`${name}: invalid iterations`);
+  }
+  if (p.algorithm === 'Argon2id' && (!Number.isInteger(p.memory) || !Number.isInteger(p.parallelism))) {
+    problems.push(`${name}: incomplete Argon2id parameters`);
+  }
+  return problems;
+};
+
+/**
+ * Problems with the shape of the vault record (no keys needed)
+ */
+export const checkVaultStructure = (vault: Record<string, any> | null): string[] => {
+  if (!vault) return ['Vault record is missing or not valid JSON'];
+
+  const problems: string[] = [];
+  if (typeof vault.user_id !== 'string' || !vault.user_id) {
+    problems.push('user_id is missing');
+  }
+
+  problems.push(...checkKdfParams(vault.kdf_params, 'kdf_params'));
+  for (const [wrap, params] of Object.entries(vault.wrap_kdf_params ?? {})) {
+    problems.push(...checkKdfParams(params, `wrap_kdf_params.${wrap}`));
+  }
+
+  for (const salt of REQUIRED_SALTS) {
+    if (!isHex(vault.salts?.[salt])) problems.push(`salts.${salt} is missing or not hex`);
+  }
+  if (vault.salts?.decoy_salt !== undefined && !isHex(vault.salts.decoy_salt)) {
+    problems.push('salts.decoy_salt is not hex');
+  }
+
+  for (const wrap of REQUIRED_WRAPS) {
+    const value = vault.key_wraps?.[wrap];
+    if (typeof value !== 'string' || !isWellFormedCiphertext(value)) {
+      problems.push(`key_wraps.${wrap} is missing or malformed`);
+    }
+  }
+  for (const wrap of OPTIONAL_WRAPS) {
+    const value = vault.key_wraps?.[wrap];
+    if (value !== undefined && (typeof value !== 'string' || !isWellFormedCiphertext(value))) {
+      problems.push(`key_wraps.${wrap} is malformed`);
+    }
+  }
+
+  const questions = vault.security_questions;
+  if (
+    !Array.isArray(questions) ||
+    questions.length === 0 ||
+    questions.some((q) => typeof q?.question !== 'string')
+  ) {
+    problems.push('security_questions are missing or malformed');
+  }
+
+  for (const field of ['created_at', 'updated_at']) {
+    if (Number.isNaN(Date.parse(vault[field]))) problems.push(`${field} is not a date`);
+  }
+  return problems;
+};
+
+/**
+ * The password wrap must give back this session's Data Key. The answer and
+ * recovery wraps need their own secrets, so only their shape is checked.
+ */
+const checkPasswordWrap = async (vault: Vault, dk: string, password: string): Promise<string[]> => {
+  const result = await CryptoManager.unlockWithPassword(vault, password).catch(() => null);
+  if (!result) {
+    return ['The password wrap did not open with this password (mistyped, or the wrap is damaged)'];
+  }
+  if (result.dk !== dk) {
+    return ['The password wrap holds a different Data Key than this session'];
+  }
+  return [];
+};
+
+/**
+ * Check the vault record, its password wrap and every sealed item
+ *
+ * @param notebookKeys - Keys of unlocked protected notebooks, so their journals
+ *   are checked too (locked ones are reported as unverified)
+ * @param isDecoySession - The session was opened with the decoy password; the
+ *   real journals must not show up, not even as a count of unverified items
+ */
+export const runIntegrityCheck = async (
+  dk: string,
+  password: string,
+  notebookKeys: string[],
+  isDecoySession: boolean
+): Promise<IntegrityReport> => {
+  const vault = await VaultStorageProvider.getVault();
+  const vaultProblems = checkVaultStructure(vault);
+
+  const keys = [dk, ...notebookKeys];
+  if (vault && vaultProblems.length === 0) {
+    vaultProblems.push(...(await checkPasswordWrap(vault as Vault, dk, password)));
+
+    // The decoy journals share storage - check them as well
+    const decoyDk = await CryptoManager.unwrapDecoyDataKey(vault as Vault, dk).catch(() => null);
+    if (decoyDk) keys.push(decoyDk);
+  }
+
+  const scan = await VaultStorageProvider.scanIntegrity(keys);
+  if (isDecoySession) scan.unverified = 0;
+  console.log(
+    `🩺 Integrity check: ${scan.checked} ok, ${scan.unverified} unverified, ${scan.issues.length} damaged`
+  );
+  return { ...scan, vaultProblems, scannedAt: new Date().toISOString() };
+};
+
+export const quarantineIssues = async (issues: IntegrityIssue[]): Promise<void> => {
+  await VaultStorageProvider.quarantineItems(issues);
+};
+
+export const loadQuarantine = async (): Promise<QuarantinedItem[]> => {
+  return VaultStorageProvider.listQuarantine();
+};
+
+export const restoreQuarantinedItems = async (ids: string[]): Promise<void> => {
+  await VaultStorageProvider.restoreQuarantined(ids);
+};
+
+export const deleteQuarantinedItems = async (ids: string[]): Promise<void> => {
+  await VaultStorageProvider.deleteQuarantined(ids);
+};
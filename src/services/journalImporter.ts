@@ -0,0 +1,183 @@
+import { File } from 'expo-file-system';
+import { strFromU8, unzipSync } from 'fflate';
+import { MOOD_OPTIONS } from '../components/journal/MoodSelector';
+import { Journal } from '../types';
+import { BackupStreamSource } from './backupStreamService';
+import dayOneJournalImporter from './impl/dayOneJournalImporter';
+import journeyJournalImporter from './impl/journeyJournalImporter';
+import markdownJournalImporter from './impl/markdownJournalImporter';
+
+/**
+ * A picked file, or one file inside a picked ZIP
+ * Contents are read on demand and kept, so several importers can look at them.
+ */
+export type ImportFile = {
+  name: string; // File name only
+  path: string; // Path inside the ZIP (same as name for a picked file)
+  bytes: () => Promise<Uint8Array>;
+  text: () => Promise<string>;
+};
+
+/**
+ * Journals read from another app's export, waiting for the user to confirm
+ */
+export type ForeignImport = {
+  format: string;
+  journals: Journal[];
+  warnings: string[];
+};
+
+/**
+ * Reader for one other app's export format
+ */
+export interface JournalImporter {
+  label: string;
+  // null when the files are not in this format
+  parse: (files: ImportFile[]) => Promise<Omit<ForeignImport, 'format'> | null>;
+}
+
+// Tried in order - the first that recognises the files wins
+const IMPORTERS: JournalImporter[] = [
+  dayOneJournalImporter,
+  journeyJournalImporter,
+  markdownJournalImporter,
+];
+
+const cached = <T>(load: () => Promise<T>): (() => Promise<T>) => {
+  let value: Promise<T> | null = null;
+  return () => (value = value ?? load());
+};
+
+const fileName = (path: string): string => {
+  return decodeURIComponent(path.split('/').pop() ?? path);
+};
+
+const readSourceBytes = async (source: BackupStreamSource): Promise<Uint8Array> => {
+  if (typeof source === 'string') return new File(source).bytes();
+  return new Uint8Array(await source.arrayBuffer());
+};
+
+/**
+ * Picked files as ImportFiles, with every ZIP replaced by the files inside it
+ */
+export const loadImportFiles = async (sources: BackupStreamSource[]): Promise<ImportFile[]> => {
+  const files: ImportFile[] = [];
+  for (const source of sources) {
+    const name = typeof source === 'string' ? fileName(source) : ((source as any).name ?? 'file');
+    const bytes = cached(() => readSourceBytes(source));
+
+    if (!name.toLowerCase().endsWith('.zip')) {
+      files.push({ name, path: name, bytes, text: cached(async () => strFromU8(await bytes())) });
+      continue;
+    }
+
+    const entries = unzipSync(await bytes());
+    for (const [path, data] of Object.entries(entries)) {
+      // Folders and macOS resource forks
+      if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+      files.push({
+        name: fileName(path),
+        path,
+        bytes: async () => data,
+        text: cached(async () => strFromU8(data)),
+      });
+    }
+  }
+  return files;
+};
+
+/**
+ * Read the files with the first importer that recognises them
+ * @returns null when they are not another app's export (e.g. this app's own)
+ */
+export const parseForeignJournals = async (files: ImportFile[]): Promise<ForeignImport | null> => {
+  for (const importer of IMPORTERS) {
+    const result = await importer.parse(files);
+    if (result) {
+      if (result.journals.length === 0) {
+        throw new Error(`No entries found in this ${importer.label} export`);
+      }
+      return { format: importer.label, ...result };
+    }
+  }
+  return null;
+};
+
+// ==================== Helpers for importers ====================
+
+/**
+ * A file by name, or by a path relative to `fromPath` (e.g. a Markdown link)
+ */
+export const findImportFile = (
+  files: ImportFile[],
+  reference: string,
+  fromPath = ''
+): ImportFile | undefined => {
+  const clean = decodeURIComponent(reference.replace(/^\.\//, ''));
+  const folder = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/') + 1) : '';
+  return (
+    files.find((file) => file.path === `${folder}${clean}`) ??
+    files.find((file) => file.path === clean) ??
+    files.find((file) => file.name === fileName(clean))
+  );
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked - fromCharCode cannot take a whole photo as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Journal image from a photo file: JPEG as plain base64 (like photos taken in
+ * the app), other displayable types as data URIs
+ * @returns null for types the app cannot show (e.g. HEIC)
+ */
+export const imageFromFile = async (file: ImportFile): Promise<string | null> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'jpg' || extension === 'jpeg') {
+    return bytesToBase64(await file.bytes());
+  }
+  const type = IMAGE_TYPES[extension];
+  return type ? `data:${type};base64,${bytesToBase64(await file.bytes())}` : null;
+};
+
+/**
+ * ISO date from a string, a Date or epoch milliseconds (null when unusable)
+ */
+export const toIsoDate = (value: unknown): string | null => {
+  if (value instanceof Date || typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  return null;
+};
+
+/**
+ * Mood option matching a value, label or emoji (case-insensitive)
+ */
+export const resolveMood = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const wanted = value.trim().toLowerCase();
+  return MOOD_OPTIONS.find(
+    (mood) => mood.value === wanted || mood.label.toLowerCase() === wanted || mood.emoji === value.trim()
+  )?.value;
+};
+
+/**
+ * Split a leading "# Heading" off Markdown text
+ */
+export const splitMarkdownTitle = (text: string): { title?: string; body: string } => {
+  const match = text.match(/^\s*#\s+(.+)\n?/);
+  if (!match) return { body: text };
+  return { title: match[1].trim(), body: text.slice(match[0].length).replace(/^\n+/, '') };
+};
@@ -0,0 +1,133 @@
+/**
+ * Key Derivation Service
+ *
+ * Shared KDF helpers used by both crypto providers.
+ * - Argon2id (memory-hard) is the default for every new key wrap
+ * - PBKDF2-SHA256 is kept so vaults created before Argon2id keep unlocking
+ *
+ * Argon2id is computed in pure JS (@noble/hashes) so Web and Native
+ * derive identical keys from identical inputs. Its cost is picked per
+ * platform and stored with every wrap, so each side opens the other's files.
+ */
+
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Platform } from 'react-native';
+import APP_CONFIG from '../config/appConfig';
+import { KDFParams, KeyWraps, Vault } from '../types/crypto';
+
+/**
+ * Parameters for every newly derived key wrap on this platform
+ */
+export const DEFAULT_KDF_PARAMS: KDFParams =
+  Platform.OS === 'web'
+    ? {
+        algorithm: 'Argon2id',
+        iterations: APP_CONFIG.ARGON2_ITERATIONS,
+        memory: APP_CONFIG.ARGON2_MEMORY_KIB,
+        parallelism: APP_CONFIG.ARGON2_PARALLELISM,
+      }
+    : {
+        algorithm: 'Argon2id',
+        iterations: APP_CONFIG.ARGON2_NATIVE_ITERATIONS,
+        memory: APP_CONFIG.ARGON2_NATIVE_MEMORY_KIB,
+        parallelism: APP_CONFIG.ARGON2_PARALLELISM,
+      };
+
+/**
+ * Parameters used by vaults created before Argon2id support
+ */
+export const LEGACY_KDF_PARAMS: KDFParams = {
+  algorithm: 'PBKDF2-SHA256',
+  iterations: APP_CONFIG.KDF_ITERATIONS,
+};
+
+/**
+ * Resolve the KDF parameters that protect a specific key wrap.
+ * Per-wrap overrides win over the vault-wide defaults.
+ */
+export const getWrapKdfParams = (vault: Vault, wrap: keyof KeyWraps): KDFParams => {
+  return vault.wrap_kdf_params?.[wrap] ?? vault.kdf_params ?? LEGACY_KDF_PARAMS;
+};
+
+/**
+ * Record the KDF parameters used for a freshly re-derived key wrap (mutates vault)
+ */
+export const setWrapKdfParams = (
+  vault: Vault,
+  wrap: keyof KeyWraps,
+  params: KDFParams
+): void => {
+  vault.wrap_kdf_params = { ...(vault.wrap_kdf_params ?? {}), [wrap]: params };
+};
+
+/**
+ * True when a wrap should be re-derived with the current default parameters
+ */
+export const needsKdfUpgrade = (params: KDFParams): boolean => {
+  return (
+    params.algorithm !== DEFAULT_KDF_PARAMS.algorithm ||
+    params.iterations < DEFAULT_KDF_PARAMS.iterations ||
+    (params.memory ?? 0) < (DEFAULT_KDF_PARAMS.memory ?? 0)
+  );
+};
+
+/**
+ * True for Argon2id parameters within the range this app derives with.
+ * Parameters read from a file are checked first, so a crafted file cannot
+ * ask for more memory or time than the device can spare.
+ */
+export const isAllowedArgon2Params = (params: KDFParams | undefined): boolean => {
+  if (params?.algorithm !== 'Argon2id') return false;
+  const { iterations, memory, parallelism } = params;
+  return (
+    Number.isInteger(iterations) &&
+    iterations >= 1 &&
+    iterations <= APP_CONFIG.ARGON2_MAX_ITERATIONS &&
+    Number.isInteger(memory) &&
+    (memory ?? 0) >= APP_CONFIG.ARGON2_MIN_MEMORY_KIB &&
+    (memory ?? 0) <= APP_CONFIG.ARGON2_MAX_MEMORY_KIB &&
+    Number.isInteger(parallelism) &&
+    (parallelism ?? 0) >= 1 &&
+    (parallelism ?? 0) <= APP_CONFIG.ARGON2_MAX_PARALLELISM
+  );
+};
+
+// Argon2id only yields microtasks, so let a pending spinner render first
+const yieldToUI = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Argon2id key derivation
+ * @param password - Password or passphrase
+ * @param salt - Salt string (used as UTF-8, same as PBKDF2)
+ * @param params - Argon2id cost parameters
+ * @returns Promise<string> - Derived key as hex string
+ */
+export const deriveArgon2idKey = async (
+  password: string,
+  salt: string,
+  params: KDFParams
+): Promise<string> => {
+  await yieldToUI();
+  const key = await argon2idAsync(utf8ToBytes(password), utf8ToBytes(salt), {
+    t: params.iterations,
+    m: params.memory ?? APP_CONFIG.ARGON2_MEMORY_KIB,
+    p: params.parallelism ?? APP_CONFIG.ARGON2_PARALLELISM,
+    dkLen: APP_CONFIG.DK_SIZE,
+  });
+  return bytesToHex(key);
+};
+
+/**
+ * HKDF-SHA256 sub-key of a 256-bit key
+ * @param keyHex - Input key (hex), e.g. the Data Key
+ * @param saltHex - Salt (hex)
+ * @param info - Context label that separates sub-keys of the same key
+ * @returns Derived key as hex string
+ */
+export const deriveSubKey = (keyHex: string, saltHex: string, info: string): string => {
+  const key = hkdf(sha256, hexToBytes(keyHex), hexToBytes(saltHex), utf8ToBytes(info), APP_CONFIG.DK_SIZE);
+  return bytesToHex(key);
+};
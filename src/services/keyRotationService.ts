@@ -0,0 +1,157 @@
+import APP_CONFIG from '../config/appConfig';
+import { KeyRotationProgress, KeyRotationState } from '../types';
+import { QAPair, Vault } from '../types/crypto';
+import { resealBackupPassword } from './backupService';
+import { disableBiometricUnlock } from './biometricService';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { resealSyncData } from './syncService';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Data Key rotation
+ *
+ * Replaces the Data Key generated at signup with a fresh one:
+ *
+ * 1. Every key wrap is rebuilt around the new DK. Wraps cannot be re-sealed
+ *    without the secret behind them, so the password and security answers are
+ *    asked for, a new recovery key is issued and biometric unlock is turned off.
+ *    The decoy link is re-sealed; the decoy DK itself is untouched.
+ * 2. A rotation record holding each DK sealed with the other is saved, then the
+ *    new vault. Saving the vault is the switch-over: from then on every unlock
+ *    yields the new DK, and the record gives back the old one.
+ * 3. Journals are re-sealed in batches, then revisions, notebooks, the search
+ *    index, the backup password and sync data. Each step skips data that no
+ *    longer opens with the old DK, so after a crash or lock the rotation
+ *    resumes at the next unlock.
+ *
+ * Protected notebooks keep their own Notebook Key; only their records move.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+export type KeyRotationResult = {
+  dk: string; // The new Data Key - the session must switch to it
+  vault: Vault;
+  recoveryKey: string; // Show to the user; the old one no longer works
+};
+
+/**
+ * Build the rotated vault and switch storage over to the new Data Key
+ * Journals are re-sealed afterwards by resumeKeyRotation.
+ */
+export const startKeyRotation = async (
+  vault: Vault,
+  dk: string,
+  password: string,
+  qaPairs: QAPair[]
+): Promise<KeyRotationResult> => {
+  if (await VaultStorageProvider.getKeyRotationState()) {
+    throw new Error('A key rotation is still in progress');
+  }
+
+  // Both secrets are needed to re-wrap, and must belong to this session's key
+  const byPassword = await CryptoManager.unlockWithPassword(vault, password).catch(() => null);
+  if (!byPassword || byPassword.isDecoy || byPassword.dk !== dk) {
+    throw new Error('Current password is incorrect');
+  }
+  const byAnswers = await CryptoManager.unlockWithAnswers(vault, qaPairs).catch(() => null);
+  if (!byAnswers || byAnswers.dk !== dk) {
+    throw new Error('Security answers are incorrect');
+  }
+
+  const newDk = await CryptoManager.generateDataKey();
+
+  let rotated = await CryptoManager.rebuildVaultWithNewPassword(vault, newDk, password);
+  rotated = await CryptoManager.rebuildVaultWithNewSecurityAnswers(rotated, newDk, qaPairs);
+  const { newVault, newRecoveryKey } = await CryptoManager.rebuildVaultWithNewRecoveryKey(
+    rotated,
+    newDk
+  );
+  rotated = newVault;
+
+  const decoyDk = await CryptoManager.unwrapDecoyDataKey(vault, dk);
+  if (decoyDk) {
+    rotated = await CryptoManager.wrapDecoyDataKey(rotated, newDk, decoyDk);
+  }
+  // The keystore holds a wrap of the old key - re-enrolling is up to the user
+  rotated = await disableBiometricUnlock(rotated);
+
+  const state: KeyRotationState = {
+    oldKeyWrappedByNewKey: await CryptoManager.encryptData(newDk, dk),
+    newKeyWrappedByOldKey: await CryptoManager.encryptData(dk, newDk),
+    cursor: null,
+    startedAt: new Date().toISOString(),
+  };
+  await VaultStorageProvider.saveKeyRotationState(state);
+
+  // The switch-over
+  await VaultStorageProvider.saveVault(rotated);
+  await VaultStorageProvider.saveRecoveryKeyHash(newRecoveryKey);
+
+  console.log('🔑 Data Key rotated - re-encrypting journals');
+  return { dk: newDk, vault: rotated, recoveryKey: newRecoveryKey };
+};
+
+/**
+ * The old Data Key of an unfinished rotation, when `dk` is the new one
+ * A record left by a rotation that never switched the vault is discarded.
+ */
+const getPendingOldKey = async (
+  dk: string
+): Promise<{ oldKey: string; state: KeyRotationState } | null> => {
+  const state = await VaultStorageProvider.getKeyRotationState();
+  if (!state) return null;
+
+  try {
+    return { oldKey: await CryptoManager.decryptData(dk, state.oldKeyWrappedByNewKey), state };
+  } catch {
+    // Not the new key - see whether it is the old one
+  }
+
+  try {
+    await CryptoManager.decryptData(dk, state.newKeyWrappedByOldKey);
+    // Interrupted before the vault was saved: nothing was re-sealed yet
+    await VaultStorageProvider.saveKeyRotationState(null);
+  } catch {
+    // Another Data Key (the decoy slot) - leave the record alone
+  }
+  return null;
+};
+
+/**
+ * Re-seal whatever is still sealed with the old Data Key and clear the record
+ * @returns false when there was no rotation to finish for this key
+ */
+export const resumeKeyRotation = async (
+  dk: string,
+  onProgress?: (progress: KeyRotationProgress) => void
+): Promise<boolean> => {
+  const pending = await getPendingOldKey(dk);
+  if (!pending) return false;
+
+  const { oldKey } = pending;
+  let state = pending.state;
+
+  for (;;) {
+    const batch = await VaultStorageProvider.reEncryptJournalBatch(
+      oldKey,
+      dk,
+      state.cursor,
+      APP_CONFIG.KEY_ROTATION_BATCH_SIZE
+    );
+    state = { ...state, cursor: batch.cursor };
+    await VaultStorageProvider.saveKeyRotationState(state);
+    onProgress?.({ phase: 'journals', processed: batch.processed, total: batch.total });
+    if (batch.done) break;
+  }
+
+  onProgress?.({ phase: 'finishing', processed: 0, total: 0 });
+  await VaultStorageProvider.finishKeyRotation(oldKey, dk);
+  await resealBackupPassword(oldKey, dk);
+  await resealSyncData(oldKey, dk);
+  await VaultStorageProvider.saveKeyRotationState(null);
+
+  console.log('✅ Data Key rotation complete');
+  return true;
+};
@@ -0,0 +1,71 @@
+import APP_CONFIG from '../config/appConfig';
+import { LockoutState } from '../types';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Unlock throttling
+ *
+ * Every failed password, security-answer or recovery-key attempt increments one
+ * persisted counter, so switching between unlock methods (or restarting the app)
+ * does not reset the back-off. After LOCKOUT_FREE_ATTEMPTS failures each further
+ * failure locks unlocking for an exponentially growing delay.
+ * A successful unlock clears the counter.
+ */
+
+const VaultStorageProvider = getVaultStorageProvider();
+
+const EMPTY_LOCKOUT: LockoutState = { failedAttempts: 0, lockedUntil: null };
+
+/**
+ * Delay imposed after the given number of consecutive failures
+ */
+export const getLockoutDelayMs = (failedAttempts: number): number => {
+  const extra = failedAttempts - APP_CONFIG.LOCKOUT_FREE_ATTEMPTS;
+  if (extra <= 0) return 0;
+  return Math.min(
+    APP_CONFIG.LOCKOUT_BASE_DELAY_MS * 2 ** (extra - 1),
+    APP_CONFIG.LOCKOUT_MAX_DELAY_MS
+  );
+};
+
+/**
+ * Milliseconds left before another attempt is accepted (0 = not locked)
+ */
+export const getLockoutRemainingMs = (state: LockoutState, now: number = Date.now()): number => {
+  if (!state.lockedUntil) return 0;
+  return Math.max(0, new Date(state.lockedUntil).getTime() - now);
+};
+
+export const loadLockoutState = async (): Promise<LockoutState> => {
+  return (await VaultStorageProvider.getLockoutState()) ?? EMPTY_LOCKOUT;
+};
+
+/**
+ * Count a failed attempt and start the next back-off period
+ */
+export const recordFailedUnlock = async (): Promise<LockoutState> => {
+  const current = await loadLockoutState();
+  const failedAttempts = current.failedAttempts + 1;
+  const delay = getLockoutDelayMs(failedAttempts);
+
+  const next: LockoutState = {
+    failedAttempts,
+    lockedUntil: delay > 0 ? new Date(Date.now() + delay).toISOString() : null,
+  };
+  await VaultStorageProvider.saveLockoutState(next);
+  return next;
+};
+
+export const resetFailedUnlocks = async (): Promise<void> => {
+  await VaultStorageProvider.saveLockoutState(null);
+};
+
+/**
+ * "1:05" / "59s" style countdown label
+ */
+export const formatLockoutRemaining = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}:${String(seconds).padStart(2, '0')}` : `${seconds}s`;
+};
@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from 'uuid';
+import APP_CONFIG from '../config/appConfig';
+import { Notebook } from '../types';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { DEFAULT_KDF_PARAMS, deriveArgon2idKey, deriveSubKey } from './keyDerivationService';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Notebooks
+ *
+ * Journals can be filed into notebooks ("Work", "Dreams", ...). The notebook
+ * records are sealed with the Data Key, and a journal's notebook id lives in
+ * its encrypted metadata, so nothing on disk shows which notebooks exist.
+ *
+ * A notebook can have its own passphrase. Its journals are then sealed with a
+ * Notebook Key (an HKDF sub-key of the Data Key, derived once from a random
+ * salt) that is stored only wrapped by the passphrase. The Data Key alone no
+ * longer opens them - listings made with it simply skip them.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+export type NotebookFields = Pick<Notebook, 'name' | 'color' | 'icon'>;
+
+/**
+ * Trimmed name, or an error when it is empty, too long or already taken
+ */
+const validateNotebookName = (notebooks: Notebook[], name: string, exceptId?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Please enter a notebook name');
+  }
+  if (trimmed.length > APP_CONFIG.MAX_NOTEBOOK_NAME_LENGTH) {
+    throw new Error(
+      `Notebook names can be at most ${APP_CONFIG.MAX_NOTEBOOK_NAME_LENGTH} characters`
+    );
+  }
+  const taken = notebooks.some(
+    (notebook) => notebook.id !== exceptId && notebook.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) {
+    throw new Error('A notebook with this name already exists');
+  }
+  return trimmed;
+};
+
+const validatePassphrase = (passphrase: string): void => {
+  if (passphrase.length < APP_CONFIG.MIN_NOTEBOOK_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `Passphrase must be at least ${APP_CONFIG.MIN_NOTEBOOK_PASSPHRASE_LENGTH} characters`
+    );
+  }
+};
+
+/**
+ * Wrap a Notebook Key with a passphrase
+ */
+const wrapNotebookKey = async (
+  notebookKey: string,
+  passphrase: string
+): Promise<NonNullable<Notebook['protection']>> => {
+  const salt = await CryptoManager.generateSalt();
+  const passphraseKey = await deriveArgon2idKey(passphrase, salt, DEFAULT_KDF_PARAMS);
+  return {
+    salt,
+    kdfParams: DEFAULT_KDF_PARAMS,
+    wrappedKey: await CryptoManager.encryptData(passphraseKey, notebookKey),
+  };
+};
+
+/**
+ * Journals (trash included) filed into a notebook and sealed with `key`
+ */
+const listNotebookJournalIds = async (notebookId: string, key: string): Promise<string[]> => {
+  const entries = await VaultStorageProvider.listJournalIndex(key);
+  const trashed = await VaultStorageProvider.listTrash(key);
+  return [...entries, ...trashed]
+    .filter((entry) => entry.notebookId === notebookId)
+    .map((entry) => entry.id);
+};
+
+export const loadNotebooks = async (dk: string): Promise<Notebook[]> => {
+  return VaultStorageProvider.listNotebooks(dk);
+};
+
+export const createNotebook = async (
+  notebooks: Notebook[],
+  fields: NotebookFields,
+  dk: string
+): Promise<Notebook> => {
+  const now = new Date().toISOString();
+  const notebook: Notebook = {
+    id: uuidv4(),
+    name: validateNotebookName(notebooks, fields.name),
+    color: fields.color,
+    icon: fields.icon,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await VaultStorageProvider.saveNotebook(notebook, dk);
+  return notebook;
+};
+
+export const updateNotebook = async (
+  notebooks: Notebook[],
+  notebook: Notebook,
+  fields: NotebookFields,
+  dk: string
+): Promise<Notebook> => {
+  const updated: Notebook = {
+    ...notebook,
+    name: validateNotebookName(notebooks, fields.name, notebook.id),
+    color: fields.color,
+    icon: fields.icon,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await VaultStorageProvider.saveNotebook(updated, dk);
+  return updated;
+};
+
+/**
+ * Open a protected notebook
+ * @returns the Notebook Key its journals are sealed with
+ */
+export const unlockNotebook = async (notebook: Notebook, passphrase: string): Promise<string> => {
+  if (!notebook.protection) {
+    throw new Error('This notebook has no passphrase');
+  }
+
+  const { salt, kdfParams, wrappedKey } = notebook.protection;
+  const passphraseKey = await deriveArgon2idKey(passphrase, salt, kdfParams);
+  try {
+    return await CryptoManager.decryptData(passphraseKey, wrappedKey);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+};
+
+/**
+ * Add a passphrase: moves the notebook's journals from the Data Key to a new Notebook Key
+ * @returns the updated notebook and its Notebook Key
+ */
+export const protectNotebook = async (
+  notebook: Notebook,
+  passphrase: string,
+  dk: string
+): Promise<{ notebook: Notebook; notebookKey: string }> => {
+  if (notebook.protection) {
+    throw new Error('This notebook already has a passphrase');
+  }
+  validatePassphrase(passphrase);
+
+  const notebookKey = deriveSubKey(dk, await CryptoManager.generateSalt(), `notebook:${notebook.id}`);
+  const updated: Notebook = {
+    ...notebook,
+    protection: await wrapNotebookKey(notebookKey, passphrase),
+    updatedAt: new Date().toISOString(),
+  };
+
+  // Save the wrap first, so an interrupted move leaves no journal unreachable
+  await VaultStorageProvider.saveNotebook(updated, dk);
+  const ids = await listNotebookJournalIds(notebook.id, dk);
+  await VaultStorageProvider.reEncryptJournals(ids, dk, notebookKey);
+
+  return { notebook: updated, notebookKey };
+};
+
+/**
+ * Replace the passphrase; the Notebook Key (and so every journal) stays the same
+ */
+export const changeNotebookPassphrase = async (
+  notebook: Notebook,
+  currentPassphrase: string,
+  newPassphrase: string,
+  dk: string
+): Promise<Notebook> => {
+  validatePassphrase(newPassphrase);
+  const notebookKey = await unlockNotebook(notebook, currentPassphrase);
+
+  const updated: Notebook = {
+    ...notebook,
+    protection: await wrapNotebookKey(notebookKey, newPassphrase),
+    updatedAt: new Date().toISOString(),
+  };
+  await VaultStorageProvider.saveNotebook(updated, dk);
+  return updated;
+};
+
+/**
+ * Remove the passphrase: moves the notebook's journals back to the Data Key
+ */
+export const unprotectNotebook = async (
+  notebook: Notebook,
+  passphrase: string,
+  dk: string
+): Promise<Notebook> => {
+  const notebookKey = await unlockNotebook(notebook, passphrase);
+
+  const ids = await listNotebookJournalIds(notebook.id, notebookKey);
+  await VaultStorageProvider.reEncryptJournals(ids, notebookKey, dk);
+
+  const { protection, ...rest } = notebook;
+  const updated: Notebook = { ...rest, updatedAt: new Date().toISOString() };
+  await VaultStorageProvider.saveNotebook(updated, dk);
+  return updated;
+};
+
+/**
+ * Delete a notebook. Its journals are kept and show up under "All notebooks";
+ * a protected notebook's passphrase is needed so they can be moved back to the Data Key.
+ */
+export const deleteNotebook = async (
+  notebook: Notebook,
+  dk: string,
+  passphrase?: string
+): Promise<void> => {
+  if (notebook.protection) {
+    await unprotectNotebook(notebook, passphrase ?? '', dk);
+  }
+  await VaultStorageProvider.deleteNotebook(notebook.id, dk);
+};
@@ -4,6 +4,9 @@ import { Platform } from 'react-native';
 // Configure notification channel for Android
 const CHANNEL_ID = 'daily-reminders';
 
+// Fixed identifier, so scheduling the backup reminder again replaces it
+const BACKUP_REMINDER_ID = 'backup-reminder';
+
 // Configure how notifications are handled when app is in foreground
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -79,8 +82,8 @@ export const scheduleDailyReminder = async (
     // Ensure notification channel is set up
     await setupNotificationChannel();
 
-    // Cancel all existing notifications first
-    await Notifications.cancelAllScheduledNotificationsAsync();
+    // Cancel the existing daily reminder first (other reminders stay)
+    await cancelDailyReminder();
 
     // Calculate the next occurrence of the scheduled time for logging
     const now = new Date();
@@ -123,6 +126,74 @@ export const scheduleDailyReminder = async (
   }
 };
 
+/**
+ * Cancel the daily journaling reminder
+ */
+export const cancelDailyReminder = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((request) => request.content.data?.type === 'daily_reminder')
+        .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+  } catch (error) {
+    console.error('Error canceling daily reminder:', error);
+  }
+};
+
+/**
+ * Schedule (or move) the one-off "no recent backup" reminder
+ */
+export const scheduleBackupReminder = async (date: Date): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    await setupNotificationChannel();
+
+    const trigger: Notifications.DateTriggerInput = {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date,
+      ...(Platform.OS === 'android' && { channelId: CHANNEL_ID }),
+    };
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: BACKUP_REMINDER_ID,
+      content: {
+        title: '💾 Backup Overdue',
+        body: 'No automatic backup has been made recently. Unlock your journal to run one.',
+        data: { type: 'backup_reminder' },
+      },
+      trigger,
+    });
+
+    console.log(`Backup reminder scheduled for ${date.toLocaleString()}`);
+  } catch (error) {
+    console.error('Error scheduling backup reminder:', error);
+  }
+};
+
+/**
+ * Cancel the backup reminder
+ */
+export const cancelBackupReminder = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    await Notifications.cancelScheduledNotificationAsync(BACKUP_REMINDER_ID);
+  } catch (error) {
+    console.error('Error canceling backup reminder:', error);
+  }
+};
+
 /**
  * Cancel all scheduled notifications
  */
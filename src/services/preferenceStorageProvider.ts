@@ -1,5 +1,5 @@
 import { Platform } from "react-native";
-import { AppSettings } from "../types";
+import { AppSettings, ProfileRegistry } from "../types";
 import AsyncStorePreferenceStorageProvider from "./impl/asyncStorePreferenceStorageProvider";
 import SQLiteStorePreferencesStorage from "./impl/sqlitePreferenceStorageService";
 
@@ -8,6 +8,12 @@ export default interface PreferenceStorageProvider {
   saveSettings : (settings: AppSettings) => Promise<void> 
   getSettings : () => Promise<AppSettings | null>
   clearSettings : () => Promise<void> 
+
+  // Profiles - settings are kept per profile, the registry is device-wide
+  switchProfile : (profileId: string) => Promise<void>
+  deleteProfilePreferences : (profileId: string) => Promise<void>
+  getProfileRegistry : () => Promise<ProfileRegistry | null>
+  saveProfileRegistry : (registry: ProfileRegistry) => Promise<void>
 }
 
 // Detect if we're on web or native
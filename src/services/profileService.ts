@@ -0,0 +1,164 @@
+import { v4 as uuidv4 } from 'uuid';
+import APP_CONFIG from '../config/appConfig';
+import { AppSettings, Profile, ProfileRegistry } from '../types';
+import { setActiveProfileId } from '../utils/profileStorage';
+import { clearBiometricKey } from './biometricService';
+import { getPreferenceStorageProvider } from './preferenceStorageProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Profiles
+ *
+ * Several people can share one device. Each profile has its own vault database
+ * (or key namespace on web), preferences store and keystore entry, so it has
+ * its own password and Data Key. Only one profile's storage is open at a time,
+ * and switching always happens while locked.
+ *
+ * The registry (ids and display names) is device-wide and unencrypted, because
+ * the picker shows it before anything is unlocked.
+ */
+
+const VaultStorageProvider = getVaultStorageProvider();
+const PreferenceStorageProvider = getPreferenceStorageProvider();
+
+const createDefaultRegistry = (): ProfileRegistry => ({
+  profiles: [
+    {
+      id: APP_CONFIG.DEFAULT_PROFILE_ID,
+      name: APP_CONFIG.DEFAULT_PROFILE_NAME,
+      createdAt: new Date().toISOString(),
+    },
+  ],
+  activeProfileId: APP_CONFIG.DEFAULT_PROFILE_ID,
+});
+
+/**
+ * Trimmed name, or an error when it is empty, too long or already taken
+ */
+const validateProfileName = (
+  registry: ProfileRegistry,
+  name: string,
+  exceptId?: string
+): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Please enter a profile name');
+  }
+  if (trimmed.length > APP_CONFIG.MAX_PROFILE_NAME_LENGTH) {
+    throw new Error(`Profile names can be at most ${APP_CONFIG.MAX_PROFILE_NAME_LENGTH} characters`);
+  }
+  const taken = registry.profiles.some(
+    (profile) => profile.id !== exceptId && profile.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) {
+    throw new Error('A profile with this name already exists');
+  }
+  return trimmed;
+};
+
+/**
+ * Load the registry, creating it for installs from before profiles existed
+ * (their vault becomes the default profile)
+ */
+export const loadProfileRegistry = async (): Promise<ProfileRegistry> => {
+  const saved = await PreferenceStorageProvider.getProfileRegistry();
+  if (saved && saved.profiles.length > 0) {
+    const activeExists = saved.profiles.some((p) => p.id === saved.activeProfileId);
+    return activeExists ? saved : { ...saved, activeProfileId: saved.profiles[0].id };
+  }
+
+  const registry = createDefaultRegistry();
+  await PreferenceStorageProvider.saveProfileRegistry(registry);
+  return registry;
+};
+
+export const getActiveProfile = (registry: ProfileRegistry): Profile | undefined =>
+  registry.profiles.find((profile) => profile.id === registry.activeProfileId);
+
+/**
+ * Open a profile's storage and remember it as the last used profile
+ * Must only be called while locked.
+ * @returns the profile's saved settings (null when it has none yet)
+ */
+export const activateProfile = async (
+  registry: ProfileRegistry,
+  profileId: string
+): Promise<{ registry: ProfileRegistry; settings: AppSettings | null }> => {
+  if (!registry.profiles.some((profile) => profile.id === profileId)) {
+    throw new Error('Profile not found');
+  }
+
+  setActiveProfileId(profileId);
+  await VaultStorageProvider.switchProfile(profileId);
+  await PreferenceStorageProvider.switchProfile(profileId);
+
+  const updated = { ...registry, activeProfileId: profileId };
+  await PreferenceStorageProvider.saveProfileRegistry(updated);
+
+  const settings = await PreferenceStorageProvider.getSettings();
+  return { registry: updated, settings };
+};
+
+/**
+ * Add a profile (its vault is created by the usual signup flow once activated)
+ */
+export const createProfile = async (
+  registry: ProfileRegistry,
+  name: string
+): Promise<{ registry: ProfileRegistry; profile: Profile }> => {
+  const profile: Profile = {
+    id: uuidv4(),
+    name: validateProfileName(registry, name),
+    createdAt: new Date().toISOString(),
+  };
+
+  const updated = { ...registry, profiles: [...registry.profiles, profile] };
+  await PreferenceStorageProvider.saveProfileRegistry(updated);
+  return { registry: updated, profile };
+};
+
+export const renameProfile = async (
+  registry: ProfileRegistry,
+  profileId: string,
+  name: string
+): Promise<ProfileRegistry> => {
+  const trimmed = validateProfileName(registry, name, profileId);
+
+  const updated = {
+    ...registry,
+    profiles: registry.profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, name: trimmed } : profile
+    ),
+  };
+  await PreferenceStorageProvider.saveProfileRegistry(updated);
+  return updated;
+};
+
+/**
+ * Permanently delete the active profile - its vault, journals and preferences -
+ * and activate another one. The caller must lock the app afterwards.
+ */
+export const deleteActiveProfile = async (
+  registry: ProfileRegistry
+): Promise<{ registry: ProfileRegistry; settings: AppSettings | null }> => {
+  const deletedId = registry.activeProfileId;
+  const remaining = registry.profiles.filter((profile) => profile.id !== deletedId);
+  if (remaining.length === 0) {
+    throw new Error('The only profile cannot be deleted');
+  }
+
+  // Wipe while the profile is still open, then close it by switching away
+  await VaultStorageProvider.clearAllData();
+  await clearBiometricKey();
+
+  const next = await activateProfile(
+    { profiles: remaining, activeProfileId: remaining[0].id },
+    remaining[0].id
+  );
+
+  await VaultStorageProvider.deleteProfileStorage(deletedId);
+  await PreferenceStorageProvider.deleteProfilePreferences(deletedId);
+
+  console.log(`🗑️ Profile ${deletedId} deleted`);
+  return next;
+};
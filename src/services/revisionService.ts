@@ -0,0 +1,76 @@
+import { subDays } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import APP_CONFIG from "../config/appConfig";
+import { Journal, JournalRevision, JournalSummary } from "../types";
+
+/**
+ * Revision history helpers shared by both storage providers
+ *
+ * A revision is captured from the stored version of a journal right before a
+ * save overwrites it, so every auto-save of the editor stays recoverable.
+ */
+
+type VersionedFields = Pick<Journal, "title" | "text" | "mood" | "tags">;
+
+const sameTags = (a?: string[], b?: string[]): boolean => {
+  const left = a ?? [];
+  const right = b ?? [];
+  return left.length === right.length && left.every((tag, i) => tag === right[i]);
+};
+
+/**
+ * True when a save changes anything worth keeping a revision for
+ */
+export const hasVersionedChanges = (
+  previous: VersionedFields,
+  next: VersionedFields,
+): boolean => {
+  return (
+    (previous.title ?? "") !== (next.title ?? "") ||
+    previous.text !== next.text ||
+    (previous.mood ?? "") !== (next.mood ?? "") ||
+    !sameTags(previous.tags, next.tags)
+  );
+};
+
+/**
+ * Snapshot the stored version of a journal
+ */
+export const createRevision = (previous: Journal | JournalSummary): JournalRevision => ({
+  id: uuidv4(),
+  journalId: previous.id,
+  savedAt: previous.updatedAt,
+  date: previous.date,
+  title: previous.title,
+  text: previous.text,
+  mood: previous.mood,
+  tags: previous.tags,
+});
+
+/**
+ * Apply retention limits: newest MAX_REVISIONS_PER_JOURNAL within REVISION_RETENTION_DAYS
+ *
+ * @param revisions - Revisions of one journal
+ * @returns Revisions to keep, newest first
+ */
+export const applyRevisionRetention = <T extends Pick<JournalRevision, "savedAt">>(
+  revisions: T[],
+): T[] => {
+  const cutoff = subDays(new Date(), APP_CONFIG.REVISION_RETENTION_DAYS).toISOString();
+  return [...revisions]
+    .sort((a, b) => (a.savedAt < b.savedAt ? 1 : a.savedAt > b.savedAt ? -1 : 0))
+    .filter((revision) => revision.savedAt >= cutoff)
+    .slice(0, APP_CONFIG.MAX_REVISIONS_PER_JOURNAL);
+};
+
+/**
+ * The journal as it will look after restoring a revision (current images are kept)
+ */
+export const applyRevision = (current: Journal, revision: JournalRevision): Journal => ({
+  ...current,
+  title: revision.title,
+  text: revision.text,
+  mood: revision.mood,
+  tags: revision.tags,
+  updatedAt: new Date().toISOString(),
+});
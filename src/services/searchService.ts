@@ -0,0 +1,344 @@
+import { Journal, SearchHit, SearchIndex, SnippetSegment } from "../types";
+
+/**
+ * Full-text search
+ *
+ * - Tokenizes and stems title, tags and body into an inverted index
+ * - Ranks matches with BM25 (title and tags weigh more than body text)
+ * - Builds highlighted snippets from decrypted text for the result list
+ *
+ * The index itself is plain data; storage providers persist it encrypted
+ * with the Data Key and update it on every save/delete.
+ */
+
+export const SEARCH_INDEX_VERSION = 1;
+
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MIN_TOKEN_LENGTH = 2;
+
+// Latin (incl. accented), Greek and Cyrillic letters plus digits
+const WORD_CHARS = "0-9a-zA-Z\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF";
+const WORD_PATTERN = new RegExp(`[${WORD_CHARS}]+`, "g");
+const ENDS_MID_WORD = new RegExp(`[${WORD_CHARS}]$`);
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "if", "in",
+  "into", "is", "it", "no", "not", "of", "on", "or", "so", "such", "that",
+  "the", "their", "then", "there", "these", "they", "this", "to", "was",
+  "were", "will", "with",
+]);
+
+// ==================== Tokenization & Stemming ====================
+
+const isVowelAt = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ("aeiou".includes(c)) return true;
+  // 'y' is a vowel when it follows a consonant
+  return c === "y" && i > 0 && !isVowelAt(word, i - 1);
+};
+
+/**
+ * Porter "measure": number of vowel-consonant sequences in a stem
+ */
+const measure = (stem: string): number => {
+  let m = 0;
+  let prevVowel = false;
+  for (let i = 0; i < stem.length; i++) {
+    const vowel = isVowelAt(stem, i);
+    if (prevVowel && !vowel) m++;
+    prevVowel = vowel;
+  }
+  return m;
+};
+
+const hasVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (isVowelAt(stem, i)) return true;
+  }
+  return false;
+};
+
+const DERIVATIONAL_SUFFIXES: [string, string][] = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["fulness", "ful"],
+  ["iveness", "ive"],
+  ["ousness", "ous"],
+  ["ation", "ate"],
+  ["ness", ""],
+  ["ment", ""],
+  ["ful", ""],
+  ["ly", ""],
+];
+
+/**
+ * Light English stemmer (Porter step 1 plus common derivational suffixes).
+ * Only needs to be consistent between indexing and querying.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3) return word;
+  let w = word;
+
+  // Plurals
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !w.endsWith("ss")) w = w.slice(0, -1);
+
+  // Past tense / gerunds
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    for (const suffix of ["ing", "ed"]) {
+      const base = w.slice(0, -suffix.length);
+      if (w.endsWith(suffix) && hasVowel(base)) {
+        w = base;
+        if (/(at|bl|iz)$/.test(w)) {
+          w += "e";
+        } else if (/([^aeiouslz])\1$/.test(w)) {
+          w = w.slice(0, -1);
+        }
+        break;
+      }
+    }
+  }
+
+  for (const [suffix, replacement] of DERIVATIONAL_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (measure(base) > 0) w = base + replacement;
+      break;
+    }
+  }
+
+  // Terminal y -> i (happy / happiness)
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  return w;
+};
+
+/**
+ * Split text into lowercase words (no stemming, stop words kept)
+ */
+const splitWords = (text: string): string[] => {
+  return text.toLowerCase().match(WORD_PATTERN) ?? [];
+};
+
+/**
+ * Tokenize text into stemmed index terms (stop words and 1-char words dropped)
+ */
+export const tokenize = (text: string): string[] => {
+  return splitWords(text)
+    .filter((word) => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(word))
+    .map(stem);
+};
+
+// ==================== Index Maintenance ====================
+
+export const createSearchIndex = (): SearchIndex => ({
+  version: SEARCH_INDEX_VERSION,
+  docs: {},
+  postings: {},
+});
+
+/**
+ * Remove a journal from the index (mutates index)
+ */
+export const removeFromSearchIndex = (index: SearchIndex, id: string): void => {
+  if (!index.docs[id]) return;
+  delete index.docs[id];
+
+  for (const term of Object.keys(index.postings)) {
+    const posting = index.postings[term];
+    if (posting[id] !== undefined) {
+      delete posting[id];
+      if (Object.keys(posting).length === 0) {
+        delete index.postings[term];
+      }
+    }
+  }
+};
+
+/**
+ * Add or replace a journal in the index (mutates index)
+ */
+export const addToSearchIndex = (index: SearchIndex, journal: Journal): void => {
+  removeFromSearchIndex(index, journal.id);
+
+  const weights = new Map<string, number>();
+  const addTerms = (terms: string[], weight: number) => {
+    for (const term of terms) {
+      weights.set(term, (weights.get(term) ?? 0) + weight);
+    }
+  };
+
+  addTerms(tokenize(journal.title ?? ""), TITLE_WEIGHT);
+  addTerms(tokenize((journal.tags ?? []).join(" ")), TAG_WEIGHT);
+  addTerms(tokenize(journal.text), 1);
+
+  let length = 0;
+  weights.forEach((weight, term) => {
+    (index.postings[term] ??= {})[journal.id] = weight;
+    length += weight;
+  });
+  index.docs[journal.id] = { length };
+};
+
+/**
+ * Build a fresh index from decrypted journals
+ */
+export const buildSearchIndex = (journals: Journal[]): SearchIndex => {
+  const index = createSearchIndex();
+  for (const journal of journals) {
+    addToSearchIndex(index, journal);
+  }
+  return index;
+};
+
+// ==================== Querying ====================
+
+type ParsedQuery = {
+  terms: string[];
+  prefix: string | null; // Last term while the user is still typing it
+};
+
+const parseQuery = (query: string): ParsedQuery => {
+  const terms = tokenize(query);
+  const words = splitWords(query);
+  const last = words[words.length - 1];
+  const lastIsTerm =
+    !!last && last.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(last);
+
+  if (!ENDS_MID_WORD.test(query) || !lastIsTerm) {
+    return { terms, prefix: null };
+  }
+
+  // The unfinished word is matched by prefix on its raw (unstemmed) form
+  return { terms: terms.slice(0, -1), prefix: last };
+};
+
+/**
+ * Rank journals matching every query term (BM25), best first
+ */
+export const searchIndex = (index: SearchIndex, query: string): SearchHit[] => {
+  const { terms, prefix } = parseQuery(query);
+  if (terms.length === 0 && !prefix) return [];
+
+  const docIds = Object.keys(index.docs);
+  const docCount = docIds.length;
+  if (docCount === 0) return [];
+
+  const avgLength =
+    docIds.reduce((sum, id) => sum + index.docs[id].length, 0) / docCount || 1;
+
+  const scoreTerm = (term: string): Map<string, number> => {
+    const scores = new Map<string, number>();
+    const posting = index.postings[term];
+    if (!posting) return scores;
+
+    const df = Object.keys(posting).length;
+    const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+    for (const [id, tf] of Object.entries(posting)) {
+      const norm = 1 - BM25_B + BM25_B * (index.docs[id]?.length ?? avgLength) / avgLength;
+      scores.set(id, (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm));
+    }
+    return scores;
+  };
+
+  const perTerm: Map<string, number>[] = terms.map(scoreTerm);
+
+  if (prefix) {
+    // Best score among every indexed term the prefix (or its stem) expands to
+    const stemmed = stem(prefix);
+    const expanded = new Map<string, number>();
+    for (const term of Object.keys(index.postings)) {
+      if (!term.startsWith(prefix) && term !== stemmed) continue;
+      scoreTerm(term).forEach((score, id) => {
+        expanded.set(id, Math.max(expanded.get(id) ?? 0, score));
+      });
+    }
+    perTerm.push(expanded);
+  }
+
+  // AND semantics: start from the rarest term's matches
+  const [first, ...rest] = [...perTerm].sort((a, b) => a.size - b.size);
+  const hits: SearchHit[] = [];
+  first.forEach((score, id) => {
+    let total = score;
+    for (const scores of rest) {
+      const s = scores.get(id);
+      if (s === undefined) return;
+      total += s;
+    }
+    hits.push({ id, score: total });
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+};
+
+// ==================== Snippets ====================
+
+/**
+ * Build a highlighted excerpt of `text` around the first query match.
+ * Falls back to the start of the text when nothing matches (e.g. title-only hits).
+ */
+export const buildSnippet = (
+  text: string,
+  query: string,
+  maxLength = 160,
+): SnippetSegment[] => {
+  // Strip the most common markdown syntax so the excerpt reads as prose
+  const plain = text.replace(/[#*_`>~[\]]/g, "").replace(/\s+/g, " ").trim();
+  if (!plain) return [];
+
+  const { terms, prefix } = parseQuery(query);
+  const termSet = new Set(terms);
+  const isMatch = (word: string): boolean => {
+    const lower = word.toLowerCase();
+    if (termSet.has(stem(lower))) return true;
+    return !!prefix && lower.startsWith(prefix);
+  };
+
+  const matches: { start: number; end: number }[] = [];
+  for (const match of plain.matchAll(WORD_PATTERN)) {
+    if (isMatch(match[0])) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  let start = 0;
+  if (matches.length > 0 && matches[0].start > maxLength / 3) {
+    start = matches[0].start - Math.floor(maxLength / 3);
+    const space = plain.indexOf(" ", start);
+    if (space !== -1 && space < matches[0].start) start = space + 1;
+  }
+  let end = Math.min(plain.length, start + maxLength);
+  if (end < plain.length) {
+    const space = plain.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  for (const { start: mStart, end: mEnd } of matches) {
+    if (mStart < start) continue;
+    if (mEnd > end) break;
+    if (mStart > cursor) {
+      segments.push({ text: plain.slice(cursor, mStart), highlight: false });
+    }
+    segments.push({ text: plain.slice(mStart, mEnd), highlight: true });
+    cursor = mEnd;
+  }
+  if (cursor < end) {
+    segments.push({ text: plain.slice(cursor, end), highlight: false });
+  }
+
+  if (start > 0) segments.unshift({ text: "…", highlight: false });
+  if (end < plain.length) segments.push({ text: "…", highlight: false });
+
+  return segments;
+};
@@ -5,7 +5,7 @@ import { Journal } from "../types";
 /**
  * Calculate the current streak of consecutive days with journal entries
  */
-export const calculateCurrentStreak = (journals: Journal[]): number => {
+export const calculateCurrentStreak = (journals: Pick<Journal, "date">[]): number => {
   if (journals.length === 0) return 0;
 
   // Sort journals by date (newest first)
@@ -62,7 +62,7 @@ export const calculateCurrentStreak = (journals: Journal[]): number => {
 /**
  * Calculate the longest streak ever achieved
  */
-export const calculateLongestStreak = (journals: Journal[]): number => {
+export const calculateLongestStreak = (journals: Pick<Journal, "date">[]): number => {
   if (journals.length === 0) return 0;
 
   // Sort journals by date (oldest first for longest streak calculation)
@@ -107,7 +107,7 @@ export const calculateLongestStreak = (journals: Journal[]): number => {
  * Get dates with journal entries for calendar marking
  */
 export const getMarkedDates = (
-  journals: Journal[],
+  journals: Pick<Journal, "date">[],
   colors: MD3Colors,
 ): { [key: string]: { marked: boolean; dotColor: string } } => {
   const marked: { [key: string]: { marked: boolean; dotColor: string } } = {};
@@ -0,0 +1,37 @@
+import { SyncRemoteConfig, SyncRemoteEntry, SyncRemoteMeta } from '../types';
+import WebDavSyncRemoteProvider from './impl/webDavSyncRemoteProvider';
+
+/**
+ * Backend that sync pushes to and pulls from
+ *
+ * It only ever sees the shared meta record and entries sealed with the sync
+ * key - never plaintext. Writes are conditional on the revision the caller last
+ * saw, so two devices cannot overwrite each other's changes unnoticed.
+ */
+export default interface SyncRemoteProvider {
+  // Salt and key check shared by every device (null before the first one connects)
+  getMeta: () => Promise<SyncRemoteMeta | null>;
+  saveMeta: (meta: SyncRemoteMeta) => Promise<void>;
+
+  listEntries: () => Promise<SyncRemoteEntry[]>;
+  getEntry: (id: string) => Promise<(SyncRemoteEntry & { data: string }) | null>;
+
+  // `expectedRevision` null = the entry must not exist yet. Both throw
+  // 'REVISION_MISMATCH' when the entry was changed by another device
+  putEntry: (id: string, data: string, expectedRevision: string | null) => Promise<string>;
+  deleteEntry: (id: string, expectedRevision: string) => Promise<void>;
+}
+
+export const REVISION_MISMATCH = 'REVISION_MISMATCH';
+
+export const getSyncRemoteProvider = (
+  config: SyncRemoteConfig,
+  password: string | null
+): SyncRemoteProvider => {
+  switch (config.kind) {
+    case 'webdav':
+      return new WebDavSyncRemoteProvider(config, password);
+    default:
+      throw new Error(`Unsupported sync remote: ${config.kind}`);
+  }
+};
@@ -0,0 +1,457 @@
+import { v4 as uuidv4 } from 'uuid';
+import APP_CONFIG from '../config/appConfig';
+import {
+  Journal,
+  SyncConflict,
+  SyncData,
+  SyncRemoteConfig,
+  SyncRecord,
+  SyncRemoteMeta,
+  SyncResult,
+  SyncState,
+} from '../types';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { DEFAULT_KDF_PARAMS, deriveArgon2idKey } from './keyDerivationService';
+import SyncRemoteProvider, { getSyncRemoteProvider, REVISION_MISMATCH } from './syncRemoteProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * End-to-end encrypted sync
+ *
+ * Every device derives the same sync key from a sync passphrase (Argon2id, salt
+ * kept on the remote) and seals each journal with it before upload, so the
+ * remote only stores ciphertext. Locally the sync key, server password and the
+ * per-entry records are kept sealed with the Data Key.
+ *
+ * A sync run compares three versions of every entry: the local updatedAt, the
+ * remote revision and both as they were at the last sync (SyncRecord). Entries
+ * changed on one side are copied to the other; deletions travel the same way
+ * (remote deletions move the local entry to the trash). Entries changed on both
+ * sides become conflicts and wait for the user to pick a side.
+ *
+ * Only journals sealed with the Data Key are synced - not protected notebooks,
+ * and not the notebooks themselves (entries keep their notebookId).
+ *
+ * The server chooses the revisions, so it could hand out one entry's file under
+ * another id, or an older copy of the same entry. Each entry therefore seals its
+ * id and a write counter (sequence); one that is stored under a different id or
+ * is older than the version last synced is refused.
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+const SYNC_KEY_CHECK = 'journal-sync-key-check';
+
+export type ConflictResolution = 'keep-local' | 'keep-remote' | 'keep-both';
+
+const openSyncData = async (dk: string, state: SyncState): Promise<SyncData> => {
+  return JSON.parse(await CryptoManager.decryptData(dk, state.dataEncrypted)) as SyncData;
+};
+
+const saveSyncData = async (
+  dk: string,
+  state: SyncState,
+  data: SyncData,
+  changes: Partial<SyncState> = {}
+): Promise<SyncState> => {
+  const next: SyncState = {
+    ...state,
+    ...changes,
+    conflictCount: data.conflicts.length,
+    dataEncrypted: await CryptoManager.encryptData(dk, JSON.stringify(data)),
+  };
+  await VaultStorageProvider.saveSyncState(next);
+  return next;
+};
+
+export const loadSyncState = async (): Promise<SyncState | null> => {
+  return VaultStorageProvider.getSyncState();
+};
+
+export const loadSyncConflicts = async (dk: string): Promise<SyncConflict[]> => {
+  const state = await VaultStorageProvider.getSyncState();
+  return state ? (await openSyncData(dk, state)).conflicts : [];
+};
+
+/**
+ * Set up sync on this device
+ * The first device to connect creates the remote setup; the others must use
+ * the same passphrase.
+ */
+export const connectSync = async (
+  dk: string,
+  remoteConfig: SyncRemoteConfig,
+  serverPassword: string | null,
+  passphrase: string
+): Promise<SyncState> => {
+  if (passphrase.length < APP_CONFIG.MIN_SYNC_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `Sync passphrase must be at least ${APP_CONFIG.MIN_SYNC_PASSPHRASE_LENGTH} characters`
+    );
+  }
+
+  const remote = getSyncRemoteProvider(remoteConfig, serverPassword);
+  let meta = await remote.getMeta();
+  if (!meta) {
+    const salt = await CryptoManager.generateSalt();
+    const key = await deriveArgon2idKey(passphrase, salt, DEFAULT_KDF_PARAMS);
+    const created: SyncRemoteMeta = {
+      version: APP_CONFIG.SYNC_FORMAT_VERSION,
+      kdfParams: DEFAULT_KDF_PARAMS,
+      salt,
+      keyCheck: await CryptoManager.encryptData(key, SYNC_KEY_CHECK),
+    };
+    try {
+      await remote.saveMeta(created);
+      meta = created;
+    } catch (error) {
+      // Another device set it up just now - use theirs
+      if (!(error instanceof Error) || error.message !== REVISION_MISMATCH) throw error;
+      meta = await remote.getMeta();
+      if (!meta) throw new Error('Could not read the sync setup from the server');
+    }
+  }
+
+  if (meta.version > APP_CONFIG.SYNC_FORMAT_VERSION) {
+    throw new Error('The sync data was written by a newer version of the app');
+  }
+  const syncKey = await deriveArgon2idKey(passphrase, meta.salt, meta.kdfParams);
+  const check = await CryptoManager.decryptData(syncKey, meta.keyCheck).catch(() => null);
+  if (check !== SYNC_KEY_CHECK) {
+    throw new Error('Wrong sync passphrase for this server');
+  }
+
+  const state: SyncState = {
+    remote: remoteConfig,
+    lastSyncAt: null,
+    lastError: null,
+    conflictCount: 0,
+    dataEncrypted: '',
+  };
+  return saveSyncData(dk, state, { serverPassword, syncKey, records: {}, conflicts: [] });
+};
+
+/**
+ * Stop syncing on this device (the remote and other devices are untouched)
+ */
+export const disconnectSync = async (): Promise<void> => {
+  await VaultStorageProvider.saveSyncState(null);
+};
+
+/**
+ * Move the sealed sync data to a new Data Key (key rotation)
+ */
+export const resealSyncData = async (oldKey: string, newKey: string): Promise<void> => {
+  const state = await VaultStorageProvider.getSyncState();
+  if (!state) return;
+
+  const data = await openSyncData(oldKey, state).catch(() => null);
+  if (!data) return;
+  await saveSyncData(newKey, state, data);
+};
+
+// ==================== Entries ====================
+
+type SealedEntry = { id: string; sequence: number; journal: Journal };
+
+const sealEntry = async (syncKey: string, journal: Journal, sequence: number): Promise<string> => {
+  const sealed: SealedEntry = { id: journal.id, sequence, journal };
+  return JSON.stringify({
+    version: APP_CONFIG.SYNC_FORMAT_VERSION,
+    data: await CryptoManager.encryptData(syncKey, JSON.stringify(sealed)),
+  });
+};
+
+/**
+ * Open the entry fetched under `id`
+ * Throws when it belongs to another id or is older than `record` (the version
+ * last synced); entries of format 1 count as sequence 0.
+ */
+const openEntry = async (
+  syncKey: string,
+  id: string,
+  data: string,
+  record: SyncRecord | undefined
+): Promise<SealedEntry> => {
+  const entry = JSON.parse(data) as { version: number; data: string };
+  if (entry.version > APP_CONFIG.SYNC_FORMAT_VERSION) {
+    throw new Error('An entry was written by a newer version of the app');
+  }
+
+  const opened = JSON.parse(await CryptoManager.decryptData(syncKey, entry.data));
+  const sealed: SealedEntry =
+    entry.version >= 2 ? opened : { id: (opened as Journal).id, sequence: 0, journal: opened };
+  if (sealed.id !== id || sealed.journal?.id !== id) {
+    throw new Error('The sync server returned an entry under the wrong id');
+  }
+  if (sealed.sequence < (record?.sequence ?? 0)) {
+    throw new Error('The sync server returned an older copy of an entry');
+  }
+  return sealed;
+};
+
+const sameContent = (a: Journal, b: Journal): boolean =>
+  a.date === b.date &&
+  (a.title ?? '') === (b.title ?? '') &&
+  a.text === b.text &&
+  (a.mood ?? '') === (b.mood ?? '') &&
+  (a.notebookId ?? '') === (b.notebookId ?? '') &&
+  JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []) &&
+  JSON.stringify(a.images ?? []) === JSON.stringify(b.images ?? []);
+
+/**
+ * updatedAt of every local journal sealed with the Data Key
+ */
+const listLocalVersions = async (dk: string): Promise<Map<string, string>> => {
+  const versions = new Map<string, string>();
+  let cursor: string | null = null;
+  do {
+    const page = await VaultStorageProvider.listJournalSummaries(dk, { cursor });
+    for (const summary of page.items) versions.set(summary.id, summary.updatedAt);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return versions;
+};
+
+/**
+ * Save a journal from the remote; storage may stamp its own updatedAt, so the
+ * stored one is read back for the record
+ */
+const applyRemoteJournal = async (dk: string, journal: Journal): Promise<string> => {
+  await VaultStorageProvider.saveJournal(journal, dk);
+  const page = await VaultStorageProvider.listJournalSummaries(dk, { ids: [journal.id], limit: 1 });
+  return page.items[0]?.updatedAt ?? journal.updatedAt;
+};
+
+const pushJournal = async (
+  dk: string,
+  remote: SyncRemoteProvider,
+  data: SyncData,
+  id: string,
+  expectedRevision: string | null,
+  remoteSequence = 0
+): Promise<boolean> => {
+  const journal = await VaultStorageProvider.getJournal(id, dk);
+  if (!journal) return false;
+
+  // Past every version this device has seen, so other devices accept it as newer
+  const sequence = Math.max(data.records[id]?.sequence ?? 0, remoteSequence) + 1;
+  try {
+    const revision = await remote.putEntry(
+      id,
+      await sealEntry(data.syncKey, journal, sequence),
+      expectedRevision
+    );
+    data.records[id] = { revision, updatedAt: journal.updatedAt, sequence };
+    return true;
+  } catch (error) {
+    // Changed remotely since the listing - the next sync sorts it out
+    if (error instanceof Error && error.message === REVISION_MISMATCH) return false;
+    throw error;
+  }
+};
+
+/**
+ * Bring one entry in sync (see the rules at the top of this file)
+ */
+const syncEntry = async (
+  dk: string,
+  remote: SyncRemoteProvider,
+  data: SyncData,
+  id: string,
+  remoteRevision: string | undefined,
+  localVersion: string | undefined,
+  result: SyncResult
+): Promise<void> => {
+  const record = data.records[id];
+  const localChanged = localVersion !== undefined ? localVersion !== record?.updatedAt : !!record;
+  const remoteChanged =
+    remoteRevision !== undefined ? remoteRevision !== record?.revision : !!record;
+
+  if (!localChanged && !remoteChanged) return;
+
+  // Gone on both sides
+  if (localVersion === undefined && remoteRevision === undefined) {
+    delete data.records[id];
+    return;
+  }
+
+  // Deleted remotely: follow, unless edited here since (then it is sent again)
+  if (remoteRevision === undefined) {
+    if (localChanged) {
+      if (await pushJournal(dk, remote, data, id, null)) result.pushed++;
+    } else {
+      await VaultStorageProvider.trashJournal(id, dk);
+      delete data.records[id];
+      result.deletedLocally++;
+    }
+    return;
+  }
+
+  // Only changed here
+  if (!remoteChanged) {
+    if (localVersion === undefined) {
+      try {
+        await remote.deleteEntry(id, remoteRevision);
+        delete data.records[id];
+        result.deletedRemotely++;
+      } catch (error) {
+        if (!(error instanceof Error) || error.message !== REVISION_MISMATCH) throw error;
+      }
+    } else if (await pushJournal(dk, remote, data, id, remoteRevision)) {
+      result.pushed++;
+    }
+    return;
+  }
+
+  const entry = await remote.getEntry(id);
+  if (!entry) return; // Deleted while syncing - next time
+  const { journal: remoteJournal, sequence } = await openEntry(
+    data.syncKey,
+    id,
+    entry.data,
+    record
+  );
+
+  // Only changed remotely, or deleted here but edited there (the edit wins)
+  const localJournal = localChanged && localVersion !== undefined
+    ? await VaultStorageProvider.getJournal(id, dk)
+    : null;
+  if (!localJournal) {
+    data.records[id] = {
+      revision: entry.revision,
+      updatedAt: await applyRemoteJournal(dk, remoteJournal),
+      sequence,
+    };
+    result.pulled++;
+    return;
+  }
+
+  // Changed on both sides - the same edit needs no decision
+  if (sameContent(localJournal, remoteJournal)) {
+    data.records[id] = { revision: entry.revision, updatedAt: localJournal.updatedAt, sequence };
+    return;
+  }
+  data.conflicts.push({
+    id,
+    remote: remoteJournal,
+    remoteRevision: entry.revision,
+    remoteSequence: sequence,
+    detectedAt: new Date().toISOString(),
+  });
+  result.conflicts++;
+};
+
+/**
+ * Push local changes and pull remote ones
+ * Entries waiting in a conflict are left alone until it is resolved.
+ */
+export const runSync = async (dk: string): Promise<{ state: SyncState; result: SyncResult }> => {
+  const state = await VaultStorageProvider.getSyncState();
+  if (!state) throw new Error('Sync is not set up');
+  const data = await openSyncData(dk, state);
+  const remote = getSyncRemoteProvider(state.remote, data.serverPassword);
+
+  const result: SyncResult = {
+    pulled: 0,
+    pushed: 0,
+    deletedLocally: 0,
+    deletedRemotely: 0,
+    conflicts: 0,
+  };
+  try {
+    const remoteRevisions = new Map(
+      (await remote.listEntries()).map((entry) => [entry.id, entry.revision])
+    );
+    const localVersions = await listLocalVersions(dk);
+    const waiting = new Set(data.conflicts.map((conflict) => conflict.id));
+
+    const ids = new Set([
+      ...remoteRevisions.keys(),
+      ...localVersions.keys(),
+      ...Object.keys(data.records),
+    ]);
+    for (const id of ids) {
+      if (waiting.has(id)) continue;
+      await syncEntry(dk, remote, data, id, remoteRevisions.get(id), localVersions.get(id), result);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    console.error('❌ Sync failed:', error);
+    // Keep what got through - every record matches a finished transfer
+    await saveSyncData(dk, state, data, { lastError: message });
+    throw new Error(message);
+  }
+
+  console.log(
+    `🔄 Sync: ${result.pulled} pulled, ${result.pushed} pushed, ` +
+      `${result.deletedLocally + result.deletedRemotely} deleted, ${result.conflicts} conflict(s)`
+  );
+  const saved = await saveSyncData(dk, state, data, {
+    lastSyncAt: new Date().toISOString(),
+    lastError: null,
+  });
+  return { state: saved, result };
+};
+
+/**
+ * Settle a conflict
+ *
+ * - keep-local: this device's version replaces the remote one
+ * - keep-remote: the other device's version replaces this one
+ * - keep-both: the other version is saved here as a copy, then keep-local
+ */
+export const resolveSyncConflict = async (
+  dk: string,
+  id: string,
+  resolution: ConflictResolution
+): Promise<SyncState> => {
+  const state = await VaultStorageProvider.getSyncState();
+  if (!state) throw new Error('Sync is not set up');
+  const data = await openSyncData(dk, state);
+  const conflict = data.conflicts.find((c) => c.id === id);
+  if (!conflict) throw new Error('This conflict was already resolved');
+
+  data.conflicts = data.conflicts.filter((c) => c.id !== id);
+
+  if (resolution === 'keep-remote') {
+    data.records[id] = {
+      revision: conflict.remoteRevision,
+      updatedAt: await applyRemoteJournal(dk, conflict.remote),
+      sequence: conflict.remoteSequence,
+    };
+    return saveSyncData(dk, state, data);
+  }
+
+  if (resolution === 'keep-both') {
+    const now = new Date().toISOString();
+    // A new entry - the next sync uploads it
+    await VaultStorageProvider.saveJournal(
+      {
+        ...conflict.remote,
+        id: uuidv4(),
+        title: `${conflict.remote.title || 'Untitled'} (other device)`,
+        createdAt: now,
+        updatedAt: now,
+      },
+      dk
+    );
+  }
+
+  const remote = getSyncRemoteProvider(state.remote, data.serverPassword);
+  const pushed = await pushJournal(
+    dk,
+    remote,
+    data,
+    id,
+    conflict.remoteRevision,
+    conflict.remoteSequence
+  );
+  const saved = await saveSyncData(dk, state, data);
+  if (!pushed) {
+    // The conflict is dropped all the same - the next sync compares afresh
+    throw new Error('The entry changed again on another device - sync again to compare');
+  }
+  return saved;
+};
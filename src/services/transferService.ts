@@ -0,0 +1,514 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import * as Network from 'expo-network';
+import { Platform } from 'react-native';
+import TcpSocket from 'react-native-tcp-socket';
+import { v4 as uuidv4 } from 'uuid';
+import APP_CONFIG from '../config/appConfig';
+import {
+  Journal,
+  Notebook,
+  TransferInvite,
+  TransferProgress,
+  TransferSummary,
+} from '../types';
+import { getCryptoProvider } from './cryptoServiceProvider';
+import { getVaultStorageProvider } from './vaultStorageProvider';
+
+/**
+ * Device-to-device transfer over the local network
+ *
+ * The sending device listens on a TCP port and shows a QR code (TransferInvite)
+ * with its address and a one-time key. The receiving device scans it and
+ * connects; every message either way is one line of AES-256-GCM ciphertext
+ * sealed with that key, so anyone else on the network only sees noise and
+ * cannot pose as either device.
+ *
+ * Journals go in batches, each acknowledged once it is saved, so the sender's
+ * progress follows what the receiver actually stored. Both ends hash every
+ * journal and compare the digests at the end.
+ *
+ * Protected notebooks travel with their Notebook Key when they are unlocked on
+ * the sender; locked ones are left out (and reported).
+ */
+
+const CryptoManager = getCryptoProvider();
+const VaultStorageProvider = getVaultStorageProvider();
+
+type TcpSocketConnection = ReturnType<typeof TcpSocket.createConnection>;
+
+type TransferMessage =
+  | { type: 'hello'; sessionId: string; version: number }
+  | {
+      type: 'start';
+      journalCount: number;
+      notebooks: Notebook[];
+      notebookKeys: Record<string, string>;
+      skippedNotebooks: string[];
+    }
+  | { type: 'journals'; seq: number; journals: Journal[] }
+  | { type: 'ack'; seq: number }
+  | { type: 'end'; count: number; digest: string }
+  | { type: 'done'; count: number; digest: string }
+  | { type: 'error'; message: string };
+
+type TransferMessageOf<T extends TransferMessage['type']> = Extract<TransferMessage, { type: T }>;
+
+export type TransferSession = {
+  invite: TransferInvite;
+  completion: Promise<TransferSummary>;
+  cancel: () => void;
+};
+
+export const TRANSFER_CANCELLED = 'TRANSFER_CANCELLED';
+
+export const isTransferSupported = Platform.OS !== 'web';
+
+// ==================== Channel ====================
+
+/**
+ * Sealed, line-framed messages over one socket
+ */
+const openChannel = (socket: TcpSocketConnection, key: string) => {
+  const lines: string[] = [];
+  let buffer = '';
+  let failure: Error | null = null;
+  let waiting: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+
+  const fail = (error: Error) => {
+    failure = failure ?? error;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', (data) => {
+    buffer += data.toString();
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      lines.push(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+    if (waiting && lines.length > 0) {
+      const { resolve } = waiting;
+      waiting = null;
+      resolve(lines.shift()!);
+    }
+  });
+  socket.on('error', (error) => fail(error));
+  socket.on('close', () => fail(new Error('The other device disconnected')));
+
+  const nextLine = (): Promise<string> => {
+    const line = lines.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (failure) return Promise.reject(failure);
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(
+        () => fail(new Error('The other device stopped responding')),
+        APP_CONFIG.TRANSFER_IDLE_TIMEOUT_MS
+      );
+      waiting = {
+        resolve: (next) => {
+          clearTimeout(timeout);
+          resolve(next);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      };
+    });
+  };
+
+  const send = async (message: TransferMessage): Promise<void> => {
+    socket.write(`${await CryptoManager.encryptData(key, JSON.stringify(message))}\n`);
+  };
+
+  const receive = async (): Promise<TransferMessage> => {
+    const line = await nextLine();
+    let message: TransferMessage;
+    try {
+      message = JSON.parse(await CryptoManager.decryptData(key, line)) as TransferMessage;
+    } catch {
+      throw new Error('Could not read the transfer - scan the code shown right now on the other device');
+    }
+    if (message.type === 'error') {
+      throw new Error(message.message);
+    }
+    return message;
+  };
+
+  const expect = async <T extends TransferMessage['type']>(type: T): Promise<TransferMessageOf<T>> => {
+    const message = await receive();
+    if (message.type !== type) {
+      throw new Error('The other device sent something unexpected');
+    }
+    return message as TransferMessageOf<T>;
+  };
+
+  // Tell the other side why we stop, then close once everything is flushed
+  const close = async (error?: unknown): Promise<void> => {
+    if (error && !failure) {
+      const message = error instanceof Error ? error.message : 'Transfer failed';
+      await send({ type: 'error', message }).catch(() => {});
+    }
+    socket.end();
+  };
+
+  return { send, receive, expect, close };
+};
+
+const hashJournal = (hash: ReturnType<typeof sha256.create>, journal: Journal) => {
+  hash.update(utf8ToBytes(JSON.stringify(journal)));
+};
+
+// ==================== Sending device ====================
+
+type TransferPlan = {
+  notebooks: Notebook[];
+  notebookKeys: Record<string, string>;
+  skippedNotebooks: string[];
+  groups: { key: string; ids: string[] }[]; // Journal ids by the key that opens them
+  total: number;
+};
+
+const listJournalIds = async (key: string, notebookId?: string): Promise<string[]> => {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await VaultStorageProvider.listJournalSummaries(key, { cursor, notebookId });
+    ids.push(...page.items.map((summary) => summary.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+};
+
+const planTransfer = async (
+  dk: string,
+  openNotebookKeys: Record<string, string>
+): Promise<TransferPlan> => {
+  const all = await VaultStorageProvider.listNotebooks(dk);
+  const notebooks = all.filter((n) => !n.protection || openNotebookKeys[n.id] !== undefined);
+  const skippedNotebooks = all.filter((n) => !notebooks.includes(n)).map((n) => n.name);
+
+  const notebookKeys: Record<string, string> = {};
+  const groups = [{ key: dk, ids: await listJournalIds(dk) }];
+  for (const notebook of notebooks) {
+    if (!notebook.protection) continue;
+    const key = openNotebookKeys[notebook.id];
+    notebookKeys[notebook.id] = key;
+    groups.push({ key, ids: await listJournalIds(key, notebook.id) });
+  }
+
+  const total = groups.reduce((sum, group) => sum + group.ids.length, 0);
+  return { notebooks, notebookKeys, skippedNotebooks, groups, total };
+};
+
+const sendVault = async (
+  channel: ReturnType<typeof openChannel>,
+  plan: TransferPlan,
+  onProgress: (progress: TransferProgress) => void
+): Promise<TransferSummary> => {
+  await channel.send({
+    type: 'start',
+    journalCount: plan.total,
+    notebooks: plan.notebooks,
+    notebookKeys: plan.notebookKeys,
+    skippedNotebooks: plan.skippedNotebooks,
+  });
+
+  const hash = sha256.create();
+  let done = 0;
+  let sent = 0;
+  let seq = 0;
+  onProgress({ phase: 'transferring', done, total: plan.total });
+
+  for (const group of plan.groups) {
+    for (let i = 0; i < group.ids.length; i += APP_CONFIG.TRANSFER_BATCH_SIZE) {
+      const batchIds = group.ids.slice(i, i + APP_CONFIG.TRANSFER_BATCH_SIZE);
+      const journals: Journal[] = [];
+      for (const id of batchIds) {
+        // Deleted since the plan was made - nothing to send
+        const journal = await VaultStorageProvider.getJournal(id, group.key);
+        if (!journal) continue;
+        hashJournal(hash, journal);
+        journals.push(journal);
+      }
+
+      await channel.send({ type: 'journals', seq, journals });
+      const ack = await channel.expect('ack');
+      if (ack.seq !== seq) {
+        throw new Error('The other device lost track of the transfer');
+      }
+      seq++;
+      sent += journals.length;
+      done += batchIds.length;
+      onProgress({ phase: 'transferring', done, total: plan.total });
+    }
+  }
+
+  const digest = bytesToHex(hash.digest());
+  await channel.send({ type: 'end', count: sent, digest });
+  onProgress({ phase: 'verifying', done, total: plan.total });
+
+  const result = await channel.expect('done');
+  if (result.count !== sent || result.digest !== digest) {
+    throw new Error('Verification failed - the other device did not receive everything. Try again.');
+  }
+  return {
+    journals: sent,
+    notebooks: plan.notebooks.length,
+    skippedNotebooks: plan.skippedNotebooks,
+    digest,
+  };
+};
+
+/**
+ * Locked protected notebooks - left out of a transfer unless opened first
+ */
+export const listLockedNotebooks = async (
+  dk: string,
+  openNotebookKeys: Record<string, string>
+): Promise<string[]> => {
+  const notebooks = await VaultStorageProvider.listNotebooks(dk);
+  return notebooks
+    .filter((n) => n.protection && openNotebookKeys[n.id] === undefined)
+    .map((n) => n.name);
+};
+
+/**
+ * Start listening for the receiving device
+ * @returns the invite to show as a QR code, and the transfer's outcome
+ */
+export const hostTransfer = async (
+  dk: string,
+  openNotebookKeys: Record<string, string>,
+  onProgress: (progress: TransferProgress) => void
+): Promise<TransferSession> => {
+  const host = await Network.getIpAddressAsync();
+  if (!host || host === '0.0.0.0') {
+    throw new Error('Connect this device to Wi-Fi first');
+  }
+
+  const plan = await planTransfer(dk, openNotebookKeys);
+  const server = TcpSocket.createServer();
+  const port = await new Promise<number>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen({ port: 0, host: '0.0.0.0' }, () => resolve(server.address()?.port ?? 0));
+  });
+
+  const invite: TransferInvite = {
+    type: 'vault_transfer',
+    version: APP_CONFIG.TRANSFER_PROTOCOL_VERSION,
+    host,
+    port,
+    sessionId: uuidv4(),
+    key: await CryptoManager.generateDataKey(),
+    expiresAt: new Date(Date.now() + APP_CONFIG.TRANSFER_INVITE_TTL_MS).toISOString(),
+  };
+
+  let cancel = () => {};
+  const completion = new Promise<TransferSummary>((resolve, reject) => {
+    let activeSocket: TcpSocketConnection | null = null;
+    let finished = false;
+
+    const finish = (error: Error | null, summary?: TransferSummary) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(expiry);
+      server.close();
+      if (error) reject(error);
+      else resolve(summary!);
+    };
+    const expiry = setTimeout(
+      () => finish(new Error('The transfer code expired - start again')),
+      APP_CONFIG.TRANSFER_INVITE_TTL_MS
+    );
+
+    cancel = () => {
+      activeSocket?.destroy();
+      finish(new Error(TRANSFER_CANCELLED));
+    };
+
+    server.on('error', (error) => finish(error));
+    server.on('connection', async (socket) => {
+      // One receiver per code
+      if (activeSocket || finished) {
+        socket.destroy();
+        return;
+      }
+
+      const channel = openChannel(socket, invite.key);
+      try {
+        // Only the device holding the key can produce a readable hello
+        const hello = await channel.expect('hello');
+        if (hello.sessionId !== invite.sessionId || activeSocket) {
+          socket.destroy();
+          return;
+        }
+        activeSocket = socket;
+        clearTimeout(expiry);
+      } catch {
+        socket.destroy();
+        return;
+      }
+
+      try {
+        onProgress({ phase: 'connected', done: 0, total: plan.total });
+        const summary = await sendVault(channel, plan, onProgress);
+        await channel.close();
+        finish(null, summary);
+      } catch (error) {
+        await channel.close(error);
+        finish(error instanceof Error ? error : new Error('Transfer failed'));
+      }
+    });
+  });
+
+  onProgress({ phase: 'waiting', done: 0, total: plan.total });
+  return { invite, completion, cancel };
+};
+
+// ==================== Receiving device ====================
+
+/**
+ * Read a scanned QR code
+ * Throws when it is not a transfer code or it has expired.
+ */
+export const parseTransferInvite = (text: string): TransferInvite => {
+  let invite: any;
+  try {
+    invite = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a transfer code');
+  }
+  if (
+    !invite ||
+    invite.type !== 'vault_transfer' ||
+    typeof invite.host !== 'string' ||
+    typeof invite.port !== 'number' ||
+    typeof invite.sessionId !== 'string' ||
+    typeof invite.key !== 'string'
+  ) {
+    throw new Error('This is not a transfer code');
+  }
+  if (invite.version !== APP_CONFIG.TRANSFER_PROTOCOL_VERSION) {
+    throw new Error('Update the app on both devices to the same version first');
+  }
+  if (Date.parse(invite.expiresAt) < Date.now()) {
+    throw new Error('This transfer code has expired - start again on the other device');
+  }
+  return invite as TransferInvite;
+};
+
+const connect = (invite: TransferInvite): Promise<TcpSocketConnection> => {
+  return new Promise((resolve, reject) => {
+    const socket = TcpSocket.createConnection(
+      {
+        host: invite.host,
+        port: invite.port,
+        connectTimeout: APP_CONFIG.TRANSFER_IDLE_TIMEOUT_MS,
+      },
+      () => {
+        socket.off('error', onError);
+        resolve(socket);
+      }
+    );
+    const onError = () => {
+      socket.destroy();
+      reject(new Error('Could not reach the other device - both must be on the same Wi-Fi'));
+    };
+    socket.once('error', onError);
+  });
+};
+
+/**
+ * Receive the vault of the device that showed the invite
+ * Notebooks and journals are saved as they arrive (same ids replace local ones,
+ * except those sealed with another Data Key - the decoy set, or the real one in
+ * a decoy session - which are left out together with their notebooks' journals).
+ */
+export const receiveTransfer = async (
+  dk: string,
+  invite: TransferInvite,
+  onProgress: (progress: TransferProgress) => void
+): Promise<TransferSummary> => {
+  const socket = await connect(invite);
+  const channel = openChannel(socket, invite.key);
+
+  try {
+    await channel.send({
+      type: 'hello',
+      sessionId: invite.sessionId,
+      version: APP_CONFIG.TRANSFER_PROTOCOL_VERSION,
+    });
+    const start = await channel.expect('start');
+    const total = start.journalCount;
+    onProgress({ phase: 'connected', done: 0, total });
+
+    const foreignNotebooks = new Set(await VaultStorageProvider.listForeignNotebookIds(dk));
+    const foreignJournals = new Set(await VaultStorageProvider.listForeignJournalIds(dk));
+    for (const notebook of start.notebooks) {
+      if (foreignNotebooks.has(notebook.id)) continue;
+      await VaultStorageProvider.saveNotebook(notebook, dk);
+    }
+    let leftOut = 0;
+
+    const hash = sha256.create();
+    let received = 0;
+    let seq = 0;
+    onProgress({ phase: 'transferring', done: 0, total });
+
+    let message = await channel.receive();
+    while (message.type === 'journals') {
+      if (message.seq !== seq) {
+        throw new Error('Part of the transfer went missing');
+      }
+      for (const journal of message.journals) {
+        hashJournal(hash, journal);
+        if (journal.notebookId && foreignNotebooks.has(journal.notebookId)) {
+          leftOut++;
+          continue;
+        }
+        const notebookKey = journal.notebookId ? start.notebookKeys[journal.notebookId] : undefined;
+        // Protected notebooks' journals are sealed with their Notebook Key here too
+        if (!notebookKey && foreignJournals.has(journal.id)) {
+          leftOut++;
+          continue;
+        }
+        await VaultStorageProvider.saveJournal(journal, notebookKey ?? dk);
+      }
+      received += message.journals.length;
+      await channel.send({ type: 'ack', seq });
+      seq++;
+      onProgress({ phase: 'transferring', done: Math.min(received, total), total });
+      message = await channel.receive();
+    }
+    if (message.type !== 'end') {
+      throw new Error('The other device sent something unexpected');
+    }
+
+    onProgress({ phase: 'verifying', done: received, total });
+    const digest = bytesToHex(hash.digest());
+    if (message.count !== received || message.digest !== digest) {
+      throw new Error('Verification failed - some journals did not arrive intact. Try again.');
+    }
+    await channel.send({ type: 'done', count: received, digest });
+    await channel.close();
+    if (leftOut > 0) {
+      console.log(`📲 Transfer: ${leftOut} journal(s) left out - their ids belong to another key`);
+    }
+
+    return {
+      journals: received,
+      notebooks: start.notebooks.length,
+      skippedNotebooks: start.skippedNotebooks,
+      digest,
+    };
+  } catch (error) {
+    await channel.close(error);
+    throw error;
+  }
+};
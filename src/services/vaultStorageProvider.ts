@@ -9,7 +9,26 @@
  */
 
 import { Platform } from 'react-native';
-import { Journal } from '../types';
+import {
+  BackupState,
+  ImportLogEntry,
+  ImportUndoResult,
+  IntegrityIssue,
+  IntegrityScan,
+  Journal,
+  JournalIndexEntry,
+  JournalPage,
+  JournalPageQuery,
+  JournalRevision,
+  KeyRotationBatch,
+  KeyRotationState,
+  LockoutState,
+  Notebook,
+  QuarantinedItem,
+  SearchHit,
+  SyncState,
+  TrashedJournal,
+} from '../types';
 import type { Vault } from '../types/crypto';
 import AsyncStoreVaultStorageProvider from './impl/asyncStoreVaultStorageProvider';
 import SQLiteDBVaultStorageProvider from './impl/sqliteDBVaultStorageProvider';
@@ -31,9 +50,80 @@ export interface VaultStorageProvider {
   saveJournal: (journal: Journal, encryptionKey: string) => Promise<void>;
   getJournal: (id: string, encryptionKey: string) => Promise<Journal | null>;
   listJournals: (encryptionKey: string) => Promise<Journal[]>;
+  listJournalSummaries: (encryptionKey: string, query?: JournalPageQuery) => Promise<JournalPage>;
+  listJournalIndex: (encryptionKey: string) => Promise<JournalIndexEntry[]>;
   deleteJournal: (id: string,key? : string) => Promise<void>;
   getJournalCount: () => Promise<number>;
 
+  // Trash (soft delete); deleteJournal above removes a journal permanently
+  trashJournal: (id: string, encryptionKey: string) => Promise<void>;
+  restoreJournal: (id: string, encryptionKey: string) => Promise<Journal>;
+  listTrash: (encryptionKey: string) => Promise<TrashedJournal[]>;
+  purgeTrash: (retentionDays: number, key?: string) => Promise<number>;
+
+  // Search operations (index is encrypted with the Data Key)
+  searchJournals: (query: string, encryptionKey: string) => Promise<SearchHit[]>;
+  rebuildSearchIndex: (encryptionKey: string) => Promise<void>;
+
+  // Revision history (earlier versions captured on save, newest first)
+  listRevisions: (journalId: string, encryptionKey: string) => Promise<JournalRevision[]>;
+  restoreRevision: (
+    journalId: string,
+    revisionId: string,
+    encryptionKey: string
+  ) => Promise<Journal>;
+
+  // Notebooks (records sealed with the Data Key; a protected notebook's
+  // journals are sealed with its own Notebook Key)
+  listNotebooks: (encryptionKey: string) => Promise<Notebook[]>;
+  saveNotebook: (notebook: Notebook, encryptionKey: string) => Promise<void>;
+  deleteNotebook: (id: string, encryptionKey: string) => Promise<void>;
+  // Notebooks of another Data Key (the decoy set, or the real one in a decoy session)
+  listForeignNotebookIds: (encryptionKey: string) => Promise<string[]>;
+  reEncryptJournals: (ids: string[], oldKey: string, newKey: string) => Promise<void>;
+
+  // Data Key rotation - every step re-seals only what still opens with the old
+  // key, so an interrupted rotation can simply be run again
+  getKeyRotationState: () => Promise<KeyRotationState | null>;
+  saveKeyRotationState: (state: KeyRotationState | null) => Promise<void>;
+  reEncryptJournalBatch: (
+    oldKey: string,
+    newKey: string,
+    cursor: string | null,
+    limit: number
+  ) => Promise<KeyRotationBatch>;
+  finishKeyRotation: (oldKey: string, newKey: string) => Promise<void>;
+
+  // Integrity - checks ciphertext without needing every key; damaged items can
+  // be moved to a quarantine (kept as-is) and put back later
+  scanIntegrity: (encryptionKeys: string[]) => Promise<IntegrityScan>;
+  quarantineItems: (issues: IntegrityIssue[]) => Promise<void>;
+  listQuarantine: () => Promise<QuarantinedItem[]>;
+  restoreQuarantined: (ids: string[]) => Promise<void>;
+  deleteQuarantined: (ids: string[]) => Promise<void>;
+
+  // Automatic backups - the record holds the backup password sealed with the
+  // Data Key, next to where and when backups were last written
+  getBackupState: () => Promise<BackupState | null>;
+  saveBackupState: (state: BackupState | null) => Promise<void>;
+
+  // Sync - remote setup plus sealed sync key, per-entry records and conflicts
+  getSyncState: () => Promise<SyncState | null>;
+  saveSyncState: (state: SyncState | null) => Promise<void>;
+
+  // Imports - journals are staged, then written in one go (all of them or, on
+  // any error, none). Each import is logged; the last one keeps the versions it
+  // replaced so it can be undone.
+  // Journals sealed with another key (a locked notebook, the decoy set) can share
+  // ids with imported ones; an import never replaces them.
+  listForeignJournalIds: (encryptionKey: string) => Promise<string[]>;
+  beginImport: () => Promise<void>;
+  stageImportJournals: (journals: Journal[], encryptionKey: string) => Promise<void>;
+  commitImport: (source: string, encryptionKey: string) => Promise<ImportLogEntry>;
+  discardImport: () => Promise<void>;
+  listImportLog: (encryptionKey: string) => Promise<ImportLogEntry[]>;
+  undoLastImport: (encryptionKey: string) => Promise<ImportUndoResult>;
+
   // Metadata operations
   isFirstLaunch: () => Promise<boolean>;
   markAsLaunched: () => Promise<void>;
@@ -41,9 +131,18 @@ export interface VaultStorageProvider {
   getRecoveryKeyHash: () => Promise<string | null>;
   clearRecoveryKeyDisplay: () => Promise<void>;
 
+  // Unlock throttling (readable before unlock, so stored unencrypted)
+  getLockoutState: () => Promise<LockoutState | null>;
+  saveLockoutState: (state: LockoutState | null) => Promise<void>;
+
   // Data management
   clearAllData: () => Promise<void>;
   initializeStorage: () => Promise<void>;
+  migrateWithDataKey: (encryptionKey: string) => Promise<void>;
+
+  // Profiles - each profile's vault lives in its own database / key namespace
+  switchProfile: (profileId: string) => Promise<void>;
+  deleteProfileStorage: (profileId: string) => Promise<void>;
 }
 
 
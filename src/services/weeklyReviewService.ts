@@ -41,6 +41,11 @@ export type WeeklyReviewSummary = {
   };
 };
 
+/**
+ * Full journals or image-less summaries; images only feed `imageUris`
+ */
+export type WeeklyReviewJournal = Omit<Journal, 'images'> & { images?: string[] };
+
 const WEEK_STARTS_ON: 1 = 1; // Monday
 
 export const getPreviousWeekRange = (now: Date = new Date()) => {
@@ -66,7 +71,7 @@ const moodFromValue = (value?: string): WeeklyReviewMood | undefined => {
 };
 
 export const buildWeeklyReviewSummary = (
-  journals: Journal[],
+  journals: WeeklyReviewJournal[],
   now: Date = new Date(),
 ): WeeklyReviewSummary => {
   const { start, end } = getPreviousWeekRange(now);
@@ -77,7 +82,7 @@ export const buildWeeklyReviewSummary = (
   });
 
   // Map entries by dayKey
-  const byDay = new Map<string, Journal[]>();
+  const byDay = new Map<string, WeeklyReviewJournal[]>();
   for (const j of entries) {
     const k = toDateKey(new Date(j.date));
     const arr = byDay.get(k) ?? [];
@@ -141,7 +146,7 @@ export const buildWeeklyReviewSummary = (
   }
 
   // Highlight: pick the entry with the longest text (best chance of meaningful snippet)
-  let highlightJournal: Journal | undefined;
+  let highlightJournal: WeeklyReviewJournal | undefined;
   let bestLen = 0;
   for (const e of entries) {
     const len = (e.text ?? '').trim().length;
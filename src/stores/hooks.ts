@@ -8,3 +8,18 @@ export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
 export const useEncryptionKey = () => {
   return useAppSelector((state) => state.auth.encryptionKey);
 };
+
+/**
+ * Key for the journals on screen: the Notebook Key while an unlocked protected
+ * notebook is selected, otherwise the Data Key
+ */
+export const useJournalKey = () => {
+  return useAppSelector((state) => {
+    const { notebooks, activeNotebookId, notebookKeys } = state.notebooks;
+    const active = notebooks.find((n) => n.id === activeNotebookId);
+    if (active?.protection) {
+      return notebookKeys[active.id] ?? null;
+    }
+    return state.auth.encryptionKey;
+  });
+};
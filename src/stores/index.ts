@@ -3,6 +3,8 @@ import { configureStore } from '@reduxjs/toolkit';
 import { settingsMiddleware } from './middleware/settingsMiddleware';
 import authReducer from './slices/authSlice';
 import journalsReducer from './slices/journalsSlice';
+import notebookReducer from './slices/notebookSlice';
+import profileReducer from './slices/profileSlice';
 import settingsReducer from './slices/settingsSlice';
 
 const store = configureStore({
@@ -10,6 +12,8 @@ const store = configureStore({
     auth: authReducer,
     journals: journalsReducer,
     settings: settingsReducer,
+    profiles: profileReducer,
+    notebooks: notebookReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware().concat(settingsMiddleware),
@@ -4,12 +4,14 @@ import { UserAuth } from '../../types';
 interface AuthState extends UserAuth {
   isLoading: boolean;
    encryptionKey: string | null; // Store DK here instead of context
+  isDecoySession: boolean; // Unlocked with the decoy password (encryptionKey is the decoy DK)
 }
 
 const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: false,
     encryptionKey: null,
+  isDecoySession: false,
 
 };
 
@@ -37,11 +39,15 @@ const authSlice = createSlice({
       state.salt = undefined;
       state.securityQuestions = undefined;
       state.encryptionKey = null; // 🔑 CRITICAL: Wipe encryption key
+      state.isDecoySession = false;
     },
 
     setEncryptionKey(state, action: PayloadAction<string | null>) {
       state.encryptionKey = action.payload;
-    },   
+    },
+    setDecoySession(state, action: PayloadAction<boolean>) {
+      state.isDecoySession = action.payload;
+    },
   
   },
 });
@@ -53,8 +59,7 @@ export const {
   setLoading,
   logout,
   setEncryptionKey,
-  
-  
+  setDecoySession,
 } = authSlice.actions;
 
 export default authSlice.reducer;
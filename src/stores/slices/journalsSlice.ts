@@ -1,9 +1,12 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { Journal } from '../../types';
+import { Journal, JournalIndexEntry, JournalPage, JournalSummary } from '../../types';
 import { calculateCurrentStreak, calculateLongestStreak } from '../../services/streakService';
+import { compareJournalsNewestFirst, toJournalSummary } from '../../utils/journalPaging';
 
 interface JournalsState {
-  journals: Journal[];
+  journals: JournalSummary[]; // Pages loaded so far, newest first (no images)
+  nextCursor: string | null; // Cursor for the next page, null when everything is loaded
+  entries: JournalIndexEntry[]; // Every journal in the vault (id, date, tags)
   isLoading: boolean;
   currentStreak: number;
   longestStreak: number;
@@ -11,41 +14,80 @@ interface JournalsState {
 
 const initialState: JournalsState = {
   journals: [],
+  nextCursor: null,
+  entries: [],
   isLoading: false,
   currentStreak: 0,
   longestStreak: 0,
 };
 
+const recalculateStreaks = (state: JournalsState) => {
+  state.currentStreak = calculateCurrentStreak(state.entries);
+  state.longestStreak = calculateLongestStreak(state.entries);
+};
+
+const toIndexEntry = (journal: Journal | JournalSummary): JournalIndexEntry => ({
+  id: journal.id,
+  date: journal.date,
+  tags: journal.tags ?? [],
+  notebookId: journal.notebookId,
+});
+
+/**
+ * Insert a journal into the loaded pages, unless it belongs to a page not loaded yet
+ */
+const insertLoaded = (state: JournalsState, summary: JournalSummary) => {
+  const last = state.journals[state.journals.length - 1];
+  if (state.nextCursor && last && compareJournalsNewestFirst(last, summary) < 0) {
+    return;
+  }
+  state.journals.push(summary);
+  state.journals.sort(compareJournalsNewestFirst);
+};
+
 const journalsSlice = createSlice({
   name: 'journals',
   initialState,
   reducers: {
-    setJournals: (state, action: PayloadAction<Journal[]>) => {
-      state.journals = action.payload;
-      // Auto-calculate streaks when journals are loaded
-      state.currentStreak = calculateCurrentStreak(action.payload);
-      state.longestStreak = calculateLongestStreak(action.payload);
+    // Replace the loaded pages with a fresh first page
+    setJournalPage: (state, action: PayloadAction<JournalPage>) => {
+      state.journals = action.payload.items;
+      state.nextCursor = action.payload.nextCursor;
+    },
+    appendJournalPage: (state, action: PayloadAction<JournalPage>) => {
+      const loadedIds = new Set(state.journals.map((j) => j.id));
+      state.journals.push(...action.payload.items.filter((j) => !loadedIds.has(j.id)));
+      state.nextCursor = action.payload.nextCursor;
     },
-    addJournal: (state, action: PayloadAction<Journal>) => {
-      state.journals.push(action.payload);
+    setJournalIndex: (state, action: PayloadAction<JournalIndexEntry[]>) => {
+      state.entries = action.payload;
+      // Auto-calculate streaks when the index is loaded
+      recalculateStreaks(state);
+    },
+    addJournal: (state, action: PayloadAction<Journal | JournalSummary>) => {
+      insertLoaded(state, toJournalSummary(action.payload));
+      state.entries = [...state.entries, toIndexEntry(action.payload)].sort(
+        compareJournalsNewestFirst
+      );
       // Recalculate streaks
-      state.currentStreak = calculateCurrentStreak(state.journals);
-      state.longestStreak = calculateLongestStreak(state.journals);
+      recalculateStreaks(state);
     },
-    updateJournal: (state, action: PayloadAction<Journal>) => {
-      const index = state.journals.findIndex(j => j.id === action.payload.id);
-      if (index !== -1) {
-        state.journals[index] = action.payload;
-      }
+    updateJournal: (state, action: PayloadAction<Journal | JournalSummary>) => {
+      const summary = toJournalSummary(action.payload);
+      state.journals = state.journals.filter((j) => j.id !== summary.id);
+      insertLoaded(state, summary);
+
+      state.entries = state.entries
+        .map((e) => (e.id === summary.id ? toIndexEntry(summary) : e))
+        .sort(compareJournalsNewestFirst);
       // Recalculate streaks
-      state.currentStreak = calculateCurrentStreak(state.journals);
-      state.longestStreak = calculateLongestStreak(state.journals);
+      recalculateStreaks(state);
     },
     deleteJournal: (state, action: PayloadAction<string>) => {
       state.journals = state.journals.filter(j => j.id !== action.payload);
+      state.entries = state.entries.filter(e => e.id !== action.payload);
       // Recalculate streaks
-      state.currentStreak = calculateCurrentStreak(state.journals);
-      state.longestStreak = calculateLongestStreak(state.journals);
+      recalculateStreaks(state);
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
@@ -60,7 +102,9 @@ const journalsSlice = createSlice({
 });
 
 export const {
-  setJournals,
+  setJournalPage,
+  appendJournalPage,
+  setJournalIndex,
   addJournal,
   updateJournal,
   deleteJournal,
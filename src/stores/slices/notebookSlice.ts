@@ -0,0 +1,62 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { Notebook } from '../../types';
+import { logout } from './authSlice';
+
+interface NotebookState {
+  notebooks: Notebook[];
+  activeNotebookId: string | null; // null = all notebooks
+  notebookKeys: Record<string, string>; // Notebook Keys of protected notebooks opened this session
+}
+
+const initialState: NotebookState = {
+  notebooks: [],
+  activeNotebookId: null,
+  notebookKeys: {},
+};
+
+const notebookSlice = createSlice({
+  name: 'notebooks',
+  initialState,
+  reducers: {
+    setNotebooks: (state, action: PayloadAction<Notebook[]>) => {
+      state.notebooks = action.payload;
+      if (!action.payload.some((n) => n.id === state.activeNotebookId)) {
+        state.activeNotebookId = null;
+      }
+    },
+    upsertNotebook: (state, action: PayloadAction<Notebook>) => {
+      const index = state.notebooks.findIndex((n) => n.id === action.payload.id);
+      if (index >= 0) {
+        state.notebooks[index] = action.payload;
+      } else {
+        state.notebooks.push(action.payload);
+      }
+    },
+    removeNotebook: (state, action: PayloadAction<string>) => {
+      state.notebooks = state.notebooks.filter((n) => n.id !== action.payload);
+      delete state.notebookKeys[action.payload];
+      if (state.activeNotebookId === action.payload) {
+        state.activeNotebookId = null;
+      }
+    },
+    setActiveNotebook: (state, action: PayloadAction<string | null>) => {
+      state.activeNotebookId = action.payload;
+    },
+    setNotebookKey: (state, action: PayloadAction<{ id: string; key: string | null }>) => {
+      if (action.payload.key) {
+        state.notebookKeys[action.payload.id] = action.payload.key;
+      } else {
+        delete state.notebookKeys[action.payload.id];
+      }
+    },
+  },
+  // Notebook Keys must not outlive the session
+  extraReducers: (builder) => {
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const { setNotebooks, upsertNotebook, removeNotebook, setActiveNotebook, setNotebookKey } =
+  notebookSlice.actions;
+
+export default notebookSlice.reducer;
@@ -0,0 +1,29 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import APP_CONFIG from '@/src/config/appConfig';
+import { Profile, ProfileRegistry } from '../../types';
+
+interface ProfileState {
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+const initialState: ProfileState = {
+  profiles: [],
+  activeProfileId: APP_CONFIG.DEFAULT_PROFILE_ID,
+};
+
+// Mirrors the persisted registry (see profileService) - not saved by middleware
+const profileSlice = createSlice({
+  name: 'profiles',
+  initialState,
+  reducers: {
+    setProfileRegistry: (_state, action: PayloadAction<ProfileRegistry>) => ({
+      profiles: action.payload.profiles,
+      activeProfileId: action.payload.activeProfileId,
+    }),
+  },
+});
+
+export const { setProfileRegistry } = profileSlice.actions;
+
+export default profileSlice.reducer;
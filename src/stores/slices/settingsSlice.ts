@@ -12,6 +12,10 @@ export interface SettingsState {
   instantLockOnBackground: boolean;
   isExportImportInProgress: boolean;
   isImagePickingInProgress:boolean;
+  trashRetentionDays: number;
+  wipeAfterFailedAttempts: number;
+  backupIntervalDays: number;
+  backupKeepCount: number;
 }
 
 
@@ -24,6 +28,10 @@ const initialState: SettingsState = {
   instantLockOnBackground: true,
   isExportImportInProgress: false,
   isImagePickingInProgress: false,
+  trashRetentionDays: APP_CONFIG.TRASH_RETENTION_OPTIONS[2].value, // 30 days
+  wipeAfterFailedAttempts: APP_CONFIG.WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS[0].value, // never
+  backupIntervalDays: APP_CONFIG.BACKUP_INTERVAL_OPTIONS[0].value, // off
+  backupKeepCount: APP_CONFIG.BACKUP_KEEP_OPTIONS[1].value, // 5 backups
 };
 
 const settingsSlice = createSlice({
@@ -46,9 +54,25 @@ const settingsSlice = createSlice({
     setInstantLockOnBackground(state, action: PayloadAction<boolean>) {
       state.instantLockOnBackground = action.payload;
     },
+    setTrashRetentionDays(state, action: PayloadAction<number>) {
+      state.trashRetentionDays = action.payload;
+    },
+    setWipeAfterFailedAttempts(state, action: PayloadAction<number>) {
+      state.wipeAfterFailedAttempts = action.payload;
+    },
+    setBackupIntervalDays(state, action: PayloadAction<number>) {
+      state.backupIntervalDays = action.payload;
+    },
+    setBackupKeepCount(state, action: PayloadAction<number>) {
+      state.backupKeepCount = action.payload;
+    },
     updateSettings(state, action: PayloadAction<Partial<AppSettings>>) {
       return { ...state, ...action.payload };
     },
+    // Replace everything with a profile's saved settings (defaults fill the gaps)
+    loadProfileSettings(_state, action: PayloadAction<Partial<AppSettings> | null>) {
+      return { ...initialState, ...action.payload };
+    },
 
      setIsExportImportInProgress(state, action: PayloadAction<boolean>) {
       state.isExportImportInProgress = action.payload;
@@ -69,7 +93,12 @@ export const {
   setNotificationTime,
   setAutoLockTimeout,
   setInstantLockOnBackground,
+  setTrashRetentionDays,
+  setWipeAfterFailedAttempts,
+  setBackupIntervalDays,
+  setBackupKeepCount,
   updateSettings,
+  loadProfileSettings,
   setIsExportImportInProgress, // ✅ NEW
   setIsImagePickingInProgress, // ✅ NEW
   resetSettings
@@ -9,8 +9,9 @@
  */
 export interface KDFParams {
   algorithm: 'Argon2id' | 'PBKDF2-SHA256';
-  iterations: number;
-  memory?: number; // For Argon2id
+  iterations: number; // PBKDF2 rounds, or Argon2id time cost
+  memory?: number; // For Argon2id (KiB)
+  parallelism?: number; // For Argon2id (lanes)
 }
 
 /**
@@ -21,16 +22,21 @@ export interface Salts {
   master_salt: string; // For password-derived key
   security_answer_salt: string; // For security answer-derived key
   recovery_salt: string; // For recovery key-derived key
+  decoy_salt?: string; // For decoy password-derived key
 }
 
 /**
- * Three different encrypted copies of the Data Key (DK)
+ * Encrypted copies of the Data Key (DK)
  * Each can independently decrypt to the same DK
  */
 export interface KeyWraps {
   dk_wrapped_by_password: string; // AES-256-GCM(DK, PWDK)
   dk_wrapped_by_security_ans: string; // AES-256-GCM(DK, SADK)
   dk_wrapped_by_recovery: string; // AES-256-GCM(DK, RKDK)
+  dk_wrapped_by_biometric?: string; // AES-256-GCM(DK, BK) - opt-in; BK lives in the OS keystore behind biometrics
+  // Decoy slot - random filler of the same shape while no decoy password is set
+  dk_wrapped_by_decoy?: string; // AES-256-GCM(decoy DK, decoy PWDK) - opens the decoy journal set
+  decoy_dk_wrapped_by_dk?: string; // AES-256-GCM(decoy DK, DK) - lets the owner manage the decoy
 }
 
 /**
@@ -49,7 +55,8 @@ export interface VaultSecurityQuestion {
  */
 export interface Vault {
   user_id: string;
-  kdf_params: KDFParams;
+  kdf_params: KDFParams; // Default params for every key wrap
+  wrap_kdf_params?: Partial<Record<keyof KeyWraps, KDFParams>>; // Per-wrap overrides (set when a single wrap is re-derived)
   salts: Salts;
   key_wraps: KeyWraps;
   security_questions: VaultSecurityQuestion[];
@@ -67,13 +74,26 @@ export interface EncryptedNote {
   iv: string; // Unique random IV for this note
   content: string; // AES-256-GCM(note text, key=DK, iv=iv)
   tags_encrypted?: string; // AES-256-GCM(tags JSON, key=DK, iv=iv)
-  title?: string;
-  mood?: string;
-  images?: string[]; // For now, can remain unencrypted or encrypted separately
+  metadata_encrypted?: string; // AES-256-GCM(NoteMetadata JSON, key=DK)
+  images_encrypted?: string; // AES-256-GCM(images JSON, key=DK) - separate so summaries skip it
+  title?: string; // Legacy plaintext (rows written before metadata encryption)
+  mood?: string; // Legacy plaintext
+  images?: string[]; // Legacy plaintext
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Per-note metadata sealed inside EncryptedNote.metadata_encrypted
+ */
+export interface NoteMetadata {
+  title?: string;
+  mood?: string;
+  imageCount?: number;
+  images?: string[]; // Only on notes sealed before images moved to images_encrypted
+  notebookId?: string;
+}
+
 /**
  * Return type for recovery flow
  */
@@ -87,7 +107,9 @@ export interface RecoveryResult {
  */
 export interface UnlockResult {
   dk: string; // The decrypted Data Key (hex string, 32 bytes)
-  vault: Vault; // The vault object
+  vault: Vault; // The vault object (re-wrapped copy when upgraded)
+  vaultUpgraded?: boolean; // True when the vault must be persisted by the caller
+  isDecoy?: boolean; // True when the password opened the decoy slot (dk is the decoy DK)
 }
 
 /**
@@ -1,3 +1,5 @@
+import type { KDFParams } from './crypto';
+
 export type Journal = {
   id: string;
   date: string;
@@ -6,7 +8,65 @@ export type Journal = {
   title?: string;
   text: string;
   mood?: string;
+  tags?: string[]; // Normalized (lowercase, no leading '#')
   images?: string[]; // Now stores base64 strings instead of file paths
+  notebookId?: string; // Notebook the entry is filed in (none = loose entry)
+};
+
+/**
+ * Journal without its images - what list screens page through
+ */
+export type JournalSummary = Omit<Journal, 'images'> & {
+  imageCount: number;
+};
+
+/**
+ * Lightweight record for every entry in the vault (streaks, calendar, tag filters)
+ */
+export type JournalIndexEntry = {
+  id: string;
+  date: string;
+  tags: string[];
+  notebookId?: string;
+};
+
+export type JournalPageQuery = {
+  limit?: number; // Defaults to APP_CONFIG.JOURNAL_PAGE_SIZE
+  cursor?: string | null; // nextCursor of the previous page
+  from?: string; // Inclusive ISO lower bound on date
+  to?: string; // Exclusive ISO upper bound on date
+  ids?: string[]; // Restrict to these journals
+  notebookId?: string; // Restrict to one notebook (omit for every notebook the key opens)
+};
+
+/**
+ * One page of journals, newest first
+ */
+export type JournalPage = {
+  items: JournalSummary[];
+  nextCursor: string | null; // null when there are no more pages
+};
+
+/**
+ * Earlier version of a journal, captured when a save overwrote it
+ * Images are not versioned - restoring keeps the entry's current images
+ */
+export type JournalRevision = {
+  id: string;
+  journalId: string;
+  savedAt: string; // When this version was originally saved
+  date: string;
+  title?: string;
+  text: string;
+  mood?: string;
+  tags?: string[];
+};
+
+/**
+ * Journal in the trash (soft deleted) - purged after AppSettings.trashRetentionDays
+ */
+export type TrashedJournal = JournalSummary & {
+  deletedAt: string;
 };
 
 export type SecurityQuestion = {
@@ -29,21 +89,424 @@ export type AppSettings = {
   instantLockOnBackground: boolean;
   isExportInProgress: boolean; // ✅ NEW
   isImagePickingInProgress: boolean; // ✅ NEW
+  trashRetentionDays: number; // Trashed journals are purged after this many days
+  wipeAfterFailedAttempts: number; // 0 = never wipe the vault after failed unlocks
+  backupIntervalDays: number; // 0 = no automatic backups
+  backupKeepCount: number; // Automatic backup files kept in the backup folder
+};
+
+/**
+ * Persisted unlock throttling state
+ * Shared by password, security-answer and recovery-key attempts
+ */
+export type LockoutState = {
+  failedAttempts: number;
+  lockedUntil: string | null; // ISO timestamp; no attempts are accepted before it
 };
 
+/**
+ * Automatic backup target and outcome of the last runs
+ * The backup password is sealed with the Data Key, so backups only run unlocked.
+ */
+export type BackupState = {
+  directoryUri: string | null; // null = the app's own Backups folder
+  passwordEncrypted: string | null;
+  lastSuccessAt: string | null;
+  lastFilename: string | null;
+  lastAttemptAt: string | null;
+  lastError: string | null; // Cleared by the next successful backup
+  chainEncrypted: string | null; // BackupChainManifest sealed with the Data Key
+};
+
+/**
+ * Journal inside a backup archive - images are replaced by blob hashes
+ */
+export type BackupArchiveJournal = Omit<Journal, 'images'> & {
+  imageRefs?: string[];
+};
 
+/**
+ * Image stored once per chain, addressed by the SHA-256 of its base64
+ */
+export type BackupBlob = {
+  hash: string;
+  chunks: string[]; // base64, split every BACKUP_BLOB_CHUNK_SIZE characters
+};
+
+export type BackupTombstone = {
+  id: string;
+  deletedAt: string;
+};
+
+/**
+ * Plaintext of an incremental backup (sealed inside an EncryptedBackupPayload)
+ *
+ * A chain starts with a full archive. Each delta holds the journals whose
+ * updatedAt changed since the previous archive, tombstones for the ones that
+ * are gone and only the image blobs the chain does not hold yet.
+ */
+export type BackupArchive = {
+  format: 'incremental_backup';
+  version: number;
+  appName: string;
+  exportDate: string;
+  archiveId: string;
+  kind: 'full' | 'delta';
+  chainId: string; // archiveId of the chain's full archive
+  parentId: string | null; // Previous archive in the chain (null for the full one)
+  sequence: number; // 0 for the full archive
+  since: string | null; // exportDate of the parent
+  journals: BackupArchiveJournal[];
+  tombstones: BackupTombstone[];
+  blobs: BackupBlob[];
+};
+
+/**
+ * What the chain holds after its last archive - the base for the next delta
+ */
+export type BackupChainManifest = {
+  chainId: string;
+  archiveId: string;
+  sequence: number;
+  exportDate: string;
+  journalVersions: Record<string, string>; // journal id -> updatedAt
+  blobHashes: string[];
+};
+
+/**
+ * First line of a streamed encrypted export - every following line is one
+ * sealed BackupStreamChunk (JSON string of AES-256-GCM hex)
+ */
+export type BackupStreamHeader = {
+  type: 'encrypted_backup_stream';
+  version: number;
+  appName: string;
+  exportDate: string;
+  kdfParams: KDFParams;
+  salt: string;
+};
+
+/**
+ * `index` and `final` are sealed with the journals, so reordered, missing or
+ * cut-off chunks are detected
+ */
+export type BackupStreamChunk = {
+  index: number;
+  final: boolean;
+  journals: Journal[];
+  totalEntries?: number; // On the final chunk
+};
+
+/**
+ * Data Key rotation that has switched the vault but not finished re-sealing
+ * Each key is kept sealed with the other, so whichever one unlocks can resume.
+ */
+export type KeyRotationState = {
+  oldKeyWrappedByNewKey: string;
+  newKeyWrappedByOldKey: string;
+  cursor: string | null; // Last journal re-sealed (storage order)
+  startedAt: string;
+};
+
+/**
+ * Result of re-sealing one batch of journals
+ */
+export type KeyRotationBatch = {
+  cursor: string | null;
+  processed: number; // Journals checked so far, this batch included
+  total: number;
+  done: boolean; // No journals left after the cursor
+};
+
+export type KeyRotationProgress = {
+  phase: 'journals' | 'finishing';
+  processed: number;
+  total: number;
+};
+
+/**
+ * Where a damaged item was found. Native checks row by row; web stores are one
+ * sealed segment per key, so a web item is a whole segment ('store').
+ */
+export type IntegrityItemKind = 'journal' | 'trash' | 'revision' | 'notebook' | 'store';
+
+/**
+ * A stored item that failed the integrity scan
+ */
+export type IntegrityIssue = {
+  id: string; // Row id (native) or store name + segment prefix (web)
+  kind: IntegrityItemKind;
+  label: string; // e.g. the journal date - never decrypted content
+  problems: string[]; // e.g. "content: authentication failed"
+  raw: Record<string, string | null>; // The stored ciphertext, exactly as found
+};
+
+export type IntegrityScan = {
+  checked: number; // Items verified with one of the given keys
+  unverified: number; // Sealed with a key that was not given (e.g. a locked notebook)
+  issues: IntegrityIssue[];
+};
+
+export type IntegrityReport = IntegrityScan & {
+  scannedAt: string;
+  vaultProblems: string[]; // Vault JSON structure and key wraps
+};
+
+/**
+ * Damaged item moved out of the vault; restoring puts `raw` back unchanged
+ */
+export type QuarantinedItem = IntegrityIssue & {
+  quarantinedAt: string;
+};
+
+/**
+ * Passphrase lock on a notebook
+ * wrappedKey = AES-256-GCM(Notebook Key, key = KDF(passphrase, salt))
+ */
+export type NotebookProtection = {
+  salt: string;
+  kdfParams: KDFParams;
+  wrappedKey: string;
+};
+
+/**
+ * Collection of journals inside a vault (record sealed with the Data Key)
+ * Entries of a protected notebook are sealed with its Notebook Key instead.
+ */
+export type Notebook = {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  createdAt: string;
+  updatedAt: string;
+  protection?: NotebookProtection;
+};
+
+/**
+ * A person sharing the device
+ * Each profile has its own vault, preferences and Data Key.
+ */
+export type Profile = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+/**
+ * Device-level list of profiles (stored unencrypted - read before any unlock)
+ */
+export type ProfileRegistry = {
+  profiles: Profile[];
+  activeProfileId: string;
+};
+
+
+
+/**
+ * Full-text search index (stored encrypted with the Data Key)
+ * postings: stemmed term -> journal id -> weighted term frequency
+ */
+export type SearchIndex = {
+  version: number;
+  docs: Record<string, { length: number }>;
+  postings: Record<string, Record<string, number>>;
+};
+
+export type SearchHit = {
+  id: string;
+  score: number;
+};
+
+export type SnippetSegment = {
+  text: string;
+  highlight: boolean;
+};
+
+/**
+ * Where synced entries are kept - only WebDAV so far
+ */
+export type SyncRemoteConfig = {
+  kind: 'webdav';
+  url: string; // Folder on the server that holds the sync data
+  username: string | null;
+};
+
+/**
+ * Shared by every device syncing with a remote, stored there in the clear
+ */
+export type SyncRemoteMeta = {
+  version: number;
+  kdfParams: KDFParams;
+  salt: string; // Argon2id salt of the sync passphrase
+  keyCheck: string; // A known text sealed with the sync key
+};
+
+/**
+ * An entry on the remote - `data` is the journal sealed with the sync key
+ */
+export type SyncRemoteEntry = {
+  id: string;
+  revision: string; // Opaque, changes with every write (a WebDAV ETag)
+};
+
+/**
+ * Remote revision and local updatedAt of an entry when it was last in sync
+ */
+export type SyncRecord = {
+  revision: string;
+  updatedAt: string;
+  sequence?: number; // Sealed write counter of that version (absent before format 2)
+};
+
+/**
+ * Entry changed on this device and on another one since the last sync
+ */
+export type SyncConflict = {
+  id: string;
+  remote: Journal;
+  remoteRevision: string;
+  remoteSequence?: number;
+  detectedAt: string;
+};
+
+/**
+ * Which journals an export takes. Each field that is set narrows it; an empty
+ * selection is every journal the key opens.
+ */
+export type ExportSelection = {
+  from?: string; // First day, yyyy-MM-dd (inclusive, local time)
+  to?: string; // Last day, yyyy-MM-dd (inclusive)
+  moods?: string[]; // Any of these
+  tags?: string[]; // Any of these
+  notebookId?: string;
+  query?: string; // Full-text search
+};
+
+/**
+ * Layout of a PDF export
+ *   book           - cover page and table of contents, entries set like chapters
+ *   daily-log      - compact, one dated row per entry
+ *   entry-per-page - an entry card per page
+ */
+export type PdfTemplate = 'book' | 'daily-log' | 'entry-per-page';
+
+export type PdfPaperSize = 'a4' | 'a5' | 'letter';
+
+export type PdfFontSize = 'small' | 'medium' | 'large';
+
+// grid - thumbnails after the text; full-width - one image per row; none - left out
+export type PdfImagePlacement = 'grid' | 'full-width' | 'none';
+
+export type PdfExportOptions = {
+  template: PdfTemplate;
+  paperSize: PdfPaperSize;
+  fontSize: PdfFontSize;
+  imagePlacement: PdfImagePlacement;
+  includeMoods: boolean;
+};
+
+/**
+ * One import, as remembered in the vault's import log (sealed with the Data Key)
+ */
+export type ImportLogEntry = {
+  id: string;
+  importedAt: string;
+  source: string; // What was imported, e.g. "Day One Export"
+  added: number;
+  replaced: number;
+  undoneAt?: string;
+  canUndo: boolean; // Only the last import keeps what it replaced
+};
+
+/**
+ * What undoing an import did
+ */
+export type ImportUndoResult = {
+  removed: number; // Added by the import, now deleted
+  restored: number; // Replaced by the import, now back to the earlier version
+  kept: number; // Changed or deleted since the import - left as they are
+};
+
+/**
+ * Secrets and bookkeeping of sync, sealed with the Data Key as one blob
+ */
+export type SyncData = {
+  serverPassword: string | null;
+  syncKey: string;
+  records: Record<string, SyncRecord>;
+  conflicts: SyncConflict[];
+};
+
+/**
+ * Sync setup and last outcome (kept in the vault store)
+ */
+export type SyncState = {
+  remote: SyncRemoteConfig;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  conflictCount: number;
+  dataEncrypted: string; // SyncData sealed with the Data Key
+};
+
+/**
+ * What one sync run did
+ */
+export type SyncResult = {
+  pulled: number;
+  pushed: number;
+  deletedLocally: number;
+  deletedRemotely: number;
+  conflicts: number;
+};
+
+/**
+ * What the sending device's QR code carries: where to connect and the one-time
+ * key every transfer message is sealed with
+ */
+export type TransferInvite = {
+  type: 'vault_transfer';
+  version: number;
+  host: string;
+  port: number;
+  sessionId: string;
+  key: string; // Hex, 32 bytes - never reused
+  expiresAt: string;
+};
+
+export type TransferProgress = {
+  phase: 'waiting' | 'connected' | 'transferring' | 'verifying';
+  done: number; // Journals so far
+  total: number;
+};
+
+/**
+ * Outcome of a transfer, as seen by either device
+ * `skippedNotebooks` are protected notebooks that were locked on the sender.
+ */
+export type TransferSummary = {
+  journals: number;
+  notebooks: number;
+  skippedNotebooks: string[];
+  digest: string; // SHA-256 over every journal sent; both devices must agree
+};
 
 export type RootStackParamList = {
   Auth: undefined;
   Main: undefined;
   Home: undefined;
-  JournalList: undefined;
+  JournalList: { selectedDate?: string; tag?: string } | undefined;
   JournalEditor: { journalId?: string; selectedDate?: string };
   JournalDetail: { journalId: string };
+  JournalHistory: { journalId: string };
+  Trash: undefined;
+  Notebooks: undefined;
   DateJournalList: { selectedDate: string };
   Calendar: undefined;
-  Export: undefined;
+  Export: { selection?: ExportSelection } | undefined;
   Import: undefined;
   Settings: undefined;
+  Sync: undefined;
+  Transfer: undefined;
 };
 
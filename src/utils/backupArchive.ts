@@ -0,0 +1,104 @@
+// src/utils/backupArchive.ts
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import APP_CONFIG from '../config/appConfig';
+import { BackupArchive, BackupArchiveJournal, BackupBlob, Journal } from '../types';
+
+/**
+ * Content address of an image (SHA-256 of its base64)
+ */
+export const hashBlob = (base64: string): string => bytesToHex(sha256(utf8ToBytes(base64)));
+
+const toBlob = (hash: string, base64: string): BackupBlob => {
+  const chunks: string[] = [];
+  for (let i = 0; i < base64.length; i += APP_CONFIG.BACKUP_BLOB_CHUNK_SIZE) {
+    chunks.push(base64.slice(i, i + APP_CONFIG.BACKUP_BLOB_CHUNK_SIZE));
+  }
+  return { hash, chunks };
+};
+
+/**
+ * Replace a journal's images with blob hashes
+ * Images not in `knownHashes` are added to `newBlobs` (and to `knownHashes`).
+ */
+export const packJournal = (
+  journal: Journal,
+  knownHashes: Set<string>,
+  newBlobs: BackupBlob[]
+): BackupArchiveJournal => {
+  const { images, ...rest } = journal;
+  if (!images || images.length === 0) return rest;
+
+  const imageRefs = images.map((image) => {
+    const hash = hashBlob(image);
+    if (!knownHashes.has(hash)) {
+      knownHashes.add(hash);
+      newBlobs.push(toBlob(hash, image));
+    }
+    return hash;
+  });
+  return { ...rest, imageRefs };
+};
+
+export const isBackupArchive = (value: any): value is BackupArchive =>
+  !!value &&
+  value.format === 'incremental_backup' &&
+  typeof value.archiveId === 'string' &&
+  Array.isArray(value.journals);
+
+/**
+ * Rebuild the journals of a chain: its full archive plus every delta up to the
+ * newest one given. Parts may come in any order; gaps are an error.
+ *
+ * @returns journals as they were at the newest archive (tombstoned ones removed)
+ */
+export const assembleBackupChain = (archives: BackupArchive[]): Journal[] => {
+  if (archives.some((archive) => archive.version > APP_CONFIG.BACKUP_ARCHIVE_VERSION)) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+
+  // The same file picked twice counts once
+  const parts = [...new Map(archives.map((archive) => [archive.archiveId, archive])).values()];
+
+  const chainIds = new Set(parts.map((archive) => archive.chainId));
+  if (chainIds.size > 1) {
+    throw new Error('These backups belong to different chains - import one full backup and its parts at a time');
+  }
+  if (!parts.some((archive) => archive.kind === 'full')) {
+    throw new Error('Incremental backups need their full backup - select it together with every part after it');
+  }
+
+  parts.sort((a, b) => a.sequence - b.sequence);
+  parts.forEach((archive, i) => {
+    const parentId = i === 0 ? null : parts[i - 1].archiveId;
+    if (archive.sequence !== i || archive.parentId !== parentId) {
+      throw new Error(`Backup chain is incomplete - part ${i} is missing`);
+    }
+  });
+
+  const blobs = new Map<string, string>();
+  const journals = new Map<string, BackupArchiveJournal>();
+  for (const archive of parts) {
+    for (const blob of archive.blobs ?? []) {
+      blobs.set(blob.hash, blob.chunks.join(''));
+    }
+    for (const journal of archive.journals) {
+      journals.set(journal.id, journal);
+    }
+    for (const tombstone of archive.tombstones ?? []) {
+      journals.delete(tombstone.id);
+    }
+  }
+
+  return [...journals.values()].map(({ imageRefs, ...journal }) => {
+    if (!imageRefs) return journal;
+    const images = imageRefs.map((hash) => {
+      const image = blobs.get(hash);
+      if (image === undefined || hashBlob(image) !== hash) {
+        throw new Error('Backup chain is missing image data or it is damaged');
+      }
+      return image;
+    });
+    return { ...journal, images };
+  });
+};
@@ -1,4 +1,6 @@
 import { Platform } from "react-native";
+import { clearBiometricKey } from "../services/biometricService";
+import { cancelBackupReminder } from "../services/notificationService";
 import { getVaultStorageProvider } from "../services/vaultStorageProvider";
 import { logout } from "../stores/slices/authSlice";
 import { Alert } from "./alert";
@@ -8,16 +10,27 @@ const VaultStorageProvider = getVaultStorageProvider()
 /**
  * Shows confirmation and destroys database if confirmed by the user
  * @param dispatch - accepts dispatch returned from useAppDispatch as useAppDispatch can not be invoked outside react component
+ * @param options.confirm - pass false to destroy without asking (e.g. wipe after too many failed unlocks)
  */
-export const handleDestroy = async (dispatch:any) => {
+export const handleDestroy = async (
+  dispatch: any,
+  options: { confirm?: boolean } = {},
+) => {
   console.log("inside handleDestroy...");
   const message = "⚠️ Are you sure you want to destroy Database?\nYou'll loss all your journals and Everything will be reset.";
   const callReset = async () => {
     await VaultStorageProvider.clearAllData()
+    await clearBiometricKey();
+    await cancelBackupReminder();
     // ResetStorage();
     dispatch(logout());
   };
 
+  if (options.confirm === false) {
+    await callReset();
+    return;
+  }
+
 
   if (Platform.OS === "web") {
     const wantToReset = confirm(message);
@@ -0,0 +1,23 @@
+// src/utils/integrity.ts
+import APP_CONFIG from '../config/appConfig';
+
+// AES-GCM authentication tag (128 bits)
+const GCM_TAG_SIZE = 16;
+
+/**
+ * True when a value has the shape of our AES-256-GCM output - hex of
+ * IV + ciphertext + tag. Says nothing about which key sealed it.
+ */
+export const isWellFormedCiphertext = (value: string): boolean => {
+  const minHexLength = (APP_CONFIG.IV_SIZE + GCM_TAG_SIZE + 1) * 2;
+  return value.length >= minHexLength && value.length % 2 === 0 && /^[0-9a-f]+$/i.test(value);
+};
+
+/**
+ * Short reason for a failed decryption, for integrity reports
+ */
+export const describeDecryptionFailure = (field: string, value: string): string => {
+  return isWellFormedCiphertext(value)
+    ? `${field}: authentication failed`
+    : `${field}: not valid ciphertext`;
+};
@@ -0,0 +1,77 @@
+// src/utils/journalPaging.ts
+import APP_CONFIG from '../config/appConfig';
+import type { Journal, JournalPage, JournalPageQuery, JournalSummary } from '../types';
+
+type JournalCursor = {
+  date: string;
+  id: string;
+};
+
+/**
+ * Opaque cursor pointing just after the given journal (newest-first order)
+ */
+export const encodeJournalCursor = (journal: Pick<Journal, 'date' | 'id'>): string => {
+  return JSON.stringify({ date: journal.date, id: journal.id });
+};
+
+export const decodeJournalCursor = (cursor?: string | null): JournalCursor | null => {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(cursor);
+    if (typeof parsed?.date === 'string' && typeof parsed?.id === 'string') {
+      return parsed;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+};
+
+/**
+ * Newest first, ties broken by id (same order as the SQLite pages)
+ */
+export const compareJournalsNewestFirst = (
+  a: Pick<Journal, 'date' | 'id'>,
+  b: Pick<Journal, 'date' | 'id'>
+): number => {
+  if (a.date !== b.date) return a.date < b.date ? 1 : -1;
+  if (a.id !== b.id) return a.id < b.id ? 1 : -1;
+  return 0;
+};
+
+/**
+ * Drop the images from a journal
+ */
+export const toJournalSummary = (journal: Journal | JournalSummary): JournalSummary => {
+  if (!('images' in journal)) {
+    return journal as JournalSummary;
+  }
+  const { images, ...rest } = journal as Journal;
+  return { ...rest, imageCount: images?.length ?? 0 };
+};
+
+/**
+ * Page through journals already held in memory (web storage keeps a single blob)
+ */
+export const paginateJournals = (journals: Journal[], query: JournalPageQuery = {}): JournalPage => {
+  const limit = query.limit ?? APP_CONFIG.JOURNAL_PAGE_SIZE;
+  const cursor = decodeJournalCursor(query.cursor);
+  const ids = query.ids ? new Set(query.ids) : null;
+
+  const matching = journals
+    .filter(
+      (j) =>
+        (!query.from || j.date >= query.from) &&
+        (!query.to || j.date < query.to) &&
+        (!ids || ids.has(j.id)) &&
+        (query.notebookId === undefined || j.notebookId === query.notebookId) &&
+        (!cursor || compareJournalsNewestFirst(cursor, j) < 0)
+    )
+    .sort(compareJournalsNewestFirst);
+
+  const page = matching.slice(0, limit);
+  return {
+    items: page.map(toJournalSummary),
+    nextCursor: matching.length > limit ? encodeJournalCursor(page[page.length - 1]) : null,
+  };
+};
@@ -0,0 +1,51 @@
+// src/utils/profileStorage.ts
+import APP_CONFIG from '../config/appConfig';
+
+/**
+ * Per-profile storage names
+ *
+ * Each profile has its own vault database, preferences store and storage keys.
+ * The default profile keeps the original names, so installs from before
+ * profiles existed open their vault unchanged.
+ */
+
+type StorageKeys = typeof APP_CONFIG.STORAGE_KEYS;
+
+// Profile whose storage is open (set when a profile is activated)
+let activeProfileId: string = APP_CONFIG.DEFAULT_PROFILE_ID;
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+export const setActiveProfileId = (profileId: string): void => {
+  activeProfileId = profileId;
+};
+
+const isDefaultProfile = (profileId: string): boolean =>
+  profileId === APP_CONFIG.DEFAULT_PROFILE_ID;
+
+/**
+ * "name.db" -> "name.<profileId>.db"
+ */
+const withProfileSuffix = (dbName: string, profileId: string): string =>
+  isDefaultProfile(profileId) ? dbName : dbName.replace(/\.db$/, `.${profileId}.db`);
+
+export const getVaultDbName = (profileId: string = activeProfileId): string =>
+  withProfileSuffix(APP_CONFIG.SQLITE_VAULT_DB_NAME, profileId);
+
+export const getPreferencesDbName = (profileId: string = activeProfileId): string =>
+  withProfileSuffix(APP_CONFIG.SQLITE_PREFERENCES_DB_NAME, profileId);
+
+/**
+ * STORAGE_KEYS with the profile id inserted after the prefix
+ */
+export const getProfileStorageKeys = (profileId: string = activeProfileId): StorageKeys => {
+  if (isDefaultProfile(profileId)) return APP_CONFIG.STORAGE_KEYS;
+
+  const prefix = APP_CONFIG.STORAGE_KEY_PREFIX;
+  return Object.fromEntries(
+    Object.entries(APP_CONFIG.STORAGE_KEYS).map(([name, key]) => [
+      name,
+      key.replace(prefix, `${prefix}_${profileId}`),
+    ])
+  ) as StorageKeys;
+};
@@ -0,0 +1,61 @@
+// src/utils/tags.ts
+import type { Journal } from '../types';
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize a user-entered tag: strip leading '#', collapse whitespace, lowercase.
+ * Returns an empty string when nothing usable remains.
+ */
+export const normalizeTag = (raw: string): string => {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+};
+
+/**
+ * Normalize, de-duplicate and drop empty tags (order preserved)
+ */
+export const normalizeTags = (tags: unknown): string[] => {
+  if (!Array.isArray(tags)) return [];
+
+  const result: string[] = [];
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue;
+    const normalized = normalizeTag(tag);
+    if (normalized && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+  }
+  return result;
+};
+
+/**
+ * Split free text such as "work, #ideas travel" into normalized tags
+ */
+export const parseTagInput = (text: string): string[] => {
+  return normalizeTags(text.split(/[,\s]+/));
+};
+
+/**
+ * All distinct tags used across journals, most used first
+ */
+export const collectTags = (journals: Pick<Journal, 'tags'>[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const journal of journals) {
+    for (const tag of journal.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+/**
+ * Display form of a tag ("#tag")
+ */
+export const formatTag = (tag: string): string => `#${tag}`;
@@ -0,0 +1,105 @@
+// src/utils/textDiff.ts
+
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+// Above this many LCS cells the changed region is shown as one replace
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Split into words and the whitespace between them, so joining gives back the input
+ */
+const splitTokens = (text: string): string[] => text.split(/(\s+)/).filter((t) => t.length > 0);
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff from `before` to `after`
+ * Common prefix/suffix are trimmed first, then the middle is diffed with LCS.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = splitTokens(before);
+  const b = splitTokens(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', midA.join(''));
+    pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushPart(parts, 'removed', midA[i]);
+        i++;
+      } else {
+        pushPart(parts, 'added', midB[j]);
+        j++;
+      }
+    }
+    pushPart(parts, 'removed', midA.slice(i).join(''));
+    pushPart(parts, 'added', midB.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
+
+/**
+ * Number of words added and removed in a diff
+ */
+export const countDiffWords = (parts: DiffPart[]): { added: number; removed: number } => {
+  let added = 0;
+  let removed = 0;
+  for (const part of parts) {
+    const words = part.text.split(/\s+/).filter((w) => w.length > 0).length;
+    if (part.type === 'added') added += words;
+    if (part.type === 'removed') removed += words;
+  }
+  return { added, removed };
+};
@@ -0,0 +1,21 @@
+// src/utils/trash.ts
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns';
+
+/**
+ * Journals deleted at or before this ISO timestamp are due for purging
+ */
+export const getTrashCutoff = (retentionDays: number, now: Date = new Date()): string => {
+  return subDays(now, retentionDays).toISOString();
+};
+
+/**
+ * Whole days left before a trashed journal is purged (0 = on the next purge)
+ */
+export const daysUntilPurge = (
+  deletedAt: string,
+  retentionDays: number,
+  now: Date = new Date()
+): number => {
+  const purgeAt = addDays(new Date(deletedAt), retentionDays);
+  return Math.max(0, differenceInCalendarDays(purgeAt, now));
+};